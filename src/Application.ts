@@ -2,11 +2,12 @@
  * CanxJS - Main Application Class
  */
 
-import type { ServerConfig, MiddlewareHandler, HttpMethod, CanxApplication, RouterInstance, Plugin } from './types';
+import type { ServerConfig, ServerRequestMeta, MiddlewareHandler, HttpMethod, CanxApplication, RouterInstance, Plugin } from './types';
 import { Server, createCanxRequest, createCanxResponse } from './core/Server';
-import { Router, createRouter } from './core/Router';
+import { Router, createRouter, ROUTE_CACHE_PATH } from './core/Router';
 import { MiddlewarePipeline } from './core/Middleware';
-import { getControllerMeta } from './mvc/Controller';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
 import { container } from './container/Container';
 
 export class Canx implements CanxApplication {
@@ -25,6 +26,13 @@ export class Canx implements CanxApplication {
       ...config,
     };
     this.router = createRouter();
+
+    // Outside development, controllers cached by `canx optimize` are
+    // registered without scanning their decorators
+    const routeCache = join(process.cwd(), ROUTE_CACHE_PATH);
+    if (!this.config.development && existsSync(routeCache)) {
+      this.router.useCompiled(JSON.parse(readFileSync(routeCache, 'utf-8')));
+    }
     
     // Bind Router to Container for global helpers
     // Bind Router to Container for global helpers
@@ -62,30 +70,9 @@ export class Canx implements CanxApplication {
    * Register controller
    */
   controller(ControllerClass: new () => any): this {
-    const instance = new ControllerClass();
-    // Decorators store metadata on the class PROTOTYPE (that's the `target` a
-    // method decorator receives), not on an instance. Looking it up on an
-    // instance is a WeakMap miss and silently registers zero routes.
-    const meta = getControllerMeta(ControllerClass.prototype);
-
-    meta.routes.forEach((routeInfo, methodName) => {
-      const path = meta.prefix + routeInfo.path;
-      const handler = async (req: any, res: any) => {
-        // setContext only exists on BaseController subclasses; plain @Controller
-        // classes are still supported (their method receives req, res directly).
-        if (typeof instance.setContext === 'function') {
-          instance.setContext(req, res);
-        }
-        return instance[methodName](req, res);
-      };
-
-      const method = routeInfo.method.toLowerCase() as keyof Router;
-      if (typeof this.router[method] === 'function') {
-        // Class-level @Middleware applies to every action.
-        (this.router as any)[method](path, ...meta.middlewares, ...routeInfo.middlewares, handler);
-      }
-    });
-
+    // Decorators store metadata on the class PROTOTYPE; registerController
+    // reads it there, or uses the route cache from `canx optimize`.
+    this.router.registerController(ControllerClass);
     return this;
   }
 
@@ -126,15 +113,15 @@ export class Canx implements CanxApplication {
     const { scheduler } = await import('./features/Scheduler');
     scheduler.start();
 
-    this.server = new Server(this.config, (req) => this.handle(req));
+    this.server = new Server(this.config, (req, meta) => this.handle(req, meta));
     await this.server.listen(callback);
   }
 
   /**
    * Handle a raw request (internal or for testing)
    */
-  async handle(rawReq: Request): Promise<Response> {
-    const req = createCanxRequest(rawReq);
+  async handle(rawReq: Request, meta: ServerRequestMeta = {}): Promise<Response> {
+    const req = createCanxRequest(rawReq, {}, { trustProxy: this.config.trustProxy, proxyHeader: this.config.proxyHeader, ...meta });
     const res = createCanxResponse();
 
     // Sentinel returned by the final handler when no route matched. This lets
@@ -145,7 +132,9 @@ export class Canx implements CanxApplication {
 
     try {
       // Match route (may be null — global middleware still gets a chance)
-      const match = this.router.match(req.method, req.path);
+      // The host (X-Forwarded-Host behind trusted proxies) picks domain routes
+      const host = req.hostname;
+      const match = this.router.match(req.method, req.path, host);
       if (match) {
         Object.assign(req.params, match.params);
       }
@@ -155,8 +144,18 @@ export class Canx implements CanxApplication {
       const postMiddlewares = (this.postPipeline as any).middlewares || [];
       const routeMiddlewares = match ? [...match.middlewares, ...postMiddlewares] : [];
 
+      // Route model binding runs after middleware (so auth sees the request
+      // first), but its 404s must reach the ErrorHandler rather than the
+      // pipeline's catch-all 500, so they are carried out of the pipeline.
+      let bindingError: unknown = null;
       const finalHandler = async (): Promise<any> => {
         if (!match) return NOT_HANDLED;
+        try {
+          await this.router.resolveBindings(match, req);
+        } catch (error) {
+          bindingError = error;
+          return NOT_HANDLED;
+        }
         return match.handler(req, res);
       };
 
@@ -164,10 +163,17 @@ export class Canx implements CanxApplication {
       // The pipeline is typed to return Response, but handlers may return raw
       // values (string/object) or our NOT_HANDLED sentinel, so treat as any.
       const result: any = await this.pipeline.execute(req, res, routeMiddlewares, finalHandler);
+      if (bindingError) throw bindingError;
 
       // Nothing produced a response for an unmatched route -> surface a 404
-      // to the Server's ErrorHandler (which renders a proper 404 page).
+      // to the Server's ErrorHandler (which renders a proper 404 page), or a
+      // 405 when the path exists under other methods.
       if (result === NOT_HANDLED) {
+        const allowed = this.router.allowedMethods(req.path, host);
+        if (allowed.length > 0) {
+          const { MethodNotAllowedException } = await import('./core/exceptions/MethodNotAllowedException');
+          throw new MethodNotAllowedException(allowed);
+        }
         const { NotFoundException } = await import('./core/exceptions/NotFoundException');
         throw new NotFoundException(`Route not found: ${req.method} ${req.path}`);
       }
@@ -3,16 +3,51 @@ import { existsSync, readdirSync } from 'fs';
 import pc from 'picocolors';
 import type { Command } from '../Command';
 import { migrator } from '../../database/Migration';
+import { schemaDumpPath } from '../../database/SchemaDump';
 import { seeder } from '../../database/Seeder';
 import { initDatabase } from '../../mvc/Model';
 
+const ACTIONS: Record<string, string> = {
+  status: 'Show which migrations have run, with their batch numbers',
+  rollback: 'Roll back the last batch (--step=N, --batch=N, --pretend)',
+  reset: 'Roll back every migration (--pretend)',
+  refresh: 'Roll back and re-run every migration (--step=N, --seed, --pretend)',
+  fresh: 'Drop all tables and re-run every migration (--seed)',
+};
+
 export class MigrateCommand implements Command {
-  signature = 'migrate [action]';
-  description = 'Run database migrations. Actions: run (default), rollback, fresh, status';
+  signature: string;
+  description: string;
+  private action?: string;
+
+  /**
+   * `new MigrateCommand()` registers `migrate [action]`; passing an action
+   * registers the `migrate:<action>` alias (e.g. `canx migrate:status`).
+   */
+  constructor(action?: string) {
+    this.action = action;
+    this.signature = action ? `migrate:${action}` : 'migrate [action]';
+    this.description = action
+      ? ACTIONS[action]!
+      : 'Run database migrations. Actions: run (default), status, rollback, reset, refresh, fresh. Use --pretend to print SQL';
+  }
 
   async handle(args: string[], flags: Record<string, any>) {
-    const action = args[0] || 'run';
+    const action = this.action || args[0] || 'run';
     const cwd = process.cwd();
+    const pretend = !!flags.pretend;
+    const step = flags.step !== undefined ? Number(flags.step) : undefined;
+    const batch = flags.batch !== undefined ? Number(flags.batch) : undefined;
+
+    if ((step !== undefined && !(Number.isInteger(step) && step > 0)) ||
+        (batch !== undefined && !(Number.isInteger(batch) && batch > 0))) {
+      console.error(pc.red('--step and --batch must be positive integers.'));
+      return;
+    }
+    if (pretend && action === 'fresh') {
+      console.error(pc.red('migrate fresh drops every table and cannot --pretend. Use migrate refresh --pretend.'));
+      return;
+    }
 
     // 1. Load Database Config
     const configPath = join(cwd, 'src/config/database.ts');
@@ -43,6 +78,10 @@ export class MigrateCommand implements Command {
       return;
     }
 
+    // A schema dump (`canx schema:dump`) is loaded into an empty database
+    // before running, so only migrations added after the dump replay.
+    migrator.useSchemaDump(typeof flags['schema-path'] === 'string' ? join(cwd, flags['schema-path']) : schemaDumpPath(cwd));
+
     // 3. Load Migrations
     const migrationDir = join(cwd, 'src/database/migrations');
     if (!existsSync(migrationDir)) {
@@ -67,32 +106,38 @@ export class MigrateCommand implements Command {
     try {
       switch (action) {
         case 'run':
-          await migrator.run();
+          await migrator.run({ pretend });
           break;
         case 'rollback':
-          await migrator.rollback();
+          await migrator.rollback({ step, batch, pretend });
           break;
         case 'fresh':
           await migrator.fresh();
           // `canx migrate fresh --seed` runs seeders right after rebuilding.
-          if (flags.seed) {
-            const seederDir = join(cwd, 'src/database/seeders');
-            if (existsSync(seederDir)) {
-              const seederFiles = readdirSync(seederDir).filter(f => f.endsWith('.ts') || f.endsWith('.js')).sort();
-              for (const f of seederFiles) await import(join(seederDir, f));
-              await seeder.run();
-            }
-          }
+          if (flags.seed) await this.seed(cwd);
+          break;
+        case 'refresh':
+          await migrator.refresh({ step, pretend });
+          if (flags.seed && !pretend) await this.seed(cwd);
           break;
         case 'reset':
-          await migrator.reset();
+          await migrator.reset({ pretend });
           break;
-        case 'status':
+        case 'status': {
           const status = await migrator.status();
-          console.table(status);
+          if (status.length === 0) {
+            console.log(pc.yellow('No migrations registered.'));
+            break;
+          }
+          for (const entry of status) {
+            const state = entry.ran ? pc.green('Ran    ') : pc.yellow('Pending');
+            const batchLabel = entry.batch !== null ? pc.dim(`[batch ${entry.batch}]`) : '';
+            console.log(`  ${state}  ${entry.name} ${batchLabel}`);
+          }
           break;
+        }
         default:
-          console.error(pc.red(`Unknown action "${action}". Use run, rollback, fresh, reset, or status.`));
+          console.error(pc.red(`Unknown action "${action}". Use run, status, rollback, reset, refresh, or fresh.`));
       }
     } catch (e: any) {
        console.error(pc.red(`Migration failed:`), e);
@@ -100,4 +145,12 @@ export class MigrateCommand implements Command {
     
     process.exit(0);
   }
+
+  private async seed(cwd: string) {
+    const seederDir = join(cwd, 'src/database/seeders');
+    if (!existsSync(seederDir)) return;
+    const seederFiles = readdirSync(seederDir).filter(f => f.endsWith('.ts') || f.endsWith('.js')).sort();
+    for (const f of seederFiles) await import(join(seederDir, f));
+    await seeder.run();
+  }
 }
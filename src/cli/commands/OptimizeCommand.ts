@@ -1,21 +1,61 @@
-
 import type { Command } from '../Command';
+import { dirname, join, relative } from 'path';
+import { existsSync, mkdirSync, unlinkSync, writeFileSync } from 'fs';
 import { autoCache } from '../../features/AutoCache';
+import { ROUTE_CACHE_PATH } from '../../core/Router';
+import { config, CONFIG_CACHE_PATH } from '../../config/ConfigManager';
+import { loadApplication } from './RouteListCommand';
 import pc from 'picocolors';
 
+/**
+ * optimize — clear runtime caches and cache the route table and config.
+ *   canx optimize           write bootstrap/cache/routes.json and config.json
+ *   canx optimize --clear   delete them again
+ *
+ * The route cache holds the controller routes, so a production boot skips
+ * scanning their decorators; controllers using middleware without a
+ * `router.aliasMiddleware()` name are left out and scanned as before. The
+ * config cache holds the merged ConfigManager config. Run it again after
+ * changing routes or config.
+ */
 export class OptimizeCommand implements Command {
   signature = 'optimize';
-  description = 'Optimize the framework (clear caches, etc)';
+  description = 'Cache the route table and config (--clear removes the caches)';
 
-  async handle() {
+  async handle(args: string[] = [], flags: Record<string, any> = {}) {
     console.log(pc.blue('Optimizing CanxJS...'));
-    
+    const cwd = process.cwd();
+    const routeCache = join(cwd, ROUTE_CACHE_PATH);
+    const configCache = join(cwd, CONFIG_CACHE_PATH);
+
     // Clear AutoCache
     autoCache.clear();
     console.log(pc.green('✔ AutoCache cleared'));
-    
-    // In the future: Compile routes, cache config, etc.
-    
+
+    // Stale caches would be loaded back by the app we are about to import
+    for (const file of [routeCache, configCache]) {
+      if (existsSync(file)) unlinkSync(file);
+    }
+    if (flags.clear) {
+      console.log(pc.green('✔ Route and config caches cleared'));
+      return;
+    }
+
+    const loaded = await loadApplication();
+    if (!loaded) {
+      console.error(pc.red('Could not find Canx application instance.'));
+      console.error(pc.yellow('Make sure your entry file (e.g., src/server.ts) exports the "app" instance.'));
+      return;
+    }
+
+    const table = loaded.app.router.compile();
+    mkdirSync(dirname(routeCache), { recursive: true });
+    writeFileSync(routeCache, JSON.stringify(table, null, 2));
+    console.log(pc.green(`✔ ${table.routes.length} controller route(s) cached in ${relative(cwd, routeCache)}`));
+
+    config().writeCache(configCache);
+    console.log(pc.green(`✔ Config cached in ${relative(cwd, configCache)}`));
+
     console.log(pc.green('Optimization completed successfully.'));
   }
 }
@@ -0,0 +1,70 @@
+import { join } from 'path';
+import { existsSync } from 'fs';
+import pc from 'picocolors';
+import type { Command } from '../Command';
+import { findProjectionManager } from '../../cqrs/EventSourcing';
+import { initDatabase } from '../../mvc/Model';
+
+/**
+ * projection:rebuild — replay the event stream into a projection.
+ *   canx projection:rebuild <name>               rebuild from the start of the stream
+ *   canx projection:rebuild <name> --from=1200   resume from a checkpoint at or before position 1200
+ *   canx projection:rebuild <name> --file=src/read-models.ts
+ *
+ * Projections are found by importing the file that registers them
+ * (`--file`, else src/projections.ts or src/cqrs/projections.ts).
+ */
+export class ProjectionRebuildCommand implements Command {
+  signature = 'projection:rebuild <name>';
+  description = 'Rebuild a projection from the event stream (--from=<position>)';
+
+  async handle(args: string[], flags: Record<string, any>) {
+    const cwd = process.cwd();
+    const name = args[0];
+    if (!name) {
+      console.error(pc.red('Usage: canx projection:rebuild <name> [--from=<position>]'));
+      process.exitCode = 1;
+      return;
+    }
+
+    // 1. Connect when the app has a database config (SQL event stores need it).
+    const configPath = join(cwd, 'src/config/database.ts');
+    const jsConfigPath = join(cwd, 'src/config/database.js');
+    try {
+      const path = existsSync(configPath) ? configPath : existsSync(jsConfigPath) ? jsConfigPath : null;
+      if (path) await initDatabase((await import(path)).default);
+    } catch (e: any) {
+      console.error(pc.red(`Database connection failed: ${e.message}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    // 2. Load the projection definitions.
+    const candidates = flags.file ? [String(flags.file)] : ['src/projections.ts', 'src/cqrs/projections.ts'];
+    for (const file of candidates) {
+      const fullPath = join(cwd, file);
+      if (existsSync(fullPath)) {
+        await import(fullPath);
+        break;
+      }
+    }
+
+    const manager = findProjectionManager(name);
+    if (!manager) {
+      console.error(pc.red(`Projection "${name}" is not registered.`));
+      process.exitCode = 1;
+      return;
+    }
+
+    // 3. Rebuild.
+    const from = flags.from !== undefined ? Number(flags.from) : 0;
+    console.log(pc.gray(`Rebuilding ${name} from position ${from}...`));
+    try {
+      await manager.rebuild(name, from);
+      console.log(pc.green(`Projection ${name} rebuilt up to position ${manager.getPosition(name)}.`));
+    } catch (e: any) {
+      console.error(pc.red(`Rebuild of ${name} stopped at position ${manager.getPosition(name)}: ${e.message}`));
+      process.exitCode = 1;
+    }
+  }
+}
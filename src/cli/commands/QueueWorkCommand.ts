@@ -3,10 +3,19 @@ import { existsSync, readdirSync } from 'fs';
 import pc from 'picocolors';
 import type { Command } from '../Command';
 import { queue } from '../../queue/Queue';
+import type { WorkerOptions } from '../../queue/Queue';
 
+/**
+ * queue:work — run a queue worker.
+ *   canx queue:work --queue=high,default     strict priority order
+ *   canx queue:work --queue=high:3,default:1 weighted polling
+ *   canx queue:work --concurrency=10         run up to 10 handlers at once
+ *   canx queue:work --max-jobs=500 --max-time=3600 --memory=256
+ *                                            exit after 500 jobs, an hour, or 256MB RSS
+ */
 export class QueueWorkCommand implements Command {
   signature = 'queue:work';
-  description = 'Start the queue worker';
+  description = 'Start the queue worker (--queue, --concurrency, --max-jobs, --max-time, --memory, --sleep)';
 
   async handle(args: string[], flags: Record<string, any>) {
     const cwd = process.cwd();
@@ -41,18 +50,35 @@ export class QueueWorkCommand implements Command {
     }
 
     // 3. Start
+    const options: WorkerOptions = {
+      queues: typeof flags.queue === 'string' ? flags.queue : undefined,
+      concurrency: this.number(flags, 'concurrency'),
+      maxJobs: this.number(flags, 'max-jobs'),
+      maxTime: this.number(flags, 'max-time'),
+      memory: this.number(flags, 'memory'),
+      sleep: flags.sleep !== undefined ? this.number(flags, 'sleep')! * 1000 : undefined,
+    };
+
+    // Graceful shutdown: stop polling and let in-flight jobs finish.
+    const shutdown = async () => {
+      console.log(pc.yellow('\n[Queue] Stopping (waiting for in-flight jobs)...'));
+      await queue.stop();
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+
     console.log(pc.green('[Queue] Starting worker...'));
-    queue.start();
-    
-    // Keep alive? Queue.start() might be async or just setup timers.
-    // Queue.ts start() sets running=true and calls process() which sets timeouts.
-    // Node process won't exit if there are active timeouts.
-    
-    // Handle graceful shutdown
-    process.on('SIGINT', () => {
-        console.log(pc.yellow('\n[Queue] Stopping...'));
-        queue.stop();
-        process.exit(0);
-    });
+    // Resolves once the worker stops, whether by signal or a --max-* limit.
+    await queue.start(options);
+    process.exit(0);
+  }
+
+  private number(flags: Record<string, any>, name: string): number | undefined {
+    if (flags[name] === undefined) return undefined;
+    const value = Number(flags[name]);
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`--${name} must be a positive number`);
+    }
+    return value;
   }
 }
@@ -1,55 +1,57 @@
-import { join, resolve } from 'path';
+import { join } from 'path';
 import { existsSync } from 'fs';
 import pc from 'picocolors';
 import type { Command } from '../Command';
 import type { Canx } from '../../Application';
 
-export class RouteListCommand implements Command {
-  signature = 'route:list';
-  description = 'List all registered routes';
+/**
+ * Import the app entry file and return the Canx instance it exports as `app`
+ * or default, with the file it came from. Returns null when none is found.
+ */
+export async function loadApplication(): Promise<{ app: Canx; file: string } | null> {
+  const cwd = process.cwd();
 
-  async handle(args: string[], flags: Record<string, any>) {
-    const cwd = process.cwd();
-    
-    // Try to find the app entry point
-    const candidates = [
-      'src/server.ts', 'server.ts',
-      'src/index.ts', 'index.ts',
-      'src/main.ts', 'main.ts',
-      'src/app.ts', 'app.ts'
-    ];
-
-    let app: Canx | null = null;
-    let loadedFile = '';
+  // Try to find the app entry point
+  const candidates = [
+    'src/server.ts', 'server.ts',
+    'src/index.ts', 'index.ts',
+    'src/main.ts', 'main.ts',
+    'src/app.ts', 'app.ts'
+  ];
 
-    for (const file of candidates) {
-      const fullPath = join(cwd, file);
-      if (existsSync(fullPath)) {
-        try {
-          const mod = await import(fullPath);
-          // Check for 'app' or default export that looks like Canx
-          if (mod.app && mod.app.router) {
-            app = mod.app;
-          } else if (mod.default && mod.default.router) {
-            app = mod.default;
-          }
-          
-          if (app) {
-            loadedFile = file;
-            break;
-          }
-        } catch (e) {
-          // Ignore import errors, try next
-          // console.error(e);
+  for (const file of candidates) {
+    const fullPath = join(cwd, file);
+    if (existsSync(fullPath)) {
+      try {
+        const mod = await import(fullPath);
+        // Check for 'app' or default export that looks like Canx
+        if (mod.app && mod.app.router) {
+          return { app: mod.app, file };
+        } else if (mod.default && mod.default.router) {
+          return { app: mod.default, file };
         }
+      } catch (e) {
+        // Ignore import errors, try next
+        // console.error(e);
       }
     }
+  }
+  return null;
+}
+
+export class RouteListCommand implements Command {
+  signature = 'route:list';
+  description = 'List all registered routes';
+
+  async handle(args: string[], flags: Record<string, any>) {
+    const loaded = await loadApplication();
 
-    if (!app) {
+    if (!loaded) {
       console.error(pc.red('Could not find Canx application instance.'));
       console.error(pc.yellow('Make sure your entry file (e.g., src/server.ts) exports the "app" instance.'));
       return;
     }
+    const { app, file: loadedFile } = loaded;
 
     console.log(pc.gray(`Loaded application from ${loadedFile}`));
 
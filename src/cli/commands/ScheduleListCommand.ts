@@ -0,0 +1,35 @@
+import pc from 'picocolors';
+import type { Command } from '../Command';
+import { scheduler } from '../../features/Scheduler';
+import { loadSchedule } from './ScheduleRunCommand';
+
+export class ScheduleListCommand implements Command {
+  signature = 'schedule:list';
+  description = 'List scheduled tasks and their next run times';
+
+  async handle(args: string[], flags: Record<string, any>) {
+    const loaded = await loadSchedule(flags);
+    scheduler.stop();
+    if (loaded) console.log(pc.gray(`Loaded schedule from ${loaded}`));
+
+    const tasks = scheduler.list();
+    if (tasks.length === 0) {
+      console.warn(pc.yellow('No scheduled tasks.'));
+      return;
+    }
+
+    console.log('\n' + pc.bold('Scheduled Tasks:'));
+    console.log('------------------------------------------------------------');
+    for (const task of tasks) {
+      const flagsText = [task.onOneServer && 'one server', task.withoutOverlapping && 'no overlap'].filter(Boolean).join(', ');
+      const next = task.nextRun ? task.nextRun.toISOString() : 'never';
+      console.log(
+        pc.cyan(task.schedule.padEnd(16)) +
+        pc.white(task.name.padEnd(36)) +
+        pc.gray(`Next: ${next} (${task.timezone})`) +
+        (flagsText ? pc.yellow(` [${flagsText}]`) : '')
+      );
+    }
+    console.log('------------------------------------------------------------\n');
+  }
+}
@@ -1,24 +1,42 @@
-
+import { join } from 'path';
+import { existsSync } from 'fs';
 import type { Command } from '../Command';
 import { scheduler } from '../../features/Scheduler';
 import pc from 'picocolors';
 
+/**
+ * Import the file that registers scheduled tasks: `--file`, else the first of
+ * the usual locations. Returns the loaded path, or null when none exists.
+ */
+export async function loadSchedule(flags: Record<string, any>): Promise<string | null> {
+  const cwd = process.cwd();
+  const candidates = flags.file
+    ? [String(flags.file)]
+    : ['src/schedule.ts', 'src/console.ts', 'routes/console.ts', 'schedule.ts'];
+
+  for (const file of candidates) {
+    const fullPath = join(cwd, file);
+    if (existsSync(fullPath)) {
+      await import(fullPath);
+      return file;
+    }
+  }
+  return null;
+}
+
 export class ScheduleRunCommand implements Command {
   signature = 'schedule:run';
   description = 'Run the scheduled tasks';
 
-  async handle() {
+  async handle(args: string[], flags: Record<string, any> = {}) {
     console.log(pc.gray('Running scheduled tasks...'));
-    // We assume tasks are registered in the application entry point.
-    // However, when running via CLI, we might need to boot the app/kernel to register tasks?
-    // In CanxJS, tasks might be defined in `routes/console.ts` or similar?
-    // For now, we assume the environment is loaded.
-    
+
     try {
-        scheduler.run(); 
-        // Note: run() is async-ish (runTask is async but tick is sync loop).
-        // Since we don't await the tasks in tick currently, this might finish effectively immediately.
-        // But for a system cron, that's usually fine.
+        // Tasks are registered by the schedule file (or an already-loaded app).
+        await loadSchedule(flags);
+        // Registering tasks starts the ticker; this run is a one-shot.
+        scheduler.stop();
+        await scheduler.run();
         console.log(pc.green('Schedule run completed.'));
     } catch (e: any) {
         console.error(pc.red('Schedule run failed:'), e.message);
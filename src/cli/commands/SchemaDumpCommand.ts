@@ -0,0 +1,82 @@
+import { join, relative } from 'path';
+import { existsSync, readdirSync, unlinkSync } from 'fs';
+import pc from 'picocolors';
+import type { Command } from '../Command';
+import { migrator } from '../../database/Migration';
+import { writeSchemaDump, schemaDumpPath } from '../../database/SchemaDump';
+import { initDatabase } from '../../mvc/Model';
+
+/**
+ * schema:dump — snapshot the database schema into one SQL file.
+ *   canx schema:dump                  write src/database/schema/<driver>-schema.sql
+ *   canx schema:dump --path=file.sql  write to a custom location
+ *   canx schema:dump --prune          also delete the migration files the dump covers
+ *
+ * `canx migrate` loads the dump into an empty database and then runs only the
+ * migrations added after it.
+ */
+export class SchemaDumpCommand implements Command {
+  signature = 'schema:dump';
+  description = 'Dump the database schema to a SQL file (--prune deletes covered migrations)';
+
+  async handle(args: string[], flags: Record<string, any>) {
+    const cwd = process.cwd();
+
+    // 1. Load database config (same convention as `canx migrate`).
+    const configPath = join(cwd, 'src/config/database.ts');
+    const jsConfigPath = join(cwd, 'src/config/database.js');
+    let dbConfig: any;
+    try {
+      if (existsSync(configPath)) dbConfig = (await import(configPath)).default;
+      else if (existsSync(jsConfigPath)) dbConfig = (await import(jsConfigPath)).default;
+      else {
+        console.error(pc.red('Config file src/config/database.{ts,js} not found.'));
+        return;
+      }
+    } catch (e) {
+      console.error(pc.red('Failed to load database config:'), e);
+      return;
+    }
+
+    // 2. Connect.
+    try {
+      await initDatabase(dbConfig);
+    } catch (e: any) {
+      console.error(pc.red(`Database connection failed: ${e.message}`));
+      return;
+    }
+
+    // 3. Dump.
+    const path = typeof flags.path === 'string' ? join(cwd, flags.path) : schemaDumpPath(cwd);
+    await writeSchemaDump(path);
+    console.log(pc.green(`Schema dumped to ${relative(cwd, path)}`));
+
+    // 4. Optionally squash: delete migration files whose migrations all ran.
+    if (flags.prune) {
+      const pruned = await this.prune(join(cwd, 'src/database/migrations'));
+      console.log(pc.green(`Pruned ${pruned} migration file(s).`));
+    }
+
+    process.exit(0);
+  }
+
+  private async prune(migrationDir: string): Promise<number> {
+    if (!existsSync(migrationDir)) return 0;
+    const executed = new Set(await migrator.getExecuted());
+    const files = readdirSync(migrationDir).filter(f => f.endsWith('.ts') || f.endsWith('.js')).sort();
+
+    let pruned = 0;
+    for (const file of files) {
+      // Each file registers its migrations via defineMigration() on import.
+      const before = migrator.getMigrationNames().length;
+      await import(join(migrationDir, file));
+      const names = migrator.getMigrationNames().slice(before);
+
+      if (names.length > 0 && names.every(name => executed.has(name))) {
+        unlinkSync(join(migrationDir, file));
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+}
@@ -5,11 +5,14 @@ export type { Command };
 // Core Commands
 import { MigrateCommand } from './commands/MigrateCommand';
 import { SeedCommand } from './commands/SeedCommand';
+import { SchemaDumpCommand } from './commands/SchemaDumpCommand';
 import { QueueWorkCommand } from './commands/QueueWorkCommand';
 import { MakeGenerator } from './commands/MakeCommand';
 import { RouteListCommand } from './commands/RouteListCommand';
 import { TestCommand } from './commands/TestCommand';
 import { ScheduleRunCommand } from './commands/ScheduleRunCommand';
+import { ScheduleListCommand } from './commands/ScheduleListCommand';
+import { ProjectionRebuildCommand } from './commands/ProjectionRebuildCommand';
 import { OptimizeCommand } from './commands/OptimizeCommand';
 import { DashboardCommand } from './commands/Dashboard';
 import { HelpCommand } from './commands/HelpCommand';
@@ -27,12 +30,18 @@ export class Console {
       this.register(new HelpCommand());
       this.register(new ListCommand());
       this.register(new MigrateCommand());
+      for (const action of ['status', 'rollback', 'reset', 'refresh', 'fresh']) {
+        this.register(new MigrateCommand(action));
+      }
       this.register(new SeedCommand());
+      this.register(new SchemaDumpCommand());
       this.register(new QueueWorkCommand());
       this.register(new DashboardCommand());
       this.register(new RouteListCommand());
       this.register(new TestCommand());
       this.register(new ScheduleRunCommand());
+      this.register(new ScheduleListCommand());
+      this.register(new ProjectionRebuildCommand());
       this.register(new OptimizeCommand());
       this.register(new TinkerCommand());
       this.register(new DownCommand());
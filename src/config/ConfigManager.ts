@@ -4,7 +4,8 @@
  */
 
 import { readFile } from 'fs/promises';
-import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
 
 // ============================================
 // Types
@@ -14,6 +15,9 @@ export interface ConfigValue {
   [key: string]: ConfigValue | string | number | boolean | null | ConfigValue[];
 }
 
+/** Config cache written by `canx optimize`, relative to the project root */
+export const CONFIG_CACHE_PATH = 'bootstrap/cache/config.json';
+
 // ============================================
 // Config Manager
 // ============================================
@@ -21,6 +25,7 @@ export interface ConfigValue {
 export class ConfigManager {
   private config: ConfigValue = {};
   private cache: Map<string, unknown> = new Map();
+  private cached = false;
 
   /**
    * Load config from object
@@ -34,6 +39,7 @@ export class ConfigManager {
    * Load config from JSON file
    */
   async loadFile(filePath: string): Promise<void> {
+    if (this.cached) return;
     try {
       const content = await readFile(filePath, 'utf-8');
       const parsed = JSON.parse(content);
@@ -47,6 +53,7 @@ export class ConfigManager {
    * Load config from directory (loads all .json files)
    */
   async loadDirectory(dirPath: string): Promise<void> {
+    if (this.cached) return;
     try {
       const fs = await import('fs/promises');
       const files = await fs.readdir(dirPath);
@@ -64,6 +71,36 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Load the merged config written by `writeCache()`. While a cache is
+   * loaded, `loadFile()` and `loadDirectory()` are skipped. Returns false
+   * when there is no cache file.
+   */
+  loadCache(filePath: string = join(process.cwd(), CONFIG_CACHE_PATH)): boolean {
+    if (!existsSync(filePath)) return false;
+    this.config = JSON.parse(readFileSync(filePath, 'utf-8'));
+    this.cache.clear();
+    this.cached = true;
+    return true;
+  }
+
+  /**
+   * Write the merged config to the cache file. Values read from the
+   * environment are stored as resolved at this point.
+   */
+  writeCache(filePath: string = join(process.cwd(), CONFIG_CACHE_PATH)): string {
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(this.config, null, 2));
+    return filePath;
+  }
+
+  /**
+   * Whether the config came from the cache file
+   */
+  isCached(): boolean {
+    return this.cached;
+  }
+
   /**
    * Get config value using dot notation
    */
@@ -185,7 +222,8 @@ let configInstance: ConfigManager | null = null;
  */
 export function initConfig(initialConfig?: ConfigValue): ConfigManager {
   configInstance = new ConfigManager();
-  if (initialConfig) {
+  // A config cache from `canx optimize` already holds the merged config
+  if (!configInstance.loadCache() && initialConfig) {
     configInstance.load(initialConfig);
   }
   return configInstance;
@@ -199,6 +237,7 @@ export function config<T>(key: string, defaultValue?: T): T;
 export function config<T>(key?: string, defaultValue?: T): ConfigManager | T {
   if (!configInstance) {
     configInstance = new ConfigManager();
+    configInstance.loadCache();
   }
   
   if (key === undefined) {
@@ -0,0 +1,212 @@
+/**
+ * CanxJS Compression - Accept-Encoding negotiation and response compression
+ */
+
+import { brotliCompressSync, constants as zlibConstants } from 'node:zlib';
+import type { CompressionConfig, CompressionEncoding } from '../types';
+
+const DEFAULT_THRESHOLD = 1024;
+
+// CompressionStream names for the streaming path
+const STREAM_FORMATS: Record<CompressionEncoding, Bun.CompressionFormat> = {
+  br: 'brotli',
+  zstd: 'zstd',
+  gzip: 'gzip',
+};
+
+// Bun's CompressionStream also takes 'brotli' and 'zstd'; lib.dom only knows the deflate family
+const BunCompressionStream = CompressionStream as unknown as new (format: Bun.CompressionFormat) => TransformStream<Uint8Array, Uint8Array>;
+
+const COMPRESSIBLE_TYPES = /^(text\/|application\/(json|javascript|xml|x-javascript|ld\+json|manifest\+json|graphql-response\+json|problem\+json|vnd\.api\+json)|image\/svg\+xml)/i;
+
+/**
+ * Encodings this runtime can produce, in default server preference order
+ */
+function supportedEncodings(): CompressionEncoding[] {
+  const encodings: CompressionEncoding[] = ['br'];
+  // Older Bun releases lack zstd
+  if (typeof Bun.zstdCompressSync === 'function') {
+    encodings.push('zstd');
+  }
+  encodings.push('gzip');
+  return encodings;
+}
+
+/**
+ * Whether a content type is worth compressing by default
+ */
+export function isCompressible(contentType: string): boolean {
+  // Server-sent events must be flushed per event, never buffered
+  if (contentType.includes('text/event-stream')) return false;
+  return COMPRESSIBLE_TYPES.test(contentType);
+}
+
+/**
+ * Pick the best encoding from an Accept-Encoding header.
+ * Client q-values win; ties fall back to the server preference order.
+ */
+export function negotiateEncoding(
+  acceptEncoding: string | null,
+  available: CompressionEncoding[] = supportedEncodings()
+): CompressionEncoding | null {
+  if (!acceptEncoding) return null;
+
+  const weights = new Map<string, number>();
+  for (const part of acceptEncoding.split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    if (!name) continue;
+    let q = 1;
+    for (const param of params) {
+      const [key, value] = param.trim().split('=');
+      if (key === 'q') q = Number(value) || 0;
+    }
+    weights.set(name, q);
+  }
+
+  let best: CompressionEncoding | null = null;
+  let bestWeight = 0;
+  for (const encoding of available) {
+    const weight = weights.get(encoding) ?? weights.get('*') ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+/**
+ * Compress a buffer with the given encoding
+ */
+export function compress(data: Uint8Array<ArrayBuffer>, encoding: CompressionEncoding): Uint8Array<ArrayBuffer> {
+  switch (encoding) {
+    case 'br':
+      return new Uint8Array(brotliCompressSync(data, {
+        params: { [zlibConstants.BROTLI_PARAM_QUALITY]: 4 },
+      }));
+    case 'zstd':
+      return new Uint8Array(Bun.zstdCompressSync(data));
+    case 'gzip':
+      return Bun.gzipSync(data);
+  }
+}
+
+/**
+ * Compress a response when the client accepts it and the body qualifies.
+ * Chunked streams, event streams and already-encoded bodies pass through untouched.
+ * A body without Content-Length is read only up to the threshold: if it ends
+ * there it is compressed whole, otherwise it is compressed as a stream.
+ */
+export async function compressResponse(
+  request: Request,
+  response: Response,
+  config: CompressionConfig = {}
+): Promise<Response> {
+  if (!response.body || request.method === 'HEAD') return response;
+  if (response.status < 200 || response.status === 204 || response.status === 206 || response.status === 304) {
+    return response;
+  }
+
+  const headers = response.headers;
+  if (headers.has('Content-Encoding') || headers.get('Transfer-Encoding') === 'chunked') {
+    return response;
+  }
+  if (/\bno-transform\b/i.test(headers.get('Cache-Control') || '')) return response;
+
+  const contentType = headers.get('Content-Type') || '';
+  const filter = config.filter || isCompressible;
+  if (!contentType || !filter(contentType)) return response;
+
+  const available = config.encodings
+    ? config.encodings.filter(e => supportedEncodings().includes(e))
+    : supportedEncodings();
+  const encoding = negotiateEncoding(request.headers.get('accept-encoding'), available);
+
+  // The response varies on Accept-Encoding even when this client gets identity
+  headers.append('Vary', 'Accept-Encoding');
+  if (!encoding) return response;
+
+  const threshold = config.threshold ?? DEFAULT_THRESHOLD;
+  const declaredLength = headers.get('Content-Length');
+  if (declaredLength !== null && Number(declaredLength) < threshold) return response;
+
+  const rebuilt = new Headers(headers);
+  let body: Uint8Array<ArrayBuffer>;
+
+  if (declaredLength !== null) {
+    body = new Uint8Array(await response.arrayBuffer());
+  } else {
+    // Unknown length: the body may be a long-lived stream, so never wait for its end
+    const reader = response.body.getReader();
+    const head = await readUpTo(reader, threshold);
+    if (!head.done) {
+      const rest = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of head.chunks) controller.enqueue(chunk);
+        },
+        async pull(controller) {
+          const { done, value } = await reader.read();
+          if (done) controller.close();
+          else controller.enqueue(value);
+        },
+        cancel(reason) {
+          return reader.cancel(reason);
+        },
+      });
+      rebuilt.set('Content-Encoding', encoding);
+      rebuilt.delete('Content-Length');
+      weakenETag(rebuilt);
+      return new Response(rest.pipeThrough(new BunCompressionStream(STREAM_FORMATS[encoding])), {
+        status: response.status,
+        statusText: response.statusText,
+        headers: rebuilt,
+      });
+    }
+    body = concat(head.chunks);
+  }
+
+  if (body.byteLength < threshold) {
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: rebuilt });
+  }
+
+  const compressed = compress(body, encoding);
+  rebuilt.set('Content-Encoding', encoding);
+  rebuilt.set('Content-Length', String(compressed.byteLength));
+  weakenETag(rebuilt);
+
+  return new Response(compressed, { status: response.status, statusText: response.statusText, headers: rebuilt });
+}
+
+// A strong validator no longer matches the transformed bytes
+function weakenETag(headers: Headers): void {
+  const etag = headers.get('ETag');
+  if (etag && !etag.startsWith('W/')) headers.set('ETag', `W/${etag}`);
+}
+
+/**
+ * Read chunks until `limit` bytes have arrived or the stream ends
+ */
+async function readUpTo(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  limit: number
+): Promise<{ chunks: Uint8Array[]; done: boolean }> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < limit) {
+    const { done, value } = await reader.read();
+    if (done) return { chunks, done: true };
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  return { chunks, done: false };
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
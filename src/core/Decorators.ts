@@ -296,10 +296,7 @@ export async function resolveParam(
       break;
       
     case 'ip':
-      value = req.headers.get('x-forwarded-for') || 
-              req.headers.get('x-real-ip') || 
-              (req as any).ip || 
-              '127.0.0.1';
+      value = req.ip;
       break;
       
     case 'session':
@@ -2,6 +2,7 @@ import { CanxException } from './exceptions/CanxException';
 import { NotFoundException } from './exceptions/NotFoundException';
 import { ViewNotFoundException } from './exceptions/ViewNotFoundException';
 import { ValidationException } from './exceptions/ValidationException';
+import { MethodNotAllowedException } from './exceptions/MethodNotAllowedException';
 
 interface ErrorPageConfig {
   title: string;
@@ -61,6 +62,14 @@ const ERROR_CONFIGS: Record<number, ErrorPageConfig> = {
     borderColor: 'border-purple-500/30',
     suggestion: 'There is a conflict with the current state of the resource.',
   },
+  413: {
+    title: 'Payload Too Large',
+    icon: '📦',
+    color: 'text-orange-400',
+    bgColor: 'bg-orange-500/10',
+    borderColor: 'border-orange-500/30',
+    suggestion: 'The request body is larger than the server allows.',
+  },
   422: {
     title: 'Validation Error',
     icon: '📝',
@@ -105,6 +114,10 @@ export class ErrorHandler {
     const code = (error as CanxException).code || 'INTERNAL_ERROR';
     const stack = error.stack || '';
     const details = (error as CanxException).details;
+    // 405 responses must list the methods the resource supports
+    const allowHeader: Record<string, string> = error instanceof MethodNotAllowedException
+      ? { Allow: error.allowedMethods.join(', ') }
+      : {};
 
     // Log to console with nice formatting
     this.logError(error, req);
@@ -138,7 +151,7 @@ export class ErrorHandler {
       
       return new Response(JSON.stringify(responseBody), {
         status,
-        headers: { 'Content-Type': 'application/json' }
+        headers: { 'Content-Type': 'application/json', ...allowHeader }
       });
     }
 
@@ -146,7 +159,7 @@ export class ErrorHandler {
     const html = await this.renderErrorPage(error, req, status, code, stack);
     return new Response(html, {
       status,
-      headers: { 'Content-Type': 'text/html' }
+      headers: { 'Content-Type': 'text/html', ...allowHeader }
     });
   }
 
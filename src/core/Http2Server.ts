@@ -4,6 +4,7 @@
  */
 
 import type { CanxRequest, CanxResponse, MiddlewareHandler } from '../types';
+import { resolveClient } from './TrustedProxy';
 
 // ============================================
 // Types & Interfaces
@@ -30,6 +31,10 @@ export interface Http2ServerOptions {
   enablePush?: boolean;
   /** Session timeout (ms) */
   sessionTimeout?: number;
+  /** Proxies whose forwarded headers are trusted (see ServerConfig.trustProxy) */
+  trustProxy?: boolean | string[];
+  /** Forwarded header those proxies set (see ServerConfig.proxyHeader) */
+  proxyHeader?: 'x-forwarded-for' | 'forwarded';
 }
 
 export interface PushOptions {
@@ -276,12 +281,17 @@ export class Http2Server {
     params: Record<string, string>
   ): CanxRequest {
     const url = new URL(path, `https://${headers[':authority']}`);
+    const abort = new AbortController();
+    stream.on('aborted', () => abort.abort());
+    // Stub raw request for compatibility
+    const raw = new Request(url.toString(), {
+      method,
+      headers: headers as any,
+    });
+    const client = resolveClient(raw, stream.session?.socket?.remoteAddress, this.options.trustProxy, this.options.proxyHeader);
     
     return {
-      raw: new Request(url.toString(), {
-        method,
-        headers: headers as any,
-      }), // Stub raw request for compatibility
+      raw,
       method: method as any,
       path,
       url: path,
@@ -348,6 +358,11 @@ export class Http2Server {
       context: new Map(),
       timestamp: Date.now(),
       id: crypto.randomUUID(),
+      signal: abort.signal,
+      ip: client.ip,
+      ips: client.ips,
+      protocol: client.protocol,
+      hostname: client.hostname,
       user: undefined,
       session: undefined as any,
     } as CanxRequest;
@@ -82,7 +82,7 @@ export const rateLimit = (options: { windowMs?: number; max?: number } = {}): Mi
   const requests = new Map<string, { count: number; resetAt: number }>();
 
   return async (req, res, next) => {
-    const ip = req.header('x-forwarded-for') || 'unknown';
+    const ip = req.ip || 'unknown';
     const now = Date.now();
     const record = requests.get(ip);
 
@@ -142,11 +142,8 @@ export class RateLimiterV2 {
       limit: config.limit,
       window: config.window,
       algorithm: config.algorithm ?? 'sliding-window',
-      keyGenerator: config.keyGenerator ?? ((req) => {
-        return req.header?.('x-forwarded-for') ?? 
-               req.header?.('x-real-ip') ?? 
-               'unknown';
-      }),
+      // req.ip only honours forwarded headers from trusted proxies (ServerConfig.trustProxy)
+      keyGenerator: config.keyGenerator ?? ((req) => req.ip || 'unknown'),
       skip: config.skip ?? (() => false),
       handler: config.handler ?? ((req, res, retryAfter) => {
         return new Response(JSON.stringify({
@@ -310,7 +307,7 @@ export class TieredRateLimiter {
   async check(req: any): Promise<RateLimitResult> {
     const tier = this.tierResolver(req);
     const limiter = this.limiters.get(tier) ?? this.limiters.get(this.defaultTier)!;
-    const key = req.header?.('x-forwarded-for') ?? req.header?.('x-real-ip') ?? 'unknown';
+    const key = req.ip || 'unknown';
     return limiter.check(`${tier}:${key}`);
   }
 
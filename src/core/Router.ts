@@ -10,16 +10,88 @@ import type {
   MiddlewareHandler,
   RouteParams,
   RouterInstance,
+  RouteConstraint,
+  RouteBindingTarget,
+  CanxRequest,
 } from '../types';
 import { getControllerMeta } from '../mvc/Controller';
+import { Model, getRegisteredModel } from '../mvc/Model';
 import { container } from '../container/Container';
+import { NotFoundException } from './exceptions/NotFoundException';
 
-interface RadixNode {
+/** A registered route; shared by every tree node its optional segments expand to */
+interface RouteEntry {
+  method: HttpMethod;
+  /** Pattern as registered, e.g. '/posts/:id(\\d+)/:slug?' */
+  path: string;
+  handler: RouteHandler;
+  middlewares: MiddlewareHandler[];
+  constraints: Record<string, RegExp>;
+  /** Model column per bound param, from `:user:slug` */
+  bindingKeys: Record<string, string>;
+  /** Bound models include soft-deleted rows */
+  withTrashed: boolean;
+  /** Bound children must belong to the model bound before them */
+  scopeBindings: boolean;
+  /** Host pattern from `domain()`; the route only matches requests to that host */
+  domain: DomainPattern | null;
+  /** Controller action, for routes registered from decorator metadata */
+  action?: RouteAction;
+  name?: string;
+}
+
+interface RouteAction {
+  controllerClass: Function;
+  controller: string;
+  method: string;
+  base: string;
+  prefix: string;
   path: string;
-  handler: RouteHandler | null;
+  /** Decorator middleware, without the group's */
   middlewares: MiddlewareHandler[];
+}
+
+/** A controller route as written to the route cache by `canx optimize` */
+export interface CompiledRoute {
+  /** Controller class name, action method and the base path it was registered under */
+  controller: string;
+  action: string;
+  base: string;
+  method: HttpMethod;
+  /** `@Controller()` prefix and action path */
+  prefix: string;
+  path: string;
+  /** Decorator middleware, by the names given to `router.aliasMiddleware()` */
+  middleware: string[];
+  name?: string;
+}
+
+export interface CompiledRouteTable {
+  version: 2;
+  routes: CompiledRoute[];
+}
+
+/** Route cache written by `canx optimize`, relative to the project root */
+export const ROUTE_CACHE_PATH = 'bootstrap/cache/routes.json';
+
+interface DomainPattern {
+  /** As registered, e.g. '{tenant}.example.com' */
+  pattern: string;
+  regex: RegExp;
+  params: string[];
+}
+
+/** A route at a tree node, with the names of the params captured on the way there */
+interface RouteLeaf {
+  route: RouteEntry;
+  paramNames: string[];
+}
+
+interface RadixNode {
+  path: string;
+  /** Routes ending here; those with constraints are tried first */
+  routes: RouteLeaf[];
   children: Map<string, RadixNode>;
-  paramName: string | null;
   isWildcard: boolean;
   isParam: boolean;
 }
@@ -28,20 +100,131 @@ interface RouteMatch {
   handler: RouteHandler;
   middlewares: MiddlewareHandler[];
   params: RouteParams;
+  route: RouteEntry;
+}
+
+interface ParsedSegment {
+  type: 'static' | 'param' | 'wildcard';
+  /** Static text, or the param name */
+  value: string;
+  optional: boolean;
+  constraint?: RegExp;
+  /** Model column for route model binding */
+  bindingKey?: string;
 }
 
 function createNode(path: string = ''): RadixNode {
   return {
     path,
-    handler: null,
-    middlewares: [],
+    routes: [],
     children: new Map(),
-    paramName: null,
     isWildcard: false,
     isParam: false,
   };
 }
 
+/** Named patterns accepted by `where()` */
+const NAMED_CONSTRAINTS: Record<string, string> = {
+  number: '\\d+',
+  alpha: '[a-zA-Z]+',
+  alphanumeric: '[a-zA-Z0-9]+',
+  slug: '[a-z0-9]+(?:-[a-z0-9]+)*',
+  uuid: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}',
+  ulid: '[0-7][0-9A-HJKMNP-TV-Za-hjkmnp-tv-z]{25}',
+};
+
+function toConstraint(pattern: RouteConstraint): RegExp {
+  const source = pattern instanceof RegExp ? pattern.source : NAMED_CONSTRAINTS[pattern] ?? pattern;
+  // Constraints always match the whole segment
+  return new RegExp(`^(?:${source})$`, pattern instanceof RegExp ? pattern.flags.replace(/[gy]/g, '') : '');
+}
+
+/**
+ * Split a route pattern into segments: `static`, `:param`, `:param(regex)`,
+ * `:param?`, `:param:column` (binding key), `*` or `*name`. Optional params
+ * may only be followed by other optional params.
+ */
+function parsePattern(path: string): ParsedSegment[] {
+  const segments = path.split('/').filter(Boolean).map((seg): ParsedSegment => {
+    if (seg.startsWith('*')) {
+      return { type: 'wildcard', value: seg.length > 1 ? seg.slice(1) : 'wildcard', optional: false };
+    }
+    const param = seg.match(/^:([\w$]+)(?::([\w$]+))?(?:\((.+)\))?(\?)?$/);
+    if (param) {
+      return {
+        type: 'param',
+        value: param[1]!,
+        optional: param[4] === '?',
+        constraint: param[3] ? toConstraint(param[3]) : undefined,
+        bindingKey: param[2],
+      };
+    }
+    return { type: 'static', value: seg, optional: false };
+  });
+
+  const firstOptional = segments.findIndex(s => s.optional);
+  if (firstOptional !== -1 && segments.slice(firstOptional).some(s => !s.optional)) {
+    throw new Error(`Invalid route "${path}": optional parameters must come last`);
+  }
+  return segments;
+}
+
+/** Compile a host pattern such as '{tenant}.example.com'; each `{param}` matches one label */
+function parseDomain(pattern: string): DomainPattern {
+  const params: string[] = [];
+  const source = pattern.split(/(\{[\w$]+\})/).map(part => {
+    const param = part.match(/^\{([\w$]+)\}$/);
+    if (!param) return part.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    params.push(param[1]!);
+    return '([^.]+)';
+  }).join('');
+  return { pattern, regex: new RegExp(`^${source}$`), params };
+}
+
+/** Lowercased Host header value without its port */
+function normalizeHost(host: string | null | undefined): string | null {
+  if (!host) return null;
+  const value = host.trim().toLowerCase();
+  return value.startsWith('[') ? value.slice(0, value.indexOf(']') + 1) : value.replace(/:\d+$/, '');
+}
+
+// Bounded LRU of matches for static routes. Param routes are cheap to match
+// and their keys unbounded, so they are never cached; neither are misses.
+class MatchCache {
+  private entries: Map<string, RouteMatch> = new Map();
+
+  constructor(private maxSize: number) {}
+
+  get(key: string): RouteMatch | undefined {
+    const match = this.entries.get(key);
+    if (match) {
+      // Move to end (most recently used)
+      this.entries.delete(key);
+      this.entries.set(key, match);
+    }
+    return match;
+  }
+
+  set(key: string, match: RouteMatch): void {
+    if (this.maxSize <= 0) return;
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.entries.set(key, match);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+const ALLOW_ORDER: HttpMethod[] = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
 /**
  * Resolve a controller tuple [ControllerClass, "methodName"] or regular handler function
  * to an actual RouteHandler function
@@ -75,39 +258,194 @@ export class Router implements RouterInstance {
   private globalMiddlewares: MiddlewareHandler[] = [];
   private currentMiddlewares: MiddlewareHandler[] = [];
   private prefix: string = '';
-  // State for named routes
-  private namedRoutes: Map<string, string> = new Map();
-  private lastRoutePath: string | null = null;
+  private currentDomain: DomainPattern | null = null;
+  private hasDomainRoutes = false;
+  private namedRoutes: Map<string, RouteEntry> = new Map();
+  private lastRoute: RouteEntry | null = null;
+  /** Leaves the last route displaced as an unconstrained duplicate; where() puts them back */
+  private displaced: { node: RadixNode; leaf: RouteLeaf }[] = [];
+  private binders: Map<string, RouteBindingTarget> = new Map();
+  private middlewareAliases: Map<string, MiddlewareHandler> = new Map();
+  /** Cached controller routes by `controller@base` */
+  private compiled: Map<string, CompiledRoute[]> | null = null;
+
+  private routeCache: MatchCache;
 
-  // ... (previous)
+  constructor(options?: RouterOptions) {
+    this.routerOptions = { caseSensitive: false, trailingSlash: 'ignore', cache: true, cacheSize: 1000, ...options };
+    this.routeCache = new MatchCache(this.routerOptions.cache ? this.routerOptions.cacheSize! : 0);
+    const methods: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'ALL'];
+    methods.forEach(m => this.trees.set(m, createNode()));
+  }
 
-  private routeCache: Map<string, RouteMatch | null> = new Map();
+  /**
+   * Name the last registered route, for `url()`
+   */
+  name(name: string): RouterInstance {
+    if (this.lastRoute) {
+      this.lastRoute.name = name;
+      this.namedRoutes.set(name, this.lastRoute);
+    }
+    return this;
+  }
 
+  /**
+   * Constrain params of the last registered route
+   *
+   * @example
+   * router.get('/users/:id', show).where('id', 'number');
+   * router.get('/files/:key/:version', file).where({ key: 'uuid', version: /v\d+/ });
+   */
+  where(param: string | Record<string, RouteConstraint>, pattern?: RouteConstraint): RouterInstance {
+    if (!this.lastRoute) return this;
+    const constraints = typeof param === 'string' ? { [param]: pattern! } : param;
+    for (const [name, constraint] of Object.entries(constraints)) {
+      this.lastRoute.constraints[name] = toConstraint(constraint);
+    }
+    // Constrained now, so the routes it replaced stay reachable as fallbacks
+    if (Object.keys(this.lastRoute.constraints).length > 0) {
+      for (const { node, leaf } of this.displaced) {
+        node.routes.splice(node.routes.findIndex(b => b.route === this.lastRoute), 0, leaf);
+      }
+      this.displaced = [];
+    }
+    this.sortRoutes();
+    this.routeCache.clear();
+    return this;
+  }
 
-  // New Method: Name the last route
-  name(name: string): RouterInstance {
-      if (this.lastRoutePath) {
-          this.namedRoutes.set(name, this.lastRoutePath);
+  /**
+   * Resolve a param to a model (by primary key, or the `:param:column` key)
+   * or through a custom resolver, before the handler runs. The result is
+   * available as `req.models[param]`; a miss responds 404.
+   *
+   * Params named after a model registered with `registerModel()` (`:user`
+   * -> `User`) are bound implicitly.
+   *
+   * @example
+   * router.bind('author', User);
+   * router.bind('invoice', (number) => Invoice.query().where('number', '=', number).first());
+   */
+  bind(param: string, target: RouteBindingTarget): RouterInstance {
+    this.binders.set(param, target);
+    return this;
+  }
+
+  /**
+   * Let the last registered route bind soft-deleted models
+   */
+  withTrashed(): RouterInstance {
+    if (this.lastRoute) this.lastRoute.withTrashed = true;
+    return this;
+  }
+
+  /**
+   * Bind the last registered route's models independently, without checking
+   * that each belongs to the one before it
+   */
+  withoutScopedBindings(): RouterInstance {
+    if (this.lastRoute) this.lastRoute.scopeBindings = false;
+    return this;
+  }
+
+  /**
+   * Resolve a matched route's bound params into `req.models`
+   *
+   * Throws NotFoundException when a model or resolver finds nothing, or a
+   * scoped child does not belong to its parent.
+   */
+  async resolveBindings(match: RouteMatch, req: CanxRequest): Promise<void> {
+    const models: Record<string, unknown> = {};
+    let parent: { param: string; model: Model } | null = null;
+
+    for (const [param, value] of Object.entries(match.params)) {
+      const target = this.binders.get(param) ?? getRegisteredModel(param);
+      if (!target || value === undefined) continue;
+
+      if (!(target.prototype instanceof Model)) {
+        const resolved = await (target as (value: string, req: CanxRequest) => unknown)(value, req);
+        if (resolved === null || resolved === undefined) throw new NotFoundException(`${param} not found`);
+        models[param] = resolved;
+        continue;
       }
-      return this;
+
+      const ModelClass = target as unknown as typeof Model;
+      const key = match.route.bindingKeys[param] ?? (ModelClass as any).primaryKey;
+      const query: any = parent && match.route.scopeBindings
+        ? scopedQuery(parent.param, parent.model, param, ModelClass)
+        : ModelClass.query();
+      if (match.route.withTrashed) query.withTrashedResults();
+
+      const model = await query.where(key, '=', value).first();
+      if (!model) throw new NotFoundException(ModelClass.name, value);
+      models[param] = model;
+      parent = { param, model };
+    }
+
+    req.models = models;
   }
 
-  // New Method: Generate URL
+  /**
+   * Build the path of a named route. Params missing from the pattern are
+   * appended as a query string; optional params may be left out.
+   */
   url(name: string, params: Record<string, any> = {}): string {
-      let path = this.namedRoutes.get(name);
-      if (!path) throw new Error(`Route "${name}" not found.`);
-      
-      for (const [key, value] of Object.entries(params)) {
-          path = path.replace(`:${key}`, encodeURIComponent(String(value)));
-          // Also handle optional params? For V1, simplicity.
+    const route = this.namedRoutes.get(name);
+    if (!route) throw new Error(`Route "${name}" not found.`);
+
+    const used = new Set<string>();
+    const parts: string[] = [];
+
+    // Domain routes get an absolute URL on their host
+    let origin = '';
+    if (route.domain) {
+      const host = route.domain.pattern.replace(/\{([\w$]+)\}/g, (_, param: string) => {
+        const value = params[param];
+        if (value === undefined || value === null || value === '') {
+          throw new Error(`Missing parameter "${param}" for route "${name}".`);
+        }
+        used.add(param);
+        const text = String(value);
+        const constraint = route.constraints[param];
+        if (constraint && !constraint.test(text)) {
+          throw new Error(`Parameter "${param}" of route "${name}" must match ${constraint.source}, got "${text}".`);
+        }
+        return encodeURIComponent(text);
+      });
+      const scheme = this.routerOptions.scheme ?? (process.env.APP_URL?.startsWith('http://') ? 'http' : 'https');
+      origin = `${scheme}://${host}`;
+    }
+
+    for (const segment of parsePattern(route.path)) {
+      if (segment.type === 'static') {
+        parts.push(segment.value);
+        continue;
       }
-      return path;
-  }
 
-  constructor(options?: RouterOptions) {
-    this.routerOptions = { caseSensitive: false, trailingSlash: 'ignore', cache: true, ...options };
-    const methods: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'ALL'];
-    methods.forEach(m => this.trees.set(m, createNode()));
+      const value = params[segment.value];
+      if (value === undefined || value === null || value === '') {
+        if (segment.optional) break;
+        throw new Error(`Missing parameter "${segment.value}" for route "${name}".`);
+      }
+      used.add(segment.value);
+
+      // Models fill in their binding key
+      const text = String(typeof value === 'object'
+        ? value[segment.bindingKey ?? value.constructor?.primaryKey ?? 'id']
+        : value);
+      const constraint = route.constraints[segment.value] ?? segment.constraint;
+      if (constraint && !constraint.test(text)) {
+        throw new Error(`Parameter "${segment.value}" of route "${name}" must match ${constraint.source}, got "${text}".`);
+      }
+      parts.push(segment.type === 'wildcard' ? text.split('/').map(encodeURIComponent).join('/') : encodeURIComponent(text));
+    }
+
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (!used.has(key) && value !== undefined && value !== null) query.append(key, String(value));
+    }
+    const search = query.toString();
+    return origin + '/' + parts.join('/') + (search ? `?${search}` : '');
   }
 
   // Normalize leading/trailing slash but PRESERVE original casing.
@@ -123,81 +461,161 @@ export class Router implements RouterInstance {
   }
 
   private addRoute(method: HttpMethod, path: string, handler: RouteHandler, mws: MiddlewareHandler[] = []): void {
-    // Normalize path but preserve original for param name extraction
+    // Parse the ORIGINAL path so param names and constraints keep their casing
     const originalPath = (this.prefix + path).startsWith('/') ? this.prefix + path : '/' + this.prefix + path;
-    this.lastRoutePath = originalPath;
-    const normalized = this.normalizePath(this.prefix + path);
-    const segments = normalized.split('/').filter(Boolean);
-    const originalSegments = originalPath.split('/').filter(Boolean);
-    let node = this.trees.get(method)!;
-
-    for (let i = 0; i < segments.length; i++) {
-      const seg = segments[i];
-      const originalSeg = originalSegments[i] || seg;
-      let key = seg, isParam = false, isWild = false, param: string | null = null;
-      
-      // Extract param name from ORIGINAL segment to preserve casing
-      if (originalSeg.startsWith(':')) { 
-        isParam = true; 
-        param = originalSeg.slice(1); // Use original casing
-        key = ':'; 
-      } else if (originalSeg === '*' || originalSeg.startsWith('*')) { 
-        isWild = true; 
-        param = originalSeg.length > 1 ? originalSeg.slice(1) : 'wildcard'; 
-        key = '*'; 
+    const segments = parsePattern(originalPath);
+    const constraints: Record<string, RegExp> = {};
+    const bindingKeys: Record<string, string> = {};
+    for (const segment of segments) {
+      if (segment.constraint) constraints[segment.value] = segment.constraint;
+      if (segment.bindingKey) bindingKeys[segment.value] = segment.bindingKey;
+    }
+
+    const route: RouteEntry = {
+      method,
+      path: originalPath,
+      handler,
+      middlewares: [...this.globalMiddlewares, ...this.currentMiddlewares, ...mws],
+      constraints,
+      bindingKeys,
+      withTrashed: false,
+      scopeBindings: true,
+      domain: this.currentDomain,
+    };
+    this.lastRoute = route;
+    this.displaced = [];
+
+    // `/posts/:slug?` is registered as both `/posts` and `/posts/:slug`
+    const firstOptional = segments.findIndex(s => s.optional);
+    const lengths = firstOptional === -1
+      ? [segments.length]
+      : Array.from({ length: segments.length - firstOptional + 1 }, (_, i) => firstOptional + i);
+
+    for (const length of lengths) {
+      let node = this.trees.get(method)!;
+      const paramNames: string[] = [];
+
+      for (const segment of segments.slice(0, length)) {
+        let key: string;
+        if (segment.type === 'param') {
+          key = ':';
+          paramNames.push(segment.value);
+        } else if (segment.type === 'wildcard') {
+          key = '*';
+          paramNames.push(segment.value);
+        } else {
+          key = this.routerOptions.caseSensitive ? segment.value : segment.value.toLowerCase();
+        }
+
+        if (!node.children.has(key)) {
+          const child = createNode(key);
+          child.isParam = segment.type === 'param';
+          child.isWildcard = segment.type === 'wildcard';
+          node.children.set(key, child);
+        }
+        node = node.children.get(key)!;
       }
 
-      if (!node.children.has(key)) {
-        const child = createNode(seg);
-        child.isParam = isParam; child.isWildcard = isWild; child.paramName = param;
-        node.children.set(key, child);
+      // On the same host, a later unconstrained route replaces an earlier
+      // one, as does re-registering the same pattern. Constraints added by
+      // where() afterwards undo the former.
+      const same = node.routes.findIndex(b => b.route.domain?.pattern === route.domain?.pattern && (
+        b.route.path === route.path || (!hasConstraints(b) && Object.keys(constraints).length === 0)
+      ));
+      if (same !== -1) {
+        const [leaf] = node.routes.splice(same, 1);
+        if (leaf!.route.path !== route.path) this.displaced.push({ node, leaf: leaf! });
       }
-      node = node.children.get(key)!;
+      node.routes.push({ route, paramNames });
     }
-    node.handler = handler;
-    node.middlewares = [...this.globalMiddlewares, ...this.currentMiddlewares, ...mws];
+
+    this.sortRoutes();
     this.routeCache.clear();
   }
 
-  match(method: HttpMethod, path: string): RouteMatch | null {
+  // Domain routes are tried before routes for any host, and constrained
+  // routes before unconstrained ones at the same node; otherwise
+  // registration order decides.
+  private sortRoutes(): void {
+    const rank = (leaf: RouteLeaf) => (leaf.route.domain ? 2 : 0) + (hasConstraints(leaf) ? 1 : 0);
+    const visit = (node: RadixNode) => {
+      if (node.routes.length > 1) {
+        node.routes = node.routes
+          .map((binding, index) => ({ binding, index }))
+          .sort((a, b) => rank(b.binding) - rank(a.binding) || a.index - b.index)
+          .map(({ binding }) => binding);
+      }
+      node.children.forEach(visit);
+    };
+    if (this.lastRoute) visit(this.trees.get(this.lastRoute.method)!);
+  }
+
+  /**
+   * Find the route for a request. `host` (the Host header, port allowed) is
+   * only needed to match routes registered with `domain()`.
+   */
+  match(method: HttpMethod, path: string, host?: string | null): RouteMatch | null {
     const cased = this.normalizeCase(path);
     const p = this.routerOptions.caseSensitive ? cased : cased.toLowerCase();
-    const key = `${method}:${p}`;
-    if (this.routeCache.has(key)) return this.routeCache.get(key) || null;
+    const h = this.hasDomainRoutes ? normalizeHost(host) : null;
+    // Keyed on the cased path: param values and their constraints are case-sensitive
+    const key = h ? `${method}:${h}:${cased}` : `${method}:${cased}`;
+    const cached = this.routeCache.get(key);
+    if (cached) return cached;
 
-    let result = this.matchTree(this.trees.get(method)!, p, cased) || this.matchTree(this.trees.get('ALL')!, p, cased);
+    let result = this.matchTree(this.trees.get(method)!, p, cased, h) || this.matchTree(this.trees.get('ALL')!, p, cased, h);
 
     // HEAD falls back to the GET handler (per the HTTP spec) when no explicit
     // HEAD route is registered.
     if (!result && method === 'HEAD') {
-      result = this.matchTree(this.trees.get('GET')!, p, cased) || this.matchTree(this.trees.get('ALL')!, p, cased);
+      result = this.matchTree(this.trees.get('GET')!, p, cased, h) || this.matchTree(this.trees.get('ALL')!, p, cased, h);
     }
 
-    this.routeCache.set(key, result);
+    if (result && Object.keys(result.params).length === 0) this.routeCache.set(key, result);
     return result;
   }
 
+  /**
+   * Methods with a route matching `path`, for 405 responses and their `Allow`
+   * header. Empty when no method matches.
+   */
+  allowedMethods(path: string, host?: string | null): HttpMethod[] {
+    const cased = this.normalizeCase(path);
+    const p = this.routerOptions.caseSensitive ? cased : cased.toLowerCase();
+    const h = normalizeHost(host);
+    if (this.matchTree(this.trees.get('ALL')!, p, cased, h)) return [...ALLOW_ORDER];
+
+    const allowed = new Set<HttpMethod>();
+    for (const method of ALLOW_ORDER) {
+      if (this.matchTree(this.trees.get(method)!, p, cased, h)) allowed.add(method);
+    }
+    if (allowed.has('GET')) allowed.add('HEAD');
+    return ALLOW_ORDER.filter(m => allowed.has(m));
+  }
+
   // `path` is the lowercased routing path (for key matching); `casedPath`
   // preserves the original casing so param VALUES are not corrupted.
-  private matchTree(tree: RadixNode, path: string, casedPath: string): RouteMatch | null {
+  private matchTree(tree: RadixNode, path: string, casedPath: string, host: string | null): RouteMatch | null {
     const segments = path.split('/').filter(Boolean);
     const casedSegments = casedPath.split('/').filter(Boolean);
-    return this.matchNode(tree, segments, casedSegments, 0, {});
+    return this.matchNode(tree, segments, casedSegments, 0, [], host);
   }
 
   // Recursive matcher WITH backtracking: try exact child first, and if that
   // sub-tree dead-ends, fall back to the param child, then the wildcard. This
   // prevents a longer static route (e.g. /users/admin/settings) from shadowing
   // a param route (/users/:id) on an intermediate path like /users/admin.
+  // A route whose constraints reject the captured values is a dead end too.
   private matchNode(
     node: RadixNode,
     segments: string[],
     casedSegments: string[],
     i: number,
-    params: RouteParams,
+    values: string[],
+    host: string | null,
   ): RouteMatch | null {
     if (i === segments.length) {
-      return node.handler ? { handler: node.handler, middlewares: node.middlewares, params: { ...params } } : null;
+      return this.matchRoutes(node, values, host);
     }
 
     const seg = segments[i];
@@ -206,30 +624,44 @@ export class Router implements RouterInstance {
     // 1. Exact static match
     const exact = node.children.get(this.routerOptions.caseSensitive ? seg : seg.toLowerCase());
     if (exact) {
-      const r = this.matchNode(exact, segments, casedSegments, i + 1, params);
+      const r = this.matchNode(exact, segments, casedSegments, i + 1, values, host);
       if (r) return r;
     }
 
     // 2. Param match (original casing preserved)
     const paramChild = node.children.get(':');
-    if (paramChild && paramChild.paramName) {
-      const r = this.matchNode(paramChild, segments, casedSegments, i + 1, { ...params, [paramChild.paramName]: casedSeg });
+    if (paramChild) {
+      const r = this.matchNode(paramChild, segments, casedSegments, i + 1, [...values, casedSeg], host);
       if (r) return r;
     }
 
     // 3. Wildcard captures the rest of the path
     const wildChild = node.children.get('*');
-    if (wildChild && wildChild.handler && wildChild.paramName) {
-      return {
-        handler: wildChild.handler,
-        middlewares: wildChild.middlewares,
-        params: { ...params, [wildChild.paramName]: casedSegments.slice(i).join('/') },
-      };
+    if (wildChild) {
+      return this.matchRoutes(wildChild, [...values, casedSegments.slice(i).join('/')], host);
     }
 
     return null;
   }
 
+  private matchRoutes(node: RadixNode, values: string[], host: string | null): RouteMatch | null {
+    for (const { route, paramNames } of node.routes) {
+      const params: RouteParams = {};
+      if (route.domain) {
+        const captured = host ? route.domain.regex.exec(host) : null;
+        if (!captured) continue;
+        route.domain.params.forEach((name, index) => { params[name] = captured[index + 1]!; });
+      }
+      paramNames.forEach((name, index) => { params[name] = values[index]!; });
+
+      const accepted = Object.entries(route.constraints).every(([name, constraint]) =>
+        params[name] === undefined || constraint.test(params[name]!)
+      );
+      if (accepted) return { handler: route.handler, middlewares: route.middlewares, params, route };
+    }
+    return null;
+  }
+
   get(path: string, ...h: (MiddlewareHandler | RouteHandler | [any, string])[]): RouterInstance { this.addRoute('GET', path, resolveHandler(h.pop() as RouteHandler | [any, string]), h as MiddlewareHandler[]); return this; }
   post(path: string, ...h: (MiddlewareHandler | RouteHandler | [any, string])[]): RouterInstance { this.addRoute('POST', path, resolveHandler(h.pop() as RouteHandler | [any, string]), h as MiddlewareHandler[]); return this; }
   put(path: string, ...h: (MiddlewareHandler | RouteHandler | [any, string])[]): RouterInstance { this.addRoute('PUT', path, resolveHandler(h.pop() as RouteHandler | [any, string]), h as MiddlewareHandler[]); return this; }
@@ -262,37 +694,145 @@ export class Router implements RouterInstance {
         prototype = Object.getPrototypeOf(instance);
     }
 
+    // A controller in the route cache is registered without reading its decorators
+    const controllerName: string = instance.constructor.name;
+    const cached = this.compiled?.get(`${controllerName}@${basePath}`);
+    if (cached) {
+      for (const cachedRoute of cached) {
+        const middlewares = cachedRoute.middleware.map(alias => {
+          const handler = this.middlewareAliases.get(alias);
+          if (!handler) {
+            throw new Error(`Route cache uses unknown middleware "${alias}"; alias it with router.aliasMiddleware() before registering controllers, or run canx optimize again`);
+          }
+          return handler;
+        });
+        this.addControllerRoute(instance, basePath, cachedRoute.prefix, cachedRoute.path, cachedRoute.method, cachedRoute.action, middlewares);
+        if (cachedRoute.name) this.name(cachedRoute.name);
+      }
+      return this;
+    }
+
     const meta = getControllerMeta(prototype);
     if (!meta) return this; 
 
-    // Controller prefix from @Controller('prefix')
-    const classPrefix = meta.prefix || '';
-
     meta.routes.forEach((route, key) => {
-      const routePath = route.path;
-      // Normalization: basePath + classPrefix + routePath
-      const fullPath = [basePath, classPrefix, routePath]
-        .map(p => p.startsWith('/') ? p : '/' + p)
-        .join('')
-        .replace(/\/\//g, '/'); // cleanup double slashes
-
-      const handler = async (req: any, res: any) => {
-        if (typeof instance.setContext === 'function') {
-          instance.setContext(req, res);
-        }
-        if (typeof instance[key] !== 'function') {
-            console.error(`Controller method ${key} not found on ${instance.constructor.name}`);
-            return res.status(500).json({ error: `Method ${key} not found` });
-        }
-        return instance[key](req, res);
-      };
-
-      this.addRoute(route.method, fullPath === '/' ? '/' : fullPath.replace(/\/$/, ''), handler, [...meta.middlewares, ...route.middlewares]);
+      this.addControllerRoute(instance, basePath, meta.prefix || '', route.path, route.method, key, [...meta.middlewares, ...route.middlewares]);
     });
     
     return this;
   }
 
+  private addControllerRoute(
+    instance: any,
+    basePath: string,
+    classPrefix: string,
+    routePath: string,
+    method: HttpMethod,
+    key: string,
+    middlewares: MiddlewareHandler[]
+  ): void {
+    // Normalization: basePath + classPrefix + routePath
+    const fullPath = [basePath, classPrefix, routePath]
+      .map(p => p.startsWith('/') ? p : '/' + p)
+      .join('')
+      .replace(/\/\//g, '/'); // cleanup double slashes
+
+    const handler = async (req: any, res: any) => {
+      if (typeof instance.setContext === 'function') {
+        instance.setContext(req, res);
+      }
+      if (typeof instance[key] !== 'function') {
+          console.error(`Controller method ${key} not found on ${instance.constructor.name}`);
+          return res.status(500).json({ error: `Method ${key} not found` });
+      }
+      return instance[key](req, res);
+    };
+
+    this.addRoute(method, fullPath === '/' ? '/' : fullPath.replace(/\/$/, ''), handler, middlewares);
+    this.lastRoute!.action = {
+      controllerClass: instance.constructor,
+      controller: instance.constructor.name,
+      method: key,
+      base: basePath,
+      prefix: classPrefix,
+      path: routePath,
+      middlewares,
+    };
+  }
+
+  /**
+   * Name a middleware so the route cache can refer to it. Controllers whose
+   * decorator middleware is not aliased are left out of the cache.
+   */
+  aliasMiddleware(name: string, handler: MiddlewareHandler): this {
+    this.middlewareAliases.set(name, handler);
+    return this;
+  }
+
+  /**
+   * Serialize the controller routes for the route cache. Closure routes, and
+   * controllers that can't be restored exactly (unaliased middleware, or a
+   * class name shared with another controller), are registered as usual on
+   * every boot.
+   */
+  compile(): CompiledRouteTable {
+    const aliases = new Map<MiddlewareHandler, string>();
+    for (const [name, handler] of this.middlewareAliases) aliases.set(handler, name);
+
+    const classes = new Map<string, Function>();
+    const ambiguous = new Set<string>();
+    const controllers = new Map<string, CompiledRoute[] | null>();
+    const seen = new Set<RouteEntry>();
+    const visit = (node: RadixNode) => {
+      for (const { route } of node.routes) {
+        if (seen.has(route) || !route.action) continue;
+        seen.add(route);
+        const action = route.action;
+        if ((classes.get(action.controller) ?? action.controllerClass) !== action.controllerClass) {
+          ambiguous.add(action.controller);
+        }
+        classes.set(action.controller, action.controllerClass);
+
+        const key = `${action.controller}@${action.base}`;
+        const routes = controllers.has(key) ? controllers.get(key)! : [];
+        const middleware = action.middlewares.map(handler => aliases.get(handler));
+        if (!routes || middleware.some(alias => alias === undefined)) {
+          controllers.set(key, null);
+          continue;
+        }
+        routes.push({
+          controller: action.controller,
+          action: action.method,
+          base: action.base,
+          method: route.method,
+          prefix: action.prefix,
+          path: action.path,
+          middleware: middleware as string[],
+          name: route.name,
+        });
+        controllers.set(key, routes);
+      }
+      node.children.forEach(visit);
+    };
+    this.trees.forEach(visit);
+
+    const routes = [...controllers.values()].flatMap(cached => cached ?? []);
+    return { version: 2, routes: routes.filter(cachedRoute => !ambiguous.has(cachedRoute.controller)) };
+  }
+
+  /**
+   * Register controllers from a route cache from now on; controllers missing
+   * from it are still scanned.
+   */
+  useCompiled(table: CompiledRouteTable): this {
+    if (table.version !== 2) throw new Error(`Unsupported route cache version: ${table.version}`);
+    this.compiled = new Map();
+    for (const cachedRoute of table.routes) {
+      const key = `${cachedRoute.controller}@${cachedRoute.base}`;
+      this.compiled.set(key, [...(this.compiled.get(key) ?? []), cachedRoute]);
+    }
+    return this;
+  }
 
   group(prefix: string, cb: (r: RouterInstance) => void): RouterInstance {
     const prev = this.prefix, prevMw = [...this.currentMiddlewares];
@@ -302,6 +842,27 @@ export class Router implements RouterInstance {
     return this;
   }
 
+  /**
+   * Register routes that only match requests to a host. `{param}` labels are
+   * captured into `req.params` and can be constrained with `where()`.
+   *
+   * @example
+   * router.domain('{tenant}.example.com', r => {
+   *   r.get('/dashboard', showDashboard); // req.params.tenant
+   * });
+   */
+  domain(pattern: string, cb: (r: RouterInstance) => void): RouterInstance {
+    const prev = this.currentDomain;
+    this.currentDomain = parseDomain(pattern);
+    this.hasDomainRoutes = true;
+    try {
+      cb(this);
+    } finally {
+      this.currentDomain = prev;
+    }
+    return this;
+  }
+
   middleware(...h: MiddlewareHandler[]): RouterInstance { this.currentMiddlewares.push(...h); return this; }
   use(...h: MiddlewareHandler[]): Router { this.globalMiddlewares.push(...h); return this; }
 
@@ -353,15 +914,46 @@ export class Router implements RouterInstance {
 
   getRoutes(): Route[] {
     const routes: Route[] = [];
-    this.trees.forEach((tree, method) => this.collect(tree, '', method, routes));
+    const seen = new Set<RouteEntry>();
+    this.trees.forEach(tree => this.collect(tree, seen, routes));
     return routes;
   }
 
-  private collect(node: RadixNode, path: string, method: HttpMethod, routes: Route[]): void {
-    const p = path + (node.path ? '/' + node.path : '');
-    if (node.handler) routes.push({ method, path: p || '/', handler: node.handler, middlewares: node.middlewares });
-    node.children.forEach(c => this.collect(c, p, method, routes));
+  private collect(node: RadixNode, seen: Set<RouteEntry>, routes: Route[]): void {
+    for (const { route } of node.routes) {
+      if (seen.has(route)) continue;
+      seen.add(route);
+      routes.push({
+        method: route.method,
+        path: route.path,
+        handler: route.handler,
+        middlewares: route.middlewares,
+        name: route.name,
+        domain: route.domain?.pattern,
+      });
+    }
+    node.children.forEach(c => this.collect(c, seen, routes));
+  }
+}
+
+function hasConstraints(binding: RouteLeaf): boolean {
+  return Object.keys(binding.route.constraints).length > 0;
+}
+
+/**
+ * Query for a child model that belongs to `parent`: through the parent's
+ * relation method (`posts()` for `:post`) when it has one, otherwise by the
+ * `<parent>_id` column.
+ */
+function scopedQuery(parentParam: string, parent: Model, param: string, ModelClass: typeof Model): any {
+  for (const relation of [`${param}s`, param]) {
+    if (typeof parent[relation] === 'function') {
+      const query = parent[relation]();
+      if (query && typeof query.where === 'function') return query;
+    }
   }
+  const Parent = parent.constructor as any;
+  return ModelClass.query().where(`${parentParam}_id`, '=', parent[Parent.primaryKey]);
 }
 
 export function createRouter(options?: RouterOptions): Router { return new Router(options); }
@@ -11,8 +11,13 @@ import type {
   QueryParams,
   CookieOptions,
   CorsConfig,
+  ServerRequestMeta,
 } from '../types';
 import { ErrorHandler } from './ErrorHandler';
+import { compressResponse } from './Compression';
+import { PayloadTooLargeException } from './exceptions/PayloadTooLargeException';
+import { RequestTimeoutException } from './exceptions/RequestTimeoutException';
+import { resolveClient } from './TrustedProxy';
 import pc from 'picocolors';
 
 /**
@@ -64,10 +69,12 @@ function parseQuery(url: URL): QueryParams {
  */
 export function createCanxRequest(
   raw: Request,
-  params: RouteParams = {}
+  params: RouteParams = {},
+  meta: ServerRequestMeta = {}
 ): CanxRequest {
   const url = new URL(raw.url);
   const cookies = parseCookies(raw.headers.get('cookie'));
+  const client = resolveClient(raw, meta.remoteAddress, meta.trustProxy, meta.proxyHeader);
   
   let bodyParsed = false;
   let cachedBody: unknown;
@@ -82,6 +89,11 @@ export function createCanxRequest(
     context: new Map(),
     timestamp: Date.now(),
     id: generateRequestId(),
+    signal: meta.signal || raw.signal,
+    ip: client.ip,
+    ips: client.ips,
+    protocol: client.protocol,
+    hostname: client.hostname,
     session: undefined as any,
 
     async body<T = unknown>(): Promise<T> {
@@ -456,11 +468,11 @@ function getCorsHeaders(config: CorsConfig, origin: string): Headers {
 export class Server {
   private server: ReturnType<typeof Bun.serve> | null = null;
   private config: ServerConfig;
-  private requestHandler: (req: Request) => Promise<Response> | Response;
+  private requestHandler: (req: Request, meta: ServerRequestMeta) => Promise<Response> | Response;
 
   constructor(
     config: ServerConfig,
-    handler: (req: Request) => Promise<Response> | Response
+    handler: (req: Request, meta: ServerRequestMeta) => Promise<Response> | Response
   ) {
     this.config = {
       port: 3000,
@@ -475,25 +487,167 @@ export class Server {
   }
 
   /**
-   * Handle a request directly (useful for testing)
+   * Handle a request directly (useful for testing).
+   * Runs the same pipeline as a live request: body limit, timeout, CORS and compression.
    */
-  async handle(req: Request): Promise<Response> {
-    return this.requestHandler(req);
+  async handle(req: Request, remoteAddress?: string): Promise<Response> {
+    return this.dispatch(req, remoteAddress);
   }
 
   /**
-   * Start the server
+   * Full request pipeline shared by `listen()` and `handle()`
    */
-  async listen(callback?: () => void): Promise<void> {
+  private async dispatch(req: Request, remoteAddress?: string): Promise<Response> {
+    const startTime = performance.now();
     const corsConfig: CorsConfig | null = this.config.cors === true
       ? { origin: true, methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'] }
       : this.config.cors || null;
 
+    try {
+      // Handle CORS preflight
+      if (corsConfig && req.method === 'OPTIONS') {
+        const origin = req.headers.get('origin') || '';
+        const headers = getCorsHeaders(corsConfig, origin);
+        return new Response(null, { status: 204, headers });
+      }
+
+      // Reject oversized bodies before anything buffers them
+      req = this.limitBody(req);
+
+      let response: Response | null = null;
+
+      // Handle static files
+      if (this.config.static) {
+        const url = new URL(req.url);
+        if (url.pathname.startsWith('/static/')) {
+          const path = await import('path');
+          // Secure path resolution
+          const staticRoot = path.resolve(this.config.static);
+          const requestedPath = path.resolve(staticRoot, '.' + url.pathname.replace('/static', ''));
+          
+          // Ensure the resolved path is within the static root
+          if (requestedPath.startsWith(staticRoot)) {
+             const file = Bun.file(requestedPath);
+             if (await file.exists()) {
+               response = new Response(file);
+             }
+          }
+        }
+      }
+
+      // Main request handling
+      if (!response) {
+        response = await this.runHandler(req, remoteAddress);
+      }
+
+      // Add CORS headers
+      if (corsConfig) {
+        const origin = req.headers.get('origin') || '';
+        const corsHeaders = getCorsHeaders(corsConfig, origin);
+        corsHeaders.forEach((value, key) => {
+          response!.headers.set(key, value);
+        });
+      }
+
+      if (this.config.compression) {
+        const options = this.config.compression === true ? {} : this.config.compression;
+        response = await compressResponse(req, response, options);
+      }
+
+      // Add timing header in development
+      if (this.config.development) {
+        const duration = (performance.now() - startTime).toFixed(2);
+        response.headers.set('X-Response-Time', `${duration}ms`);
+      }
+
+      return response;
+
+    } catch (error: any) {
+      return ErrorHandler.handle(error, req, this.config.development);
+    }
+  }
+
+  /**
+   * Enforce maxBodySize. A declared Content-Length over the limit is a 413
+   * straight away; a body without one (chunked) is counted as it is read,
+   * and reading it fails with a 413 once it passes the limit.
+   */
+  private limitBody(req: Request): Request {
+    const limit = this.config.maxBodySize;
+    if (!limit || limit <= 0) return req;
+
+    const length = req.headers.get('content-length');
+    if (length !== null) {
+      if (Number(length) > limit) throw new PayloadTooLargeException(limit);
+      return req;
+    }
+    if (!req.body) return req;
+
+    let received = 0;
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > limit) {
+          controller.error(new PayloadTooLargeException(limit));
+        } else {
+          controller.enqueue(chunk);
+        }
+      },
+    });
+    return new Request(req.url, {
+      method: req.method,
+      headers: req.headers,
+      body: req.body.pipeThrough(counter),
+      signal: req.signal,
+      duplex: 'half',
+    } as RequestInit);
+  }
+
+  /**
+   * Run the application handler, aborting it once the configured timeout elapses
+   */
+  private async runHandler(req: Request, remoteAddress?: string): Promise<Response> {
+    const timeout = this.config.timeout ?? 0;
+    if (timeout <= 0) {
+      return this.requestHandler(req, { signal: req.signal, remoteAddress });
+    }
+
+    const controller = new AbortController();
+    const signal = AbortSignal.any([req.signal, controller.signal]);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new RequestTimeoutException(timeout);
+        controller.abort(error);
+        reject(error);
+      }, timeout);
+    });
+
+    try {
+      return await Promise.race([
+        Promise.resolve(this.requestHandler(req, { signal, remoteAddress })),
+        expired,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Start the server
+   */
+  async listen(callback?: () => void): Promise<void> {
+    const timeout = this.config.timeout ?? 0;
+
     try {
       this.server = Bun.serve({
         port: this.config.port,
         hostname: this.config.hostname,
         development: this.config.development,
+        maxRequestBodySize: this.config.maxBodySize,
+        // Bun closes idle sockets after 10s by default; keep them open until our own timeout fires (max 255s)
+        idleTimeout: timeout > 0 ? Math.min(255, Math.ceil(timeout / 1000) + 1) : 0,
         
         tls: this.config.tls ? {
           cert: Bun.file(this.config.tls.cert),
@@ -502,61 +656,19 @@ export class Server {
           passphrase: this.config.tls.passphrase,
         } : undefined,
 
-        fetch: async (req: Request) => {
-          const startTime = performance.now();
-          
-          try {
-            // Handle CORS preflight
-            if (corsConfig && req.method === 'OPTIONS') {
-              const origin = req.headers.get('origin') || '';
-              const headers = getCorsHeaders(corsConfig, origin);
-              return new Response(null, { status: 204, headers });
-            }
-
-            // Handle static files
-            if (this.config.static) {
-              const url = new URL(req.url);
-              if (url.pathname.startsWith('/static/')) {
-                const path = await import('path');
-                // Secure path resolution
-                const staticRoot = path.resolve(this.config.static);
-                const requestedPath = path.resolve(staticRoot, '.' + url.pathname.replace('/static', ''));
-                
-                // Ensure the resolved path is within the static root
-                if (requestedPath.startsWith(staticRoot)) {
-                   const file = Bun.file(requestedPath);
-                   if (await file.exists()) {
-                     return new Response(file);
-                   }
-                }
-              }
-            }
-
-            // Main request handling
-            let response = await this.requestHandler(req);
-
-            // Add CORS headers
-            if (corsConfig) {
-              const origin = req.headers.get('origin') || '';
-              const corsHeaders = getCorsHeaders(corsConfig, origin);
-              corsHeaders.forEach((value, key) => {
-                response.headers.set(key, value);
-              });
-            }
-
-            // Add timing header in development
-            if (this.config.development) {
-              const duration = (performance.now() - startTime).toFixed(2);
-              response.headers.set('X-Response-Time', `${duration}ms`);
-            }
-
-            return response;
-
-          } catch (error: any) {
-            return ErrorHandler.handle(error, req, this.config.development);
+        fetch: (req: Request, server) => {
+          const websocket = this.config.websocket;
+          if (websocket?.matches(req)) {
+            return websocket.upgrade(req, server as any)
+              ? undefined
+              : new Response('WebSocket upgrade failed', { status: 400 });
           }
+          return this.dispatch(req, server.requestIP(req)?.address);
         },
 
+        // Bun's types only accept the option when it is always present
+        websocket: this.config.websocket?.getWebSocketHandler() as any,
+
         error(error: Error) {
           // Can't access req object easily here in Bun's error handler, 
           // but it catches low-level server errors
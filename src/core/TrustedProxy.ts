@@ -0,0 +1,182 @@
+/**
+ * CanxJS Trusted Proxies - Client address, protocol and host behind reverse proxies
+ */
+
+import { isIPv4, isIPv6 } from 'node:net';
+import type { ServerConfig } from '../types';
+
+export type TrustProxy = ServerConfig['trustProxy'];
+export type ProxyHeader = NonNullable<ServerConfig['proxyHeader']>;
+
+/** What the request looks like from the client's side of the proxies */
+export interface ClientInfo {
+  /** Client address: the first hop not in the trusted list */
+  ip: string;
+  /** Forwarded chain up to that client, client first; empty without trusted proxies */
+  ips: string[];
+  protocol: 'http' | 'https';
+  /** Host name without port */
+  hostname: string;
+}
+
+/** Named address ranges accepted in `trustProxy` */
+const PRESETS: Record<string, string[]> = {
+  loopback: ['127.0.0.1/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+interface Range {
+  family: 4 | 6;
+  network: bigint;
+  mask: bigint;
+}
+
+// Compiled trust lists, keyed by the config array
+const compiled = new WeakMap<string[], (address: string) => boolean>();
+
+/**
+ * Build a predicate telling whether an address is a trusted proxy. `true`
+ * trusts every hop, `false` none; a list holds addresses, CIDR ranges
+ * ('10.0.0.0/8', 'fd00::/8') or the presets 'loopback', 'linklocal' and
+ * 'uniquelocal'.
+ */
+export function compileTrust(trust: TrustProxy): (address: string) => boolean {
+  if (trust === true) return () => true;
+  if (!trust || trust.length === 0) return () => false;
+
+  let predicate = compiled.get(trust);
+  if (!predicate) {
+    const ranges = trust.flatMap(entry => PRESETS[entry] ?? [entry]).map(parseRange);
+    predicate = (address: string) => {
+      const parsed = parseAddress(address);
+      return !!parsed && ranges.some(r => r.family === parsed.family && (parsed.value & r.mask) === r.network);
+    };
+    compiled.set(trust, predicate);
+  }
+  return predicate;
+}
+
+/**
+ * Resolve the client address, protocol and host of a request. Only the
+ * configured `proxyHeader` is read: `X-Forwarded-For` (with
+ * `X-Forwarded-Proto/-Host`) by default, or the RFC 7239 `Forwarded` header.
+ * It is honoured only as far as each hop that added it is trusted, starting
+ * from the socket peer; protocol and host come from the entry the outermost
+ * trusted proxy added.
+ */
+export function resolveClient(
+  raw: Request,
+  remoteAddress: string | undefined,
+  trustProxy: TrustProxy,
+  proxyHeader: ProxyHeader = 'x-forwarded-for'
+): ClientInfo {
+  const url = new URL(raw.url);
+  const headers = raw.headers;
+  const trusted = compileTrust(trustProxy);
+
+  const forwarded = proxyHeader === 'forwarded' ? parseForwarded(headers.get('forwarded')) ?? [] : null;
+  const chain = forwarded
+    ? forwarded.map(element => element.for ?? '')
+    : splitList(headers.get('x-forwarded-for'));
+
+  // Walk from the socket peer towards the client while hops are trusted
+  const hops = [normalizeAddress(remoteAddress ?? ''), ...chain.map(normalizeAddress).reverse()];
+  let index = 0;
+  while (index < hops.length - 1 && trusted(hops[index]!)) index++;
+
+  // Entries are appended by each proxy, so the one the outermost trusted
+  // proxy added is `index` from the right; a list set by a single proxy
+  // falls back to its nearest entry
+  const atHop = (list: (string | undefined)[]) => index > 0 ? list[list.length - index] ?? list[list.length - 1] : undefined;
+  const forwardedProto = forwarded
+    ? forwarded[forwarded.length - index]?.proto
+    : atHop(splitList(headers.get('x-forwarded-proto')));
+  const forwardedHost = forwarded
+    ? forwarded[forwarded.length - index]?.host
+    : atHop(splitList(headers.get('x-forwarded-host')));
+
+  const proto = (forwardedProto || url.protocol.slice(0, -1)).toLowerCase();
+  const host = forwardedHost || headers.get('host') || url.host;
+
+  return {
+    ip: hops[index]!,
+    ips: hops.slice(1, index + 1).reverse(),
+    protocol: proto === 'https' ? 'https' : 'http',
+    hostname: stripPort(host.trim().toLowerCase()),
+  };
+}
+
+// ============================================
+// Parsing helpers
+// ============================================
+
+/** RFC 7239 `Forwarded` elements, nearest proxy last */
+function parseForwarded(header: string | null): Record<string, string>[] | null {
+  if (!header) return null;
+  const elements = header.match(/(?:[^,"]|"[^"]*")+/g) ?? [];
+  return elements.map(element => {
+    const pairs: Record<string, string> = {};
+    for (const pair of element.split(';')) {
+      const eq = pair.indexOf('=');
+      if (eq === -1) continue;
+      pairs[pair.slice(0, eq).trim().toLowerCase()] = pair.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+    }
+    return pairs;
+  });
+}
+
+function splitList(header: string | null): string[] {
+  return header ? header.split(',').map(value => value.trim()).filter(Boolean) : [];
+}
+
+/** Drop brackets, ports and the IPv4-mapped IPv6 prefix */
+function normalizeAddress(address: string): string {
+  let value = address.trim();
+  if (value.startsWith('[')) {
+    value = value.slice(1, value.indexOf(']'));
+  } else if (/^[\d.]+:\d+$/.test(value)) {
+    value = value.slice(0, value.lastIndexOf(':'));
+  }
+  const mapped = value.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  return mapped ? mapped[1]! : value.toLowerCase();
+}
+
+function stripPort(host: string): string {
+  return host.startsWith('[') ? host.slice(0, host.indexOf(']') + 1) : host.replace(/:\d+$/, '');
+}
+
+function parseAddress(address: string): { family: 4 | 6; value: bigint } | null {
+  if (isIPv4(address)) {
+    return { family: 4, value: address.split('.').reduce((acc, octet) => (acc << 8n) | BigInt(octet), 0n) };
+  }
+  if (!isIPv6(address)) return null;
+
+  // Expand '::' and a trailing dotted IPv4 part into eight 16-bit groups
+  let groups = address;
+  const tail = groups.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const v4 = parseAddress(tail[1]!)!.value;
+    groups = groups.slice(0, -tail[1]!.length) + `${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+  const [head, rest] = groups.split('::');
+  const left = head ? head.split(':') : [];
+  const right = rest !== undefined && rest !== '' ? rest.split(':') : [];
+  const middle = rest !== undefined ? Array(8 - left.length - right.length).fill('0') : [];
+  const value = [...left, ...middle, ...right].reduce((acc, group) => (acc << 16n) | BigInt(parseInt(group, 16)), 0n);
+  return { family: 6, value };
+}
+
+function parseRange(entry: string): Range {
+  const [address, bits] = entry.split('/');
+  const parsed = parseAddress(normalizeAddress(address!));
+  if (!parsed) throw new Error(`Invalid trustProxy entry: "${entry}"`);
+
+  const size = parsed.family === 4 ? 32 : 128;
+  const prefix = bits === undefined ? size : Number(bits);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > size) {
+    throw new Error(`Invalid trustProxy entry: "${entry}"`);
+  }
+  const mask = prefix === 0 ? 0n : ((1n << BigInt(prefix)) - 1n) << BigInt(size - prefix);
+  return { family: parsed.family, network: parsed.value & mask, mask };
+}
@@ -0,0 +1,11 @@
+import { HttpException } from './HttpException';
+
+export class PayloadTooLargeException extends HttpException {
+  public limit?: number;
+
+  constructor(limit?: number, message?: string) {
+    super(message || (limit ? `Request body exceeds the ${limit} byte limit` : 'Payload Too Large'), 413);
+    this.code = 'PAYLOAD_TOO_LARGE';
+    this.limit = limit;
+  }
+}
@@ -0,0 +1,11 @@
+import { HttpException } from './HttpException';
+
+export class RequestTimeoutException extends HttpException {
+  public timeout?: number;
+
+  constructor(timeout?: number, message?: string) {
+    super(message || (timeout ? `Request timed out after ${timeout}ms` : 'Request Timeout'), 503);
+    this.code = 'REQUEST_TIMEOUT';
+    this.timeout = timeout;
+  }
+}
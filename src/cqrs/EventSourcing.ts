@@ -4,6 +4,7 @@
  */
 
 import type { IEvent } from './CqrsModule';
+import { query, execute, transaction, isDuplicateKeyError } from '../mvc/Model';
 
 // ============================================
 // Types & Interfaces
@@ -45,6 +46,38 @@ export interface StoredEvent {
   payload: unknown;
   metadata: EventMetadata;
   timestamp: number;
+  /** Position in the global stream, starting at 1 */
+  position?: number;
+}
+
+/**
+ * Storage for aggregate event streams, snapshots and the global event stream.
+ * Positions are 1-based; `getAllEvents(n)` returns the events after position n.
+ */
+export interface EventStore {
+  appendEvents(aggregateId: string, aggregateType: string, events: DomainEvent[], expectedVersion?: number): Promise<void>;
+  getEvents(aggregateId: string, fromVersion?: number, toVersion?: number): Promise<StoredEvent[]>;
+  getEventsSinceVersion(aggregateId: string, version: number): Promise<StoredEvent[]>;
+  getAllEvents(fromPosition?: number, limit?: number): Promise<StoredEvent[]>;
+  getEventsByType(eventType: string): Promise<StoredEvent[]>;
+  saveSnapshot<TState>(snapshot: Snapshot<TState>): Promise<void>;
+  getSnapshot<TState>(aggregateId: string): Promise<Snapshot<TState> | null>;
+  shouldSnapshot(aggregateId: string, currentVersion: number): boolean | Promise<boolean>;
+  getStreamPosition(): Promise<number>;
+  /**
+   * Be told about events appended through this store instance. Returns an
+   * unsubscribe function. Appends from other processes are only seen by polling.
+   */
+  subscribe?(listener: EventStoreListener): () => void;
+}
+
+export type EventStoreListener = (events: StoredEvent[]) => void;
+
+/** Where projections persist how far they got, and their state at that point */
+export interface ProjectionCheckpointStore {
+  load<TState>(projection: string): Promise<{ position: number; state: TState } | null>;
+  save<TState>(projection: string, position: number, state: TState): Promise<void>;
+  delete(projection: string): Promise<void>;
 }
 
 // ============================================
@@ -159,10 +192,22 @@ export abstract class AggregateRoot<TState = unknown> {
 // Event Store (In-Memory Implementation)
 // ============================================
 
-export class InMemoryEventStore {
+// A throwing listener must not fail the append that already succeeded.
+function notify(listeners: Set<EventStoreListener>, events: StoredEvent[]): void {
+  for (const listener of listeners) {
+    try {
+      listener(events);
+    } catch (e) {
+      console.error('[EventStore] Listener failed:', e);
+    }
+  }
+}
+
+export class InMemoryEventStore implements EventStore {
   private events: Map<string, StoredEvent[]> = new Map();
   private snapshots: Map<string, Snapshot<unknown>> = new Map();
   private allEvents: StoredEvent[] = [];
+  private listeners: Set<EventStoreListener> = new Set();
   private options: Required<EventStoreOptions>;
 
   constructor(options: EventStoreOptions = {}) {
@@ -205,6 +250,7 @@ export class InMemoryEventStore {
       payload: event.payload,
       metadata: event.metadata || { timestamp: event.timestamp },
       timestamp: event.timestamp,
+      position: this.allEvents.length + index + 1,
     }));
 
     // Append to aggregate events
@@ -219,6 +265,12 @@ export class InMemoryEventStore {
 
     // Append to global event stream
     this.allEvents.push(...storedEvents);
+    notify(this.listeners, storedEvents);
+  }
+
+  subscribe(listener: EventStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
   }
 
   /**
@@ -315,6 +367,288 @@ export class InMemoryEventStore {
   }
 }
 
+// ============================================
+// Event Store (SQL Implementation)
+// ============================================
+
+export interface SqlEventStoreOptions extends EventStoreOptions {
+  /** Events table (default 'events') */
+  table?: string;
+  /** Snapshots table (default 'snapshots') */
+  snapshotTable?: string;
+  /** Named database connection */
+  connection?: string;
+}
+
+// Appends that lost the race for the next position are retried this often
+const MAX_APPEND_ATTEMPTS = 10;
+
+/**
+ * Event store on the CanxJS DB layer. The unique (aggregate_id, version) key
+ * turns concurrent appends to one aggregate into a ConcurrencyError, and
+ * `position` is the global stream order. Positions are assigned by the store
+ * (last position + 1) rather than by auto-increment: a writer can only take
+ * position n + 1 once n has committed, so positions commit in order and a
+ * projection reading `position > last` never skips an event committed late.
+ *
+ * NOTE: the consumer must have created the tables beforehand, e.g. (SQLite):
+ *
+ *   CREATE TABLE events (
+ *     position       INTEGER PRIMARY KEY AUTOINCREMENT,
+ *     id             VARCHAR(255),
+ *     aggregate_id   VARCHAR(255) NOT NULL,
+ *     aggregate_type VARCHAR(255),
+ *     type           VARCHAR(255),
+ *     version        INTEGER NOT NULL,
+ *     payload        TEXT,
+ *     metadata       TEXT,
+ *     timestamp      BIGINT,
+ *     UNIQUE (aggregate_id, version)
+ *   );
+ *
+ *   CREATE TABLE snapshots (
+ *     aggregate_id VARCHAR(255) PRIMARY KEY,
+ *     version      INTEGER,
+ *     state        TEXT,
+ *     timestamp    BIGINT
+ *   );
+ *
+ * (MySQL: `position BIGINT AUTO_INCREMENT PRIMARY KEY`; Postgres: `BIGSERIAL`.)
+ */
+export class SqlEventStore implements EventStore {
+  private table: string;
+  private snapshotTable: string;
+  private connection?: string;
+  private snapshotThreshold: number;
+  private listeners: Set<EventStoreListener> = new Set();
+
+  constructor(options: SqlEventStoreOptions = {}) {
+    this.table = options.table ?? 'events';
+    this.snapshotTable = options.snapshotTable ?? 'snapshots';
+    this.connection = options.connection;
+    this.snapshotThreshold = options.snapshotThreshold ?? 100;
+  }
+
+  async appendEvents(
+    aggregateId: string,
+    aggregateType: string,
+    events: DomainEvent[],
+    expectedVersion?: number
+  ): Promise<void> {
+    if (expectedVersion !== undefined) {
+      const currentVersion = await this.currentVersion(aggregateId);
+      if (currentVersion !== expectedVersion) {
+        throw new ConcurrencyError(
+          `Concurrency conflict: expected version ${expectedVersion}, but found ${currentVersion}`
+        );
+      }
+    }
+
+    // Built from the inserted rows, so listeners need no read after the commit
+    let stored: StoredEvent[] = [];
+    for (let attempt = 1; ; attempt++) {
+      try {
+        stored = await transaction(async () => {
+          let position = await this.getStreamPosition();
+          const rows = events.map(event => ({
+            position: ++position,
+            id: `${aggregateId}-${event.version}`,
+            aggregate_id: aggregateId,
+            aggregate_type: aggregateType,
+            type: event.type,
+            version: event.version,
+            payload: JSON.stringify(event.payload ?? null),
+            metadata: JSON.stringify(event.metadata || { timestamp: event.timestamp }),
+            timestamp: event.timestamp,
+          }));
+          for (const row of rows) {
+            await execute(
+              `INSERT INTO ${this.table} (position, id, aggregate_id, aggregate_type, type, version, payload, metadata, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              [row.position, row.id, row.aggregate_id, row.aggregate_type, row.type, row.version, row.payload, row.metadata, row.timestamp],
+              this.connection
+            );
+          }
+          return rows.map(row => this.toStoredEvent(row));
+        }, this.connection);
+        break;
+      } catch (e) {
+        if (!isDuplicateKeyError(e)) throw e;
+        // Another writer appended the same version first.
+        if (await this.currentVersion(aggregateId) >= (events[0]?.version ?? 0)) {
+          throw new ConcurrencyError(
+            `Concurrency conflict: version ${events[0]?.version} of ${aggregateId} already exists`
+          );
+        }
+        // Otherwise it took the next position first; retry after it
+        if (attempt >= MAX_APPEND_ATTEMPTS) throw e;
+      }
+    }
+
+    notify(this.listeners, stored);
+  }
+
+  subscribe(listener: EventStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async getEvents(aggregateId: string, fromVersion?: number, toVersion?: number): Promise<StoredEvent[]> {
+    const rows = await query<any>(
+      `SELECT * FROM ${this.table} WHERE aggregate_id = ? AND version >= ? AND version <= ? ORDER BY version`,
+      [aggregateId, fromVersion ?? 0, toVersion ?? Number.MAX_SAFE_INTEGER],
+      this.connection
+    );
+    return rows.map(row => this.toStoredEvent(row));
+  }
+
+  async getEventsSinceVersion(aggregateId: string, version: number): Promise<StoredEvent[]> {
+    return this.getEvents(aggregateId, version + 1);
+  }
+
+  async getAllEvents(fromPosition?: number, limit?: number): Promise<StoredEvent[]> {
+    const rows = await query<any>(
+      `SELECT * FROM ${this.table} WHERE position > ? ORDER BY position` + (limit !== undefined ? ` LIMIT ${Number(limit)}` : ''),
+      [fromPosition ?? 0],
+      this.connection
+    );
+    return rows.map(row => this.toStoredEvent(row));
+  }
+
+  async getEventsByType(eventType: string): Promise<StoredEvent[]> {
+    const rows = await query<any>(
+      `SELECT * FROM ${this.table} WHERE type = ? ORDER BY position`,
+      [eventType],
+      this.connection
+    );
+    return rows.map(row => this.toStoredEvent(row));
+  }
+
+  async saveSnapshot<TState>(snapshot: Snapshot<TState>): Promise<void> {
+    const values = [snapshot.version, JSON.stringify(snapshot.state), snapshot.timestamp, snapshot.aggregateId];
+    const updated = await execute(
+      `UPDATE ${this.snapshotTable} SET version = ?, state = ?, timestamp = ? WHERE aggregate_id = ?`,
+      values,
+      this.connection
+    );
+    if (updated.affectedRows) return;
+    await execute(
+      `INSERT INTO ${this.snapshotTable} (version, state, timestamp, aggregate_id) VALUES (?, ?, ?, ?)`,
+      values,
+      this.connection
+    );
+  }
+
+  async getSnapshot<TState>(aggregateId: string): Promise<Snapshot<TState> | null> {
+    const rows = await query<any>(
+      `SELECT * FROM ${this.snapshotTable} WHERE aggregate_id = ?`,
+      [aggregateId],
+      this.connection
+    );
+    if (!rows.length) return null;
+    return {
+      aggregateId,
+      version: Number(rows[0].version),
+      state: JSON.parse(rows[0].state) as TState,
+      timestamp: Number(rows[0].timestamp),
+    };
+  }
+
+  async shouldSnapshot(aggregateId: string, currentVersion: number): Promise<boolean> {
+    const rows = await query<any>(
+      `SELECT version FROM ${this.snapshotTable} WHERE aggregate_id = ?`,
+      [aggregateId],
+      this.connection
+    );
+    const lastSnapshotVersion = Number(rows[0]?.version) || 0;
+    return (currentVersion - lastSnapshotVersion) >= this.snapshotThreshold;
+  }
+
+  async getStreamPosition(): Promise<number> {
+    const rows = await query<any>(`SELECT MAX(position) AS position FROM ${this.table}`, [], this.connection);
+    return Number(rows[0]?.position) || 0;
+  }
+
+  private async currentVersion(aggregateId: string): Promise<number> {
+    const rows = await query<any>(
+      `SELECT MAX(version) AS version FROM ${this.table} WHERE aggregate_id = ?`,
+      [aggregateId],
+      this.connection
+    );
+    return Number(rows[0]?.version) || 0;
+  }
+
+  private toStoredEvent(row: any): StoredEvent {
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+    return {
+      id: row.id,
+      aggregateId: row.aggregate_id,
+      aggregateType: row.aggregate_type,
+      type: row.type,
+      version: Number(row.version),
+      payload: parse(row.payload),
+      metadata: parse(row.metadata),
+      timestamp: Number(row.timestamp),
+      position: Number(row.position),
+    };
+  }
+}
+
+// ============================================
+// Projection Checkpoints
+// ============================================
+
+export class InMemoryCheckpointStore implements ProjectionCheckpointStore {
+  private checkpoints: Map<string, { position: number; state: unknown }> = new Map();
+
+  async load<TState>(projection: string): Promise<{ position: number; state: TState } | null> {
+    const checkpoint = this.checkpoints.get(projection);
+    return checkpoint ? { position: checkpoint.position, state: structuredClone(checkpoint.state) as TState } : null;
+  }
+
+  async save<TState>(projection: string, position: number, state: TState): Promise<void> {
+    this.checkpoints.set(projection, { position, state: structuredClone(state) });
+  }
+
+  async delete(projection: string): Promise<void> {
+    this.checkpoints.delete(projection);
+  }
+}
+
+/**
+ * Checkpoints in a table, so projections resume where they stopped:
+ *
+ *   CREATE TABLE projection_checkpoints (
+ *     name       VARCHAR(255) PRIMARY KEY,
+ *     position   BIGINT,
+ *     state      TEXT,
+ *     updated_at BIGINT
+ *   );
+ */
+export class SqlCheckpointStore implements ProjectionCheckpointStore {
+  constructor(private table: string = 'projection_checkpoints', private connection?: string) {}
+
+  async load<TState>(projection: string): Promise<{ position: number; state: TState } | null> {
+    const rows = await query<any>(`SELECT position, state FROM ${this.table} WHERE name = ?`, [projection], this.connection);
+    if (!rows.length) return null;
+    return { position: Number(rows[0].position), state: JSON.parse(rows[0].state) as TState };
+  }
+
+  async save<TState>(projection: string, position: number, state: TState): Promise<void> {
+    const values = [position, JSON.stringify(state), Date.now(), projection];
+    const updated = await execute(
+      `UPDATE ${this.table} SET position = ?, state = ?, updated_at = ? WHERE name = ?`,
+      values,
+      this.connection
+    );
+    if (updated.affectedRows) return;
+    await execute(`INSERT INTO ${this.table} (position, state, updated_at, name) VALUES (?, ?, ?, ?)`, values, this.connection);
+  }
+
+  async delete(projection: string): Promise<void> {
+    await execute(`DELETE FROM ${this.table} WHERE name = ?`, [projection], this.connection);
+  }
+}
+
 // ============================================
 // Repository
 // ============================================
@@ -323,12 +657,12 @@ export class EventSourcingRepository<
   TAggregate extends AggregateRoot<TState>,
   TState = unknown
 > {
-  private eventStore: InMemoryEventStore;
+  private eventStore: EventStore;
   private aggregateFactory: (id: string) => TAggregate;
   private aggregateType: string;
 
   constructor(
-    eventStore: InMemoryEventStore,
+    eventStore: EventStore,
     aggregateType: string,
     aggregateFactory: (id: string) => TAggregate
   ) {
@@ -391,7 +725,7 @@ export class EventSourcingRepository<
     );
 
     // Check if snapshot is needed
-    if (this.eventStore.shouldSnapshot(aggregate.id, aggregate.version)) {
+    if (await this.eventStore.shouldSnapshot(aggregate.id, aggregate.version)) {
       const snapshot = aggregate.createSnapshot();
       await this.eventStore.saveSnapshot(snapshot);
     }
@@ -418,14 +752,45 @@ export interface Projection<TState> {
   handlers: Map<string, (state: TState, event: StoredEvent) => TState>;
   currentState: TState;
   lastPosition: number;
+  /** 'failed' while the event at lastPosition + 1 keeps throwing */
+  status?: 'idle' | 'failed';
+  lastError?: string;
+}
+
+export interface ProjectionRunOptions {
+  /** Also poll the store for events appended elsewhere (ms, default 1000; 0 disables) */
+  pollInterval?: number;
+  /** Called when a projection fails; the others keep running */
+  onError?: (projection: string, error: Error) => void;
+}
+
+// Every registered projection name -> its manager, so `canx projection:rebuild`
+// can find projections defined by the application (same globalThis guard as
+// the migrator).
+const PROJECTIONS_KEY = Symbol.for('canxjs.cqrs.projections');
+const projectionRegistry: Map<string, ProjectionManager> = ((globalThis as any)[PROJECTIONS_KEY] ??= new Map());
+
+/**
+ * The manager a projection was registered on, if any
+ */
+export function findProjectionManager(projectionName: string): ProjectionManager | undefined {
+  return projectionRegistry.get(projectionName);
 }
 
 export class ProjectionManager {
-  private eventStore: InMemoryEventStore;
+  private eventStore: EventStore;
+  private checkpoints: ProjectionCheckpointStore;
   private projections: Map<string, Projection<any>> = new Map();
-
-  constructor(eventStore: InMemoryEventStore) {
+  private restored: Set<string> = new Set();
+  // Per-projection chain so runs of one projection never overlap.
+  private queues: Map<string, Promise<void>> = new Map();
+  private unsubscribe: (() => void) | null = null;
+  private pollTimer: Timer | null = null;
+  private runOptions: ProjectionRunOptions = {};
+
+  constructor(eventStore: EventStore, checkpoints: ProjectionCheckpointStore = new InMemoryCheckpointStore()) {
     this.eventStore = eventStore;
+    this.checkpoints = checkpoints;
   }
 
   /**
@@ -442,39 +807,175 @@ export class ProjectionManager {
       handlers: new Map(Object.entries(handlers)),
       currentState: structuredClone(initialState),
       lastPosition: 0,
+      status: 'idle',
     });
+    projectionRegistry.set(name, this);
     return this;
   }
 
   /**
-   * Update all projections
+   * Names of the registered projections
+   */
+  names(): string[] {
+    return [...this.projections.keys()];
+  }
+
+  /**
+   * Update all projections side by side. A failing projection is marked
+   * failed (see getStatus) without stopping the others.
    */
   async updateAll(): Promise<void> {
-    for (const projection of this.projections.values()) {
-      await this.update(projection.name);
+    await Promise.all([...this.projections.keys()].map(name => this.updateIsolated(name)));
+  }
+
+  /**
+   * Catch up every projection, then keep them current: appends through the
+   * store trigger an update, and polling picks up events from other processes.
+   */
+  async start(options: ProjectionRunOptions = {}): Promise<void> {
+    this.stop();
+    this.runOptions = options;
+    await this.updateAll();
+
+    if (this.eventStore.subscribe) {
+      this.unsubscribe = this.eventStore.subscribe(() => { void this.updateAll(); });
     }
+    const pollInterval = options.pollInterval ?? 1000;
+    if (pollInterval > 0) {
+      this.pollTimer = setInterval(() => { void this.updateAll(); }, pollInterval);
+    }
+  }
+
+  /**
+   * Stop live updates
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
   }
 
   /**
-   * Update a specific projection
+   * Wait for queued projection runs to finish
    */
-  async update(projectionName: string): Promise<void> {
+  async idle(): Promise<void> {
+    await Promise.all([...this.queues.values()]);
+  }
+
+  /**
+   * Update a specific projection. Throws if a handler fails; the checkpoint
+   * stays on the last event that succeeded, so the next run retries from there.
+   */
+  update(projectionName: string): Promise<void> {
+    const previous = this.queues.get(projectionName) ?? Promise.resolve();
+    const run = previous.then(() => this.runUpdate(projectionName));
+    const settled = run.catch(() => {});
+    this.queues.set(projectionName, settled);
+    settled.then(() => {
+      if (this.queues.get(projectionName) === settled) this.queues.delete(projectionName);
+    });
+    return run;
+  }
+
+  /**
+   * Rebuild a projection from its initial state by replaying the whole
+   * stream. With `fromPosition`, replay resumes from the saved checkpoint
+   * instead, which must be at or before that position: events up to it are
+   * already folded into the saved state, while a later checkpoint has no
+   * state to go back to.
+   */
+  async rebuild(projectionName: string, fromPosition: number = 0): Promise<void> {
     const projection = this.projections.get(projectionName);
     if (!projection) {
       throw new Error(`Projection not found: ${projectionName}`);
     }
 
+    const previous = this.queues.get(projectionName);
+    if (previous) await previous;
+
+    const checkpoint = fromPosition > 0 ? await this.checkpoints.load(projectionName) : null;
+    if (checkpoint && checkpoint.position > fromPosition) {
+      throw new Error(
+        `Cannot rebuild ${projectionName} from position ${fromPosition}: its checkpoint is at ${checkpoint.position}` +
+        ` and there is no saved state at or before ${fromPosition}; rebuild from the start instead`
+      );
+    }
+    projection.currentState = checkpoint ? checkpoint.state : structuredClone(projection.initialState);
+    projection.lastPosition = checkpoint ? checkpoint.position : 0;
+    projection.status = 'idle';
+    projection.lastError = undefined;
+    this.restored.add(projectionName);
+    if (!checkpoint) await this.checkpoints.delete(projectionName);
+    await this.update(projectionName);
+  }
+
+  /**
+   * Health of a projection: position reached and the last failure, if any
+   */
+  getStatus(projectionName: string): { status: 'idle' | 'failed'; position: number; error?: string } | null {
+    const projection = this.projections.get(projectionName);
+    if (!projection) return null;
+    return { status: projection.status ?? 'idle', position: projection.lastPosition, error: projection.lastError };
+  }
+
+  private async updateIsolated(projectionName: string): Promise<void> {
+    try {
+      await this.update(projectionName);
+    } catch (e) {
+      console.error(`[Projection] ${projectionName} failed:`, e);
+      this.runOptions.onError?.(projectionName, e as Error);
+    }
+  }
+
+  private async runUpdate(projectionName: string): Promise<void> {
+    const projection = this.projections.get(projectionName);
+    if (!projection) {
+      throw new Error(`Projection not found: ${projectionName}`);
+    }
+
+    // Resume from the persisted checkpoint instead of replaying from zero.
+    if (!this.restored.has(projectionName)) {
+      const checkpoint = await this.checkpoints.load(projectionName);
+      if (checkpoint) {
+        projection.currentState = checkpoint.state;
+        projection.lastPosition = checkpoint.position;
+      }
+      this.restored.add(projectionName);
+    }
+
     const events = await this.eventStore.getAllEvents(projection.lastPosition);
-    
-    for (const event of events) {
-      const handler = projection.handlers.get(event.type);
-      if (handler) {
-        projection.currentState = handler(projection.currentState, event);
+    if (events.length === 0) return;
+
+    const startedAt = projection.lastPosition;
+    try {
+      for (const event of events) {
+        const handler = projection.handlers.get(event.type);
+        if (handler) {
+          projection.currentState = handler(projection.currentState, event);
+        }
+        projection.lastPosition = event.position ?? projection.lastPosition + 1;
+      }
+      projection.status = 'idle';
+      projection.lastError = undefined;
+    } catch (e) {
+      projection.status = 'failed';
+      projection.lastError = (e as Error).message;
+      throw e;
+    } finally {
+      if (projection.lastPosition !== startedAt) {
+        await this.checkpoints.save(projectionName, projection.lastPosition, projection.currentState);
       }
-      projection.lastPosition++;
     }
   }
 
+  /**
+   * Global stream position a projection has processed up to
+   */
+  getPosition(projectionName: string): number {
+    return this.projections.get(projectionName)?.lastPosition ?? 0;
+  }
+
   /**
    * Get projection state
    */
@@ -484,22 +985,24 @@ export class ProjectionManager {
   }
 
   /**
-   * Reset projection
+   * Reset projection (and drop its checkpoint)
    */
-  reset(projectionName: string): void {
+  async reset(projectionName: string): Promise<void> {
     const projection = this.projections.get(projectionName);
     if (projection) {
       projection.currentState = structuredClone(projection.initialState);
       projection.lastPosition = 0;
+      this.restored.add(projectionName);
+      await this.checkpoints.delete(projectionName);
     }
   }
 
   /**
    * Reset all projections
    */
-  resetAll(): void {
+  async resetAll(): Promise<void> {
     for (const name of this.projections.keys()) {
-      this.reset(name);
+      await this.reset(name);
     }
   }
 }
@@ -540,7 +1043,7 @@ export function createRepository<
   TAggregate extends AggregateRoot<TState>,
   TState = unknown
 >(
-  eventStore: InMemoryEventStore,
+  eventStore: EventStore,
   aggregateType: string,
   factory: (id: string) => TAggregate
 ): EventSourcingRepository<TAggregate, TState> {
@@ -551,9 +1054,10 @@ export function createRepository<
  * Create a projection manager
  */
 export function createProjectionManager(
-  eventStore: InMemoryEventStore
+  eventStore: EventStore,
+  checkpoints?: ProjectionCheckpointStore
 ): ProjectionManager {
-  return new ProjectionManager(eventStore);
+  return new ProjectionManager(eventStore, checkpoints);
 }
 
 // ============================================
@@ -563,6 +1067,9 @@ export function createProjectionManager(
 export default {
   AggregateRoot,
   InMemoryEventStore,
+  SqlEventStore,
+  InMemoryCheckpointStore,
+  SqlCheckpointStore,
   EventSourcingRepository,
   ProjectionManager,
   ConcurrencyError,
@@ -44,6 +44,9 @@ export {
   // Classes
   AggregateRoot,
   InMemoryEventStore,
+  SqlEventStore,
+  InMemoryCheckpointStore,
+  SqlCheckpointStore,
   EventSourcingRepository,
   ProjectionManager,
   
@@ -55,6 +58,7 @@ export {
   createEventStore,
   createRepository,
   createProjectionManager,
+  findProjectionManager,
 } from './EventSourcing';
 
 export type {
@@ -62,7 +66,12 @@ export type {
   DomainEvent,
   EventMetadata,
   Snapshot,
+  EventStore,
   EventStoreOptions,
+  SqlEventStoreOptions,
   StoredEvent,
   Projection,
+  ProjectionCheckpointStore,
+  ProjectionRunOptions,
+  EventStoreListener,
 } from './EventSourcing';
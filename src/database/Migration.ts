@@ -2,7 +2,7 @@
  * CanxJS Migrations - Database schema management
  */
 
-import { query, execute, getCurrentDriver } from '../mvc/Model';
+import { query, execute, getCurrentDriver, pretend, isPretending } from '../mvc/Model';
 import type { DatabaseDriver } from '../types';
 
 // Quote an identifier for the active driver: double-quotes for Postgres,
@@ -21,7 +21,7 @@ interface MigrationRecord {
   id: number;
   name: string;
   batch: number;
-  executed_at: string;
+  executed_at?: string;
 }
 
 // ============================================
@@ -42,93 +42,178 @@ interface Column {
   unique?: boolean;
   index?: boolean;
   unsigned?: boolean;
+  /** Modify an existing column instead of adding it (Schema.table only) */
+  change?: boolean;
   references?: { table: string; column: string; onDelete?: string; onUpdate?: string };
 }
 
+interface IndexDefinition {
+  name: string;
+  columns: string[];
+  unique: boolean;
+}
+
+interface ForeignKeyDefinition {
+  name: string;
+  column: string;
+  table?: string;
+  references: string;
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+// Structural changes recorded by Schema.table(); column additions and
+// .change() modifications live on `columns` like they do for create().
+type AlterCommand =
+  | { type: 'renameColumn'; from: string; to: string }
+  | { type: 'dropColumn'; columns: string[] }
+  | { type: 'dropIndex'; name: string }
+  | { type: 'dropForeign'; name: string }
+  | { type: 'rename'; to: string };
+
+type ReferentialAction = 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION';
+
+// SQL type of a column for the given driver.
+function columnType(col: Column, driver: DatabaseDriver): string {
+  const isPg = driver === 'postgresql';
+  const isSqlite = driver === 'sqlite';
+
+  switch (col.type) {
+    case 'id':
+      if (isSqlite) return 'INTEGER PRIMARY KEY AUTOINCREMENT';
+      if (isPg) return 'BIGSERIAL PRIMARY KEY';
+      return 'BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY';
+    case 'string': return `VARCHAR(${col.length || 255})`;
+    case 'text': return 'TEXT';
+    case 'int': return isPg ? 'INTEGER' : (col.unsigned ? (isSqlite ? 'INTEGER' : 'INT UNSIGNED') : 'INT');
+    case 'bigint': return isPg ? 'BIGINT' : (col.unsigned ? (isSqlite ? 'INTEGER' : 'BIGINT UNSIGNED') : 'BIGINT');
+    case 'float': return isPg ? 'REAL' : 'FLOAT';
+    case 'decimal': return `DECIMAL(${col.length || 10}, ${(col as any).scale ?? 2})`;
+    case 'boolean': return isSqlite ? 'INTEGER' : (isPg ? 'BOOLEAN' : 'TINYINT(1)');
+    case 'date': return 'DATE';
+    case 'datetime': return isPg ? 'TIMESTAMP' : 'DATETIME';
+    case 'timestamp': return 'TIMESTAMP';
+    case 'json': return isPg ? 'JSONB' : 'JSON';
+    case 'binary': return isPg ? 'BYTEA' : 'BLOB';
+  }
+}
+
+// SQL literal for a column default.
+function defaultSQL(value: unknown, driver: DatabaseDriver): string {
+  if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;   // escape quotes
+  if (typeof value === 'boolean') {
+    return driver === 'postgresql' ? (value ? 'TRUE' : 'FALSE') : (value ? '1' : '0');
+  }
+  return String(value);
+}
+
+// Full column definition (name, type, nullability, default, inline constraints).
+function columnSQL(col: Column, driver: DatabaseDriver): string {
+  let sql = `${quoteId(col.name, driver)} ${columnType(col, driver)}`;
+
+  if (col.type !== 'id') {
+    // Emit NULL/NOT NULL explicitly. The explicit NULL matters for MySQL/
+    // MariaDB TIMESTAMP columns: a bare second TIMESTAMP otherwise gets an
+    // implicit '0000-00-00' default that strict mode rejects.
+    if (!col.nullable) sql += ' NOT NULL';
+    else sql += ' NULL';
+    if (col.default !== undefined) sql += ` DEFAULT ${defaultSQL(col.default, driver)}`;
+    if (col.unique) sql += ' UNIQUE';
+    if (col.primary) sql += ' PRIMARY KEY';
+  }
+
+  return sql;
+}
+
+function foreignKeySQL(fk: ForeignKeyDefinition, driver: DatabaseDriver): string {
+  const q = (id: string) => quoteId(id, driver);
+  let sql = `FOREIGN KEY (${q(fk.column)}) REFERENCES ${q(fk.table!)}(${q(fk.references)})`;
+  if (fk.onDelete) sql += ` ON DELETE ${fk.onDelete}`;
+  if (fk.onUpdate) sql += ` ON UPDATE ${fk.onUpdate}`;
+  return sql;
+}
+
 export class TableBuilder {
   private columns: Column[] = [];
   private tableName: string;
   private indices: string[] = [];
   private uniques: string[] = [];
+  private indexes: IndexDefinition[] = [];
+  private foreignKeys: ForeignKeyDefinition[] = [];
+  private commands: AlterCommand[] = [];
+  // Set by foreign(); references()/onDelete()/onUpdate() then target it
+  // instead of the last column until the next column is declared.
+  private pendingForeign?: ForeignKeyDefinition;
 
   constructor(name: string) {
     this.tableName = name;
   }
 
-  id(name = 'id'): this {
-    this.columns.push({ name, type: 'id', primary: true, autoIncrement: true, unsigned: true });
+  private addColumn(column: Column): this {
+    this.pendingForeign = undefined;
+    this.columns.push(column);
     return this;
   }
 
+  id(name = 'id'): this {
+    return this.addColumn({ name, type: 'id', primary: true, autoIncrement: true, unsigned: true });
+  }
+
   string(name: string, length = 255): this {
-    this.columns.push({ name, type: 'string', length });
-    return this;
+    return this.addColumn({ name, type: 'string', length });
   }
 
   text(name: string): this {
-    this.columns.push({ name, type: 'text' });
-    return this;
+    return this.addColumn({ name, type: 'text' });
   }
 
   integer(name: string): this {
-    this.columns.push({ name, type: 'int' });
-    return this;
+    return this.addColumn({ name, type: 'int' });
   }
 
   bigInteger(name: string): this {
-    this.columns.push({ name, type: 'bigint' });
-    return this;
+    return this.addColumn({ name, type: 'bigint' });
   }
 
   float(name: string): this {
-    this.columns.push({ name, type: 'float' });
-    return this;
+    return this.addColumn({ name, type: 'float' });
   }
 
   decimal(name: string, precision = 10, scale = 2): this {
-    this.columns.push({ name, type: 'decimal', length: precision, scale } as any);
-    return this;
+    return this.addColumn({ name, type: 'decimal', length: precision, scale } as any);
   }
 
   boolean(name: string): this {
-    this.columns.push({ name, type: 'boolean' });
-    return this;
+    return this.addColumn({ name, type: 'boolean' });
   }
 
   date(name: string): this {
-    this.columns.push({ name, type: 'date' });
-    return this;
+    return this.addColumn({ name, type: 'date' });
   }
 
   datetime(name: string): this {
-    this.columns.push({ name, type: 'datetime' });
-    return this;
+    return this.addColumn({ name, type: 'datetime' });
   }
 
   timestamp(name: string): this {
-    this.columns.push({ name, type: 'timestamp' });
-    return this;
+    return this.addColumn({ name, type: 'timestamp' });
   }
 
   timestamps(): this {
-    this.columns.push({ name: 'created_at', type: 'timestamp', nullable: true });
-    this.columns.push({ name: 'updated_at', type: 'timestamp', nullable: true });
-    return this;
+    this.addColumn({ name: 'created_at', type: 'timestamp', nullable: true });
+    return this.addColumn({ name: 'updated_at', type: 'timestamp', nullable: true });
   }
 
   softDeletes(): this {
-    this.columns.push({ name: 'deleted_at', type: 'timestamp', nullable: true });
-    return this;
+    return this.addColumn({ name: 'deleted_at', type: 'timestamp', nullable: true });
   }
 
   json(name: string): this {
-    this.columns.push({ name, type: 'json' });
-    return this;
+    return this.addColumn({ name, type: 'json' });
   }
 
   binary(name: string): this {
-    this.columns.push({ name, type: 'binary' });
-    return this;
+    return this.addColumn({ name, type: 'binary' });
   }
 
   // Modifiers (apply to last column)
@@ -142,8 +227,17 @@ export class TableBuilder {
     return this;
   }
 
-  unique(): this {
-    if (this.columns.length) this.columns[this.columns.length - 1].unique = true;
+  /**
+   * Without arguments, marks the last column UNIQUE. With columns, adds a
+   * (composite) unique index: `t.unique(['email', 'tenant_id'])`.
+   */
+  unique(columns?: string | string[], name?: string): this {
+    if (columns === undefined) {
+      if (this.columns.length) this.columns[this.columns.length - 1].unique = true;
+      return this;
+    }
+    const cols = Array.isArray(columns) ? columns : [columns];
+    this.indexes.push({ name: name || this.indexName('uniq', cols), columns: cols, unique: true });
     return this;
   }
 
@@ -152,8 +246,17 @@ export class TableBuilder {
     return this;
   }
 
-  index(): this {
-    if (this.columns.length) this.columns[this.columns.length - 1].index = true;
+  /**
+   * Without arguments, indexes the last column. With columns, adds a
+   * (composite) index: `t.index(['user_id', 'created_at'])`.
+   */
+  index(columns?: string | string[], name?: string): this {
+    if (columns === undefined) {
+      if (this.columns.length) this.columns[this.columns.length - 1].index = true;
+      return this;
+    }
+    const cols = Array.isArray(columns) ? columns : [columns];
+    this.indexes.push({ name: name || this.indexName('idx', cols), columns: cols, unique: false });
     return this;
   }
 
@@ -162,95 +265,405 @@ export class TableBuilder {
     return this;
   }
 
+  /** Modify the last declared column instead of adding it (Schema.table only). */
+  change(): this {
+    if (this.columns.length) this.columns[this.columns.length - 1].change = true;
+    return this;
+  }
+
+  /**
+   * Start a foreign key on an existing column:
+   * `t.foreign('user_id').references('users').onDelete('CASCADE')`.
+   */
+  foreign(column: string, name?: string): this {
+    this.pendingForeign = { name: name || this.foreignName(column), column, references: 'id' };
+    this.foreignKeys.push(this.pendingForeign);
+    return this;
+  }
+
   references(table: string, column = 'id'): this {
-    if (this.columns.length) {
+    if (this.pendingForeign) {
+      this.pendingForeign.table = table;
+      this.pendingForeign.references = column;
+    } else if (this.columns.length) {
       this.columns[this.columns.length - 1].references = { table, column };
     }
     return this;
   }
 
-  onDelete(action: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION'): this {
+  onDelete(action: ReferentialAction): this {
+    if (this.pendingForeign) {
+      this.pendingForeign.onDelete = action;
+      return this;
+    }
     const lastCol = this.columns[this.columns.length - 1];
     if (lastCol?.references) lastCol.references.onDelete = action;
     return this;
   }
 
+  onUpdate(action: ReferentialAction): this {
+    if (this.pendingForeign) {
+      this.pendingForeign.onUpdate = action;
+      return this;
+    }
+    const lastCol = this.columns[this.columns.length - 1];
+    if (lastCol?.references) lastCol.references.onUpdate = action;
+    return this;
+  }
+
+  // Alter operations (Schema.table only)
+  renameColumn(from: string, to: string): this {
+    this.commands.push({ type: 'renameColumn', from, to });
+    return this;
+  }
+
+  dropColumn(...columns: (string | string[])[]): this {
+    this.commands.push({ type: 'dropColumn', columns: columns.flat() });
+    return this;
+  }
+
+  dropTimestamps(): this {
+    return this.dropColumn('created_at', 'updated_at');
+  }
+
+  dropSoftDeletes(): this {
+    return this.dropColumn('deleted_at');
+  }
+
+  /** Drop an index by name, or by the columns it was created with. */
+  dropIndex(index: string | string[]): this {
+    const name = Array.isArray(index) ? this.indexName('idx', index) : index;
+    this.commands.push({ type: 'dropIndex', name });
+    return this;
+  }
+
+  /** Drop a unique index by name, or by the columns it was created with. */
+  dropUnique(index: string | string[]): this {
+    const name = Array.isArray(index) ? this.indexName('uniq', index) : index;
+    this.commands.push({ type: 'dropIndex', name });
+    return this;
+  }
+
+  /** Drop a foreign key by constraint name, or by `[column]`. */
+  dropForeign(key: string | string[]): this {
+    const name = Array.isArray(key) ? this.foreignName(key[0]!) : key;
+    this.commands.push({ type: 'dropForeign', name });
+    return this;
+  }
+
+  /** Rename the table (applied after every other change). */
+  rename(to: string): this {
+    this.commands.push({ type: 'rename', to });
+    return this;
+  }
+
+  private indexName(prefix: 'idx' | 'uniq', columns: string[]): string {
+    return `${prefix}_${this.tableName}_${columns.join('_')}`;
+  }
+
+  private foreignName(column: string): string {
+    return `fk_${this.tableName}_${column}`;
+  }
+
+  // Foreign keys declared inline on columns (.references()) or via foreign().
+  private allForeignKeys(columns: Column[] = this.columns): ForeignKeyDefinition[] {
+    const inline = columns.filter(c => c.references).map(col => ({
+      name: this.foreignName(col.name),
+      column: col.name,
+      table: col.references!.table,
+      references: col.references!.column,
+      onDelete: col.references!.onDelete,
+      onUpdate: col.references!.onUpdate,
+    }));
+    return [...inline, ...this.foreignKeys.filter(fk => fk.table)];
+  }
+
   // Build SQL
   toSQL(): string {
     const driver = getCurrentDriver();
-    const isPg = driver === 'postgresql';
-    const isSqlite = driver === 'sqlite';
+    const cols = this.columns.map(col => columnSQL(col, driver));
+    const fks = this.allForeignKeys().map(fk => foreignKeySQL(fk, driver));
+
+    // Only MySQL uses ENGINE/CHARSET; SQLite and Postgres reject it.
+    const suffix = driver === 'mysql' ? ' ENGINE=InnoDB DEFAULT CHARSET=utf8mb4' : '';
+
+    return `CREATE TABLE ${quoteId(this.tableName, driver)} (\n  ${[...cols, ...fks].join(',\n  ')}\n)${suffix}`;
+  }
+
+  /** Separate CREATE INDEX statements for .index() columns and index()/unique() definitions. */
+  toIndexSQL(columns: Column[] = this.columns): string[] {
+    const driver = getCurrentDriver();
     const q = (id: string) => quoteId(id, driver);
+    const inline = columns
+      .filter((c) => c.index && !c.unique && !c.primary && c.type !== 'id')
+      .map((c) => `CREATE INDEX ${q(this.indexName('idx', [c.name]))} ON ${q(this.tableName)} (${q(c.name)})`);
+    const explicit = this.indexes.map((idx) =>
+      `CREATE ${idx.unique ? 'UNIQUE ' : ''}INDEX ${q(idx.name)} ON ${q(this.tableName)} (${idx.columns.map(q).join(', ')})`
+    );
+    return [...inline, ...explicit];
+  }
 
-    const cols = this.columns.map(col => {
-      let sql = `${q(col.name)} `;
-
-      switch (col.type) {
-        case 'id':
-          if (isSqlite) sql += 'INTEGER PRIMARY KEY AUTOINCREMENT';
-          else if (isPg) sql += 'BIGSERIAL PRIMARY KEY';
-          else sql += 'BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY';
-          break;
-        case 'string': sql += `VARCHAR(${col.length || 255})`; break;
-        case 'text': sql += 'TEXT'; break;
-        case 'int': sql += isPg ? 'INTEGER' : (col.unsigned ? (isSqlite ? 'INTEGER' : 'INT UNSIGNED') : 'INT'); break;
-        case 'bigint': sql += isPg ? 'BIGINT' : (col.unsigned ? (isSqlite ? 'INTEGER' : 'BIGINT UNSIGNED') : 'BIGINT'); break;
-        case 'float': sql += isPg ? 'REAL' : 'FLOAT'; break;
-        case 'decimal': sql += `DECIMAL(${col.length || 10}, ${(col as any).scale ?? 2})`; break;
-        case 'boolean': sql += isSqlite ? 'INTEGER' : (isPg ? 'BOOLEAN' : 'TINYINT(1)'); break;
-        case 'date': sql += 'DATE'; break;
-        case 'datetime': sql += isPg ? 'TIMESTAMP' : 'DATETIME'; break;
-        case 'timestamp': sql += 'TIMESTAMP'; break;
-        case 'json': sql += isPg ? 'JSONB' : 'JSON'; break;
-        case 'binary': sql += isPg ? 'BYTEA' : 'BLOB'; break;
-      }
+  /**
+   * Statements for Schema.table(). Async because SQLite operations it cannot
+   * perform natively are compiled into a table rebuild, which needs to read
+   * the current table definition first.
+   */
+  async toAlterSQL(): Promise<string[]> {
+    const driver = getCurrentDriver();
+    if (driver === 'sqlite' && this.needsRebuild()) {
+      return this.toSqliteRebuildSQL();
+    }
 
-      if (col.type !== 'id') {
-        // Emit NULL/NOT NULL explicitly. The explicit NULL matters for MySQL/
-        // MariaDB TIMESTAMP columns: a bare second TIMESTAMP otherwise gets an
-        // implicit '0000-00-00' default that strict mode rejects.
-        if (!col.nullable) sql += ' NOT NULL';
-        else sql += ' NULL';
-        if (col.default !== undefined) {
-          let def: string | number;
-          if (typeof col.default === 'string') {
-            def = `'${col.default.replace(/'/g, "''")}'`;   // escape quotes
-          } else if (typeof col.default === 'boolean') {
-            def = isPg ? (col.default ? 'TRUE' : 'FALSE') : (col.default ? 1 : 0);
-          } else {
-            def = col.default as any;
-          }
-          sql += ` DEFAULT ${def}`;
+    const q = (id: string) => quoteId(id, driver);
+    const table = q(this.tableName);
+    const statements: string[] = [];
+    const added = this.columns.filter(c => !c.change);
+    const changed = this.columns.filter(c => c.change);
+
+    for (const cmd of this.commands) {
+      if (cmd.type === 'dropForeign') {
+        statements.push(driver === 'mysql'
+          ? `ALTER TABLE ${table} DROP FOREIGN KEY ${q(cmd.name)}`
+          : `ALTER TABLE ${table} DROP CONSTRAINT ${q(cmd.name)}`);
+      }
+    }
+    for (const cmd of this.commands) {
+      if (cmd.type === 'dropIndex') {
+        statements.push(driver === 'mysql'
+          ? `DROP INDEX ${q(cmd.name)} ON ${table}`
+          : `DROP INDEX ${q(cmd.name)}`);
+      }
+    }
+    for (const cmd of this.commands) {
+      if (cmd.type === 'renameColumn') {
+        statements.push(`ALTER TABLE ${table} RENAME COLUMN ${q(cmd.from)} TO ${q(cmd.to)}`);
+      } else if (cmd.type === 'dropColumn') {
+        for (const column of cmd.columns) {
+          statements.push(`ALTER TABLE ${table} DROP COLUMN ${q(column)}`);
         }
-        if (col.unique) sql += ' UNIQUE';
-        if (col.primary) sql += ' PRIMARY KEY';
       }
+    }
+    for (const col of added) {
+      statements.push(`ALTER TABLE ${table} ADD COLUMN ${columnSQL(col, driver)}`);
+    }
+    for (const col of changed) {
+      if (driver === 'postgresql') {
+        statements.push(...this.postgresChangeSQL(col));
+      } else {
+        statements.push(`ALTER TABLE ${table} MODIFY COLUMN ${columnSQL(col, driver)}`);
+      }
+    }
+    statements.push(...this.toIndexSQL(added));
+    // SQLite only reaches this point without foreign key changes (those rebuild).
+    if (driver !== 'sqlite') {
+      for (const fk of this.allForeignKeys(added)) {
+        statements.push(`ALTER TABLE ${table} ADD CONSTRAINT ${q(fk.name)} ${foreignKeySQL(fk, driver)}`);
+      }
+    }
+    for (const cmd of this.commands) {
+      if (cmd.type === 'rename') {
+        statements.push(driver === 'mysql'
+          ? `RENAME TABLE ${table} TO ${q(cmd.to)}`
+          : `ALTER TABLE ${table} RENAME TO ${q(cmd.to)}`);
+      }
+    }
+    return statements;
+  }
 
-      return sql;
-    });
+  // Postgres changes type, nullability and default with separate clauses.
+  private postgresChangeSQL(col: Column): string[] {
+    const q = (id: string) => quoteId(id, 'postgresql');
+    const target = `ALTER TABLE ${q(this.tableName)} ALTER COLUMN ${q(col.name)}`;
+    const type = columnType(col, 'postgresql');
+    const statements = [
+      `${target} TYPE ${type} USING ${q(col.name)}::${type}`,
+      `${target} ${col.nullable ? 'DROP' : 'SET'} NOT NULL`,
+      col.default !== undefined
+        ? `${target} SET DEFAULT ${defaultSQL(col.default, 'postgresql')}`
+        : `${target} DROP DEFAULT`,
+    ];
+    if (col.unique) {
+      statements.push(`CREATE UNIQUE INDEX ${q(this.indexName('uniq', [col.name]))} ON ${q(this.tableName)} (${q(col.name)})`);
+    }
+    return statements;
+  }
 
-    // Foreign keys
-    const fks = this.columns.filter(c => c.references).map(col => {
-      const ref = col.references!;
-      let fk = `FOREIGN KEY (${q(col.name)}) REFERENCES ${q(ref.table)}(${q(ref.column)})`;
-      if (ref.onDelete) fk += ` ON DELETE ${ref.onDelete}`;
-      if (ref.onUpdate) fk += ` ON UPDATE ${ref.onUpdate}`;
-      return fk;
-    });
+  // SQLite can add simple columns, rename columns and manage plain indexes
+  // natively. Everything else goes through a table rebuild.
+  private needsRebuild(): boolean {
+    if (this.commands.some(c => c.type === 'dropColumn' || c.type === 'dropForeign')) return true;
+    if (this.foreignKeys.some(fk => fk.table)) return true;
+    return this.columns.some(col =>
+      col.change ||
+      col.type === 'id' ||
+      col.primary ||
+      col.unique ||
+      !!col.references ||
+      (!col.nullable && col.default === undefined)
+    );
+  }
 
-    // Only MySQL uses ENGINE/CHARSET; SQLite and Postgres reject it.
-    const suffix = driver === 'mysql' ? ' ENGINE=InnoDB DEFAULT CHARSET=utf8mb4' : '';
+  /**
+   * SQLite table rebuild: create a new table with the target definition, copy
+   * the rows across, drop the old table, rename the new one into place and
+   * recreate the surviving indexes.
+   */
+  private async toSqliteRebuildSQL(): Promise<string[]> {
+    const q = (id: string) => quoteId(id, 'sqlite');
+    const tableName = this.tableName;
+    const tempName = `__canx_tmp_${tableName}`;
+
+    const info = await query<any>(`PRAGMA table_info(${q(tableName)})`);
+    if (info.length === 0) throw new Error(`Table ${tableName} does not exist`);
+    const fkRows = await query<any>(`PRAGMA foreign_key_list(${q(tableName)})`);
+    const indexRows = await query<any>(`PRAGMA index_list(${q(tableName)})`);
+    const master = await query<{ sql: string }>(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`, [tableName]);
+    const autoIncrement = /AUTOINCREMENT/i.test(master[0]?.sql || '');
+
+    // Current definition. `source` tracks which old column feeds each new one.
+    let columns: { name: string; source?: string; definition?: string; type: string; notnull: boolean; dflt: string | null; pk: number }[] =
+      info.map((c: any) => ({ name: c.name, source: c.name, type: c.type, notnull: !!c.notnull, dflt: c.dflt_value, pk: c.pk }));
+
+    let foreignKeys: ForeignKeyDefinition[] = fkRows.map((fk: any) => ({
+      name: this.foreignName(fk.from),
+      column: fk.from,
+      table: fk.table,
+      references: fk.to,
+      onDelete: fk.on_delete !== 'NO ACTION' ? fk.on_delete : undefined,
+      onUpdate: fk.on_update !== 'NO ACTION' ? fk.on_update : undefined,
+    }));
+
+    const indexes: (IndexDefinition & { sql?: string; constraint: boolean })[] = [];
+    for (const row of indexRows) {
+      if (row.origin === 'pk') continue;
+      const cols = await query<any>(`PRAGMA index_info(${q(row.name)})`);
+      let sql: string | undefined;
+      if (row.partial) {
+        const found = await query<{ sql: string }>(`SELECT sql FROM sqlite_master WHERE type = 'index' AND name = ?`, [row.name]);
+        sql = found[0]?.sql;
+      }
+      indexes.push({
+        name: row.name,
+        columns: cols.sort((a: any, b: any) => a.seqno - b.seqno).map((c: any) => c.name),
+        unique: !!row.unique,
+        constraint: row.origin === 'u',
+        sql,
+      });
+    }
+
+    const dropped = new Set<string>();
+    let renameTo: string | undefined;
+
+    // Apply the recorded operations to the in-memory definition.
+    for (const cmd of this.commands) {
+      if (cmd.type === 'dropForeign') {
+        foreignKeys = foreignKeys.filter(fk => fk.name !== cmd.name && fk.column !== cmd.name);
+      } else if (cmd.type === 'dropIndex') {
+        const idx = indexes.findIndex(i => i.name === cmd.name);
+        if (idx !== -1) indexes.splice(idx, 1);
+      } else if (cmd.type === 'renameColumn') {
+        const col = columns.find(c => c.name === cmd.from);
+        if (!col) throw new Error(`Column ${cmd.from} does not exist on ${tableName}`);
+        col.name = cmd.to;
+        for (const fk of foreignKeys) if (fk.column === cmd.from) fk.column = cmd.to;
+        for (const idx of indexes) idx.columns = idx.columns.map(c => (c === cmd.from ? cmd.to : c));
+      } else if (cmd.type === 'dropColumn') {
+        for (const name of cmd.columns) dropped.add(name);
+      } else if (cmd.type === 'rename') {
+        renameTo = cmd.to;
+      }
+    }
+
+    columns = columns.filter(c => !dropped.has(c.name));
+    foreignKeys = foreignKeys.filter(fk => !dropped.has(fk.column));
+    const survivingIndexes = indexes.filter(idx => !idx.columns.some(c => dropped.has(c)));
+
+    for (const col of this.columns) {
+      const definition = columnSQL(col, 'sqlite');
+      const existing = columns.find(c => c.name === col.name);
+      if (col.change) {
+        if (!existing) throw new Error(`Column ${col.name} does not exist on ${tableName}`);
+        existing.definition = definition;
+      } else {
+        columns.push({ name: col.name, definition, type: '', notnull: false, dflt: null, pk: 0 });
+      }
+      if (col.index && !col.unique && !col.primary && col.type !== 'id') {
+        survivingIndexes.push({ name: this.indexName('idx', [col.name]), columns: [col.name], unique: false, constraint: false });
+      }
+    }
+    foreignKeys.push(...this.allForeignKeys());
+    for (const idx of this.indexes) survivingIndexes.push({ ...idx, constraint: false });
+
+    // Rebuild the CREATE TABLE body.
+    const pkColumns = columns.filter(c => c.pk > 0 && !c.definition).sort((a, b) => a.pk - b.pk);
+    const body = columns.map(c => {
+      if (c.definition) return c.definition;
+      let sql = `${q(c.name)} ${c.type}`;
+      if (pkColumns.length === 1 && c.pk) {
+        sql += ' PRIMARY KEY';
+        if (autoIncrement && /^INTEGER$/i.test(c.type)) sql += ' AUTOINCREMENT';
+      }
+      if (c.notnull) sql += ' NOT NULL';
+      if (c.dflt !== null && c.dflt !== undefined) sql += ` DEFAULT ${c.dflt}`;
+      return sql;
+    });
+    if (pkColumns.length > 1) body.push(`PRIMARY KEY (${pkColumns.map(c => q(c.name)).join(', ')})`);
+    for (const idx of survivingIndexes.filter(i => i.constraint)) {
+      body.push(`UNIQUE (${idx.columns.map(q).join(', ')})`);
+    }
+    for (const fk of foreignKeys) body.push(foreignKeySQL(fk, 'sqlite'));
+
+    const copied = columns.filter(c => c.source && !dropped.has(c.source));
+    const finalName = renameTo || tableName;
+    const statements = [
+      'PRAGMA foreign_keys = OFF',
+      'SAVEPOINT canx_rebuild',
+      `CREATE TABLE ${q(tempName)} (\n  ${body.join(',\n  ')}\n)`,
+      `INSERT INTO ${q(tempName)} (${copied.map(c => q(c.name)).join(', ')}) SELECT ${copied.map(c => q(c.source!)).join(', ')} FROM ${q(tableName)}`,
+      `DROP TABLE ${q(tableName)}`,
+      `ALTER TABLE ${q(tempName)} RENAME TO ${q(finalName)}`,
+    ];
+    for (const idx of survivingIndexes.filter(i => !i.constraint)) {
+      statements.push(idx.sql || `CREATE ${idx.unique ? 'UNIQUE ' : ''}INDEX ${q(idx.name)} ON ${q(finalName)} (${idx.columns.map(q).join(', ')})`);
+    }
+    statements.push('RELEASE SAVEPOINT canx_rebuild');
 
-    return `CREATE TABLE ${q(this.tableName)} (\n  ${[...cols, ...fks].join(',\n  ')}\n)${suffix}`;
+    const fkEnabled = await query<{ foreign_keys: number }>('PRAGMA foreign_keys');
+    if (fkEnabled[0]?.foreign_keys) {
+      statements.push('PRAGMA foreign_keys = ON');
+    } else {
+      // Foreign keys were already off; leave them that way.
+      statements.shift();
+    }
+    return statements;
   }
+}
 
-  /** Separate CREATE INDEX statements for columns marked with .index(). */
-  toIndexSQL(): string[] {
-    const driver = getCurrentDriver();
-    const q = (id: string) => quoteId(id, driver);
-    return this.columns
-      .filter((c) => (c as any).index && !c.unique && !c.primary && c.type !== 'id')
-      .map((c) => `CREATE INDEX ${q(`idx_${this.tableName}_${c.name}`)} ON ${q(this.tableName)} (${q(c.name)})`);
+// Progress output for Schema operations; silent under --pretend, where the
+// statements themselves are printed instead.
+function report(message: string): void {
+  if (!isPretending()) console.log(`[Migration] ${message}`);
+}
+
+// Run schema statements in order. If one fails inside a SQLite rebuild,
+// roll the rebuild back so the original table is left untouched.
+async function runStatements(statements: string[]): Promise<void> {
+  let inRebuild = false;
+  try {
+    for (const sql of statements) {
+      await execute(sql);
+      if (sql === 'SAVEPOINT canx_rebuild') inRebuild = true;
+      if (sql === 'RELEASE SAVEPOINT canx_rebuild') inRebuild = false;
+    }
+  } catch (e) {
+    if (inRebuild) {
+      await execute('ROLLBACK TO SAVEPOINT canx_rebuild');
+      await execute('RELEASE SAVEPOINT canx_rebuild');
+    }
+    if (statements.includes('PRAGMA foreign_keys = ON')) {
+      await execute('PRAGMA foreign_keys = ON');
+    }
+    throw e;
   }
 }
 
@@ -268,12 +681,31 @@ export const Schema = {
     for (const idxSql of builder.toIndexSQL()) {
       await execute(idxSql);
     }
-    console.log(`[Migration] Created table: ${table}`);
+    report(`Created table: ${table}`);
+  },
+
+  /**
+   * Alter an existing table: add/rename/drop/modify columns, add/drop indexes
+   * and foreign keys, or rename the table.
+   *
+   * @example
+   *   await Schema.table('users', (t) => {
+   *     t.string('nickname', 50).nullable();
+   *     t.renameColumn('name', 'full_name');
+   *     t.dropColumn('legacy_flag');
+   *     t.foreign('team_id').references('teams').onDelete('CASCADE');
+   *   });
+   */
+  async table(table: string, callback: (builder: TableBuilder) => void): Promise<void> {
+    const builder = new TableBuilder(table);
+    callback(builder);
+    await runStatements(await builder.toAlterSQL());
+    report(`Altered table: ${table}`);
   },
 
   async drop(table: string): Promise<void> {
     await execute(`DROP TABLE IF EXISTS ${quoteId(table)}`);
-    console.log(`[Migration] Dropped table: ${table}`);
+    report(`Dropped table: ${table}`);
   },
 
   async dropIfExists(table: string): Promise<void> {
@@ -287,7 +719,7 @@ export const Schema = {
       ? `RENAME TABLE ${quoteId(from, driver)} TO ${quoteId(to, driver)}`
       : `ALTER TABLE ${quoteId(from, driver)} RENAME TO ${quoteId(to, driver)}`;
     await execute(sql);
-    console.log(`[Migration] Renamed table: ${from} -> ${to}`);
+    report(`Renamed table: ${from} -> ${to}`);
   },
 
   async hasTable(table: string): Promise<boolean> {
@@ -330,14 +762,80 @@ export const Schema = {
     const result = await query<any>(`SHOW COLUMNS FROM ${quoteId(table, driver)} LIKE ?`, [column]);
     return result.length > 0;
   },
+
+  /** Names of every table in the current database/schema. */
+  async getTables(): Promise<string[]> {
+    const driver = getCurrentDriver();
+    if (driver === 'sqlite') {
+      const rows = await query<{ name: string }>(
+        `SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`
+      );
+      return rows.map(r => r.name);
+    }
+    if (driver === 'postgresql') {
+      const rows = await query<{ tablename: string }>(
+        `SELECT tablename FROM pg_tables WHERE schemaname = current_schema() ORDER BY tablename`
+      );
+      return rows.map(r => r.tablename);
+    }
+    const rows = await query<any>(`SHOW FULL TABLES WHERE Table_type = 'BASE TABLE'`);
+    return rows.map(r => Object.values(r)[0] as string);
+  },
+
+  /** Drop every table, ignoring foreign key order. Used by `migrate fresh`. */
+  async dropAllTables(): Promise<void> {
+    const driver = getCurrentDriver();
+    const tables = await this.getTables();
+    if (tables.length === 0) return;
+
+    if (driver === 'postgresql') {
+      await execute(`DROP TABLE IF EXISTS ${tables.map(t => quoteId(t, driver)).join(', ')} CASCADE`);
+    } else if (driver === 'sqlite') {
+      const [pragma] = await query<{ foreign_keys: number }>('PRAGMA foreign_keys');
+      await execute('PRAGMA foreign_keys = OFF');
+      try {
+        for (const table of tables) await execute(`DROP TABLE IF EXISTS ${quoteId(table, driver)}`);
+      } finally {
+        if (pragma?.foreign_keys) await execute('PRAGMA foreign_keys = ON');
+      }
+    } else {
+      await execute('SET FOREIGN_KEY_CHECKS = 0');
+      try {
+        await execute(`DROP TABLE IF EXISTS ${tables.map(t => quoteId(t, driver)).join(', ')}`);
+      } finally {
+        await execute('SET FOREIGN_KEY_CHECKS = 1');
+      }
+    }
+    report(`Dropped all tables (${tables.length})`);
+  },
 };
 
 // ============================================
 // Migration Runner
 // ============================================
 
+export interface MigrationStatus {
+  name: string;
+  ran: boolean;
+  /** Batch the migration ran in, or null while pending */
+  batch: number | null;
+}
+
+export interface MigrateOptions {
+  /** Print the SQL each migration would run instead of executing it */
+  pretend?: boolean;
+}
+
+export interface RollbackOptions extends MigrateOptions {
+  /** Roll back the last N migrations, across batches */
+  step?: number;
+  /** Roll back one specific batch */
+  batch?: number;
+}
+
 class Migrator {
   private migrations: Migration[] = [];
+  private schemaPath?: string;
 
   async ensureTable(): Promise<void> {
     const exists = await Schema.hasTable('migrations');
@@ -355,10 +853,31 @@ class Migrator {
     this.migrations.push(migration);
   }
 
-  async getExecuted(): Promise<string[]> {
+  /** Registered migration names, in run order. */
+  getMigrationNames(): string[] {
+    return this.migrations.map(m => m.name);
+  }
+
+  /**
+   * Load this schema dump (see `canx schema:dump`) before migrating a
+   * database that has no migrations table yet. Only migrations added after
+   * the dump then run.
+   */
+  useSchemaDump(path: string | undefined): this {
+    this.schemaPath = path;
+    return this;
+  }
+
+  async getExecuted(pretendOnly = false): Promise<string[]> {
+    return (await this.getRecords(pretendOnly)).map(r => r.name);
+  }
+
+  // A pretend run must leave the database untouched, so a missing migrations
+  // table reads as "nothing executed" instead of being created.
+  private async getRecords(pretendOnly = false): Promise<MigrationRecord[]> {
+    if (pretendOnly && !(await Schema.hasTable('migrations'))) return [];
     await this.ensureTable();
-    const records = await query<MigrationRecord>('SELECT name FROM migrations ORDER BY batch, id');
-    return records.map(r => r.name);
+    return query<MigrationRecord>('SELECT id, name, batch FROM migrations ORDER BY batch, id');
   }
 
   async getNextBatch(): Promise<number> {
@@ -366,9 +885,32 @@ class Migrator {
     return (result[0]?.batch || 0) + 1;
   }
 
-  async run(): Promise<void> {
-    await this.ensureTable();
-    const executed = await this.getExecuted();
+  // Run one direction of a migration, or print its SQL when pretending.
+  private async runMigration(migration: Migration, direction: 'up' | 'down', pretendOnly = false): Promise<void> {
+    if (!pretendOnly) {
+      console.log(`[Migration] ${direction === 'up' ? 'Running' : 'Rolling back'}: ${migration.name}`);
+      await migration[direction]();
+      return;
+    }
+
+    const statements = await pretend(() => migration[direction]());
+    console.log(`[Migration] ${migration.name} (${direction}):`);
+    if (statements.length === 0) console.log('  -- no statements');
+    for (const statement of statements) {
+      const params = statement.params.length ? `  -- ${JSON.stringify(statement.params)}` : '';
+      console.log(`  ${statement.sql};${params}`);
+    }
+  }
+
+  async run(options: MigrateOptions = {}): Promise<void> {
+    if (this.schemaPath && !options.pretend && !(await Schema.hasTable('migrations'))) {
+      const { loadSchemaDump } = await import('./SchemaDump');
+      if (await loadSchemaDump(this.schemaPath)) {
+        console.log(`[Migration] Loaded schema dump: ${this.schemaPath}`);
+      }
+    }
+
+    const executed = await this.getExecuted(options.pretend);
     const pending = this.migrations.filter(m => !executed.includes(m.name));
 
     if (pending.length === 0) {
@@ -376,52 +918,67 @@ class Migrator {
       return;
     }
 
-    const batch = await this.getNextBatch();
+    const batch = options.pretend ? 0 : await this.getNextBatch();
     for (const migration of pending) {
-      console.log(`[Migration] Running: ${migration.name}`);
-      await migration.up();
+      await this.runMigration(migration, 'up', options.pretend);
+      if (options.pretend) continue;
       await execute(
         'INSERT INTO migrations (name, batch, executed_at) VALUES (?, ?, CURRENT_TIMESTAMP)',
         [migration.name, batch]
       );
     }
-    console.log(`[Migration] Completed ${pending.length} migrations.`);
+    if (!options.pretend) console.log(`[Migration] Completed ${pending.length} migrations.`);
   }
 
-  async rollback(): Promise<void> {
-    await this.ensureTable();
-    const result = await query<{ batch: number }>('SELECT MAX(batch) as batch FROM migrations');
-    const lastBatch = result[0]?.batch;
-    if (!lastBatch) {
+  /**
+   * Roll back the last batch (default), the last `step` migrations, or one
+   * specific `batch`.
+   */
+  async rollback(options: RollbackOptions = {}): Promise<void> {
+    const records = (await this.getRecords(options.pretend)).reverse();
+    if (records.length === 0) {
       console.log('[Migration] Nothing to rollback.');
       return;
     }
 
-    const records = await query<MigrationRecord>(
-      'SELECT name FROM migrations WHERE batch = ? ORDER BY id DESC',
-      [lastBatch]
-    );
+    let targets: MigrationRecord[];
+    if (options.step !== undefined) {
+      targets = records.slice(0, options.step);
+    } else {
+      const batch = options.batch ?? records[0]!.batch;
+      targets = records.filter(r => r.batch === batch);
+    }
 
+    if (targets.length === 0) {
+      console.log('[Migration] Nothing to rollback.');
+      return;
+    }
+    await this.rollbackRecords(targets, options);
+  }
+
+  private async rollbackRecords(records: MigrationRecord[], options: MigrateOptions): Promise<number> {
+    let count = 0;
     for (const record of records) {
       const migration = this.migrations.find(m => m.name === record.name);
-      if (migration) {
-        console.log(`[Migration] Rolling back: ${migration.name}`);
-        await migration.down();
-        await execute('DELETE FROM migrations WHERE name = ?', [migration.name]);
+      if (!migration) {
+        console.log(`[Migration] Migration not found: ${record.name}`);
+        continue;
       }
+      await this.runMigration(migration, 'down', options.pretend);
+      if (options.pretend) continue;
+      await execute('DELETE FROM migrations WHERE name = ?', [migration.name]);
+      count++;
     }
-    console.log(`[Migration] Rolled back ${records.length} migrations.`);
+    if (!options.pretend) console.log(`[Migration] Rolled back ${count} migrations.`);
+    return count;
   }
 
-  async reset(): Promise<void> {
-    const executed = await this.getExecuted();
-    for (const name of executed.reverse()) {
-      const migration = this.migrations.find(m => m.name === name);
-      if (migration) {
-        console.log(`[Migration] Rolling back: ${migration.name}`);
-        await migration.down();
-      }
-    }
+  async reset(options: MigrateOptions = {}): Promise<void> {
+    const records = (await this.getRecords(options.pretend)).reverse();
+    await this.rollbackRecords(records, options);
+    if (options.pretend) return;
+
+    // Also clear records whose migration files no longer exist.
     // SQLite has no TRUNCATE; use DELETE. MySQL/Postgres keep TRUNCATE.
     const driver = getCurrentDriver();
     if (driver === 'sqlite') {
@@ -432,16 +989,46 @@ class Migrator {
     console.log('[Migration] Reset complete.');
   }
 
+  /** Roll back all (or the last `step`) migrations and run them again. */
+  async refresh(options: RollbackOptions = {}): Promise<void> {
+    if (options.pretend) {
+      // Nothing is really rolled back, so run() would find every migration
+      // still executed; print the up() SQL of the rolled-back set instead.
+      const records = (await this.getRecords(true)).reverse();
+      const targets = options.step !== undefined ? records.slice(0, options.step) : records;
+      await this.rollbackRecords(targets, options);
+
+      const rolledBack = new Set(targets.map(r => r.name));
+      const executed = await this.getExecuted(true);
+      const rerun = this.migrations.filter(m => rolledBack.has(m.name) || !executed.includes(m.name));
+      for (const migration of rerun) await this.runMigration(migration, 'up', true);
+      return;
+    }
+
+    if (options.step !== undefined) {
+      await this.rollback({ step: options.step, pretend: options.pretend });
+    } else {
+      await this.reset({ pretend: options.pretend });
+    }
+    await this.run({ pretend: options.pretend });
+  }
+
+  /**
+   * Drop every table and run all migrations from scratch. Unlike refresh(),
+   * this never calls down(), so it also works when a down() is broken.
+   */
   async fresh(): Promise<void> {
-    await this.reset();
+    await Schema.dropAllTables();
     await this.run();
   }
 
-  async status(): Promise<{ name: string; ran: boolean }[]> {
-    const executed = await this.getExecuted();
+  async status(): Promise<MigrationStatus[]> {
+    const records = await this.getRecords();
+    const batches = new Map(records.map(r => [r.name, r.batch]));
     return this.migrations.map(m => ({
       name: m.name,
-      ran: executed.includes(m.name),
+      ran: batches.has(m.name),
+      batch: batches.get(m.name) ?? null,
     }));
   }
 }
@@ -0,0 +1,190 @@
+/**
+ * CanxJS Schema Dump - Snapshot the live schema into one SQL file
+ *
+ * `canx schema:dump` writes the current structure plus the rows of the
+ * `migrations` table, so a fresh database can load the dump and only run the
+ * migrations added after it instead of replaying the full history.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { query, execute, getCurrentDriver } from '../mvc/Model';
+import { Schema } from './Migration';
+import type { DatabaseDriver } from '../types';
+
+function quoteId(id: string, driver: DatabaseDriver): string {
+  return driver === 'postgresql' ? `"${id}"` : `\`${id}\``;
+}
+
+function literal(value: string | number): string {
+  if (typeof value === 'number') return String(value);
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+/** Default dump location for a driver: `src/database/schema/<driver>-schema.sql`. */
+export function schemaDumpPath(cwd = process.cwd(), driver: DatabaseDriver = getCurrentDriver()): string {
+  return join(cwd, 'src/database/schema', `${driver}-schema.sql`);
+}
+
+async function dumpSqlite(): Promise<string[]> {
+  // Tables first so indexes, views and triggers can reference them.
+  const rows = await query<{ type: string; sql: string }>(
+    `SELECT type, sql FROM sqlite_master
+     WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%'
+     ORDER BY CASE type WHEN 'table' THEN 0 WHEN 'index' THEN 1 WHEN 'view' THEN 2 ELSE 3 END, name`
+  );
+  return rows.map(r => r.sql);
+}
+
+async function dumpMysql(): Promise<string[]> {
+  const statements = ['SET FOREIGN_KEY_CHECKS = 0'];
+  for (const table of await Schema.getTables()) {
+    const [row] = await query<any>(`SHOW CREATE TABLE ${quoteId(table, 'mysql')}`);
+    // Drop the AUTO_INCREMENT counter so the dump is stable across runs.
+    statements.push(String(row['Create Table']).replace(/\s+AUTO_INCREMENT=\d+/, ''));
+  }
+  statements.push('SET FOREIGN_KEY_CHECKS = 1');
+  return statements;
+}
+
+async function dumpPostgres(): Promise<string[]> {
+  const q = (id: string) => quoteId(id, 'postgresql');
+  const statements: string[] = [];
+  const foreignKeys: string[] = [];
+
+  const sequences = await query<{ sequencename: string }>(
+    `SELECT sequencename FROM pg_sequences WHERE schemaname = current_schema() ORDER BY sequencename`
+  );
+  for (const seq of sequences) statements.push(`CREATE SEQUENCE ${q(seq.sequencename)}`);
+
+  for (const table of await Schema.getTables()) {
+    const columns = await query<{ name: string; type: string; notnull: boolean; dflt: string | null }>(
+      `SELECT a.attname AS name, format_type(a.atttypid, a.atttypmod) AS type, a.attnotnull AS notnull,
+              pg_get_expr(d.adbin, d.adrelid) AS dflt
+       FROM pg_attribute a
+       LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+       WHERE a.attrelid = to_regclass(?) AND a.attnum > 0 AND NOT a.attisdropped
+       ORDER BY a.attnum`,
+      [q(table)]
+    );
+    const constraints = await query<{ name: string; type: string; def: string }>(
+      `SELECT conname AS name, contype AS type, pg_get_constraintdef(oid) AS def
+       FROM pg_constraint WHERE conrelid = to_regclass(?) ORDER BY conname`,
+      [q(table)]
+    );
+
+    const body = columns.map(c => {
+      let sql = `${q(c.name)} ${c.type}`;
+      if (c.notnull) sql += ' NOT NULL';
+      if (c.dflt !== null) sql += ` DEFAULT ${c.dflt}`;
+      return sql;
+    });
+    for (const con of constraints) {
+      // Foreign keys go last so every referenced table already exists.
+      if (con.type === 'f') {
+        foreignKeys.push(`ALTER TABLE ${q(table)} ADD CONSTRAINT ${q(con.name)} ${con.def}`);
+      } else {
+        body.push(`CONSTRAINT ${q(con.name)} ${con.def}`);
+      }
+    }
+    statements.push(`CREATE TABLE ${q(table)} (\n  ${body.join(',\n  ')}\n)`);
+
+    // Indexes backing PRIMARY KEY/UNIQUE constraints are recreated by them.
+    const indexes = await query<{ indexdef: string }>(
+      `SELECT indexdef FROM pg_indexes
+       WHERE schemaname = current_schema() AND tablename = ?
+         AND indexname NOT IN (SELECT conname FROM pg_constraint WHERE conrelid = to_regclass(?))
+       ORDER BY indexname`,
+      [table, q(table)]
+    );
+    statements.push(...indexes.map(i => i.indexdef));
+  }
+
+  return [...statements, ...foreignKeys];
+}
+
+/**
+ * Build the dump: schema statements followed by INSERTs for every row of the
+ * `migrations` table (the migrations this dump covers).
+ */
+export async function dumpSchema(): Promise<string> {
+  const driver = getCurrentDriver();
+  const statements = driver === 'sqlite'
+    ? await dumpSqlite()
+    : driver === 'postgresql'
+      ? await dumpPostgres()
+      : await dumpMysql();
+
+  if (await Schema.hasTable('migrations')) {
+    const records = await query<{ name: string; batch: number }>('SELECT name, batch FROM migrations ORDER BY id');
+    for (const record of records) {
+      statements.push(
+        `INSERT INTO ${quoteId('migrations', driver)} (${['name', 'batch', 'executed_at'].map(c => quoteId(c, driver)).join(', ')}) ` +
+        `VALUES (${literal(record.name)}, ${literal(record.batch)}, CURRENT_TIMESTAMP)`
+      );
+    }
+  }
+
+  const header = `-- CanxJS schema dump (${driver})\n-- Generated ${new Date().toISOString()} by \`canx schema:dump\`\n\n`;
+  return header + statements.map(s => `${s.trim()};`).join('\n\n') + '\n';
+}
+
+/** Dump the schema to `path` (default: `schemaDumpPath()`) and return the path. */
+export async function writeSchemaDump(path = schemaDumpPath()): Promise<string> {
+  const sql = await dumpSchema();
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, sql);
+  return path;
+}
+
+/**
+ * Split a dump into statements on `;`, ignoring semicolons inside quotes,
+ * comments and trigger bodies (CREATE TRIGGER ... BEGIN ...; END).
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i]!;
+
+    if (quote) {
+      current += ch;
+      if (ch === quote) quote = null;
+      i++;
+      continue;
+    }
+    if (ch === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === ';') {
+      const inTrigger = /^\s*CREATE\s+(TEMP(ORARY)?\s+)?TRIGGER\b/i.test(current) && !/\bEND\s*$/i.test(current);
+      if (!inTrigger) {
+        if (current.trim()) statements.push(current.trim());
+        current = '';
+        i++;
+        continue;
+      }
+    }
+    current += ch;
+    i++;
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+/** Execute every statement of a dump file. Returns false when the file does not exist. */
+export async function loadSchemaDump(path = schemaDumpPath()): Promise<boolean> {
+  if (!existsSync(path)) return false;
+  for (const statement of splitStatements(readFileSync(path, 'utf8'))) {
+    await execute(statement);
+  }
+  return true;
+}
@@ -1,11 +1,20 @@
 /**
  * CanxJS Scheduler - Native Cron and Interval Task Scheduling
  * Insprired by Laravel Task Scheduling
+ *
+ * Cron expressions are evaluated in each task's timezone. With several
+ * replicas, `onOneServer()` and `withoutOverlapping()` coordinate through a
+ * shared lock store (Redis or database) instead of process memory.
  */
 
 import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { hostname } from 'os';
+import { query, execute, isDuplicateKeyError } from '../mvc/Model';
 
 type TaskCallback = () => void | Promise<void>;
+type TaskHook = (run: TaskRun) => void | Promise<void>;
+type TaskFailureHook = (error: Error, run: TaskRun) => void | Promise<void>;
 
 interface Task {
   id: string;
@@ -14,22 +23,217 @@ interface Task {
   schedule: string; // Cron expression or interval
   lastRun: number;
   options: TaskOptions;
+  hooks: { before: TaskCallback[]; after: TaskHook[]; onFailure: TaskFailureHook[] };
 }
 
 interface TaskOptions {
   name?: string;
   withoutOverlapping?: boolean;
+  /** How long an overlap lock survives a crashed run (minutes) */
+  overlapExpiresAfter?: number;
+  onOneServer?: boolean;
   runOnStartup?: boolean;
+  timezone?: string;
 }
 
+/** One execution of a task, kept in the scheduler's run history */
+export interface TaskRun {
+  task: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  /** Milliseconds */
+  duration?: number;
+  status: 'running' | 'success' | 'failed';
+  error?: string;
+  server: string;
+}
+
+/** A registered task as reported by `list()` / `canx schedule:list` */
+export interface ScheduledTaskInfo {
+  name: string;
+  schedule: string;
+  timezone: string;
+  nextRun: Date | null;
+  onOneServer: boolean;
+  withoutOverlapping: boolean;
+}
+
+/**
+ * Atomic, expiring locks shared by every scheduler replica.
+ */
+export interface SchedulerLockStore {
+  /** Take the lock for `ttl` ms; false when someone else holds it */
+  acquire(key: string, ttl: number): Promise<boolean>;
+  release(key: string): Promise<void>;
+}
+
+export interface SchedulerOptions {
+  /** Default timezone for cron tasks (default: the process timezone) */
+  timezone?: string;
+  /** Lock store for onOneServer()/withoutOverlapping() (default: in-process) */
+  lockStore?: SchedulerLockStore;
+  /** Runs kept by history() (default 100) */
+  historySize?: number;
+}
+
+// ============================================
+// Lock stores
+// ============================================
+
+/** Process-local locks: enough for a single server */
+export class MemoryLockStore implements SchedulerLockStore {
+  private locks: Map<string, number> = new Map(); // key -> expires at
+
+  async acquire(key: string, ttl: number): Promise<boolean> {
+    const expiresAt = this.locks.get(key);
+    if (expiresAt !== undefined && expiresAt > Date.now()) return false;
+    this.locks.set(key, Date.now() + ttl);
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    this.locks.delete(key);
+  }
+}
+
+interface RedisLockClient {
+  set(key: string, value: string, ...args: (string | number)[]): Promise<string | null>;
+  del(key: string): Promise<number>;
+}
+
+/** Locks via `SET NX PX` on a shared Redis */
+export class RedisLockStore implements SchedulerLockStore {
+  constructor(private client: RedisLockClient, private prefix: string = 'canx:schedule:') {}
+
+  async acquire(key: string, ttl: number): Promise<boolean> {
+    const result = await this.client.set(this.prefix + key, hostname(), 'PX', Math.max(1, Math.ceil(ttl)), 'NX');
+    return result === 'OK';
+  }
+
+  async release(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
+
+/**
+ * Locks as rows of a shared table; the primary key makes the INSERT atomic.
+ *
+ *   CREATE TABLE scheduler_locks (
+ *     lock_key   VARCHAR(255) PRIMARY KEY,
+ *     owner      VARCHAR(255),
+ *     expires_at BIGINT
+ *   );
+ */
+export class DatabaseLockStore implements SchedulerLockStore {
+  constructor(private table: string = 'scheduler_locks') {}
+
+  async acquire(key: string, ttl: number): Promise<boolean> {
+    const now = Date.now();
+    await execute(`DELETE FROM ${this.table} WHERE expires_at <= ?`, [now]);
+    try {
+      await execute(`INSERT INTO ${this.table} (lock_key, owner, expires_at) VALUES (?, ?, ?)`, [key, hostname(), now + ttl]);
+      return true;
+    } catch (e: any) {
+      if (isDuplicateKeyError(e)) return false;
+      throw e;
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    await execute(`DELETE FROM ${this.table} WHERE lock_key = ?`, [key]);
+  }
+
+  /** Current holders, for diagnostics */
+  async held(): Promise<{ lock_key: string; owner: string; expires_at: number }[]> {
+    return query(`SELECT lock_key, owner, expires_at FROM ${this.table} WHERE expires_at > ?`, [Date.now()]);
+  }
+}
+
+// ============================================
+// Timezone helpers
+// ============================================
+
+interface ZonedParts {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number; // 1-12
+  weekday: number; // 0-6, Sunday = 0
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timezone?: string): ZonedParts {
+  if (!timezone) {
+    return {
+      minute: date.getMinutes(),
+      hour: date.getHours(),
+      day: date.getDate(),
+      month: date.getMonth() + 1,
+      weekday: date.getDay(),
+    };
+  }
+
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      minute: 'numeric',
+      hour: 'numeric',
+      day: 'numeric',
+      month: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) parts[part.type] = part.value;
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: WEEKDAYS[parts.weekday!] ?? 0,
+  };
+}
+
+// ============================================
+// Scheduler
+// ============================================
+
 export class Scheduler {
   private tasks: Task[] = [];
   private interval: Timer | null = null;
-  private running: Set<string> = new Set();
+  private timezone?: string;
+  private lockStore: SchedulerLockStore;
+  private historySize: number;
+  private runs: TaskRun[] = [];
 
-  constructor() {
+  constructor(options: SchedulerOptions = {}) {
     // Ticker starts lazily on the first registered task (or via start()),
     // so merely importing the framework does not keep the process alive.
+    this.timezone = options.timezone;
+    this.lockStore = options.lockStore ?? new MemoryLockStore();
+    this.historySize = options.historySize ?? 100;
+  }
+
+  /**
+   * Share locks between replicas (needed for onOneServer())
+   */
+  useLockStore(store: SchedulerLockStore): this {
+    this.lockStore = store;
+    return this;
+  }
+
+  /**
+   * Default timezone for tasks without their own
+   */
+  setTimezone(timezone: string | undefined): this {
+    this.timezone = timezone;
+    return this;
   }
 
   /**
@@ -53,7 +257,7 @@ export class Scheduler {
     this.tasks.push(task);
     this.start();
     if (task.options.runOnStartup) {
-      this.runTask(task);
+      this.runTask(task).catch(e => console.error(`[Scheduler] Startup run failed:`, e));
     }
   }
 
@@ -62,7 +266,7 @@ export class Scheduler {
    */
   start() {
     if (this.interval) return;
-    
+
     // Check every minute (basic cron resolution)
     // For seconds-based intervals, we might need a tighter loop or separate handling
     // We'll stick to 1 second resolution to be superior
@@ -76,17 +280,40 @@ export class Scheduler {
     }
   }
 
-  public run() {
-    this.tick();
+  /**
+   * Run every task due now and wait for them to finish
+   */
+  public async run(now: Date = new Date()): Promise<void> {
+    await this.tick(now);
   }
 
-  private tick() {
-    const now = new Date();
-    
-    for (const task of this.tasks) {
-      if (this.shouldRun(task, now)) {
-        this.runTask(task);
-      }
+  /**
+   * Registered tasks with their next run time
+   */
+  list(from: Date = new Date()): ScheduledTaskInfo[] {
+    return this.tasks.map(task => ({
+      name: this.describe(task),
+      schedule: task.schedule,
+      timezone: this.timezoneOf(task) ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+      nextRun: this.nextRunDate(task, from),
+      onOneServer: !!task.options.onOneServer,
+      withoutOverlapping: !!task.options.withoutOverlapping,
+    }));
+  }
+
+  /**
+   * Most recent runs, newest first
+   */
+  history(limit: number = this.historySize): TaskRun[] {
+    return this.runs.slice(-limit).reverse();
+  }
+
+  private async tick(now: Date = new Date()): Promise<void> {
+    try {
+      const due = this.tasks.filter(task => this.shouldRun(task, now));
+      await Promise.all(due.map(task => this.runTask(task, now)));
+    } catch (e) {
+      console.error(`[Scheduler] Tick failed:`, e);
     }
   }
 
@@ -100,40 +327,142 @@ export class Scheduler {
       return false;
     }
 
-    // Basic Cron check (* * * * *)
-    // We only support standard 5-part cron for now (Minute Hour DOM Month DOW)
-    // Check if we just entered a new minute matching the cron
-    if (now.getSeconds() === 0 && this.matchesCron(task.schedule, now)) {
-        // Prevent double run in same minute
-        // (Assuming tick runs exactly at :00 is unsafe, so we track lastRun)
-        // If last run was more than 59 seconds ago
-        return now.getTime() - task.lastRun > 59000;
-    }
-    
-    return false;
+    // Cron: run once in each matching minute, whichever tick (or
+    // `schedule:run` invocation) gets there first.
+    return this.matchesCron(task.schedule, now, this.timezoneOf(task)) &&
+      Math.floor(task.lastRun / 60000) !== Math.floor(now.getTime() / 60000);
   }
 
-  private async runTask(task: Task) {
-    if (task.options.withoutOverlapping && this.running.has(task.id)) {
-      return;
+  private async runTask(task: Task, now: Date = new Date()) {
+    task.lastRun = now.getTime();
+    const overlapKey = `overlap:${this.mutexName(task)}`;
+    let overlapHeld = false;
+
+    // Lock store calls hit Redis or the database and may throw; keep that
+    // inside the try so a failing store skips the run instead of rejecting.
+    try {
+      // One replica per scheduled slot: the lock is keyed by the slot and left
+      // to expire, so replicas ticking later in the same slot skip it.
+      if (task.options.onOneServer) {
+        const slot = this.isInterval(task.schedule)
+          ? Math.floor(now.getTime() / this.parseInterval(task.schedule))
+          : Math.floor(now.getTime() / 60000);
+        if (!(await this.lockStore.acquire(`run:${this.mutexName(task)}:${slot}`, 60 * 60 * 1000))) return;
+      }
+
+      if (task.options.withoutOverlapping) {
+        const ttl = (task.options.overlapExpiresAfter ?? 24 * 60) * 60 * 1000;
+        if (!(await this.lockStore.acquire(overlapKey, ttl))) return;
+        overlapHeld = true;
+      }
+
+      await this.execute(task);
+    } catch (e) {
+      console.error(`[Scheduler] Could not run task ${this.describe(task)}:`, e);
+    } finally {
+      if (overlapHeld) {
+        await this.lockStore.release(overlapKey).catch(e => console.error(`[Scheduler] Could not release lock ${overlapKey}:`, e));
+      }
     }
+  }
 
-    this.running.add(task.id);
-    task.lastRun = Date.now();
+  private async execute(task: Task) {
+    const run: TaskRun = { task: this.describe(task), startedAt: new Date(), status: 'running', server: hostname() };
+    this.record(run);
 
     try {
+      for (const hook of task.hooks.before) await hook();
       if (task.type === 'callback') {
         await (task.payload as TaskCallback)();
       } else {
-        // Execute command
-        const [cmd, ...args] = (task.payload as string).split(' ');
-        spawn(cmd, args, { stdio: 'inherit' });
+        await this.runCommand(task.payload as string);
       }
+      run.status = 'success';
     } catch (e) {
+      run.status = 'failed';
+      run.error = (e as Error)?.message ?? String(e);
       console.error(`[Scheduler] Task failed:`, e);
+      await this.runHooks(task.hooks.onFailure.map(hook => () => hook(e as Error, run)));
     } finally {
-      this.running.delete(task.id);
+      run.finishedAt = new Date();
+      run.duration = run.finishedAt.getTime() - run.startedAt.getTime();
+      await this.runHooks(task.hooks.after.map(hook => () => hook(run)));
+    }
+  }
+
+  // A hook failing must not hide the task's own outcome.
+  private async runHooks(hooks: (() => void | Promise<void>)[]) {
+    for (const hook of hooks) {
+      try {
+        await hook();
+      } catch (e) {
+        console.error(`[Scheduler] Hook failed:`, e);
+      }
+    }
+  }
+
+  private runCommand(command: string): Promise<void> {
+    const [cmd, ...args] = command.split(' ');
+    return new Promise((resolve, reject) => {
+      const child = spawn(cmd, args, { stdio: 'inherit' });
+      child.on('error', reject);
+      child.on('close', code => {
+        if (code === 0) resolve();
+        else reject(new Error(`Command "${command}" exited with code ${code}`));
+      });
+    });
+  }
+
+  private record(run: TaskRun) {
+    this.runs.push(run);
+    if (this.runs.length > this.historySize) this.runs.shift();
+  }
+
+  private describe(task: Task): string {
+    if (task.options.name) return task.options.name;
+    return task.type === 'command' ? (task.payload as string) : 'Closure';
+  }
+
+  // Stable across processes (unlike task.id), so replicas contend for the same lock.
+  private mutexName(task: Task): string {
+    const source = task.options.name ?? (task.type === 'command' ? task.payload as string : String(task.payload));
+    return createHash('sha1').update(`${task.schedule}|${source}`).digest('hex');
+  }
+
+  private timezoneOf(task: Task): string | undefined {
+    return task.options.timezone ?? this.timezone;
+  }
+
+  private isInterval(schedule: string): boolean {
+    return /^(\d+)([smhd])$/.test(schedule);
+  }
+
+  private nextRunDate(task: Task, from: Date): Date | null {
+    if (this.isInterval(task.schedule)) {
+      const next = task.lastRun + this.parseInterval(task.schedule);
+      return new Date(Math.max(next, from.getTime()));
     }
+
+    const parts = task.schedule.trim().split(/\s+/);
+    if (parts.length !== 5) return null;
+    const [min, hour, dom, month, dow] = parts;
+    const timezone = this.timezoneOf(task);
+
+    // Walk forward, skipping whole hours that cannot match. Stepping in
+    // absolute time keeps this correct across DST changes.
+    let t = Math.floor(from.getTime() / 60000) * 60000 + 60000;
+    // Five years covers rare dates such as Feb 29.
+    const limit = from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+    while (t < limit) {
+      const p = zonedParts(new Date(t), timezone);
+      if (!this.matchDay(dom, dow, p) || !this.matchPart(month, p.month) || !this.matchPart(hour, p.hour)) {
+        t += (60 - p.minute) * 60000;
+        continue;
+      }
+      if (this.matchPart(min, p.minute)) return new Date(t);
+      t += 60000;
+    }
+    return null;
   }
 
   private parseInterval(input: string): number {
@@ -150,37 +479,39 @@ export class Scheduler {
     }
   }
 
-  private matchesCron(cron: string, date: Date): boolean {
+  private matchesCron(cron: string, date: Date, timezone?: string): boolean {
     // Simple parser
-    const parts = cron.split(' ');
+    const parts = cron.trim().split(/\s+/);
     if (parts.length !== 5) return false;
 
     const [min, hour, dom, month, dow] = parts;
-    const curMin = date.getMinutes();
-    const curHour = date.getHours();
-    const curDom = date.getDate();
-    const curMonth = date.getMonth() + 1; // 1-12
-    const curDow = date.getDay(); // 0-6
+    const p = zonedParts(date, timezone);
+
+    return this.matchPart(min, p.minute) &&
+           this.matchPart(hour, p.hour) &&
+           this.matchPart(month, p.month) &&
+           this.matchDay(dom, dow, p);
+  }
 
-    return this.matchPart(min, curMin) &&
-           this.matchPart(hour, curHour) &&
-           this.matchPart(dom, curDom) &&
-           this.matchPart(month, curMonth) &&
-           this.matchPart(dow, curDow);
+  // Standard cron: when both day-of-month and day-of-week are restricted,
+  // either one matching is enough.
+  private matchDay(dom: string, dow: string, p: ZonedParts): boolean {
+    const domMatch = this.matchPart(dom, p.day);
+    const dowMatch = this.matchPart(dow, p.weekday) || (p.weekday === 0 && this.matchPart(dow, 7));
+    if (dom !== '*' && dow !== '*') return domMatch || dowMatch;
+    return domMatch && dowMatch;
   }
 
   private matchPart(part: string, value: number): boolean {
-    if (part === '*') return true;
-    if (part.includes(',')) return part.split(',').map(Number).includes(value);
-    if (part.includes('-')) {
-      const [start, end] = part.split('-').map(Number);
-      return value >= start && value <= end;
-    }
-    if (part.includes('/')) {
-      const [base, step] = part.split('/');
-      if (base === '*') return value % Number(step) === 0;
-    }
-    return Number(part) === value;
+    return part.split(',').some(item => {
+      const [range, step] = item.split('/');
+      const every = step ? Number(step) : 1;
+      if (range === '*') return value % every === 0;
+
+      const [start, end] = range.split('-').map(Number);
+      if (end === undefined) return step ? value >= start && (value - start) % every === 0 : value === start;
+      return value >= start && value <= end && (value - start) % every === 0;
+    });
   }
 }
 
@@ -196,7 +527,8 @@ class TaskBuilder {
       payload,
       schedule: '* * * * *', // Default every minute
       lastRun: 0,
-      options: {}
+      options: {},
+      hooks: { before: [], after: [], onFailure: [] },
     };
   }
 
@@ -221,21 +553,59 @@ class TaskBuilder {
      const [hour, min] = time.split(':');
      return this.cron(`${min} ${hour} * * *`);
   }
-  
+
   name(name: string) {
     this.task.options.name = name;
     return this;
   }
 
-  withoutOverlapping() {
+  /**
+   * Evaluate the cron expression in this IANA timezone (e.g. 'Europe/Berlin')
+   */
+  timezone(timezone: string) {
+    this.task.options.timezone = timezone;
+    return this;
+  }
+
+  /**
+   * Skip a run while the previous one is still going, on any server sharing
+   * the lock store. The lock expires after `expiresAfter` minutes in case a
+   * run dies without releasing it.
+   */
+  withoutOverlapping(expiresAfter: number = 24 * 60) {
     this.task.options.withoutOverlapping = true;
+    this.task.options.overlapExpiresAfter = expiresAfter;
     return this;
   }
-  
+
+  /**
+   * Run on only one of the servers sharing the scheduler's lock store
+   */
+  onOneServer() {
+    this.task.options.onOneServer = true;
+    return this;
+  }
+
+  before(callback: TaskCallback) {
+    this.task.hooks.before.push(callback);
+    return this;
+  }
+
+  /** Runs after every run, successful or not */
+  after(callback: TaskHook) {
+    this.task.hooks.after.push(callback);
+    return this;
+  }
+
+  onFailure(callback: TaskFailureHook) {
+    this.task.hooks.onFailure.push(callback);
+    return this;
+  }
+
   runOnStartup() {
     this.task.options.runOnStartup = true;
     // We need to re-register or run immediately?
-    // It's handled in `registerTask` if called before. 
+    // It's handled in `registerTask` if called before.
     // If called after registration (chaining), we might miss it.
     // For safety, let's just set the flag.
     return this;
@@ -243,4 +613,4 @@ class TaskBuilder {
 }
 
 export const scheduler = new Scheduler();
-export function createScheduler() { return new Scheduler(); }
+export function createScheduler(options?: SchedulerOptions) { return new Scheduler(options); }
@@ -3,7 +3,9 @@
  * @description Fault-tolerant workflow engine that survives server restarts.
  */
 
-export type WorkflowStatus = 'running' | 'completed' | 'failed' | 'sleeping';
+import { query, execute } from '../mvc/Model';
+
+export type WorkflowStatus = 'running' | 'completed' | 'failed' | 'sleeping' | 'waiting';
 
 export interface WorkflowState {
   id: string;
@@ -13,11 +15,29 @@ export interface WorkflowState {
   variables: Record<string, any>;
   createdAt: Date;
   updatedAt: Date;
+  /** Sleep end, or the deadline of a signal wait */
   wakeUpAt?: Date;
+  /** Set on child workflows */
+  parentId?: string;
+  /** What a 'waiting' workflow waits for: `signal:<name>` or `child:<id>` */
+  waitingFor?: string;
+  /** Signals received but not consumed by waitForSignal() yet */
+  signals?: WorkflowSignal[];
+}
+
+export interface WorkflowSignal {
+  name: string;
+  payload?: any;
+  receivedAt: Date;
 }
 
 export interface WorkflowEvent {
-  type: 'step_start' | 'step_complete' | 'sleep_start' | 'sleep_complete';
+  type:
+    | 'step_start' | 'step_complete'
+    | 'sleep_start' | 'sleep_complete'
+    | 'signal_wait' | 'signal_received' | 'signal_timeout'
+    | 'child_start' | 'child_complete'
+    | 'compensation_complete';
   stepId?: string;
   result?: any;
   timestamp: Date;
@@ -26,7 +46,31 @@ export interface WorkflowEvent {
 export interface WorkflowStorage {
   save(state: WorkflowState): Promise<void>;
   load(id: string): Promise<WorkflowState | null>;
+  /** Sleeping and waiting workflows whose wake-up time has passed */
   findPending(): Promise<WorkflowState[]>;
+  /**
+   * Claim `running` workflows last saved before `staleBefore`, i.e. left
+   * behind by a crashed process. Claiming bumps `updatedAt`, so each one is
+   * returned to a single caller only.
+   */
+  claimStale?(staleBefore: Date): Promise<WorkflowState[]>;
+}
+
+export interface WorkflowEngineOptions {
+  /**
+   * A `running` workflow not saved for this long (ms) is taken to have
+   * crashed mid-step and is resumed by the next poll. Live instances refresh
+   * their state well within it. Default 60s.
+   */
+  staleAfter?: number;
+}
+
+export interface StepOptions<T> {
+  /**
+   * Undo this step. Runs (in reverse step order) when a later step or the
+   * workflow itself fails, receiving the step's result.
+   */
+  compensate?: (result: T) => Promise<void> | void;
 }
 
 /**
@@ -45,12 +89,116 @@ export class MemoryWorkflowStorage implements WorkflowStorage {
 
   async findPending(): Promise<WorkflowState[]> {
     const now = new Date();
-    return Array.from(this.workflows.values()).filter(w => {
-      // Return waking up workflows or running ones that might need recovery
-      if (w.status === 'sleeping' && w.wakeUpAt && w.wakeUpAt <= now) return true;
-      if (w.status === 'running') return true; // Recover crashed running workflows
-      return false;
-    });
+    return Array.from(this.workflows.values()).filter(w =>
+      (w.status === 'sleeping' || w.status === 'waiting') && w.wakeUpAt && w.wakeUpAt <= now
+    );
+  }
+
+  async claimStale(staleBefore: Date): Promise<WorkflowState[]> {
+    const stale = Array.from(this.workflows.values()).filter(w => w.status === 'running' && w.updatedAt < staleBefore);
+    for (const w of stale) w.updatedAt = new Date();
+    return stale;
+  }
+}
+
+/**
+ * SQL Storage on the CanxJS DB layer, so workflows survive restarts.
+ *
+ * NOTE: the consumer must have created the backing table beforehand, e.g.:
+ *
+ *   CREATE TABLE workflows (
+ *     id          VARCHAR(64) PRIMARY KEY,
+ *     name        VARCHAR(255),
+ *     status      VARCHAR(20),
+ *     parent_id   VARCHAR(64),
+ *     wake_up_at  BIGINT,
+ *     state       TEXT,
+ *     created_at  BIGINT,
+ *     updated_at  BIGINT
+ *   );
+ *
+ * `state` holds the JSON-serialized WorkflowState (history, variables, signals).
+ */
+export class SqlWorkflowStorage implements WorkflowStorage {
+  constructor(private table: string = 'workflows', private connection?: string) {}
+
+  async save(state: WorkflowState): Promise<void> {
+    const values = [
+      state.name,
+      state.status,
+      state.parentId ?? null,
+      state.wakeUpAt ? state.wakeUpAt.getTime() : null,
+      JSON.stringify(state),
+      state.updatedAt.getTime(),
+    ];
+    const updated = await execute(
+      `UPDATE ${this.table} SET name = ?, status = ?, parent_id = ?, wake_up_at = ?, state = ?, updated_at = ? WHERE id = ?`,
+      [...values, state.id],
+      this.connection
+    );
+    if (updated.affectedRows) return;
+
+    await execute(
+      `INSERT INTO ${this.table} (name, status, parent_id, wake_up_at, state, updated_at, id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [...values, state.id, state.createdAt.getTime()],
+      this.connection
+    );
+  }
+
+  async load(id: string): Promise<WorkflowState | null> {
+    const rows = await query<any>(`SELECT state FROM ${this.table} WHERE id = ?`, [id], this.connection);
+    return rows.length ? this.hydrate(rows[0].state) : null;
+  }
+
+  async findPending(): Promise<WorkflowState[]> {
+    const rows = await query<any>(
+      `SELECT state FROM ${this.table}
+       WHERE status IN ('sleeping', 'waiting') AND wake_up_at IS NOT NULL AND wake_up_at <= ?
+       ORDER BY updated_at`,
+      [Date.now()],
+      this.connection
+    );
+    return rows.map(row => this.hydrate(row.state));
+  }
+
+  async claimStale(staleBefore: Date): Promise<WorkflowState[]> {
+    const rows = await query<any>(
+      `SELECT id, updated_at FROM ${this.table} WHERE status = 'running' AND updated_at < ? ORDER BY updated_at`,
+      [staleBefore.getTime()],
+      this.connection
+    );
+
+    const claimed: WorkflowState[] = [];
+    for (const row of rows) {
+      // Compare-and-set on updated_at: of several processes, one wins each row
+      const now = Date.now();
+      const result = await execute(
+        `UPDATE ${this.table} SET updated_at = ? WHERE id = ? AND status = 'running' AND updated_at = ?`,
+        [now, row.id, row.updated_at],
+        this.connection
+      );
+      if (!result.affectedRows) continue;
+
+      const state = await this.load(row.id);
+      if (state) {
+        state.updatedAt = new Date(now);
+        claimed.push(state);
+      }
+    }
+    return claimed;
+  }
+
+  private hydrate(json: string): WorkflowState {
+    const state = JSON.parse(json);
+    const date = (value: any) => (value ? new Date(value) : undefined);
+    return {
+      ...state,
+      createdAt: date(state.createdAt),
+      updatedAt: date(state.updatedAt),
+      wakeUpAt: date(state.wakeUpAt),
+      history: (state.history ?? []).map((e: any) => ({ ...e, timestamp: date(e.timestamp) })),
+      signals: state.signals?.map((s: any) => ({ ...s, receivedAt: date(s.receivedAt) })),
+    };
   }
 }
 
@@ -58,26 +206,35 @@ export class MemoryWorkflowStorage implements WorkflowStorage {
  * Workflow Context - The API developers use inside a workflow
  */
 export class WorkflowContext {
+  // Signal waits and children get ids from their call order, which replays
+  // identically on every run.
+  private occurrences = new Map<string, number>();
+  private compensations: { stepId: string; run: () => Promise<void> | void }[] = [];
+
   constructor(
     private engine: WorkflowEngine,
     private state: WorkflowState
   ) {}
 
+  /** This workflow instance's id */
+  get id(): string {
+    return this.state.id;
+  }
+
   /**
    * Execute a durable step
    * If server crashes during this step, it will retry.
    * If step completed before crash, it will skip execution and return saved result.
    */
-  async step<T>(id: string, handler: () => Promise<T>): Promise<T> {
+  async step<T>(id: string, handler: () => Promise<T>, options: StepOptions<T> = {}): Promise<T> {
     const stepId = `${id}`;
-    
+
     // 1. Check if step already completed in history
-    const completedEvent = this.state.history.find(
-      e => e.type === 'step_complete' && e.stepId === stepId
-    );
+    const completedEvent = this.findEvent('step_complete', stepId);
 
     if (completedEvent) {
       console.log(`[Flow] Replaying step: ${stepId} (Skipping execution)`);
+      this.addCompensation(stepId, options, completedEvent.result);
       return completedEvent.result as T;
     }
 
@@ -85,16 +242,17 @@ export class WorkflowContext {
     console.log(`[Flow] Executing step: ${stepId}`);
     try {
       this.recordEvent({ type: 'step_start', stepId, timestamp: new Date() });
-      
+
       const result = await handler();
-      
-      this.recordEvent({ 
-        type: 'step_complete', 
-        stepId, 
-        result, 
-        timestamp: new Date() 
+
+      this.recordEvent({
+        type: 'step_complete',
+        stepId,
+        result,
+        timestamp: new Date()
       });
-      
+      this.addCompensation(stepId, options, result);
+
       await this.engine.saveState(this.state);
       return result;
     } catch (error) {
@@ -105,25 +263,23 @@ export class WorkflowContext {
 
   /**
    * Sleep for a duration (Durable Sleep)
-   * IDLEs the workflow state and saves to DB. 
+   * IDLEs the workflow state and saves to DB.
    * Server can restart during this time safely.
    */
   async sleep(key: string, durationMs: number): Promise<void> {
     const stepId = `sleep:${key}`;
-    const completedEvent = this.state.history.find(
-      e => e.type === 'sleep_complete' && e.stepId === stepId
-    );
+    const completedEvent = this.findEvent('sleep_complete', stepId);
 
     if (completedEvent) {
-      return; 
+      return;
     }
 
     console.log(`[Flow] Sleeping for ${durationMs}ms...`);
-    
+
     const wakeUpAt = new Date(Date.now() + durationMs);
     this.state.status = 'sleeping';
     this.state.wakeUpAt = wakeUpAt;
-    
+
     this.recordEvent({ type: 'sleep_start', stepId, timestamp: new Date() });
     await this.engine.saveState(this.state);
 
@@ -132,6 +288,123 @@ export class WorkflowContext {
     throw new SuspendExecutionError('Workflow sleeping');
   }
 
+  /**
+   * Wait (durably) for `engine.signal(id, name, payload)` and return its
+   * payload, or null once `timeoutMs` passes without one. Signals sent before
+   * the wait starts are buffered.
+   */
+  async waitForSignal<T = any>(name: string, timeoutMs?: number): Promise<T | null> {
+    const stepId = this.nextId(`signal:${name}`);
+
+    const received = this.findEvent('signal_received', stepId);
+    if (received) return received.result as T;
+    if (this.findEvent('signal_timeout', stepId)) return null;
+
+    const index = this.state.signals?.findIndex(s => s.name === name) ?? -1;
+    if (index !== -1) {
+      const [signal] = this.state.signals!.splice(index, 1);
+      this.recordEvent({ type: 'signal_received', stepId, result: signal!.payload, timestamp: new Date() });
+      await this.engine.saveState(this.state);
+      return signal!.payload as T;
+    }
+
+    // A replayed wait keeps its original deadline.
+    const waiting = this.findEvent('signal_wait', stepId);
+    const deadline = waiting
+      ? waiting.result?.until
+      : timeoutMs !== undefined ? Date.now() + timeoutMs : undefined;
+
+    console.log(`[Flow] Waiting for signal: ${name}`);
+    this.state.status = 'waiting';
+    this.state.waitingFor = `signal:${name}`;
+    this.state.wakeUpAt = deadline !== undefined ? new Date(deadline) : undefined;
+    if (!waiting) this.recordEvent({ type: 'signal_wait', stepId, result: { until: deadline }, timestamp: new Date() });
+    await this.engine.saveState(this.state);
+
+    throw new SuspendExecutionError('Workflow waiting for signal');
+  }
+
+  /**
+   * Run another workflow as a child and return its result. The parent is
+   * suspended until the child finishes; a failed child throws here.
+   */
+  async child<T = any>(name: string, ...args: any[]): Promise<T> {
+    const stepId = this.nextId(`child:${name}`);
+
+    const completed = this.findEvent('child_complete', stepId);
+    if (completed) return this.childOutcome<T>(name, completed.result);
+
+    const started = this.findEvent('child_start', stepId);
+    if (started) {
+      const child = await this.engine.getState(started.result.childId);
+      if (child && (child.status === 'completed' || child.status === 'failed')) {
+        const outcome = { childId: child.id, status: child.status, result: child.variables.result, error: child.variables.error };
+        this.recordEvent({ type: 'child_complete', stepId, result: outcome, timestamp: new Date() });
+        await this.engine.saveState(this.state);
+        return this.childOutcome<T>(name, outcome);
+      }
+      // Woken up early (e.g. recovery): keep waiting for the child.
+      await this.suspendForChild(started.result.childId);
+    }
+
+    const childId = await this.engine.createInstance(name, args, this.state.id);
+    this.recordEvent({ type: 'child_start', stepId, result: { childId }, timestamp: new Date() });
+    // Suspend before the child runs so its completion always finds us waiting.
+    await this.suspendForChild(childId, false);
+    this.engine.resumeInBackground(childId);
+    throw new SuspendExecutionError('Workflow waiting for child');
+  }
+
+  /**
+   * Run compensations of completed steps in reverse order (internal)
+   */
+  async compensate(): Promise<void> {
+    for (const { stepId, run } of [...this.compensations].reverse()) {
+      if (this.findEvent('compensation_complete', stepId)) continue;
+      console.log(`[Flow] Compensating step: ${stepId}`);
+      try {
+        await run();
+        this.recordEvent({ type: 'compensation_complete', stepId, timestamp: new Date() });
+      } catch (error) {
+        // Keep unwinding: one failed undo must not block the others.
+        console.error(`[Flow] Compensation for ${stepId} failed:`, error);
+        (this.state.variables.compensationErrors ??= []).push({ stepId, error: (error as Error).message });
+      }
+      await this.engine.saveState(this.state);
+    }
+  }
+
+  private async suspendForChild(childId: string, throwAfter = true): Promise<void> {
+    this.state.status = 'waiting';
+    this.state.waitingFor = `child:${childId}`;
+    this.state.wakeUpAt = undefined;
+    await this.engine.saveState(this.state);
+    if (throwAfter) throw new SuspendExecutionError('Workflow waiting for child');
+  }
+
+  private childOutcome<T>(name: string, outcome: any): T {
+    if (outcome.status === 'failed') {
+      throw new Error(`Child workflow ${name} (${outcome.childId}) failed: ${outcome.error}`);
+    }
+    return outcome.result as T;
+  }
+
+  private addCompensation<T>(stepId: string, options: StepOptions<T>, result: T) {
+    if (options.compensate) {
+      this.compensations.push({ stepId, run: () => options.compensate!(result) });
+    }
+  }
+
+  private nextId(prefix: string): string {
+    const n = (this.occurrences.get(prefix) ?? 0) + 1;
+    this.occurrences.set(prefix, n);
+    return `${prefix}:${n}`;
+  }
+
+  private findEvent(type: WorkflowEvent['type'], stepId: string): WorkflowEvent | undefined {
+    return this.state.history.find(e => e.type === type && e.stepId === stepId);
+  }
+
   private recordEvent(event: WorkflowEvent) {
     this.state.history.push(event);
     this.state.updatedAt = new Date();
@@ -147,13 +420,27 @@ export class WorkflowEngine {
   private workflows = new Map<string, (ctx: WorkflowContext, ...args: any[]) => Promise<any>>();
   private storage: WorkflowStorage;
   private pollingInterval: Timer | null = null;
+  // Live instances in this process. Signals go to these objects so a running
+  // workflow's next save cannot overwrite them with a stale copy.
+  private instances = new Map<string, WorkflowState>();
+  private staleAfter: number;
 
-  constructor(storage?: WorkflowStorage) {
+  constructor(storage?: WorkflowStorage, options: WorkflowEngineOptions = {}) {
     this.storage = storage || new MemoryWorkflowStorage();
+    this.staleAfter = options.staleAfter ?? 60_000;
     // Poller starts lazily when the first workflow instance is started,
     // so merely importing the framework does not keep the process alive.
   }
 
+  /**
+   * Use a different storage (e.g. SqlWorkflowStorage)
+   */
+  useStorage(storage: WorkflowStorage): this {
+    this.storage = storage;
+    this.instances.clear();
+    return this;
+  }
+
   /**
    * Define a workflow
    */
@@ -165,10 +452,48 @@ export class WorkflowEngine {
    * Start a workflow instance
    */
   async start(name: string, ...args: any[]): Promise<string> {
-    const handler = this.workflows.get(name);
-    if (!handler) throw new Error(`Workflow ${name} not found`);
+    const id = await this.createInstance(name, args);
     this.startPoller();
 
+    // Start execution in background
+    this.resumeInBackground(id);
+
+    return id;
+  }
+
+  /**
+   * Deliver a signal to a workflow. Resolves once the workflow has handled
+   * it and suspended or finished again.
+   */
+  async signal(id: string, name: string, payload?: any): Promise<void> {
+    const state = await this.getState(id);
+    if (!state) throw new Error(`Workflow ${id} not found`);
+    if (state.status === 'completed' || state.status === 'failed') {
+      throw new Error(`Workflow ${id} is ${state.status} and cannot receive signals`);
+    }
+
+    (state.signals ??= []).push({ name, payload, receivedAt: new Date() });
+    state.updatedAt = new Date();
+    await this.saveState(state);
+
+    if (state.status === 'waiting' && state.waitingFor === `signal:${name}`) {
+      await this.resume(state);
+    }
+  }
+
+  /**
+   * Current state of a workflow instance
+   */
+  async getState(id: string): Promise<WorkflowState | null> {
+    return this.instances.get(id) ?? await this.storage.load(id);
+  }
+
+  /**
+   * Create and persist an instance without running it (internal)
+   */
+  async createInstance(name: string, args: any[], parentId?: string): Promise<string> {
+    if (!this.workflows.get(name)) throw new Error(`Workflow ${name} not found`);
+
     const id = crypto.randomUUID();
     const state: WorkflowState = {
       id,
@@ -178,16 +503,30 @@ export class WorkflowEngine {
       variables: { args }, // Save args for replay
       createdAt: new Date(),
       updatedAt: new Date(),
+      parentId,
     };
 
+    this.instances.set(id, state);
     await this.storage.save(state);
-    
-    // Start execution in background
-    this.runWorkflow(state).catch(err => console.error('Workflow Error:', err));
-
     return id;
   }
 
+  /**
+   * Run an instance without waiting for it (internal)
+   */
+  resumeInBackground(id: string) {
+    this.getState(id)
+      .then(state => state && this.runWorkflow(state))
+      .catch(err => console.error('Workflow Error:', err));
+  }
+
+  private async resume(state: WorkflowState) {
+    state.status = 'running';
+    state.wakeUpAt = undefined;
+    state.waitingFor = undefined;
+    await this.runWorkflow(state);
+  }
+
   /**
    * Internal Runner
    */
@@ -195,24 +534,30 @@ export class WorkflowEngine {
     const handler = this.workflows.get(state.name);
     if (!handler) return;
 
+    this.instances.set(state.id, state);
+    // The poller also keeps this instance's state fresh while it runs
+    this.startPoller();
     const ctx = new WorkflowContext(this, state);
     state.status = 'running';
 
     try {
       const args = state.variables.args || [];
       const result = await handler(ctx, ...args);
-      
+
       // Completed successfully
       state.status = 'completed';
+      state.variables.result = result;
       state.updatedAt = new Date();
       await this.saveState(state);
       console.log(`[Flow] Workflow ${state.id} completed.`);
-      
+
     } catch (error) {
       if (error instanceof SuspendExecutionError) {
-        console.log(`[Flow] Workflow ${state.id} suspended (sleeping).`);
-        // State is already saved as sleeping in ctx.sleep()
+        console.log(`[Flow] Workflow ${state.id} suspended (${state.status}).`);
+        // State is already saved by the suspending ctx call
+        return;
       } else {
+        await ctx.compensate();
         state.status = 'failed';
         state.variables.error = (error as Error).message;
         state.updatedAt = new Date();
@@ -220,6 +565,16 @@ export class WorkflowEngine {
         console.error(`[Flow] Workflow ${state.id} failed:`, error);
       }
     }
+
+    this.instances.delete(state.id);
+    if (state.parentId) await this.notifyParent(state);
+  }
+
+  private async notifyParent(child: WorkflowState) {
+    const parent = await this.getState(child.parentId!);
+    if (parent?.status === 'waiting' && parent.waitingFor === `child:${child.id}`) {
+      await this.resume(parent);
+    }
   }
 
   async saveState(state: WorkflowState) {
@@ -231,33 +586,62 @@ export class WorkflowEngine {
    */
   private startPoller() {
     if (this.pollingInterval) return;
-    this.pollingInterval = setInterval(async () => {
-      const pending = await this.storage.findPending();
-      for (const wf of pending) {
-        if (wf.status === 'sleeping') {
-           // Wake up!
-           console.log(`[Flow] Waking up workflow ${wf.id}`);
-           
-           // Mark sleep step as done
-           const lastEvent = wf.history[wf.history.length - 1];
-           if (lastEvent.type === 'sleep_start') {
-             wf.history.push({
-               type: 'sleep_complete',
-               stepId: lastEvent.stepId,
-               timestamp: new Date()
-             });
-           }
-           
-           wf.status = 'running';
-           wf.wakeUpAt = undefined;
-           this.runWorkflow(wf);
+    this.pollingInterval = setInterval(() => this.wakeDue().catch(err => console.error('Workflow Error:', err)), 1000); // Check every second
+  }
+
+  /**
+   * Wake sleeping workflows, time out signal waits that are due and resume
+   * workflows a crashed process left running
+   */
+  async wakeDue(): Promise<void> {
+    await this.heartbeat();
+
+    const pending = await this.storage.findPending();
+    for (const stored of pending) {
+      const wf = this.instances.get(stored.id) ?? stored;
+      const lastEvent = wf.history[wf.history.length - 1];
+
+      if (wf.status === 'sleeping') {
+        // Wake up!
+        console.log(`[Flow] Waking up workflow ${wf.id}`);
+
+        // Mark sleep step as done
+        if (lastEvent?.type === 'sleep_start') {
+          wf.history.push({ type: 'sleep_complete', stepId: lastEvent.stepId, timestamp: new Date() });
+        }
+        this.resume(wf).catch(err => console.error('Workflow Error:', err));
+      } else if (wf.status === 'waiting' && wf.wakeUpAt && wf.wakeUpAt <= new Date()) {
+        console.log(`[Flow] Signal wait of workflow ${wf.id} timed out`);
+        if (lastEvent?.type === 'signal_wait') {
+          wf.history.push({ type: 'signal_timeout', stepId: lastEvent.stepId, timestamp: new Date() });
         }
+        this.resume(wf).catch(err => console.error('Workflow Error:', err));
       }
-    }, 1000); // Check every second
+    }
+
+    const stale = await this.storage.claimStale?.(new Date(Date.now() - this.staleAfter)) ?? [];
+    for (const wf of stale) {
+      if (this.instances.has(wf.id)) continue;
+      console.log(`[Flow] Resuming workflow ${wf.id} left running`);
+      this.runWorkflow(wf).catch(err => console.error('Workflow Error:', err));
+    }
+  }
+
+  // Save running instances that have gone quiet (a long step), so other
+  // processes don't take them for crashed ones.
+  private async heartbeat(): Promise<void> {
+    const quietSince = Date.now() - this.staleAfter / 3;
+    for (const state of this.instances.values()) {
+      if (state.status === 'running' && state.updatedAt.getTime() < quietSince) {
+        state.updatedAt = new Date();
+        await this.saveState(state);
+      }
+    }
   }
 
   stop() {
     if (this.pollingInterval) clearInterval(this.pollingInterval);
+    this.pollingInterval = null;
   }
 }
 
@@ -270,6 +654,7 @@ export const workflowEngine = new WorkflowEngine();
 export function workflow(name: string, handler: (ctx: WorkflowContext, ...args: any[]) => Promise<any>) {
   workflowEngine.define(name, handler);
   return {
-    start: (...args: any[]) => workflowEngine.start(name, ...args)
+    start: (...args: any[]) => workflowEngine.start(name, ...args),
+    signal: (id: string, signal: string, payload?: any) => workflowEngine.signal(id, signal, payload),
   };
 }
@@ -3,6 +3,8 @@
  * Build GraphQL schemas using TypeScript decorators
  */
 
+import { createQueryLimiter, type ComplexityMap, type FieldComplexity, type QueryLimiter, type QueryLimits } from './Complexity';
+
 // ============================================
 // Types & Interfaces
 // ============================================
@@ -13,6 +15,8 @@ export interface FieldOptions {
   description?: string;
   deprecationReason?: string;
   defaultValue?: unknown;
+  /** Cost counted by query complexity limits (default 1 plus the children's cost) */
+  complexity?: FieldComplexity;
 }
 
 export interface ObjectTypeOptions {
@@ -36,6 +40,8 @@ export interface ResolverMethodOptions {
   type?: GraphQLType;
   nullable?: boolean;
   description?: string;
+  /** Cost counted by query complexity limits (default 1 plus the children's cost) */
+  complexity?: FieldComplexity;
 }
 
 export type GraphQLType =
@@ -72,6 +78,7 @@ interface FieldMetadata {
   description?: string;
   deprecationReason?: string;
   defaultValue?: unknown;
+  complexity?: FieldComplexity;
   args?: Map<string, ArgMetadata>;
 }
 
@@ -97,6 +104,7 @@ interface ResolverFieldMetadata {
   type: GraphQLType;
   nullable: boolean;
   description?: string;
+  complexity?: FieldComplexity;
   args: Map<string, ArgMetadata>;
 }
 
@@ -108,6 +116,8 @@ interface SubscriptionMetadata extends ResolverFieldMetadata {
 const typeMetadataStore = new Map<Function, TypeMetadata>();
 const resolverMetadataStore = new Map<Function, ResolverMetadata>();
 const enumMetadataStore = new Map<Function, { name: string; values: string[] }>();
+// Parameter decorators run before their method's decorator; hold @Args until it does
+const pendingArgsStore = new Map<Function, Map<string, { index: number; arg: ArgMetadata }[]>>();
 
 // ============================================
 // Type Decorators
@@ -202,6 +212,7 @@ export function Field(options: FieldOptions = {}): PropertyDecorator & MethodDec
       description: options.description,
       deprecationReason: options.deprecationReason,
       defaultValue: options.defaultValue,
+      complexity: options.complexity,
     };
 
     existing.fields.set(String(propertyKey), fieldMetadata);
@@ -247,7 +258,8 @@ export function Query(options: ResolverMethodOptions = {}): MethodDecorator {
       type: options.type || 'String',
       nullable: options.nullable ?? true,
       description: options.description,
-      args: new Map(),
+      complexity: options.complexity,
+      args: takePendingArgs(constructor, String(propertyKey)),
     };
 
     existing.queries.set(String(propertyKey), queryMeta);
@@ -269,7 +281,8 @@ export function Mutation(options: ResolverMethodOptions = {}): MethodDecorator {
       type: options.type || 'String',
       nullable: options.nullable ?? true,
       description: options.description,
-      args: new Map(),
+      complexity: options.complexity,
+      args: takePendingArgs(constructor, String(propertyKey)),
     };
 
     existing.mutations.set(String(propertyKey), mutationMeta);
@@ -294,7 +307,8 @@ export function Subscription(options: ResolverMethodOptions & {
       type: options.type || 'String',
       nullable: options.nullable ?? true,
       description: options.description,
-      args: new Map(),
+      complexity: options.complexity,
+      args: takePendingArgs(constructor, String(propertyKey)),
       topics: options.topics || [String(propertyKey)],
       filter: options.filter,
     };
@@ -318,7 +332,8 @@ export function ResolveField(options: ResolverMethodOptions = {}): MethodDecorat
       type: options.type || 'String',
       nullable: options.nullable ?? true,
       description: options.description,
-      args: new Map(),
+      complexity: options.complexity,
+      args: takePendingArgs(constructor, String(propertyKey)),
     };
 
     existing.fieldResolvers.set(String(propertyKey), fieldMeta);
@@ -346,12 +361,20 @@ export function Args(options: ArgsOptions | string = {}): ParameterDecorator {
     };
 
     // Add to the appropriate resolver method
+    let found = false;
     for (const map of [existing.queries, existing.mutations, existing.subscriptions, existing.fieldResolvers]) {
       const method = map.get(methodName);
       if (method) {
         method.args.set(argMeta.name, argMeta);
+        found = true;
       }
     }
+
+    if (!found) {
+      const pending = pendingArgsStore.get(constructor) ?? new Map();
+      pending.set(methodName, [...(pending.get(methodName) ?? []), { index: parameterIndex, arg: argMeta }]);
+      pendingArgsStore.set(constructor, pending);
+    }
   };
 }
 
@@ -386,6 +409,14 @@ export function Info(): ParameterDecorator {
 // Helper Functions
 // ============================================
 
+function takePendingArgs(target: Function, methodName: string): Map<string, ArgMetadata> {
+  const pending = pendingArgsStore.get(target)?.get(methodName) ?? [];
+  pendingArgsStore.get(target)?.delete(methodName);
+  return new Map(
+    [...pending].sort((a, b) => a.index - b.index).map(({ arg }) => [arg.name, arg])
+  );
+}
+
 function getOrCreateResolverMetadata(target: Function): ResolverMetadata {
   if (!resolverMetadataStore.has(target)) {
     resolverMetadataStore.set(target, {
@@ -407,6 +438,7 @@ export class CodeFirstSchemaBuilder {
   private types: Function[] = [];
   private resolvers: Function[] = [];
   private pubSub: PubSubEngine | null = null;
+  private queryLimits: QueryLimits = {};
 
   /**
    * Add types to the schema
@@ -432,11 +464,21 @@ export class CodeFirstSchemaBuilder {
     return this;
   }
 
+  /**
+   * Limit the depth and cost of incoming queries. Pass `getQueryLimiter()` to
+   * the GraphQL adapter to reject queries over the limits before they run.
+   */
+  setQueryLimits(limits: QueryLimits): this {
+    this.queryLimits = limits;
+    return this;
+  }
+
   /**
    * Build the GraphQL schema string (SDL)
    */
   buildTypeDefs(): string {
     const lines: string[] = [];
+    const fieldResolvers = this.fieldResolversByType();
 
     // Build type definitions
     for (const type of this.types) {
@@ -452,6 +494,13 @@ export class CodeFirstSchemaBuilder {
         const typeStr = this.typeToString(field.type, field.nullable);
         lines.push(`  ${field.name}: ${typeStr}${field.description ? ` # ${field.description}` : ''}`);
       }
+
+      // @ResolveField methods for fields the type doesn't declare itself
+      for (const field of fieldResolvers.get(type) ?? []) {
+        if ([...meta.fields.values()].some(f => f.name === field.name)) continue;
+        const typeStr = this.typeToString(field.type, field.nullable);
+        lines.push(`  ${field.name}${this.buildArgsString(field.args)}: ${typeStr}`);
+      }
       
       lines.push('}');
       lines.push('');
@@ -551,13 +600,16 @@ export class CodeFirstSchemaBuilder {
           resolve: (payload: any) => payload,
         };
 
-        if (subscription.filter && this.pubSub) {
+        if (subscription.filter) {
           const originalSubscribe = resolversObj.Subscription[subscription.name].subscribe;
-          resolversObj.Subscription[subscription.name].subscribe = async (
+          resolversObj.Subscription[subscription.name].subscribe = (
             _: any, args: any, context: any, info: any
           ) => {
-            // Wrap with filter
-            return originalSubscribe(_, args, context, info);
+            // Each subscriber only receives the payloads its own filter accepts
+            return withFilter(
+              originalSubscribe(_, args, context, info),
+              (payload) => subscription.filter!(payload, args, context)
+            );
           };
         }
       }
@@ -584,6 +636,98 @@ export class CodeFirstSchemaBuilder {
     return resolversObj;
   }
 
+  /**
+   * Build an executable schema (requires the `graphql` package) with the
+   * resolvers from `buildResolvers()` attached to their fields
+   */
+  async build(): Promise<any> {
+    const { buildSchema } = await import('graphql');
+    const schema = buildSchema(this.buildTypeDefs());
+
+    for (const [typeName, fieldResolvers] of Object.entries(this.buildResolvers())) {
+      const type = schema.getType(typeName);
+      if (!type || typeof type.getFields !== 'function') continue;
+      const fields = type.getFields();
+
+      for (const [fieldName, resolver] of Object.entries<any>(fieldResolvers)) {
+        const field = fields[fieldName];
+        if (!field) continue;
+        if (typeof resolver === 'function') {
+          field.resolve = resolver;
+        } else {
+          field.subscribe = resolver.subscribe;
+          field.resolve = resolver.resolve;
+        }
+      }
+    }
+
+    return schema;
+  }
+
+  /**
+   * Return type and cost of every field, as used by the query limiter
+   */
+  getComplexityMap(): ComplexityMap {
+    const map: ComplexityMap = {};
+    const add = (typeName: string, field: { name: string; type: GraphQLType; complexity?: FieldComplexity }) => {
+      map[typeName] ??= {};
+      map[typeName][field.name] = { type: this.namedType(field.type), complexity: field.complexity };
+    };
+
+    for (const type of this.types) {
+      const meta = typeMetadataStore.get(type);
+      if (!meta) continue;
+      for (const [, field] of meta.fields) add(meta.name, field);
+    }
+
+    for (const resolver of this.resolvers) {
+      const meta = resolverMetadataStore.get(resolver);
+      if (!meta) continue;
+      for (const [, query] of meta.queries) add('Query', query);
+      for (const [, mutation] of meta.mutations) add('Mutation', mutation);
+      for (const [, subscription] of meta.subscriptions) add('Subscription', subscription);
+    }
+
+    for (const [type, fields] of this.fieldResolversByType()) {
+      const typeName = typeMetadataStore.get(type)?.name ?? type.name;
+      for (const field of fields) {
+        // A @ResolveField cost overrides the one on the type's @Field
+        const declared = map[typeName]?.[field.name];
+        add(typeName, { ...field, complexity: field.complexity ?? declared?.complexity });
+      }
+    }
+
+    return map;
+  }
+
+  /**
+   * Limiter enforcing the limits from `setQueryLimits()`; throws
+   * `QueryComplexityError` for queries over the limits
+   */
+  getQueryLimiter(): QueryLimiter {
+    return createQueryLimiter(this.getComplexityMap(), this.queryLimits);
+  }
+
+  private fieldResolversByType(): Map<Function, ResolverFieldMetadata[]> {
+    const byType = new Map<Function, ResolverFieldMetadata[]>();
+    for (const resolver of this.resolvers) {
+      const meta = resolverMetadataStore.get(resolver);
+      if (!meta?.resolverOf) continue;
+      const fields = byType.get(meta.resolverOf) ?? [];
+      fields.push(...meta.fieldResolvers.values());
+      byType.set(meta.resolverOf, fields);
+    }
+    return byType;
+  }
+
+  private namedType(type: GraphQLType): string {
+    if (typeof type === 'string') return type.replace(/[[\]!]/g, '');
+    if (typeof type === 'function') return typeMetadataStore.get(type)?.name ?? type.name;
+    if ('list' in type) return this.namedType(type.list);
+    if ('nullable' in type) return this.namedType(type.nullable);
+    return 'String';
+  }
+
   private typeToString(type: GraphQLType, nullable: boolean): string {
     let typeStr: string;
 
@@ -623,7 +767,7 @@ export interface PubSubEngine {
   publish(topic: string, payload: any): Promise<void>;
   subscribe(topic: string, onMessage: (payload: any) => void): Promise<number>;
   unsubscribe(subId: number): void;
-  asyncIterator<T>(topics: string | string[]): AsyncIterator<T>;
+  asyncIterator<T>(topics: string | string[]): AsyncIterableIterator<T>;
 }
 
 export class InMemoryPubSub implements PubSubEngine {
@@ -648,56 +792,184 @@ export class InMemoryPubSub implements PubSubEngine {
     this.subscriptions.delete(subId);
   }
 
-  asyncIterator<T>(topics: string | string[]): AsyncIterator<T> {
-    const topicArray = Array.isArray(topics) ? topics : [topics];
-    const pullQueue: ((value: IteratorResult<T>) => void)[] = [];
-    const pushQueue: T[] = [];
-    let listening = true;
-    const subIds: number[] = [];
-
-    const pushValue = (payload: T) => {
-      if (pullQueue.length > 0) {
-        pullQueue.shift()!({ value: payload, done: false });
-      } else {
-        pushQueue.push(payload);
+  asyncIterator<T>(topics: string | string[]): AsyncIterableIterator<T> {
+    return pubSubIterator<T>(this, topics);
+  }
+}
+
+/**
+ * PubSub over Redis channels, so a publish on one cluster worker reaches the
+ * subscriptions held by every other worker. Takes an injected node-redis style
+ * client (`publish(channel, message)`, `subscribe(channel, listener)`); the
+ * subscriber connection defaults to `client.duplicate()`.
+ *
+ * @example
+ * const pubSub = new RedisPubSub(redis, { prefix: 'gql:' });
+ * builder.setPubSub(pubSub);
+ */
+export class RedisPubSub implements PubSubEngine {
+  private publisher: any;
+  private subscriber: any;
+  private prefix: string;
+  private subscriptions: Map<number, { topic: string; callback: (payload: any) => void }> = new Map();
+  private topics: Map<string, Set<number>> = new Map();
+  private subIdCounter = 0;
+
+  constructor(redisClient: any, options: { prefix?: string; subscriber?: any } = {}) {
+    this.publisher = redisClient;
+    this.subscriber = options.subscriber ?? redisClient.duplicate();
+    this.prefix = options.prefix ?? 'graphql:';
+  }
+
+  async publish(topic: string, payload: any): Promise<void> {
+    await this.publisher.publish(this.prefix + topic, JSON.stringify(payload));
+  }
+
+  async subscribe(topic: string, onMessage: (payload: any) => void): Promise<number> {
+    const id = ++this.subIdCounter;
+    this.subscriptions.set(id, { topic, callback: onMessage });
+
+    let ids = this.topics.get(topic);
+    if (!ids) {
+      // Register before awaiting so concurrent subscribers share one channel subscription
+      ids = new Set();
+      this.topics.set(topic, ids);
+      ids.add(id);
+      await this.subscriber.subscribe(this.prefix + topic, (message: string) => this.dispatch(topic, message));
+    } else {
+      ids.add(id);
+    }
+
+    return id;
+  }
+
+  unsubscribe(subId: number): void {
+    const sub = this.subscriptions.get(subId);
+    if (!sub) return;
+    this.subscriptions.delete(subId);
+
+    const ids = this.topics.get(sub.topic);
+    ids?.delete(subId);
+    if (ids && ids.size === 0) {
+      this.topics.delete(sub.topic);
+      Promise.resolve(this.subscriber.unsubscribe(this.prefix + sub.topic)).catch((error: unknown) => {
+        console.error(`[GraphQL] Failed to unsubscribe from ${sub.topic}:`, error);
+      });
+    }
+  }
+
+  asyncIterator<T>(topics: string | string[]): AsyncIterableIterator<T> {
+    return pubSubIterator<T>(this, topics);
+  }
+
+  async close(): Promise<void> {
+    this.subscriptions.clear();
+    this.topics.clear();
+    await this.subscriber.quit();
+  }
+
+  private dispatch(topic: string, message: string): void {
+    let payload: any;
+    try {
+      payload = JSON.parse(message);
+    } catch (error) {
+      console.error(`[GraphQL] Invalid PubSub message on ${topic}:`, error);
+      return;
+    }
+
+    for (const id of this.topics.get(topic) ?? []) {
+      this.subscriptions.get(id)?.callback(payload);
+    }
+  }
+}
+
+/**
+ * Only pass on the payloads accepted by `filter`
+ */
+export function withFilter<T>(
+  iterator: AsyncIterator<T>,
+  filter: (payload: T) => boolean | Promise<boolean>
+): AsyncIterableIterator<T> {
+  return {
+    next: async () => {
+      while (true) {
+        const result = await iterator.next();
+        if (result.done || await filter(result.value)) return result;
       }
-    };
+    },
+    return: () => iterator.return
+      ? iterator.return()
+      : Promise.resolve({ value: undefined as any, done: true }),
+    throw: (error: any) => iterator.throw ? iterator.throw(error) : Promise.reject(error),
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+/**
+ * Async iterator over one or more PubSub topics
+ */
+function pubSubIterator<T>(pubSub: PubSubEngine, topics: string | string[]): AsyncIterableIterator<T> {
+  const topicArray = Array.isArray(topics) ? topics : [topics];
+  const pullQueue: ((value: IteratorResult<T>) => void)[] = [];
+  const pushQueue: T[] = [];
+  let listening = true;
+  const subIds: number[] = [];
+
+  const pushValue = (payload: T) => {
+    if (pullQueue.length > 0) {
+      pullQueue.shift()!({ value: payload, done: false });
+    } else {
+      pushQueue.push(payload);
+    }
+  };
 
-    // Subscribe to all topics
-    for (const topic of topicArray) {
-      this.subscribe(topic, pushValue).then(id => subIds.push(id));
+  const stop = () => {
+    listening = false;
+    for (const id of subIds) {
+      pubSub.unsubscribe(id);
+    }
+    // Release consumers waiting on next()
+    for (const resolve of pullQueue.splice(0)) {
+      resolve({ value: undefined as any, done: true });
     }
+    pushQueue.length = 0;
+  };
 
-    return {
-      next: () => {
-        return new Promise<IteratorResult<T>>((resolve) => {
-          if (!listening) {
-            resolve({ value: undefined as any, done: true });
-            return;
-          }
-          if (pushQueue.length > 0) {
-            resolve({ value: pushQueue.shift()!, done: false });
-          } else {
-            pullQueue.push(resolve);
-          }
-        });
-      },
-      return: () => {
-        listening = false;
-        for (const id of subIds) {
-          this.unsubscribe(id);
-        }
-        return Promise.resolve({ value: undefined as any, done: true });
-      },
-      throw: (error: any) => {
-        listening = false;
-        for (const id of subIds) {
-          this.unsubscribe(id);
-        }
-        return Promise.reject(error);
-      },
-    };
+  // Subscribe to all topics
+  for (const topic of topicArray) {
+    pubSub.subscribe(topic, pushValue).then(id => {
+      // Stopped before the subscription was in place
+      if (listening) subIds.push(id);
+      else pubSub.unsubscribe(id);
+    });
   }
+
+  return {
+    next: () => {
+      return new Promise<IteratorResult<T>>((resolve) => {
+        if (pushQueue.length > 0) {
+          resolve({ value: pushQueue.shift()!, done: false });
+        } else if (!listening) {
+          resolve({ value: undefined as any, done: true });
+        } else {
+          pullQueue.push(resolve);
+        }
+      });
+    },
+    return: () => {
+      stop();
+      return Promise.resolve({ value: undefined as any, done: true });
+    },
+    throw: (error: any) => {
+      stop();
+      return Promise.reject(error);
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
 }
 
 // ============================================
@@ -712,6 +984,10 @@ export function createPubSub(): InMemoryPubSub {
   return new InMemoryPubSub();
 }
 
+export function createRedisPubSub(redisClient: any, options?: { prefix?: string; subscriber?: any }): RedisPubSub {
+  return new RedisPubSub(redisClient, options);
+}
+
 /**
  * Get all registered type metadata
  */
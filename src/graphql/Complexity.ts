@@ -0,0 +1,247 @@
+/**
+ * CanxJS GraphQL Query Complexity
+ * Depth and cost analysis run against the parsed document before execution
+ */
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+/**
+ * Cost of a field: a flat number added to its children's cost, or an
+ * estimator such as `({ args, childComplexity }) => childComplexity * args.first`
+ */
+export type FieldComplexity =
+  | number
+  | ((options: { args: Record<string, any>; childComplexity: number }) => number);
+
+export interface QueryLimits {
+  /** Deepest allowed field nesting; root fields are depth 1 */
+  maxDepth?: number;
+  /** Highest allowed total cost */
+  maxComplexity?: number;
+  /** Cost of fields without a `complexity` option (default 1) */
+  defaultComplexity?: number;
+}
+
+export interface QueryCost {
+  depth: number;
+  complexity: number;
+}
+
+/**
+ * Field lookup used by the analyzer: type name -> field name -> return type and cost
+ */
+export type ComplexityMap = Record<string, Record<string, { type: string; complexity?: FieldComplexity }>>;
+
+export type QueryLimiter = (
+  document: any,
+  variables?: Record<string, any>,
+  operationName?: string
+) => QueryCost;
+
+const ROOT_TYPES: Record<string, string> = {
+  query: 'Query',
+  mutation: 'Mutation',
+  subscription: 'Subscription',
+};
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Thrown when a query exceeds its depth or cost limit. `extensions` is
+ * returned to the client in the GraphQL error.
+ */
+export class QueryComplexityError extends Error {
+  readonly extensions: Record<string, unknown>;
+
+  constructor(message: string, code: 'QUERY_TOO_DEEP' | 'QUERY_TOO_COMPLEX', cost: QueryCost, limit: number) {
+    super(message);
+    this.name = 'QueryComplexityError';
+    this.extensions = { code, ...cost, limit };
+  }
+}
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * Measure the depth and cost of the operation in a parsed document. Each
+ * fragment is measured once however often it is spread. With `maxDepth` or
+ * `maxComplexity` given, the walk stops at the first selection that goes over
+ * a limit and returns the cost measured so far.
+ */
+export function analyzeQuery(
+  document: any,
+  fields: ComplexityMap,
+  options: {
+    variables?: Record<string, any>;
+    operationName?: string;
+    defaultComplexity?: number;
+    maxDepth?: number;
+    maxComplexity?: number;
+  } = {}
+): QueryCost {
+  const definitions: any[] = document?.definitions ?? [];
+  const operations = definitions.filter(d => d.kind === 'OperationDefinition');
+  const operation = options.operationName
+    ? operations.find(o => o.name?.value === options.operationName)
+    : operations[0];
+  if (!operation) return { depth: 0, complexity: 0 };
+
+  const fragments = new Map<string, any>();
+  for (const definition of definitions) {
+    if (definition.kind === 'FragmentDefinition') fragments.set(definition.name.value, definition);
+  }
+
+  const variables: Record<string, any> = { ...options.variables };
+  for (const definition of operation.variableDefinitions ?? []) {
+    const name = definition.variable.name.value;
+    if (variables[name] === undefined && definition.defaultValue) {
+      variables[name] = valueFromAst(definition.defaultValue, {});
+    }
+  }
+  const defaultComplexity = options.defaultComplexity ?? 1;
+  const maxDepthLimit = options.maxDepth ?? Infinity;
+  const maxComplexityLimit = options.maxComplexity ?? Infinity;
+
+  // Fragment costs measured from depth 1, shifted to where they are spread
+  const fragmentCosts = new Map<string, QueryCost>();
+  const inProgress = new Set<string>();
+  let exceeded: QueryCost | null = null;
+
+  const over = (cost: QueryCost) => cost.depth > maxDepthLimit || cost.complexity > maxComplexityLimit;
+
+  const visit = (selectionSet: any, typeName: string | undefined, depth: number): QueryCost => {
+    let maxDepth = depth - 1;
+    let complexity = 0;
+
+    for (const selection of selectionSet?.selections ?? []) {
+      if (exceeded) break;
+      if (isSkipped(selection, variables)) continue;
+
+      if (selection.kind === 'Field') {
+        const name: string = selection.name.value;
+        if (name.startsWith('__')) continue;
+
+        const field = typeName ? fields[typeName]?.[name] : undefined;
+        const child = selection.selectionSet
+          ? visit(selection.selectionSet, field?.type, depth + 1)
+          : { depth, complexity: 0 };
+        const estimator = field?.complexity ?? defaultComplexity;
+        const cost = typeof estimator === 'function'
+          ? estimator({ args: argumentValues(selection.arguments, variables), childComplexity: child.complexity })
+          : estimator + child.complexity;
+
+        complexity += cost;
+        maxDepth = Math.max(maxDepth, child.depth);
+      } else if (selection.kind === 'InlineFragment') {
+        const inner = visit(selection.selectionSet, selection.typeCondition?.name.value ?? typeName, depth);
+        complexity += inner.complexity;
+        maxDepth = Math.max(maxDepth, inner.depth);
+      } else if (selection.kind === 'FragmentSpread') {
+        const inner = visitFragment(selection.name.value);
+        if (!inner) continue;
+        complexity += inner.complexity;
+        maxDepth = Math.max(maxDepth, inner.depth + depth - 1);
+      }
+
+      if (!exceeded && over({ depth: maxDepth, complexity })) exceeded = { depth: maxDepth, complexity };
+    }
+
+    return exceeded ?? { depth: maxDepth, complexity };
+  };
+
+  const visitFragment = (name: string): QueryCost | undefined => {
+    const cached = fragmentCosts.get(name);
+    if (cached) return cached;
+    const fragment = fragments.get(name);
+    // Cycles are a validation error; don't loop on them
+    if (!fragment || inProgress.has(name)) return undefined;
+
+    inProgress.add(name);
+    const cost = visit(fragment.selectionSet, fragment.typeCondition.name.value, 1);
+    inProgress.delete(name);
+    if (!exceeded) fragmentCosts.set(name, cost);
+    return cost;
+  };
+
+  const cost = visit(operation.selectionSet, ROOT_TYPES[operation.operation], 1);
+  return exceeded ?? cost;
+}
+
+/**
+ * Build a limiter that measures a document and throws `QueryComplexityError`
+ * when it goes over `maxDepth` or `maxComplexity`
+ */
+export function createQueryLimiter(fields: ComplexityMap, limits: QueryLimits): QueryLimiter {
+  return (document, variables, operationName) => {
+    const cost = analyzeQuery(document, fields, {
+      variables,
+      operationName,
+      defaultComplexity: limits.defaultComplexity,
+      maxDepth: limits.maxDepth,
+      maxComplexity: limits.maxComplexity,
+    });
+
+    if (limits.maxDepth !== undefined && cost.depth > limits.maxDepth) {
+      throw new QueryComplexityError(
+        `Query depth ${cost.depth} exceeds the maximum of ${limits.maxDepth}`,
+        'QUERY_TOO_DEEP',
+        cost,
+        limits.maxDepth
+      );
+    }
+    if (limits.maxComplexity !== undefined && cost.complexity > limits.maxComplexity) {
+      throw new QueryComplexityError(
+        `Query complexity ${cost.complexity} exceeds the maximum of ${limits.maxComplexity}`,
+        'QUERY_TOO_COMPLEX',
+        cost,
+        limits.maxComplexity
+      );
+    }
+    return cost;
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function isSkipped(selection: any, variables: Record<string, any>): boolean {
+  for (const directive of selection.directives ?? []) {
+    const name = directive.name.value;
+    if (name !== 'skip' && name !== 'include') continue;
+    const condition = argumentValues(directive.arguments, variables).if;
+    if (name === 'skip' && condition === true) return true;
+    if (name === 'include' && condition === false) return true;
+  }
+  return false;
+}
+
+function argumentValues(args: any[] | undefined, variables: Record<string, any>): Record<string, any> {
+  const values: Record<string, any> = {};
+  for (const arg of args ?? []) {
+    values[arg.name.value] = valueFromAst(arg.value, variables);
+  }
+  return values;
+}
+
+function valueFromAst(node: any, variables: Record<string, any>): any {
+  switch (node.kind) {
+    case 'Variable': return variables[node.name.value];
+    case 'IntValue': return parseInt(node.value, 10);
+    case 'FloatValue': return parseFloat(node.value);
+    case 'StringValue':
+    case 'EnumValue': return node.value;
+    case 'BooleanValue': return node.value;
+    case 'NullValue': return null;
+    case 'ListValue': return node.values.map((v: any) => valueFromAst(v, variables));
+    case 'ObjectValue':
+      return Object.fromEntries(node.fields.map((f: any) => [f.name.value, valueFromAst(f.value, variables)]));
+    default: return undefined;
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * CanxJS GraphQL DataLoader
+ * Per-request batching and caching for field resolvers
+ */
+
+import type { Model } from '../mvc/Model';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export type BatchLoadFn<K, V> = (keys: readonly K[]) => Promise<ReadonlyArray<V | Error>>;
+
+export interface DataLoaderOptions<K> {
+  /** Memoize results per key for the loader's lifetime (default true) */
+  cache?: boolean;
+  /** Split batches larger than this (default unlimited) */
+  maxBatchSize?: number;
+  /** Map a key to its cache key, e.g. for object keys (default: the key itself) */
+  cacheKey?: (key: K) => unknown;
+}
+
+type ModelClass<T extends Model> = (abstract new (...args: any[]) => T) & typeof Model;
+
+interface Batch<K, V> {
+  keys: K[];
+  callbacks: { resolve: (value: V) => void; reject: (error: unknown) => void }[];
+}
+
+// ============================================
+// DataLoader
+// ============================================
+
+/**
+ * Collects every `load()` made in the same tick and resolves them with a
+ * single call to the batch function.
+ *
+ * @example
+ * const users = new DataLoader<number, User | null>(async (ids) => {
+ *   const rows = await User.query().whereIn('id', ids).get();
+ *   return ids.map(id => rows.find(r => r.id === id) ?? null);
+ * });
+ * const [a, b] = await Promise.all([users.load(1), users.load(2)]); // one query
+ */
+export class DataLoader<K, V> {
+  private cache = new Map<unknown, Promise<V>>();
+  private batch: Batch<K, V> | null = null;
+
+  constructor(private batchFn: BatchLoadFn<K, V>, private options: DataLoaderOptions<K> = {}) {}
+
+  /**
+   * Load one key, batched with the other loads of the current tick
+   */
+  load(key: K): Promise<V> {
+    const cacheKey = this.options.cacheKey ? this.options.cacheKey(key) : key;
+    if (this.options.cache !== false) {
+      const cached = this.cache.get(cacheKey);
+      if (cached) return cached;
+    }
+
+    const batch = this.currentBatch();
+    batch.keys.push(key);
+    const promise = new Promise<V>((resolve, reject) => {
+      batch.callbacks.push({ resolve, reject });
+    });
+
+    if (this.options.cache !== false) this.cache.set(cacheKey, promise);
+    return promise;
+  }
+
+  /**
+   * Load several keys; failed keys resolve to their Error instead of rejecting
+   */
+  loadMany(keys: readonly K[]): Promise<(V | Error)[]> {
+    return Promise.all(keys.map(key => this.load(key).catch((error: Error) => error)));
+  }
+
+  /**
+   * Seed the cache with a known value
+   */
+  prime(key: K, value: V): this {
+    const cacheKey = this.options.cacheKey ? this.options.cacheKey(key) : key;
+    if (!this.cache.has(cacheKey)) this.cache.set(cacheKey, Promise.resolve(value));
+    return this;
+  }
+
+  clear(key: K): this {
+    this.cache.delete(this.options.cacheKey ? this.options.cacheKey(key) : key);
+    return this;
+  }
+
+  clearAll(): this {
+    this.cache.clear();
+    return this;
+  }
+
+  private currentBatch(): Batch<K, V> {
+    const max = this.options.maxBatchSize ?? Infinity;
+    if (this.batch && this.batch.keys.length < max) return this.batch;
+
+    const batch: Batch<K, V> = { keys: [], callbacks: [] };
+    this.batch = batch;
+    // Wait for the promise jobs queued by sibling resolvers before dispatching
+    Promise.resolve().then(() => process.nextTick(() => this.dispatch(batch)));
+    return batch;
+  }
+
+  private async dispatch(batch: Batch<K, V>): Promise<void> {
+    if (this.batch === batch) this.batch = null;
+
+    let values: ReadonlyArray<V | Error>;
+    try {
+      values = await this.batchFn(batch.keys);
+      if (!Array.isArray(values) || values.length !== batch.keys.length) {
+        throw new TypeError(
+          `DataLoader batch function must return an array of ${batch.keys.length} values, got ${Array.isArray(values) ? values.length : typeof values}`
+        );
+      }
+    } catch (error) {
+      // Don't cache failures so a later load can retry
+      batch.keys.forEach((key, i) => {
+        this.clear(key);
+        batch.callbacks[i].reject(error);
+      });
+      return;
+    }
+
+    batch.callbacks.forEach((callback, i) => {
+      const value = values[i];
+      if (value instanceof Error) {
+        this.clear(batch.keys[i]);
+        callback.reject(value);
+      } else {
+        callback.resolve(value as V);
+      }
+    });
+  }
+}
+
+// ============================================
+// Loader Registry
+// ============================================
+
+/**
+ * Request-scoped set of loaders. The GraphQL adapter puts a fresh registry on
+ * `context.loaders` for every request, so cached rows never leak between users.
+ *
+ * @example
+ * @ResolveField({ type: User })
+ * author(post: Post, args: any, { loaders }: { loaders: DataLoaderRegistry }) {
+ *   return loaders.model(User).load(post.user_id);
+ * }
+ */
+export class DataLoaderRegistry {
+  private loaders = new Map<string, DataLoader<any, any>>();
+  private modelLoaders = new Map<Function, Map<string, DataLoader<any, any>>>();
+
+  /**
+   * Get (or create) a named loader
+   */
+  get<K, V>(name: string, batchFn: BatchLoadFn<K, V>, options?: DataLoaderOptions<K>): DataLoader<K, V> {
+    let loader = this.loaders.get(name);
+    if (!loader) {
+      loader = new DataLoader(batchFn, options);
+      this.loaders.set(name, loader);
+    }
+    return loader;
+  }
+
+  /**
+   * Load one model per key with a single `whereIn(key, keys)` query.
+   * Keys without a row resolve to null.
+   */
+  model<T extends Model>(model: ModelClass<T>, key: string = 'id'): DataLoader<unknown, T | null> {
+    return this.forModel(model, key, async (keys) => {
+      const rows = await model.query().whereIn(key, [...keys]).get();
+      const byKey = new Map<string, T>();
+      for (const row of rows) {
+        const value = String((row as any)[key]);
+        if (!byKey.has(value)) byKey.set(value, row);
+      }
+      return keys.map(k => byKey.get(String(k)) ?? null);
+    });
+  }
+
+  /**
+   * Load every model whose `foreignKey` matches each key (one-to-many) with a
+   * single `whereIn(foreignKey, keys)` query.
+   */
+  modelMany<T extends Model>(model: ModelClass<T>, foreignKey: string): DataLoader<unknown, T[]> {
+    return this.forModel(model, `${foreignKey}[]`, async (keys) => {
+      const rows = await model.query().whereIn(foreignKey, [...keys]).get();
+      const byKey = new Map<string, T[]>();
+      for (const row of rows) {
+        const value = String((row as any)[foreignKey]);
+        const group = byKey.get(value) ?? [];
+        group.push(row);
+        byKey.set(value, group);
+      }
+      return keys.map(k => byKey.get(String(k)) ?? []);
+    });
+  }
+
+  /**
+   * Clear the cache of every loader, e.g. after a mutation
+   */
+  clearAll(): void {
+    for (const loader of this.loaders.values()) loader.clearAll();
+    for (const loaders of this.modelLoaders.values()) {
+      for (const loader of loaders.values()) loader.clearAll();
+    }
+  }
+
+  private forModel<V>(model: Function, name: string, batchFn: BatchLoadFn<unknown, V>): DataLoader<unknown, V> {
+    let loaders = this.modelLoaders.get(model);
+    if (!loaders) {
+      loaders = new Map();
+      this.modelLoaders.set(model, loaders);
+    }
+    let loader = loaders.get(name);
+    if (!loader) {
+      // Ids arrive as numbers from rows and strings from ID arguments
+      loader = new DataLoader(batchFn, { cacheKey: (key) => String(key) });
+      loaders.set(name, loader);
+    }
+    return loader;
+  }
+}
+
+// ============================================
+// Factory Functions
+// ============================================
+
+export function createLoaders(): DataLoaderRegistry {
+  return new DataLoaderRegistry();
+}
+
+export default DataLoader;
@@ -4,6 +4,10 @@
  */
 // @ts-nocheck
 import type { CanxRequest, CanxResponse, MiddlewareHandler, NextFunction } from '../types';
+import { createLoaders } from './DataLoader';
+import { QueryComplexityError, type QueryLimiter } from './Complexity';
+import { createGraphQLWsServer, type GraphQLWsOptions } from './Subscriptions';
+import type { WebSocketServer } from '../realtime/WebSocket';
 
 // ============================================
 // Types
@@ -18,6 +22,8 @@ export interface GraphQLOptions {
   path?: string;
   driver?: 'apollo' | 'yoga' | 'custom';
   driverConfig?: any;
+  /** Rejects queries over their depth/cost limits, e.g. `builder.getQueryLimiter()` */
+  queryLimiter?: QueryLimiter;
 }
 
 // ============================================
@@ -69,6 +75,19 @@ export class GraphQLAdapter {
     return this.handler;
   }
 
+  /**
+   * WebSocketServer serving this schema's subscriptions over graphql-transport-ws
+   * on the same path; pass it to `createApp({ websocket })`
+   */
+  subscriptionServer(options: Omit<GraphQLWsOptions, 'schema'> = {}): WebSocketServer {
+    return createGraphQLWsServer({
+      schema: this.options.schema,
+      path: this.options.path,
+      queryLimiter: this.options.queryLimiter,
+      ...options,
+    });
+  }
+
   /**
    * Create Custom Handler (Simple Implementation)
    */
@@ -76,18 +95,21 @@ export class GraphQLAdapter {
     // This is a minimal implementation for validation if no external lib is present
     this.handler = async (req: CanxRequest, res: CanxResponse, next: NextFunction) => {
       try {
-        const { graphql } = await import('graphql');
+        const { graphql, parse } = await import('graphql');
         
         let query: string | undefined;
         let variables: Record<string, any> | undefined;
+        let operationName: string | undefined;
 
         if (req.method === 'GET') {
           query = (req as any).query?.query;
           variables = (req as any).query?.variables ? JSON.parse((req as any).query.variables) : undefined;
+          operationName = (req as any).query?.operationName;
         } else {
           const body = await req.json();
           query = body.query;
           variables = body.variables;
+          operationName = body.operationName;
         }
 
         if (!query) {
@@ -97,15 +119,39 @@ export class GraphQLAdapter {
           return res.status(400).json({ error: 'Missing query' });
         }
 
+        if (this.options.queryLimiter) {
+          let document: any = null;
+          try {
+            document = parse(query);
+          } catch {
+            // Syntax errors are reported by graphql() below
+          }
+          if (document) {
+            try {
+              this.options.queryLimiter(document, variables, operationName);
+            } catch (error) {
+              if (error instanceof QueryComplexityError) {
+                return res.status(400).json({ errors: [{ message: error.message, extensions: error.extensions }] });
+              }
+              throw error;
+            }
+          }
+        }
+
         const context = this.options.context 
           ? await this.options.context({ req, res }) 
           : { req, res };
+        // Fresh loaders per request so batched rows are never shared between requests
+        if (context && typeof context === 'object' && !context.loaders) {
+          context.loaders = createLoaders();
+        }
 
         const result = await graphql({
           schema: this.options.schema,
           source: query,
           variableValues: variables,
           contextValue: context,
+          operationName,
           rootValue: this.options.resolvers,
         });
 
@@ -0,0 +1,323 @@
+/**
+ * CanxJS GraphQL Subscriptions
+ * The `graphql-transport-ws` protocol served from a WebSocketServer
+ */
+
+import type { ServerWebSocket } from 'bun';
+import { WebSocketServer, type WebSocketData } from '../realtime/WebSocket';
+import { createLoaders } from './DataLoader';
+import type { QueryLimiter } from './Complexity';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export const GRAPHQL_TRANSPORT_WS_PROTOCOL = 'graphql-transport-ws';
+
+/**
+ * Close codes defined by the graphql-transport-ws protocol
+ */
+export enum GraphQLWsCloseCode {
+  BadRequest = 4400,
+  Unauthorized = 4401,
+  Forbidden = 4403,
+  ConnectionInitTimeout = 4408,
+  SubscriberAlreadyExists = 4409,
+  TooManyInitRequests = 4429,
+}
+
+export interface GraphQLWsConnection {
+  socket: ServerWebSocket<WebSocketData>;
+  /** Payload of the client's `connection_init` message */
+  connectionParams: Record<string, unknown>;
+  /** What `onConnect` returned, e.g. the authenticated user */
+  extra: Record<string, unknown>;
+}
+
+export interface GraphQLWsOptions {
+  /** Executable schema, e.g. from `builder.build()` */
+  schema: any;
+  /** Endpoint path (default '/graphql') */
+  path?: string;
+  /**
+   * Authenticate `connection_init`. Return false (or throw) to close with
+   * 4403 Forbidden; a returned object becomes `connection.extra`.
+   */
+  onConnect?: (connection: Omit<GraphQLWsConnection, 'extra'>) =>
+    boolean | void | Record<string, unknown> | Promise<boolean | void | Record<string, unknown>>;
+  onDisconnect?: (connection: GraphQLWsConnection) => void | Promise<void>;
+  /** Context for each operation (default: `{ ...extra, connectionParams, socket }`) */
+  context?: (connection: GraphQLWsConnection) => any | Promise<any>;
+  /** Rejects operations over their depth/cost limits, e.g. `builder.getQueryLimiter()` */
+  queryLimiter?: QueryLimiter;
+  /** Close connections that don't send `connection_init` within this many ms (default 3000) */
+  connectionInitWaitTimeout?: number;
+}
+
+interface ConnectionState extends GraphQLWsConnection {
+  initReceived: boolean;
+  acknowledged: boolean;
+  initTimer?: ReturnType<typeof setTimeout>;
+  /** Active operations; null while one is still being set up */
+  operations: Map<string, AsyncIterator<any> | null>;
+}
+
+// ============================================
+// Subscription Server
+// ============================================
+
+/**
+ * Speaks `graphql-transport-ws` on the sockets of a WebSocketServer: queries
+ * and mutations answer once, subscriptions stream `next` messages until the
+ * client or the source completes.
+ *
+ * @example
+ * const websocket = createGraphQLWsServer({
+ *   schema: await builder.build(),
+ *   onConnect: async ({ connectionParams }) => ({ user: await verify(connectionParams.token) }),
+ * });
+ * const app = createApp({ websocket });
+ */
+export class GraphQLWsServer {
+  private connections = new Map<string, ConnectionState>();
+
+  constructor(private options: GraphQLWsOptions) {}
+
+  /**
+   * Handle the graphql-transport-ws protocol on an existing WebSocketServer
+   */
+  attach(server: WebSocketServer): WebSocketServer {
+    server.onOpen(socket => this.open(socket));
+    server.on('message', (socket, message) => this.message(socket, message));
+    server.onClose(socket => this.close(socket));
+    return server;
+  }
+
+  /**
+   * Number of open connections
+   */
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  private open(socket: ServerWebSocket<WebSocketData>): void {
+    const state: ConnectionState = {
+      socket,
+      connectionParams: {},
+      extra: {},
+      initReceived: false,
+      acknowledged: false,
+      operations: new Map(),
+    };
+
+    state.initTimer = setTimeout(() => {
+      if (!state.initReceived) {
+        socket.close(GraphQLWsCloseCode.ConnectionInitTimeout, 'Connection initialisation timeout');
+      }
+    }, this.options.connectionInitWaitTimeout ?? 3000);
+
+    this.connections.set(socket.data.id, state);
+  }
+
+  private async close(socket: ServerWebSocket<WebSocketData>): Promise<void> {
+    const state = this.connections.get(socket.data.id);
+    if (!state) return;
+    this.connections.delete(socket.data.id);
+    clearTimeout(state.initTimer);
+
+    const operations = [...state.operations.values()];
+    state.operations.clear();
+    for (const iterator of operations) {
+      await iterator?.return?.();
+    }
+
+    if (state.acknowledged) {
+      await this.options.onDisconnect?.(state);
+    }
+  }
+
+  private async message(socket: ServerWebSocket<WebSocketData>, raw: string | Buffer): Promise<void> {
+    const state = this.connections.get(socket.data.id);
+    if (!state) return;
+
+    let message: any;
+    try {
+      message = JSON.parse(typeof raw === 'string' ? raw : raw.toString());
+    } catch {
+      message = null;
+    }
+    if (!message || typeof message.type !== 'string') {
+      socket.close(GraphQLWsCloseCode.BadRequest, 'Invalid message received');
+      return;
+    }
+
+    switch (message.type) {
+      case 'connection_init':
+        return this.init(state, message.payload);
+      case 'ping':
+        socket.send(JSON.stringify(message.payload === undefined ? { type: 'pong' } : { type: 'pong', payload: message.payload }));
+        return;
+      case 'pong':
+        return;
+      case 'subscribe':
+        return this.subscribe(state, message);
+      case 'complete':
+        return this.complete(state, message.id);
+      default:
+        socket.close(GraphQLWsCloseCode.BadRequest, `Invalid message received: unknown type "${message.type}"`);
+    }
+  }
+
+  private async init(state: ConnectionState, payload: unknown): Promise<void> {
+    if (state.initReceived) {
+      state.socket.close(GraphQLWsCloseCode.TooManyInitRequests, 'Too many initialisation requests');
+      return;
+    }
+    state.initReceived = true;
+    clearTimeout(state.initTimer);
+    state.connectionParams = payload && typeof payload === 'object' ? payload as Record<string, unknown> : {};
+
+    try {
+      const result = await this.options.onConnect?.({ socket: state.socket, connectionParams: state.connectionParams });
+      if (result === false) {
+        state.socket.close(GraphQLWsCloseCode.Forbidden, 'Forbidden');
+        return;
+      }
+      if (result && typeof result === 'object') state.extra = result;
+    } catch (error) {
+      state.socket.close(GraphQLWsCloseCode.Forbidden, error instanceof Error ? error.message : 'Forbidden');
+      return;
+    }
+
+    state.acknowledged = true;
+    state.socket.send(JSON.stringify({ type: 'connection_ack' }));
+  }
+
+  private async subscribe(state: ConnectionState, message: any): Promise<void> {
+    const { socket, operations } = state;
+    if (!state.acknowledged) {
+      socket.close(GraphQLWsCloseCode.Unauthorized, 'Unauthorized');
+      return;
+    }
+
+    const id = message.id;
+    const payload = message.payload;
+    if (typeof id !== 'string' || !id || typeof payload?.query !== 'string') {
+      socket.close(GraphQLWsCloseCode.BadRequest, 'Invalid message received');
+      return;
+    }
+    if (operations.has(id)) {
+      socket.close(GraphQLWsCloseCode.SubscriberAlreadyExists, `Subscriber for ${id} already exists`);
+      return;
+    }
+    operations.set(id, null);
+
+    const { parse, validate, execute, subscribe, getOperationAST } = await import('graphql');
+    const { schema, queryLimiter } = this.options;
+    const { variables, operationName } = payload;
+
+    let document: any;
+    try {
+      document = parse(payload.query);
+    } catch (error) {
+      return this.error(state, id, [error]);
+    }
+
+    const validationErrors = validate(schema, document);
+    if (validationErrors.length > 0) {
+      return this.error(state, id, validationErrors);
+    }
+
+    const operation = getOperationAST(document, operationName);
+    if (!operation) {
+      return this.error(state, id, [new Error('Unable to identify the operation to execute')]);
+    }
+
+    try {
+      // A QueryComplexityError reaches the client with its extensions
+      queryLimiter?.(document, variables, operationName);
+
+      const contextValue = this.options.context
+        ? await this.options.context(state)
+        : { ...state.extra, connectionParams: state.connectionParams, socket };
+      if (contextValue && typeof contextValue === 'object' && !contextValue.loaders) {
+        contextValue.loaders = createLoaders();
+      }
+      const args = { schema, document, variableValues: variables, operationName, contextValue };
+
+      if (operation.operation !== 'subscription') {
+        const result = await execute(args);
+        if (operations.has(id)) this.send(state, { id, type: 'next', payload: result });
+      } else {
+        const result = await subscribe(args);
+        if (!isAsyncIterable(result)) {
+          return this.error(state, id, result.errors ?? []);
+        }
+
+        // The client completed the operation while it was being set up
+        if (!operations.has(id)) {
+          await result.return?.();
+          return;
+        }
+        operations.set(id, result);
+
+        for await (const value of result) {
+          if (operations.get(id) !== result) break;
+          this.send(state, { id, type: 'next', payload: value });
+          // Each event resolves against fresh data
+          contextValue?.loaders?.clearAll?.();
+        }
+      }
+    } catch (error) {
+      return this.error(state, id, [error]);
+    }
+
+    if (operations.has(id)) {
+      operations.delete(id);
+      this.send(state, { id, type: 'complete' });
+    }
+  }
+
+  private async complete(state: ConnectionState, id: string): Promise<void> {
+    const iterator = state.operations.get(id);
+    state.operations.delete(id);
+    await iterator?.return?.();
+  }
+
+  private error(state: ConnectionState, id: string, errors: readonly any[]): void {
+    if (!state.operations.has(id)) return;
+    state.operations.delete(id);
+    this.send(state, {
+      id,
+      type: 'error',
+      payload: errors.map(e => (typeof e?.toJSON === 'function' ? e.toJSON() : { message: e?.message ?? String(e), extensions: e?.extensions })),
+    });
+  }
+
+  private send(state: ConnectionState, message: Record<string, unknown>): void {
+    if (this.connections.get(state.socket.data.id) !== state) return;
+    state.socket.send(JSON.stringify(message));
+  }
+}
+
+function isAsyncIterable(value: any): value is AsyncIterableIterator<any> {
+  return value != null && typeof value[Symbol.asyncIterator] === 'function';
+}
+
+// ============================================
+// Factory Functions
+// ============================================
+
+/**
+ * Create a WebSocketServer that serves GraphQL subscriptions; pass it to
+ * `createApp({ websocket })`
+ */
+export function createGraphQLWsServer(options: GraphQLWsOptions): WebSocketServer {
+  const server = new WebSocketServer({
+    path: options.path ?? '/graphql',
+    protocols: [GRAPHQL_TRANSPORT_WS_PROTOCOL],
+  });
+  return new GraphQLWsServer(options).attach(server);
+}
+
+export default GraphQLWsServer;
@@ -35,7 +35,10 @@ export {
   
   // PubSub
   InMemoryPubSub,
+  RedisPubSub,
   createPubSub,
+  createRedisPubSub,
+  withFilter,
   
   // Utilities
   getTypeMetadata,
@@ -51,6 +54,23 @@ export type {
   PubSubEngine,
 } from './CodeFirst';
 
+// DataLoader
+export { DataLoader, DataLoaderRegistry, createLoaders } from './DataLoader';
+export type { BatchLoadFn, DataLoaderOptions } from './DataLoader';
+
+// Query Complexity
+export { QueryComplexityError, analyzeQuery, createQueryLimiter } from './Complexity';
+export type { FieldComplexity, QueryLimits, QueryCost, ComplexityMap, QueryLimiter } from './Complexity';
+
+// Subscriptions (graphql-transport-ws)
+export {
+  GraphQLWsServer,
+  GraphQLWsCloseCode,
+  GRAPHQL_TRANSPORT_WS_PROTOCOL,
+  createGraphQLWsServer,
+} from './Subscriptions';
+export type { GraphQLWsOptions, GraphQLWsConnection } from './Subscriptions';
+
 // Schema-First
 export {
   SchemaFirstHandler,
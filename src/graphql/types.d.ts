@@ -8,6 +8,7 @@ declare module 'graphql' {
   export function execute(args: any): Promise<any>;
   export function subscribe(args: any): Promise<any>;
   export function validate(schema: any, document: any): any[];
+  export function getOperationAST(document: any, operationName?: string): any;
   export function graphql(args: any): Promise<any>;
   export class GraphQLError extends Error {}
 }
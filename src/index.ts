@@ -10,12 +10,15 @@
 
 export { Server, Server as CanxServer } from './core/Server';
 export { Router } from './core/Router';
+export type { CompiledRoute, CompiledRouteTable } from './core/Router';
+export { resolveClient, compileTrust } from './core/TrustedProxy';
+export type { ClientInfo } from './core/TrustedProxy';
 
 export { Canx, createApp, defineConfig, createApplication, Application } from './Application';
 export { Action } from './core/Action';
 export type { ServerConfig } from './types';
 export { ErrorHandler } from './core/ErrorHandler';
-export type { CanxRequest, CanxResponse, HttpMethod, CanxApplication, CastType, NextFunction, DatabaseConfig, RouterInstance, MiddlewareHandler, RouteHandler, QueryBuilder, Paginated } from './types';
+export type { CanxRequest, CanxResponse, HttpMethod, CanxApplication, CastType, NextFunction, DatabaseConfig, DatabaseConnectionConfig, RouterInstance, MiddlewareHandler, RouteHandler, QueryBuilder, Paginated } from './types';
 // ============================================
 // Middleware Exports
 // ============================================
@@ -53,7 +56,8 @@ export {
   getControllerMeta,
   wrapWithParamResolution,
 } from './mvc/Controller';
-export { Model, QueryBuilderImpl, initDatabase, closeDatabase, query, execute, transaction, beginTransaction, commit, rollBack, DB, flushQueryCache, getCurrentDriver } from './mvc/Model';
+export { Model, QueryBuilderImpl, registerModel, initDatabase, closeDatabase, query, execute, transaction, beginTransaction, commit, rollBack, DB, flushQueryCache, getCurrentDriver, getConnectionNames, pretend, isDuplicateKeyError } from './mvc/Model';
+export type { DatabaseConnection } from './mvc/Model';
 export { jsx, jsxs, Fragment, html, render, renderPage, createLayout, View, view, viewExists } from './mvc/View';
 
 // Model Observers
@@ -123,12 +127,15 @@ export { hotWire, createHotWire } from './features/HotWire';
 export { autoCache, autoCacheMiddleware, createAutoCache } from './features/AutoCache';
 export { RequestBatcher, createBatcher } from './features/RequestBatcher';
 export { jitCompiler, createJITCompiler, JITCompiler } from './features/JITCompiler';
-export { scheduler, createScheduler, Scheduler } from './features/Scheduler';
+export { scheduler, createScheduler, Scheduler, MemoryLockStore, RedisLockStore, DatabaseLockStore } from './features/Scheduler';
+export type { SchedulerOptions, SchedulerLockStore, TaskRun, ScheduledTaskInfo } from './features/Scheduler';
 export { payment, PaymentManager } from './payment/PaymentManager';
 
 // Queue & Jobs
-export { queue, createQueue, Queue, MemoryDriver as QueueMemoryDriver, RedisDriver as QueueRedisDriver, SyncDriver as QueueSyncDriver, DatabaseDriver as QueueDatabaseDriver } from './queue/Queue';
-export type { QueueConfig, QueueDriver, Job } from './queue/Queue';
+export { queue, createQueue, Queue, JobTimeoutError, MemoryDriver as QueueMemoryDriver, RedisDriver as QueueRedisDriver, SyncDriver as QueueSyncDriver, DatabaseDriver as QueueDatabaseDriver } from './queue/Queue';
+export type { QueueConfig, QueueDriver, Job, JobPayload, JobHandler, JobContext, DispatchOptions, DefineOptions, WorkerOptions } from './queue/Queue';
+export { JobPipeline, RateLimited, WithoutOverlapping, ThrottlesExceptions, SkipIfBatchCancelled } from './queue/JobMiddleware';
+export type { JobMiddleware, JobNext, JobMiddlewareKey, WithoutOverlappingOptions, ThrottlesExceptionsOptions } from './queue/JobMiddleware';
 export {
   chain,
   chainJobs,
@@ -348,6 +355,8 @@ export type {
 // NOTE: Microservices, CQRS, and GraphQL have been moved to their own entry points (e.g. 'canxjs/microservices').
 
 export { Schema, TableBuilder, migrator, defineMigration } from './database/Migration';
+export type { Migration, MigrationStatus, MigrateOptions, RollbackOptions } from './database/Migration';
+export { dumpSchema, writeSchemaDump, loadSchemaDump, schemaDumpPath } from './database/SchemaDump';
 export { seeder, fake, factory as seederFactory, defineSeeder } from './database/Seeder';
 
 // ============================================
@@ -382,14 +391,25 @@ export { events, createEventEmitter, EventEmitter, Listen, getEventListeners, Ev
 // ============================================
 // Notifications Exports
 // ============================================
-export { initMail, mail, sendMail, Mailer, MailBuilder } from './notifications/Mail';
+export { initMail, mail, sendMail, Mailer, MailBuilder, SEND_MAIL_JOB, createMailTransport } from './notifications/Mail';
+export { Mailable, mailPreviewRoutes } from './notifications/Mailable';
+export { renderMarkdownMail, loadMarkdownView, mailComponent, inlineCss, htmlToText, DEFAULT_MAIL_THEME } from './notifications/mail/Markdown';
 export { SmtpDriver } from './notifications/mail/drivers/SmtpDriver';
 export { ArrayDriver as ArrayMailDriver } from './notifications/mail/drivers/ArrayDriver';
 export { MailgunDriver } from './notifications/mail/drivers/MailgunDriver';
 export { SesDriver } from './notifications/mail/drivers/SesDriver';
-export { notifications, notify, notifyMany, Notification, makeNotifiable } from './notifications/Notification';
-export type { MailMessage, MailConfig, MailAddress, MailAttachment } from './notifications/Mail';
-export type { Notifiable, NotificationChannel } from './notifications/Notification';
+export { FailoverDriver } from './notifications/mail/drivers/FailoverDriver';
+export { RoundRobinDriver } from './notifications/mail/drivers/RoundRobinDriver';
+export { signDkim } from './notifications/mail/Dkim';
+export { notifications, notify, notifyMany, Notification, makeNotifiable, SEND_NOTIFICATION_JOB } from './notifications/Notification';
+export { DatabaseNotification } from './notifications/DatabaseNotification';
+export { SqlNotificationPreferences, MemoryNotificationPreferences } from './notifications/NotificationPreferences';
+export type { MailMessage, MailConfig, MailAddress, MailAttachment, MailSendResult } from './notifications/Mail';
+export type { DkimOptions } from './notifications/mail/types';
+export type { MailPreviewOptions } from './notifications/Mailable';
+export type { MarkdownMailOptions, MarkdownLayoutContext, MarkdownComponent, RenderedMail } from './notifications/mail/Markdown';
+export type { Notifiable, NotificationChannel, NotificationChannelDriver, ShouldQueue } from './notifications/Notification';
+export type { NotificationPreference, NotificationPreferenceStore } from './notifications/NotificationPreferences';
 export { 
   sms, 
   initSms, 
@@ -658,6 +678,10 @@ export type {
   EventBusDriver,
 } from './microservices/EventBus';
 
+// Transactional Outbox / Inbox
+export { SqlOutbox, OutboxRelay, SqlInbox, MemoryInbox } from './microservices/Outbox';
+export type { OutboxStore, OutboxMessage, OutboxRelayOptions, InboxStore } from './microservices/Outbox';
+
 // Service Registry
 export {
   ServiceRegistry,
@@ -674,6 +698,10 @@ export type {
   ServiceRegistryDriver,
 } from './microservices/ServiceRegistry';
 
+// Service Client
+export { ServiceClient, serviceClient } from './microservices/ServiceClient';
+export type { ServiceClientOptions, ServiceRequestOptions } from './microservices/ServiceClient';
+
 // ============================================
 // Enterprise Features (Phase 4 - Observability)
 // ============================================
@@ -779,13 +807,16 @@ export {
   WorkflowEngine,
   WorkflowContext,
   MemoryWorkflowStorage,
+  SqlWorkflowStorage,
   workflow,
 } from './flow/Workflow';
 export type {
   WorkflowState,
   WorkflowEvent,
+  WorkflowSignal,
   WorkflowStorage,
   WorkflowStatus,
+  StepOptions,
 } from './flow/Workflow';
 
 // ============================================
@@ -851,6 +882,8 @@ export { BadRequestException } from './core/exceptions/BadRequestException';
 export { ConflictException } from './core/exceptions/ConflictException';
 export { TooManyRequestsException } from './core/exceptions/TooManyRequestsException';
 export { ServiceUnavailableException } from './core/exceptions/ServiceUnavailableException';
+export { PayloadTooLargeException } from './core/exceptions/PayloadTooLargeException';
+export { RequestTimeoutException } from './core/exceptions/RequestTimeoutException';
 export { InternalServerException } from './core/exceptions/InternalServerException';
 export {
   CanxError,
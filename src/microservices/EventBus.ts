@@ -3,6 +3,8 @@
  * @description Distributed event bus with Redis/RabbitMQ support for microservices
  */
 
+import { OutboxRelay, type OutboxStore, type InboxStore, type OutboxRelayOptions } from './Outbox';
+
 export type EventHandler<T = unknown> = (event: EventMessage<T>) => Promise<void> | void;
 
 export interface EventMessage<T = unknown> {
@@ -26,6 +28,10 @@ export interface EventBusConfig {
   maxRetries?: number;
   /** Retry delay in ms */
   retryDelay?: number;
+  /** Write published events to this outbox instead of sending them directly */
+  outbox?: OutboxStore;
+  /** Skip events this service already processed (deduplicated by message id) */
+  inbox?: InboxStore;
 }
 
 export interface EventBusDriver {
@@ -134,8 +140,10 @@ export class RedisEventBusDriver implements EventBusDriver {
  * Enterprise Event Bus
  */
 export class EventBus {
-  private config: Required<EventBusConfig>;
+  private config: Required<Omit<EventBusConfig, 'outbox' | 'inbox'>>;
   private driver: EventBusDriver;
+  private outbox?: OutboxStore;
+  private inbox?: InboxStore;
   private unsubscribers = new Map<string, () => void>();
 
   constructor(driver: EventBusDriver, config: EventBusConfig = {}) {
@@ -147,10 +155,13 @@ export class EventBus {
       maxRetries: config.maxRetries ?? 3,
       retryDelay: config.retryDelay ?? 1000,
     };
+    this.outbox = config.outbox;
+    this.inbox = config.inbox;
   }
 
   /**
-   * Publish an event
+   * Publish an event. With an outbox configured the event is stored instead
+   * (inside the active `transaction()`, if any) and delivered by the relay.
    */
   async publish<T>(eventType: string, payload: T, options?: {
     correlationId?: string;
@@ -167,23 +178,39 @@ export class EventBus {
     };
 
     const channel = this.getChannel(eventType);
-    await this.driver.publish(channel, event);
+    if (this.outbox) {
+      await this.outbox.add(channel, event);
+    } else {
+      await this.driver.publish(channel, event);
+    }
 
     return event.id;
   }
 
   /**
-   * Subscribe to an event type
+   * Subscribe to an event type. With an inbox configured, `consumer` names
+   * the handler, so each handler of an event is deduplicated on its own.
    */
   async subscribe<T>(
     eventType: string,
-    handler: (payload: T, event: EventMessage<T>) => Promise<void> | void
+    handler: (payload: T, event: EventMessage<T>) => Promise<void> | void,
+    options: { consumer?: string } = {}
   ): Promise<void> {
+    if (this.inbox && !options.consumer) {
+      throw new Error(`Subscribing to ${eventType} with an inbox needs a consumer name, e.g. { consumer: 'send-welcome-mail' }`);
+    }
     const channel = this.getChannel(eventType);
-    
+    const consumer = `${this.config.serviceName}:${options.consumer}`;
+
     const wrappedHandler: EventHandler<T> = async (event) => {
       try {
-        await handler(event.payload, event);
+        if (this.inbox) {
+          await this.inbox.process(consumer, event.id, async () => {
+            await handler(event.payload, event);
+          });
+        } else {
+          await handler(event.payload, event);
+        }
       } catch (error) {
         console.error(`[EventBus] Error handling ${eventType}:`, error);
         
@@ -202,10 +229,11 @@ export class EventBus {
    */
   async subscribeMultiple<T>(
     eventTypes: string[],
-    handler: (payload: T, event: EventMessage<T>) => Promise<void> | void
+    handler: (payload: T, event: EventMessage<T>) => Promise<void> | void,
+    options: { consumer?: string } = {}
   ): Promise<void> {
     for (const eventType of eventTypes) {
-      await this.subscribe(eventType, handler);
+      await this.subscribe(eventType, handler, options);
     }
   }
 
@@ -285,6 +313,20 @@ export class EventBus {
     });
   }
 
+  /**
+   * Create a relay that delivers this bus's outbox through its driver
+   */
+  relay(options?: OutboxRelayOptions): OutboxRelay {
+    if (!this.outbox) {
+      throw new Error('EventBus has no outbox configured');
+    }
+    return new OutboxRelay(this.outbox, this.driver, {
+      maxRetries: this.config.maxRetries,
+      retryDelay: this.config.retryDelay,
+      ...options,
+    });
+  }
+
   /**
    * Get channel name
    */
@@ -330,7 +372,9 @@ export async function registerEventHandlers(eventBus: EventBus, handlers: object
     for (const [eventType, methods] of eventHandlers) {
       for (const { target, method } of methods) {
         if (handler.constructor === target.constructor) {
-          await eventBus.subscribe(eventType, (handler as any)[method].bind(handler));
+          await eventBus.subscribe(eventType, (handler as any)[method].bind(handler), {
+            consumer: `${handler.constructor.name}.${method}`,
+          });
         }
       }
     }
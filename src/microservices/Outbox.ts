@@ -0,0 +1,361 @@
+/**
+ * CanxJS Transactional Outbox & Inbox
+ * @description Reliable EventBus publishing: events are written to an outbox table
+ * in the same transaction as the business data and relayed to the broker afterwards;
+ * consumers deduplicate redeliveries through an inbox keyed by message id.
+ */
+
+import type { EventBusDriver, EventMessage } from './EventBus';
+import { query, execute, transaction, isDuplicateKeyError } from '../mvc/Model';
+
+// ============================================
+// Types
+// ============================================
+
+export interface OutboxMessage<T = unknown> {
+  id: string;
+  channel: string;
+  event: EventMessage<T>;
+  /** Failed delivery attempts so far */
+  attempts: number;
+}
+
+export interface OutboxStore {
+  /** Store an event for later delivery (joins the active transaction) */
+  add<T>(channel: string, event: EventMessage<T>): Promise<void>;
+  /** Lease up to `limit` due messages so other relays skip them for `leaseMs` */
+  claim(limit: number, leaseMs: number): Promise<OutboxMessage[]>;
+  /** The message was delivered */
+  complete(id: string): Promise<void>;
+  /** Delivery failed: retry at `retryAt`, or give up when it is null */
+  fail(id: string, error: string, retryAt: number | null): Promise<void>;
+}
+
+export interface InboxStore {
+  /**
+   * Run `handler` unless `messageId` was already processed by `consumer`.
+   * Resolves false for duplicates.
+   */
+  process(consumer: string, messageId: string, handler: () => Promise<void>): Promise<boolean>;
+}
+
+export interface OutboxRelayOptions {
+  /** Messages claimed per pass (default 100) */
+  batchSize?: number;
+  /** Delay between passes in ms (default 1000) */
+  pollInterval?: number;
+  /** Retries before a message is marked failed (default 3) */
+  maxRetries?: number;
+  /** Base retry delay in ms, doubled per attempt (default 1000) */
+  retryDelay?: number;
+  /** How long a claimed message is hidden from other relays (default 30000) */
+  lease?: number;
+}
+
+// ============================================
+// Outbox (SQL)
+// ============================================
+
+/**
+ * Outbox table on the CanxJS DB layer. `add()` uses the plain `execute()`, so
+ * inside `transaction()` the row commits or rolls back with the business data.
+ *
+ * NOTE: the consumer must have created the table beforehand, e.g.:
+ *
+ *   CREATE TABLE event_outbox (
+ *     id           VARCHAR(64) PRIMARY KEY,
+ *     channel      VARCHAR(255) NOT NULL,
+ *     event        TEXT NOT NULL,
+ *     attempts     INTEGER DEFAULT 0,
+ *     available_at BIGINT NOT NULL,
+ *     failed_at    BIGINT,
+ *     last_error   TEXT,
+ *     created_at   BIGINT NOT NULL
+ *   );
+ *
+ * Delivered rows are deleted; rows that ran out of retries keep `failed_at`
+ * and `last_error` until `retryFailed()` puts them back in line.
+ */
+export class SqlOutbox implements OutboxStore {
+  constructor(private table: string = 'event_outbox', private connection?: string) {}
+
+  async add<T>(channel: string, event: EventMessage<T>): Promise<void> {
+    const now = Date.now();
+    await execute(
+      `INSERT INTO ${this.table} (id, channel, event, attempts, available_at, created_at) VALUES (?, ?, ?, 0, ?, ?)`,
+      [event.id, channel, JSON.stringify(event), now, now],
+      this.connection
+    );
+  }
+
+  async claim(limit: number, leaseMs: number): Promise<OutboxMessage[]> {
+    const now = Date.now();
+    const rows = await query<any>(
+      `SELECT * FROM ${this.table} WHERE failed_at IS NULL AND available_at <= ? ORDER BY created_at ASC LIMIT ${Math.floor(limit)}`,
+      [now],
+      this.connection
+    );
+
+    const claimed: OutboxMessage[] = [];
+    for (const row of rows) {
+      // Compare-and-set on available_at: only one relay wins each row
+      const { affectedRows } = await execute(
+        `UPDATE ${this.table} SET available_at = ? WHERE id = ? AND available_at = ?`,
+        [now + leaseMs, row.id, row.available_at],
+        this.connection
+      );
+      if (affectedRows === 0) continue;
+
+      const event = JSON.parse(row.event) as EventMessage;
+      event.timestamp = new Date(event.timestamp);
+      claimed.push({ id: row.id, channel: row.channel, event, attempts: Number(row.attempts) });
+    }
+    return claimed;
+  }
+
+  async complete(id: string): Promise<void> {
+    await execute(`DELETE FROM ${this.table} WHERE id = ?`, [id], this.connection);
+  }
+
+  async fail(id: string, error: string, retryAt: number | null): Promise<void> {
+    if (retryAt === null) {
+      await execute(
+        `UPDATE ${this.table} SET attempts = attempts + 1, failed_at = ?, last_error = ? WHERE id = ?`,
+        [Date.now(), error, id],
+        this.connection
+      );
+    } else {
+      await execute(
+        `UPDATE ${this.table} SET attempts = attempts + 1, available_at = ?, last_error = ? WHERE id = ?`,
+        [retryAt, error, id],
+        this.connection
+      );
+    }
+  }
+
+  /**
+   * Messages that ran out of retries
+   */
+  async failed(): Promise<Array<OutboxMessage & { error: string; failedAt: Date }>> {
+    const rows = await query<any>(
+      `SELECT * FROM ${this.table} WHERE failed_at IS NOT NULL ORDER BY created_at ASC`,
+      [],
+      this.connection
+    );
+    return rows.map(row => ({
+      id: row.id,
+      channel: row.channel,
+      event: JSON.parse(row.event),
+      attempts: Number(row.attempts),
+      error: row.last_error,
+      failedAt: new Date(Number(row.failed_at)),
+    }));
+  }
+
+  /**
+   * Queue failed messages (or one of them) for delivery again
+   */
+  async retryFailed(id?: string): Promise<number> {
+    const { affectedRows } = await execute(
+      `UPDATE ${this.table} SET attempts = 0, failed_at = NULL, available_at = ? WHERE failed_at IS NOT NULL${id ? ' AND id = ?' : ''}`,
+      id ? [Date.now(), id] : [Date.now()],
+      this.connection
+    );
+    return affectedRows;
+  }
+
+  /**
+   * Number of messages waiting for delivery
+   */
+  async pending(): Promise<number> {
+    const rows = await query<{ count: number }>(
+      `SELECT COUNT(*) as count FROM ${this.table} WHERE failed_at IS NULL`,
+      [],
+      this.connection
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+}
+
+// ============================================
+// Outbox Relay
+// ============================================
+
+/**
+ * Delivers outbox messages through an EventBusDriver. Failed deliveries are
+ * retried with exponential backoff; several relays may run side by side.
+ *
+ * @example
+ * const relay = new OutboxRelay(new SqlOutbox(), new RedisEventBusDriver(redis));
+ * relay.start();
+ */
+export class OutboxRelay {
+  private options: Required<OutboxRelayOptions>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<number> | null = null;
+  private stopped = true;
+
+  constructor(
+    private outbox: OutboxStore,
+    private driver: EventBusDriver,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.options = {
+      batchSize: options.batchSize ?? 100,
+      pollInterval: options.pollInterval ?? 1000,
+      maxRetries: options.maxRetries ?? 3,
+      retryDelay: options.retryDelay ?? 1000,
+      lease: options.lease ?? 30000,
+    };
+  }
+
+  /**
+   * Deliver the messages that are due now. Returns how many were delivered.
+   */
+  async relay(): Promise<number> {
+    // One pass at a time per relay
+    if (this.running) return this.running;
+
+    this.running = this.deliverBatch().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Poll the outbox until stop()
+   */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    const tick = async () => {
+      try {
+        await this.relay();
+      } catch (error) {
+        console.error('[Outbox] Relay pass failed:', error);
+      }
+      if (!this.stopped) this.timer = setTimeout(tick, this.options.pollInterval);
+    };
+    tick();
+  }
+
+  /**
+   * Stop polling and wait for the current pass
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running?.catch(() => {});
+  }
+
+  private async deliverBatch(): Promise<number> {
+    const messages = await this.outbox.claim(this.options.batchSize, this.options.lease);
+    let delivered = 0;
+
+    for (const message of messages) {
+      try {
+        await this.driver.publish(message.channel, message.event);
+        await this.outbox.complete(message.id);
+        delivered++;
+      } catch (error) {
+        const attempt = message.attempts + 1;
+        const retryAt = attempt > this.options.maxRetries
+          ? null
+          : Date.now() + this.options.retryDelay * 2 ** (attempt - 1);
+        const reason = error instanceof Error ? error.message : String(error);
+
+        if (retryAt === null) {
+          console.error(`[Outbox] Giving up on ${message.event.type} (${message.id}) after ${attempt} attempts:`, reason);
+        }
+        await this.outbox.fail(message.id, reason, retryAt);
+      }
+    }
+
+    return delivered;
+  }
+}
+
+// ============================================
+// Inbox
+// ============================================
+
+// Raised inside the inbox transaction when the message id is already recorded
+class DuplicateMessage extends Error {}
+
+/**
+ * Inbox table on the CanxJS DB layer. The handler runs in the same transaction
+ * as the inbox row, so its database writes and the "processed" mark commit
+ * together; a handler error rolls both back and the message can be redelivered.
+ *
+ * NOTE: the consumer must have created the table beforehand, e.g.:
+ *
+ *   CREATE TABLE event_inbox (
+ *     message_id   VARCHAR(64) NOT NULL,
+ *     consumer     VARCHAR(255) NOT NULL,
+ *     processed_at BIGINT,
+ *     PRIMARY KEY (message_id, consumer)
+ *   );
+ */
+export class SqlInbox implements InboxStore {
+  constructor(private table: string = 'event_inbox', private connection?: string) {}
+
+  async process(consumer: string, messageId: string, handler: () => Promise<void>): Promise<boolean> {
+    try {
+      await transaction(async () => {
+        try {
+          await execute(
+            `INSERT INTO ${this.table} (message_id, consumer, processed_at) VALUES (?, ?, ?)`,
+            [messageId, consumer, Date.now()],
+            this.connection
+          );
+        } catch (e) {
+          if (isDuplicateKeyError(e)) throw new DuplicateMessage();
+          throw e;
+        }
+        await handler();
+      }, this.connection);
+      return true;
+    } catch (e) {
+      if (e instanceof DuplicateMessage) return false;
+      throw e;
+    }
+  }
+
+  /**
+   * Forget processed ids older than `ms` milliseconds
+   */
+  async prune(ms: number): Promise<number> {
+    const { affectedRows } = await execute(
+      `DELETE FROM ${this.table} WHERE processed_at < ?`,
+      [Date.now() - ms],
+      this.connection
+    );
+    return affectedRows;
+  }
+}
+
+/**
+ * In-memory inbox (for development/single instance)
+ */
+export class MemoryInbox implements InboxStore {
+  private processed = new Set<string>();
+  private inFlight = new Set<string>();
+
+  async process(consumer: string, messageId: string, handler: () => Promise<void>): Promise<boolean> {
+    const key = `${consumer}:${messageId}`;
+    if (this.processed.has(key) || this.inFlight.has(key)) return false;
+
+    this.inFlight.add(key);
+    try {
+      await handler();
+      this.processed.add(key);
+      return true;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * CanxJS Service Client - Load-balanced HTTP client for registered services
+ * @description Resolves instances through the ServiceRegistry, picks one with its
+ * LoadBalancer, guards each instance with a CircuitBreaker and retries idempotent
+ * calls on another instance.
+ */
+
+import { ServiceRegistry, serviceRegistry, type ServiceInstance } from './ServiceRegistry';
+import { CircuitBreaker, CircuitBreakerError, type CircuitBreakerConfig } from '../core/CircuitBreaker';
+import { ServiceUnavailableException } from '../core/exceptions/ServiceUnavailableException';
+
+export interface ServiceClientOptions {
+  /** Registry to resolve instances from (default: the global registry) */
+  registry?: ServiceRegistry;
+  /** Scheme used to reach instances without `metadata.protocol` (default 'http') */
+  protocol?: 'http' | 'https';
+  /** Per-attempt timeout in ms (default 10000) */
+  timeout?: number;
+  /** Extra attempts on other instances for idempotent calls (default 2) */
+  retries?: number;
+  /** Response statuses treated as an instance failure (default 502, 503, 504) */
+  retryOn?: number[];
+  /** Per-instance circuit breaker settings, or false to disable */
+  circuitBreaker?: CircuitBreakerConfig | false;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /** fetch implementation (default: global fetch) */
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+export interface ServiceRequestOptions {
+  headers?: Record<string, string>;
+  query?: Record<string, string | number | boolean>;
+  /** Plain objects are sent as JSON */
+  body?: unknown;
+  /** Override the per-attempt timeout */
+  timeout?: number;
+  /** Allow retrying a non-idempotent method (e.g. POST with an idempotency key) */
+  idempotent?: boolean;
+}
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+// Thrown inside the breaker so a bad status counts as a failure; carries the response
+class FailedResponse extends Error {
+  constructor(public readonly response: Response) {
+    super(`Service responded with ${response.status}`);
+  }
+}
+
+/**
+ * Load-balanced HTTP client for one service
+ *
+ * @example
+ * const orders = serviceClient('orders');
+ * const res = await orders.get('/orders/42');
+ */
+export class ServiceClient {
+  private registry?: ServiceRegistry;
+  private options: Required<Omit<ServiceClientOptions, 'registry' | 'circuitBreaker'>> & {
+    circuitBreaker: CircuitBreakerConfig | false;
+  };
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private service: string, options: ServiceClientOptions = {}) {
+    this.registry = options.registry;
+    this.options = {
+      protocol: options.protocol ?? 'http',
+      timeout: options.timeout ?? 10000,
+      retries: options.retries ?? 2,
+      retryOn: options.retryOn ?? [502, 503, 504],
+      circuitBreaker: options.circuitBreaker ?? {},
+      headers: options.headers ?? {},
+      fetch: options.fetch ?? ((url, init) => fetch(url, init)),
+    };
+  }
+
+  get(path: string, options?: ServiceRequestOptions): Promise<Response> {
+    return this.request('GET', path, options);
+  }
+
+  post(path: string, body?: unknown, options?: ServiceRequestOptions): Promise<Response> {
+    return this.request('POST', path, { ...options, body });
+  }
+
+  put(path: string, body?: unknown, options?: ServiceRequestOptions): Promise<Response> {
+    return this.request('PUT', path, { ...options, body });
+  }
+
+  patch(path: string, body?: unknown, options?: ServiceRequestOptions): Promise<Response> {
+    return this.request('PATCH', path, { ...options, body });
+  }
+
+  delete(path: string, options?: ServiceRequestOptions): Promise<Response> {
+    return this.request('DELETE', path, options);
+  }
+
+  /**
+   * Send a request to one instance of the service. Idempotent calls that fail
+   * with a network error, timeout or a `retryOn` status move on to another
+   * instance; other calls are only moved when their instance's circuit is open.
+   * When every attempt got a `retryOn` status the last response is returned.
+   */
+  async request(method: string, path: string, options: ServiceRequestOptions = {}): Promise<Response> {
+    method = method.toUpperCase();
+    const retryable = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+    const maxAttempts = retryable ? this.options.retries + 1 : 1;
+    const registry = this.registry ?? serviceRegistry();
+    const balancer = registry.getLoadBalancer();
+    const tried = new Set<string>();
+    let attempts = 0;
+    let lastError: unknown;
+
+    while (attempts < maxAttempts) {
+      const instances = await registry.getInstances(this.service);
+      const instance = balancer.select(instances.filter(i => !tried.has(i.id)));
+      if (!instance) break;
+      tried.add(instance.id);
+
+      const breaker = this.breakerFor(instance);
+      if (breaker && !breaker.isAllowed()) {
+        // Nothing was sent, so trying the next instance is always safe
+        lastError = new CircuitBreakerError(
+          `Circuit breaker for ${this.service} at ${instance.host}:${instance.port} is OPEN`,
+          `${this.service}@${instance.id}`,
+          breaker.getState()
+        );
+        continue;
+      }
+
+      attempts++;
+      balancer.acquire(instance);
+      try {
+        const send = () => this.send(instance, method, path, options);
+        return breaker ? await breaker.execute(send) : await send();
+      } catch (error) {
+        lastError = error;
+      } finally {
+        balancer.release(instance);
+      }
+    }
+
+    if (lastError instanceof FailedResponse) return lastError.response;
+
+    // No instance registered, or every attempt failed
+    const exception = new ServiceUnavailableException(
+      this.service,
+      tried.size === 0
+        ? 'no instances available'
+        : (lastError instanceof Error ? lastError.message : String(lastError))
+    );
+    exception.details = { cause: lastError };
+    throw exception;
+  }
+
+  /**
+   * Circuit state of each instance seen so far
+   */
+  getCircuitStates(): Record<string, ReturnType<CircuitBreaker['getState']>> {
+    const states: Record<string, ReturnType<CircuitBreaker['getState']>> = {};
+    for (const [id, breaker] of this.breakers) states[id] = breaker.getState();
+    return states;
+  }
+
+  private breakerFor(instance: ServiceInstance): CircuitBreaker | null {
+    if (this.options.circuitBreaker === false) return null;
+
+    let breaker = this.breakers.get(instance.id);
+    if (!breaker) {
+      breaker = new CircuitBreaker({
+        ...this.options.circuitBreaker,
+        name: `${this.service}@${instance.host}:${instance.port}`,
+      });
+      this.breakers.set(instance.id, breaker);
+    }
+    return breaker;
+  }
+
+  private async send(instance: ServiceInstance, method: string, path: string, options: ServiceRequestOptions): Promise<Response> {
+    const headers: Record<string, string> = { ...this.options.headers, ...options.headers };
+    let body: BodyInit | undefined;
+
+    if (options.body !== undefined && options.body !== null) {
+      const isRaw = typeof options.body === 'string' || options.body instanceof ArrayBuffer ||
+        options.body instanceof Uint8Array || options.body instanceof FormData ||
+        options.body instanceof URLSearchParams || options.body instanceof Blob;
+      if (isRaw) {
+        body = options.body as BodyInit;
+      } else {
+        body = JSON.stringify(options.body);
+        headers['content-type'] ??= 'application/json';
+      }
+    }
+
+    const response = await this.options.fetch(this.url(instance, path, options.query), {
+      method,
+      headers,
+      body,
+      signal: AbortSignal.timeout(options.timeout ?? this.options.timeout),
+    });
+
+    if (this.options.retryOn.includes(response.status)) {
+      throw new FailedResponse(response);
+    }
+    return response;
+  }
+
+  private url(instance: ServiceInstance, path: string, query?: ServiceRequestOptions['query']): string {
+    const protocol = (instance.metadata?.protocol as string | undefined) ?? this.options.protocol;
+    const url = new URL(path.startsWith('/') ? path : `/${path}`, `${protocol}://${instance.host}:${instance.port}`);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      url.searchParams.set(key, String(value));
+    }
+    return url.toString();
+  }
+}
+
+// ============================================
+// Factory Functions
+// ============================================
+
+const clients = new Map<string, ServiceClient>();
+
+/**
+ * Get a load-balanced client for a service on the global registry. Clients
+ * are cached per service so circuit state is shared between callers.
+ */
+export function serviceClient(name: string, options?: ServiceClientOptions): ServiceClient {
+  if (options) return new ServiceClient(name, options);
+
+  let client = clients.get(name);
+  if (!client) {
+    client = new ServiceClient(name);
+    clients.set(name, client);
+  }
+  return client;
+}
+
+export default ServiceClient;
@@ -244,9 +244,13 @@ export class RedisServiceRegistryDriver implements ServiceRegistryDriver {
 
 /**
  * Load Balancer
+ *
+ * Callers report in-flight requests through acquire()/release() so the
+ * least-connections strategy works from real counts.
  */
 export class LoadBalancer {
   private roundRobinIndex = new Map<string, number>();
+  private connections = new Map<string, number>();
 
   constructor(private strategy: 'round-robin' | 'random' | 'least-connections' = 'round-robin') {}
 
@@ -268,6 +272,32 @@ export class LoadBalancer {
     }
   }
 
+  /**
+   * Mark a request to the instance as started
+   */
+  acquire(instance: ServiceInstance): void {
+    this.connections.set(instance.id, this.getConnections(instance.id) + 1);
+  }
+
+  /**
+   * Mark a request to the instance as finished
+   */
+  release(instance: ServiceInstance): void {
+    const count = this.getConnections(instance.id) - 1;
+    if (count > 0) {
+      this.connections.set(instance.id, count);
+    } else {
+      this.connections.delete(instance.id);
+    }
+  }
+
+  /**
+   * In-flight requests to an instance
+   */
+  getConnections(instanceId: string): number {
+    return this.connections.get(instanceId) ?? 0;
+  }
+
   private roundRobin(services: ServiceInstance[]): ServiceInstance {
     const key = services[0].name;
     let index = this.roundRobinIndex.get(key) ?? 0;
@@ -281,8 +311,9 @@ export class LoadBalancer {
   }
 
   private leastConnections(services: ServiceInstance[]): ServiceInstance {
-    // For now, just use round-robin as we don't track connections
-    return this.roundRobin(services);
+    const fewest = Math.min(...services.map(s => this.getConnections(s.id)));
+    // Rotate between instances that tie for the fewest connections
+    return this.roundRobin(services.filter(s => this.getConnections(s.id) === fewest));
   }
 }
 
@@ -350,6 +381,13 @@ export class ServiceRegistry {
     return this.loadBalancer.select(services);
   }
 
+  /**
+   * Load balancer used by discover() and service clients
+   */
+  getLoadBalancer(): LoadBalancer {
+    return this.loadBalancer;
+  }
+
   /**
    * Get all instances of a service
    */
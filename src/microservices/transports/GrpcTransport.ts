@@ -3,7 +3,19 @@
  * gRPC transport for high-performance microservices
  */
 
-import { Transport, type TransportOptions, type MessagePattern, type TransportMessage, type MessageContext } from '../Transport';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Transport, type TransportOptions, type MessagePattern, type MessageContext } from '../Transport';
+import { CanxException } from '../../core/exceptions/CanxException';
+import { HttpException } from '../../core/exceptions/HttpException';
+import { BadRequestException } from '../../core/exceptions/BadRequestException';
+import { UnauthorizedException } from '../../core/exceptions/UnauthorizedException';
+import { ForbiddenException } from '../../core/exceptions/ForbiddenException';
+import { NotFoundException } from '../../core/exceptions/NotFoundException';
+import { ConflictException } from '../../core/exceptions/ConflictException';
+import { TooManyRequestsException } from '../../core/exceptions/TooManyRequestsException';
+import { ServiceUnavailableException } from '../../core/exceptions/ServiceUnavailableException';
+import { RequestTimeoutException } from '../../core/exceptions/RequestTimeoutException';
+import { InternalServerException } from '../../core/exceptions/InternalServerException';
 
 // ============================================
 // Types
@@ -39,6 +51,191 @@ export interface GrpcTransportOptions extends TransportOptions {
   requestTimeout?: number;
 }
 
+/** gRPC status codes (https://grpc.io/docs/guides/status-codes/) */
+export enum GrpcStatus {
+  OK = 0,
+  CANCELLED = 1,
+  UNKNOWN = 2,
+  INVALID_ARGUMENT = 3,
+  DEADLINE_EXCEEDED = 4,
+  NOT_FOUND = 5,
+  ALREADY_EXISTS = 6,
+  PERMISSION_DENIED = 7,
+  RESOURCE_EXHAUSTED = 8,
+  FAILED_PRECONDITION = 9,
+  ABORTED = 10,
+  OUT_OF_RANGE = 11,
+  UNIMPLEMENTED = 12,
+  INTERNAL = 13,
+  UNAVAILABLE = 14,
+  DATA_LOSS = 15,
+  UNAUTHENTICATED = 16,
+}
+
+export type GrpcMethodType = 'unary' | 'server_stream' | 'client_stream' | 'bidi_stream';
+
+export interface GrpcCallOptions {
+  /** Metadata sent with the call */
+  metadata?: Record<string, string | string[]>;
+  /** Absolute deadline */
+  deadline?: Date | number;
+  /** Relative deadline in ms (defaults to `requestTimeout`) */
+  timeout?: number;
+}
+
+/**
+ * Context passed to gRPC handlers. `headers` holds the incoming metadata,
+ * `signal` aborts when the client cancels or the deadline passes.
+ */
+export interface GrpcContext extends MessageContext {
+  service: string;
+  rpc: string;
+  type: GrpcMethodType;
+  headers: Record<string, string>;
+  deadline?: Date;
+  signal: AbortSignal;
+}
+
+/**
+ * Handler shapes by RPC type:
+ * - unary:         (request, ctx) => response
+ * - server_stream: (request, ctx) => AsyncIterable<response>
+ * - client_stream: (requests: AsyncIterable, ctx) => response
+ * - bidi_stream:   (requests: AsyncIterable, ctx) => AsyncIterable<response>
+ */
+export type GrpcHandler = (input: any, context: GrpcContext) => any;
+
+export interface GrpcStatusObject {
+  code: GrpcStatus;
+  details: string;
+}
+
+// ============================================
+// Status Mapping
+// ============================================
+
+const HTTP_TO_GRPC: Record<number, GrpcStatus> = {
+  400: GrpcStatus.INVALID_ARGUMENT,
+  401: GrpcStatus.UNAUTHENTICATED,
+  403: GrpcStatus.PERMISSION_DENIED,
+  404: GrpcStatus.NOT_FOUND,
+  405: GrpcStatus.UNIMPLEMENTED,
+  408: GrpcStatus.DEADLINE_EXCEEDED,
+  409: GrpcStatus.ALREADY_EXISTS,
+  412: GrpcStatus.FAILED_PRECONDITION,
+  413: GrpcStatus.RESOURCE_EXHAUSTED,
+  422: GrpcStatus.INVALID_ARGUMENT,
+  429: GrpcStatus.RESOURCE_EXHAUSTED,
+  499: GrpcStatus.CANCELLED,
+  501: GrpcStatus.UNIMPLEMENTED,
+  503: GrpcStatus.UNAVAILABLE,
+  504: GrpcStatus.DEADLINE_EXCEEDED,
+};
+
+/**
+ * Convert an error thrown by a handler into a gRPC status.
+ * CanxExceptions map by HTTP status, errors that already carry a numeric
+ * gRPC code pass through, anything else becomes INTERNAL.
+ */
+export function toGrpcStatus(error: unknown): GrpcStatusObject {
+  const err = error as any;
+  const details = err?.details && typeof err.details === 'string' ? err.details : (err?.message ?? String(error));
+
+  if (err instanceof CanxException) {
+    if (err.code === 'REQUEST_TIMEOUT') return { code: GrpcStatus.DEADLINE_EXCEEDED, details: err.message };
+    const code = HTTP_TO_GRPC[err.status]
+      ?? (err.status >= 400 && err.status < 500 ? GrpcStatus.FAILED_PRECONDITION : GrpcStatus.INTERNAL);
+    return { code, details: err.message };
+  }
+
+  if (typeof err?.code === 'number' && err.code in GrpcStatus) {
+    return { code: err.code, details };
+  }
+
+  return { code: GrpcStatus.INTERNAL, details };
+}
+
+/**
+ * Convert a gRPC error received by a client into the matching HttpException.
+ * The original code is kept in `exception.details.grpcCode`.
+ */
+export function fromGrpcError(error: unknown): HttpException {
+  const err = error as any;
+  const code: GrpcStatus = typeof err?.code === 'number' ? err.code : GrpcStatus.UNKNOWN;
+  const message: string = err?.details || err?.message || 'gRPC call failed';
+
+  let exception: HttpException;
+  switch (code) {
+    case GrpcStatus.INVALID_ARGUMENT:
+    case GrpcStatus.FAILED_PRECONDITION:
+    case GrpcStatus.OUT_OF_RANGE:
+      exception = new BadRequestException(message);
+      break;
+    case GrpcStatus.UNAUTHENTICATED:
+      exception = new UnauthorizedException(message);
+      break;
+    case GrpcStatus.PERMISSION_DENIED:
+      exception = new ForbiddenException(message);
+      break;
+    case GrpcStatus.NOT_FOUND:
+      exception = new NotFoundException(message);
+      break;
+    case GrpcStatus.ALREADY_EXISTS:
+    case GrpcStatus.ABORTED:
+      exception = new ConflictException(message);
+      break;
+    case GrpcStatus.RESOURCE_EXHAUSTED:
+      exception = new TooManyRequestsException(message);
+      break;
+    case GrpcStatus.UNAVAILABLE:
+      exception = new ServiceUnavailableException(message);
+      break;
+    case GrpcStatus.DEADLINE_EXCEEDED:
+      exception = new RequestTimeoutException(undefined, message);
+      break;
+    case GrpcStatus.UNIMPLEMENTED:
+      exception = new HttpException(message, 501);
+      break;
+    case GrpcStatus.CANCELLED:
+      exception = new HttpException(message, 499);
+      break;
+    default:
+      exception = new InternalServerException(message);
+  }
+
+  exception.details = { grpcCode: code };
+  return exception;
+}
+
+// ============================================
+// Controller Decorator
+// ============================================
+
+const grpcMethodMetadata = new Map<Function, Array<{ property: string; service?: string; rpc: string }>>();
+
+/**
+ * Bind a controller method to an RPC declared in the proto file.
+ * Without arguments the method name is used (`findOne` -> `FindOne`).
+ *
+ * @example
+ * class HeroController {
+ *   @GrpcMethod('HeroService', 'FindOne')
+ *   findOne(data: { id: number }) { ... }
+ * }
+ */
+export function GrpcMethod(service?: string, rpc?: string): MethodDecorator {
+  return function (target: Object, propertyKey: string | symbol, descriptor: PropertyDescriptor) {
+    const property = String(propertyKey);
+    const entries = grpcMethodMetadata.get(target.constructor) ?? [];
+    entries.push({ property, service, rpc: rpc ?? property.charAt(0).toUpperCase() + property.slice(1) });
+    grpcMethodMetadata.set(target.constructor, entries);
+    return descriptor;
+  };
+}
+
+// Context of the gRPC call being handled, used to propagate deadlines to nested calls
+const callStorage = new AsyncLocalStorage<GrpcContext>();
+
 // ============================================
 // gRPC Transport Implementation
 // ============================================
@@ -50,6 +247,7 @@ export class GrpcTransport extends Transport {
   private client: any = null;
   private server: any = null;
   private serviceDef: any = null;
+  private controllers: Map<string, object[]> = new Map();
 
   constructor(options: GrpcTransportOptions = {}) {
     super(options);
@@ -76,20 +274,15 @@ export class GrpcTransport extends Transport {
 
   async connect(): Promise<void> {
     try {
-      const { grpc, protoLoader } = await this.loadGrpcClient();
-      this.grpc = grpc;
-      this.protoLoader = protoLoader;
-
-      if (this.grpcOptions.protoPath) {
-        await this.loadProtoDefinition();
-      }
+      await this.loadDefinitions();
 
       // Create client for sending messages
-      if (this.serviceDef) {
+      const ServiceClient = this.serviceDef?.[this.grpcOptions.service!];
+      if (ServiceClient) {
         const credentials = this.createCredentials();
         const address = `${this.options.host}:${this.options.port}`;
-        
-        this.client = new this.serviceDef[this.grpcOptions.service!](
+
+        this.client = new ServiceClient(
           address,
           credentials,
           {
@@ -109,13 +302,24 @@ export class GrpcTransport extends Transport {
   async disconnect(): Promise<void> {
     // Close client
     if (this.client) {
-      this.grpc.closeClient(this.client);
+      this.client.close();
+      this.client = null;
     }
 
     // Stop server if running
     if (this.server) {
+      const server = this.server;
+      this.server = null;
       await new Promise<void>((resolve) => {
-        this.server.tryShutdown(() => resolve());
+        // Give in-flight calls until the request timeout, then cut them off
+        const timer = setTimeout(() => {
+          server.forceShutdown();
+          resolve();
+        }, this.grpcOptions.requestTimeout);
+        server.tryShutdown(() => {
+          clearTimeout(timer);
+          resolve();
+        });
       });
     }
 
@@ -123,93 +327,115 @@ export class GrpcTransport extends Transport {
     console.log('📡 gRPC transport disconnected');
   }
 
-  async send<T, R>(pattern: MessagePattern, data: T): Promise<R> {
-    if (!this.client) {
-      throw new Error('Transport not connected or no proto loaded');
-    }
+  /**
+   * Unary or client-streaming call. For client-streaming RPCs `data` is an
+   * (async) iterable of request messages.
+   */
+  async send<T, R>(pattern: MessagePattern, data: T, options: GrpcCallOptions = {}): Promise<R> {
+    const { method, definition } = this.resolveClientMethod(pattern);
+    const metadata = this.createMetadata(options.metadata);
+    const callOptions = { deadline: this.resolveDeadline(options) };
 
-    const methodName = this.patternToMethod(pattern);
-    
-    return new Promise((resolve, reject) => {
-      const call = this.client[methodName];
-      if (!call) {
-        reject(new Error(`gRPC method not found: ${methodName}`));
-        return;
-      }
+    if (definition.responseStream) {
+      throw new Error(`gRPC method ${definition.originalName ?? method} streams responses; use stream()`);
+    }
 
-      // Create deadline
-      const deadline = new Date(Date.now() + this.grpcOptions.requestTimeout!);
+    return new Promise<R>((resolve, reject) => {
+      const callback = (error: any, response: R) => {
+        if (error) reject(fromGrpcError(error));
+        else resolve(response);
+      };
 
-      call.call(this.client, data, { deadline }, (error: Error | null, response: R) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve(response);
-        }
-      });
+      if (definition.requestStream) {
+        const call = this.client[method](metadata, callOptions, callback);
+        this.pipeInput(call, data as any);
+      } else {
+        this.client[method](data, metadata, callOptions, callback);
+      }
     });
   }
 
-  async emit<T>(pattern: MessagePattern, data: T): Promise<void> {
-    // For gRPC, emit is typically a unary call without waiting for response
-    // We use client streaming or fire-and-forget pattern
-    if (!this.client) {
-      throw new Error('Transport not connected or no proto loaded');
+  /**
+   * Server-streaming or bidirectional call. Responses are returned as an async
+   * iterable; for bidi RPCs `data` is an (async) iterable of request messages.
+   */
+  async *stream<T, R>(pattern: MessagePattern, data: T | Iterable<T> | AsyncIterable<T>, options: GrpcCallOptions = {}): AsyncIterable<R> {
+    const { method, definition } = this.resolveClientMethod(pattern);
+    const metadata = this.createMetadata(options.metadata);
+    const callOptions = { deadline: this.resolveDeadline(options) };
+
+    if (!definition.responseStream) {
+      throw new Error(`gRPC method ${definition.originalName ?? method} does not stream responses; use send()`);
     }
 
-    const methodName = this.patternToMethod(pattern);
-    
-    return new Promise((resolve, reject) => {
-      const call = this.client[methodName];
-      if (!call) {
-        reject(new Error(`gRPC method not found: ${methodName}`));
-        return;
+    let call: any;
+    if (definition.requestStream) {
+      call = this.client[method](metadata, callOptions);
+      this.pipeInput(call, data as any);
+    } else {
+      call = this.client[method](data, metadata, callOptions);
+    }
+
+    try {
+      for await (const message of call) {
+        yield message as R;
       }
+    } catch (error) {
+      throw fromGrpcError(error);
+    } finally {
+      // Consumer stopped early: tell the server
+      if (!call.destroyed) call.cancel();
+    }
+  }
 
-      // Fire and forget - don't wait for response
-      call.call(this.client, data, { deadline: new Date(Date.now() + 5000) }, () => {
-        resolve();
-      });
-    });
+  async emit<T>(pattern: MessagePattern, data: T): Promise<void> {
+    // For gRPC, emit is a unary call without waiting for the response
+    const { method } = this.resolveClientMethod(pattern);
+
+    this.client[method](data, this.createMetadata(), { deadline: Date.now() + 5000 }, () => {});
+  }
+
+  /**
+   * Map a controller's methods onto the RPCs of a proto service. Methods are
+   * matched by `@GrpcMethod()` metadata first, then by name (`FindOne` or `findOne`).
+   */
+  addController(controller: object, service: string = this.grpcOptions.service!): this {
+    const controllers = this.controllers.get(service) ?? [];
+    controllers.push(controller);
+    this.controllers.set(service, controllers);
+    return this;
   }
 
   /**
    * Start gRPC server
    */
   async listen(): Promise<void> {
-    if (!this.grpc) {
-      const { grpc } = await this.loadGrpcClient();
-      this.grpc = grpc;
-    }
+    await this.loadDefinitions();
 
     this.server = new this.grpc.Server({
       'grpc.max_send_message_length': this.grpcOptions.maxSendMessageLength,
       'grpc.max_receive_message_length': this.grpcOptions.maxReceiveMessageLength,
     });
 
-    // Add service implementation
-    const serviceImpl: Record<string, Function> = {};
-    
-    for (const [key, handler] of this.handlers) {
-      const methodName = key.replace(/^(cmd:|event:)/, '');
-      serviceImpl[methodName] = (call: any, callback: Function) => {
-        const context: MessageContext = {
-          pattern: { cmd: methodName },
-          id: this.generateId(),
-          timestamp: Date.now(),
-        };
-
-        Promise.resolve(handler(call.request, context))
-          .then(result => callback(null, result))
-          .catch(error => callback(error));
-      };
-    }
-
     if (this.serviceDef) {
-      this.server.addService(
-        this.serviceDef[this.grpcOptions.service!].service,
-        serviceImpl
-      );
+      const services = new Set([this.grpcOptions.service!, ...this.controllers.keys()]);
+
+      for (const service of services) {
+        const definition = this.serviceDef[service]?.service;
+        if (!definition) {
+          throw new Error(`gRPC service not found in proto: ${this.grpcOptions.package}.${service}`);
+        }
+
+        const implementation: Record<string, Function> = {};
+        for (const [rpc, methodDef] of Object.entries<any>(definition)) {
+          const handler = this.findRpcHandler(service, rpc);
+          if (handler) {
+            implementation[rpc] = this.createServerMethod(service, rpc, methodDef, handler);
+          }
+        }
+
+        this.server.addService(definition, implementation);
+      }
     }
 
     // Bind and start server
@@ -221,7 +447,6 @@ export class GrpcTransport extends Transport {
         if (error) {
           reject(error);
         } else {
-          this.server.start();
           console.log(`📡 gRPC server listening on port ${port}`);
           resolve();
         }
@@ -229,6 +454,151 @@ export class GrpcTransport extends Transport {
     });
   }
 
+  /**
+   * Find the handler for an RPC: controllers first, then `subscribe({ cmd })`
+   */
+  private findRpcHandler(service: string, rpc: string): GrpcHandler | undefined {
+    const lowerCamel = rpc.charAt(0).toLowerCase() + rpc.slice(1);
+
+    for (const controller of this.controllers.get(service) ?? []) {
+      const entry = grpcMethodMetadata.get(controller.constructor)
+        ?.find(e => e.rpc === rpc && (!e.service || e.service === service));
+      const fn = entry ? (controller as any)[entry.property] : ((controller as any)[rpc] ?? (controller as any)[lowerCamel]);
+      if (typeof fn === 'function') return fn.bind(controller);
+    }
+
+    if (service === this.grpcOptions.service) {
+      return this.handlers.get(`cmd:${rpc}`) ?? this.handlers.get(`event:${rpc}`);
+    }
+    return undefined;
+  }
+
+  /**
+   * Wrap a handler in the grpc-js server method signature for its RPC type
+   */
+  private createServerMethod(service: string, rpc: string, methodDef: any, handler: GrpcHandler): Function {
+    const type = methodType(methodDef);
+
+    const run = (call: any, input: any) => {
+      const context = this.createServerContext(call, service, rpc, type);
+      return callStorage.run(context, () => Promise.resolve().then(() => handler(input, context)));
+    };
+
+    if (!methodDef.responseStream) {
+      return (call: any, callback: Function) => {
+        run(call, methodDef.requestStream ? call : call.request)
+          .then(result => callback(null, result))
+          .catch(error => callback(toGrpcStatus(error)));
+      };
+    }
+
+    return (call: any) => {
+      run(call, methodDef.requestStream ? call : call.request)
+        .then(async (results: Iterable<any> | AsyncIterable<any>) => {
+          for await (const message of results ?? []) {
+            if (call.cancelled) return;
+            if (!call.write(message)) await drained(call);
+          }
+          if (!call.cancelled) call.end();
+        })
+        .catch(error => {
+          if (!call.cancelled) call.emit('error', toGrpcStatus(error));
+        });
+    };
+  }
+
+  private createServerContext(call: any, service: string, rpc: string, type: GrpcMethodType): GrpcContext {
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries<any>(call.metadata?.getMap() ?? {})) {
+      headers[key] = Buffer.isBuffer(value) ? value.toString('base64') : String(value);
+    }
+
+    const rawDeadline = call.getDeadline?.();
+    const deadline = rawDeadline instanceof Date
+      ? rawDeadline
+      : (typeof rawDeadline === 'number' && Number.isFinite(rawDeadline) ? new Date(rawDeadline) : undefined);
+
+    const controller = new AbortController();
+    call.on('cancelled', () => controller.abort());
+
+    return {
+      pattern: { cmd: rpc },
+      id: this.generateId(),
+      timestamp: Date.now(),
+      service,
+      rpc,
+      type,
+      headers,
+      deadline,
+      signal: controller.signal,
+    };
+  }
+
+  private resolveClientMethod(pattern: MessagePattern): { method: string; definition: any } {
+    if (!this.client) {
+      throw new Error('Transport not connected or no proto loaded');
+    }
+
+    const method = this.patternToMethod(pattern);
+    const definition = this.serviceDef[this.grpcOptions.service!].service[method]
+      ?? Object.values<any>(this.serviceDef[this.grpcOptions.service!].service).find(def => def.originalName === method);
+
+    if (!definition || typeof this.client[method] !== 'function') {
+      throw new Error(`gRPC method not found: ${method}`);
+    }
+    return { method, definition };
+  }
+
+  /**
+   * The earliest of the call's own deadline and the deadline of the call
+   * currently being handled, so nested calls never outlive their parent.
+   */
+  private resolveDeadline(options: GrpcCallOptions): Date {
+    let deadline = options.deadline !== undefined
+      ? new Date(options.deadline)
+      : new Date(Date.now() + (options.timeout ?? this.grpcOptions.requestTimeout!));
+
+    const parent = callStorage.getStore()?.deadline;
+    if (parent && parent < deadline) deadline = parent;
+    return deadline;
+  }
+
+  private createMetadata(values: Record<string, string | string[]> = {}): any {
+    const metadata = new this.grpc.Metadata();
+    for (const [key, value] of Object.entries(values)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        metadata.add(key, item);
+      }
+    }
+    return metadata;
+  }
+
+  /**
+   * Write request messages to a client-side stream, honouring backpressure
+   */
+  private pipeInput(call: any, input: Iterable<any> | AsyncIterable<any>): void {
+    (async () => {
+      for await (const message of input) {
+        if (!call.write(message)) {
+          await new Promise(resolve => call.once('drain', resolve));
+        }
+      }
+      call.end();
+    })().catch(() => call.cancel());
+  }
+
+  private async loadDefinitions(): Promise<void> {
+    if (!this.grpc) {
+      const { grpc, protoLoader } = await this.loadGrpcClient();
+      this.grpc = grpc;
+      this.protoLoader = protoLoader;
+    }
+
+    if (this.grpcOptions.protoPath && !this.serviceDef) {
+      await this.loadProtoDefinition();
+    }
+  }
+
   /**
    * Load proto definition
    */
@@ -243,7 +613,12 @@ export class GrpcTransport extends Transport {
     );
 
     const grpcObject = this.grpc.loadPackageDefinition(packageDefinition);
-    this.serviceDef = grpcObject[this.grpcOptions.package!];
+    // Nested packages (`acme.billing`) are nested objects
+    this.serviceDef = this.grpcOptions.package!.split('.').reduce((node: any, part) => node?.[part], grpcObject);
+
+    if (!this.serviceDef) {
+      throw new Error(`gRPC package not found in proto: ${this.grpcOptions.package}`);
+    }
   }
 
   /**
@@ -251,7 +626,7 @@ export class GrpcTransport extends Transport {
    */
   async createDynamicProto(): Promise<string> {
     const methods: string[] = [];
-    
+
     for (const [key] of this.handlers) {
       const methodName = key.replace(/^(cmd:|event:)/, '');
       methods.push(`  rpc ${methodName} (Request) returns (Response) {}`);
@@ -323,6 +698,26 @@ ${methods.join('\n')}
   }
 }
 
+// Wait for a stream with a full write buffer to drain, or for its call to be cancelled
+function drained(call: any): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      call.off('drain', done);
+      call.off('cancelled', done);
+      resolve();
+    };
+    call.on('drain', done);
+    call.on('cancelled', done);
+  });
+}
+
+function methodType(definition: { requestStream?: boolean; responseStream?: boolean }): GrpcMethodType {
+  if (definition.requestStream && definition.responseStream) return 'bidi_stream';
+  if (definition.requestStream) return 'client_stream';
+  if (definition.responseStream) return 'server_stream';
+  return 'unary';
+}
+
 // ============================================
 // Factory Function
 // ============================================
@@ -35,7 +35,16 @@ export {
 export { 
   GrpcTransport, 
   createGrpcTransport,
+  GrpcMethod,
+  GrpcStatus,
+  toGrpcStatus,
+  fromGrpcError,
   type GrpcTransportOptions,
+  type GrpcCallOptions,
+  type GrpcContext,
+  type GrpcHandler,
+  type GrpcMethodType,
+  type GrpcStatusObject,
 } from './GrpcTransport';
 
 // Transport enum for easy selection
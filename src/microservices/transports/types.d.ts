@@ -47,6 +47,12 @@ declare module '@grpc/grpc-js' {
     bindAsync(address: string, credentials: any, callback: (error: Error | null, port: number) => void): void;
     start(): void;
     tryShutdown(callback: () => void): void;
+    forceShutdown(): void;
+  }
+  export class Metadata {
+    add(key: string, value: string | Buffer): void;
+    set(key: string, value: string | Buffer): void;
+    getMap(): Record<string, string | Buffer>;
   }
   export function loadPackageDefinition(packageDefinition: any): any;
   export function closeClient(client: any): void;
@@ -195,9 +195,8 @@ export class RateLimiter {
       message: options.message ?? 'Too many requests, please try again later.',
       statusCode: options.statusCode ?? 429,
       headers: options.headers ?? true,
-      keyGenerator: options.keyGenerator ?? ((req) => 
-        (req.headers.get('x-forwarded-for') || (req as any).ip || '127.0.0.1')
-      ),
+      // req.ip only honours X-Forwarded-For from trusted proxies (ServerConfig.trustProxy)
+      keyGenerator: options.keyGenerator ?? ((req) => req.ip || 'unknown'),
       skip: options.skip ?? (() => false),
       store: options.store as any, // handled below
     };
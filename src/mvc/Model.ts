@@ -3,13 +3,13 @@
  */
 
 import { AsyncLocalStorage } from 'node:async_hooks';
-import type { DatabaseConfig, DatabaseDriver, ModelField, ModelSchema, QueryBuilder, CastType } from '../types';
+import type { DatabaseConfig, DatabaseConnectionConfig, DatabaseDriver, ModelField, ModelSchema, QueryBuilder, CastType } from '../types';
 
-// Database connection state.
-// Stored on globalThis so the state stays shared even if this module is
-// loaded more than once (e.g. duplicate package instances / path-case
-// differences on Windows).
-interface DbState {
+// A single named connection: its driver, pools and manual transaction.
+interface DbConnection {
+  name: string;
+  driver: DatabaseDriver;
+  config: DatabaseConnectionConfig;
   mysqlPool: any;
   pgPool: any;
   sqliteDb: any;
@@ -18,34 +18,45 @@ interface DbState {
   // reads stay on the primary (write) pool for read-your-writes consistency.
   readMysqlPool: any;
   readPgPool: any;
-  currentDriver: DatabaseDriver;
-  dbConfig: DatabaseConfig | null;
   // A single process-wide manual transaction connection (set by the argument-
   // less beginTransaction()/commit()/rollBack() API). The callback form of
   // `transaction()` uses AsyncLocalStorage instead and is concurrency-safe.
-  manualTx: { driver: DatabaseDriver; conn: any } | null;
+  manualTx: TxContext | null;
+}
+
+// Database connection state.
+// Stored on globalThis so the state stays shared even if this module is
+// loaded more than once (e.g. duplicate package instances / path-case
+// differences on Windows).
+interface DbState {
+  connections: Map<string, DbConnection>;
+  defaultConnection: string;
+  logging: boolean;
 }
 
 const DB_STATE_KEY = Symbol.for('canxjs.database.state');
 const dbState: DbState = ((globalThis as any)[DB_STATE_KEY] ??= {
-  mysqlPool: null,
-  pgPool: null,
-  sqliteDb: null,
-  readMysqlPool: null,
-  readPgPool: null,
-  currentDriver: 'mysql',
-  dbConfig: null,
-  manualTx: null,
+  connections: new Map(),
+  defaultConnection: 'default',
+  logging: false,
 } satisfies DbState);
 
-// Per-async-context transaction connection. When a `transaction(cb)` is active,
-// every query/execute inside the callback (across await points) transparently
-// runs on this dedicated connection so it participates in the transaction.
+// Per-async-context transaction connections, keyed by connection name. When a
+// `transaction(cb)` is active, every query/execute on that connection inside
+// the callback (across await points) transparently runs on this dedicated
+// connection so it participates in the transaction. Other connections are
+// unaffected.
 interface TxContext { driver: DatabaseDriver; conn: any; }
-const txStorage = new AsyncLocalStorage<TxContext>();
+const txStorage = new AsyncLocalStorage<Map<string, TxContext>>();
 // Monotonic counter for unique savepoint names on nested transactions.
 let savepointCounter = 0;
 
+// Statements collected by `pretend(cb)`. While a collector is active, execute()
+// records writes instead of running them; reads still run so schema
+// introspection (hasTable, PRAGMA table_info, ...) keeps working.
+export interface PretendedQuery { sql: string; params: any[]; connection: string; }
+const pretendStorage = new AsyncLocalStorage<PretendedQuery[]>();
+
 // In-process query result cache backing QueryBuilder.remember().
 const QUERY_CACHE_KEY = Symbol.for('canxjs.query.cache');
 const queryCache: Map<string, { value: any; expires: number }> =
@@ -58,19 +69,53 @@ export function flushQueryCache(): void { queryCache.clear(); }
 // the class name). On globalThis so it survives duplicate module copies.
 const MODEL_REGISTRY_KEY = Symbol.for('canxjs.model.registry');
 const modelRegistry: Map<string, any> = ((globalThis as any)[MODEL_REGISTRY_KEY] ??= new Map());
-function registerModel(cls: any): void {
+function rememberModel(cls: any): void {
   if (cls && cls.name && (cls as any).tableName) {
     modelRegistry.set(cls.name, cls);
   }
 }
 
-export async function initDatabase(config: DatabaseConfig): Promise<void> {
-  dbState.dbConfig = config;
-  dbState.currentDriver = config.driver;
+// Models registered explicitly through registerModel(). Only these are bound
+// implicitly to route params, so a param never becomes a query just because
+// a model of that name was used somewhere in the process.
+const BINDABLE_MODELS_KEY = Symbol.for('canxjs.model.bindable');
+const bindableModels: Map<string, any> = ((globalThis as any)[BINDABLE_MODELS_KEY] ??= new Map());
+
+/** Register model classes by name for `morphTo` relations and implicit route model binding. */
+export function registerModel(...classes: any[]): void {
+  for (const cls of classes) {
+    if (cls && cls.name && (cls as any).tableName) {
+      rememberModel(cls);
+      bindableModels.set(cls.name, cls);
+    }
+  }
+}
+
+/** Model registered with `registerModel()` whose class name matches `name`, ignoring case (`blogPost` -> `BlogPost`). */
+export function getRegisteredModel(name: string): typeof Model | undefined {
+  const lower = name.toLowerCase();
+  for (const [className, cls] of bindableModels) {
+    if (className.toLowerCase() === lower) return cls;
+  }
+  return undefined;
+}
+
+async function openConnection(name: string, config: DatabaseConnectionConfig): Promise<DbConnection> {
+  const db: DbConnection = {
+    name,
+    driver: config.driver,
+    config,
+    mysqlPool: null,
+    pgPool: null,
+    sqliteDb: null,
+    readMysqlPool: null,
+    readPgPool: null,
+    manualTx: null,
+  };
 
   if (config.driver === 'mysql') {
     const mysql = await import('mysql2/promise');
-    dbState.mysqlPool = mysql.createPool({
+    db.mysqlPool = mysql.createPool({
       host: config.host || 'localhost',
       port: config.port || 3306,
       database: config.database,
@@ -85,7 +130,7 @@ export async function initDatabase(config: DatabaseConfig): Promise<void> {
     // array; we build one pool over all of them (mysql2 balances internally).
     if (config.read) {
       const reads = Array.isArray(config.read) ? config.read : [config.read];
-      dbState.readMysqlPool = mysql.createPool({
+      db.readMysqlPool = mysql.createPool({
         host: reads[0]!.host || 'localhost',
         port: reads[0]!.port || 3306,
         database: reads[0]!.database || config.database,
@@ -97,10 +142,10 @@ export async function initDatabase(config: DatabaseConfig): Promise<void> {
       });
     }
 
-    if (config.logging) console.log('[CanxJS] MySQL connection pool created');
+    if (config.logging) console.log(`[CanxJS] MySQL connection pool created (${name})`);
   } else if (config.driver === 'postgresql') {
     const { Pool } = await import('pg');
-    dbState.pgPool = new Pool({
+    db.pgPool = new Pool({
       host: config.host || 'localhost',
       port: config.port || 5432,
       database: config.database,
@@ -112,7 +157,7 @@ export async function initDatabase(config: DatabaseConfig): Promise<void> {
 
     if (config.read) {
       const reads = Array.isArray(config.read) ? config.read : [config.read];
-      dbState.readPgPool = new Pool({
+      db.readPgPool = new Pool({
         host: reads[0]!.host || 'localhost',
         port: reads[0]!.port || 5432,
         database: reads[0]!.database || config.database,
@@ -123,25 +168,93 @@ export async function initDatabase(config: DatabaseConfig): Promise<void> {
       });
     }
 
-    if (config.logging) console.log('[CanxJS] PostgreSQL connection pool created');
+    if (config.logging) console.log(`[CanxJS] PostgreSQL connection pool created (${name})`);
   } else if (config.driver === 'sqlite') {
     const { Database } = await import('bun:sqlite');
-    dbState.sqliteDb = new Database(config.database);
+    db.sqliteDb = new Database(config.database);
 
-    if (config.logging) console.log('[CanxJS] SQLite database connected');
+    if (config.logging) console.log(`[CanxJS] SQLite database connected (${name})`);
+  } else {
+    throw new Error(`Unsupported database driver for connection [${name}]: ${config.driver}`);
   }
+
+  return db;
+}
+
+/**
+ * Initialize the database layer. Accepts either a single flat connection
+ * (registered as the default) or a map of named `connections`:
+ *
+ * @example
+ *   await initDatabase({
+ *     default: 'primary',
+ *     connections: {
+ *       primary: { driver: 'mysql', database: 'app' },
+ *       analytics: { driver: 'postgresql', database: 'events' },
+ *     },
+ *   });
+ */
+export async function initDatabase(config: DatabaseConfig): Promise<void> {
+  const { connections = {}, default: defaultName, ...flat } = config;
+  const configs: Record<string, DatabaseConnectionConfig> = {};
+
+  // Flat top-level settings describe the default connection.
+  if (flat.driver) {
+    configs[defaultName || 'default'] = flat as DatabaseConnectionConfig;
+  }
+  for (const [name, conn] of Object.entries(connections)) {
+    configs[name] = { ...conn, logging: conn.logging ?? flat.logging };
+  }
+
+  const names = Object.keys(configs);
+  if (names.length === 0) throw new Error('Database config must define a driver or at least one connection');
+
+  const resolvedDefault = defaultName || (flat.driver ? 'default' : names[0]!);
+  if (!configs[resolvedDefault]) {
+    throw new Error(`Default database connection [${resolvedDefault}] is not configured`);
+  }
+
+  const opened = new Map<string, DbConnection>();
+  for (const name of names) {
+    opened.set(name, await openConnection(name, configs[name]!));
+  }
+
+  dbState.connections = opened;
+  dbState.defaultConnection = resolvedDefault;
+  dbState.logging = !!flat.logging;
 }
 
 export async function closeDatabase(): Promise<void> {
-  if (dbState.mysqlPool) { await dbState.mysqlPool.end(); dbState.mysqlPool = null; }
-  if (dbState.pgPool) { await dbState.pgPool.end(); dbState.pgPool = null; }
-  if (dbState.readMysqlPool) { await dbState.readMysqlPool.end(); dbState.readMysqlPool = null; }
-  if (dbState.readPgPool) { await dbState.readPgPool.end(); dbState.readPgPool = null; }
-  if (dbState.sqliteDb) { dbState.sqliteDb.close(); dbState.sqliteDb = null; }
+  for (const db of dbState.connections.values()) {
+    if (db.mysqlPool) { await db.mysqlPool.end(); db.mysqlPool = null; }
+    if (db.pgPool) { await db.pgPool.end(); db.pgPool = null; }
+    if (db.readMysqlPool) { await db.readMysqlPool.end(); db.readMysqlPool = null; }
+    if (db.readPgPool) { await db.readPgPool.end(); db.readPgPool = null; }
+    if (db.sqliteDb) { db.sqliteDb.close(); db.sqliteDb = null; }
+  }
+  dbState.connections.clear();
+}
+
+// Look up a named connection (or the default). Throws the historical
+// 'No database connection' error when nothing has been initialized.
+function resolveConnection(name?: string): DbConnection {
+  const db = dbState.connections.get(name || dbState.defaultConnection);
+  if (db) return db;
+  if (name && dbState.connections.size > 0) {
+    throw new Error(`Database connection [${name}] is not configured`);
+  }
+  throw new Error('No database connection');
+}
+
+/** Driver of the given connection (default connection when omitted). */
+export function getCurrentDriver(connection?: string): DatabaseDriver {
+  if (!connection && dbState.connections.size === 0) return 'mysql';
+  return resolveConnection(connection).driver;
 }
 
-export function getCurrentDriver(): DatabaseDriver {
-  return dbState.currentDriver;
+/** Names of all configured connections. */
+export function getConnectionNames(): string[] {
+  return [...dbState.connections.keys()];
 }
 
 // mysql2 rejects `undefined` bind params ("must not contain undefined"). Map
@@ -151,55 +264,70 @@ function sanitizeParams(params: any[]): any[] {
 }
 
 // Resolve which connection a statement should run on:
-//   1. an active AsyncLocalStorage transaction (callback form), else
-//   2. a process-wide manual transaction, else
+//   1. an active AsyncLocalStorage transaction on this connection, else
+//   2. this connection's process-wide manual transaction, else
 //   3. the pool. For reads, a configured read replica is preferred.
-function activeTx(): { driver: DatabaseDriver; conn: any } | null {
-  return txStorage.getStore() || dbState.manualTx || null;
+function activeTx(db: DbConnection): TxContext | null {
+  return txStorage.getStore()?.get(db.name) || db.manualTx || null;
 }
 
-async function query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+function logQuery(db: DbConnection, sql: string, params: any[]): void {
+  if (db.config.logging || dbState.logging) {
+    console.log(db.name === dbState.defaultConnection ? '[SQL]' : `[SQL:${db.name}]`, sql, params);
+  }
+}
+
+async function query<T = any>(sql: string, params: any[] = [], connection?: string): Promise<T[]> {
+  const db = resolveConnection(connection);
   params = sanitizeParams(params);
-  if (dbState.dbConfig?.logging) console.log('[SQL]', sql, params);
+  logQuery(db, sql, params);
 
-  const tx = activeTx();
+  const tx = activeTx(db);
 
-  if (dbState.currentDriver === 'mysql') {
+  if (db.driver === 'mysql') {
     // Read replica only for non-transactional reads (read-your-writes safety).
-    const conn = tx?.conn || dbState.readMysqlPool || dbState.mysqlPool;
+    const conn = tx?.conn || db.readMysqlPool || db.mysqlPool;
     if (!conn) throw new Error('No database connection');
     const [rows] = await conn.execute(sql, params);
     return rows as T[];
-  } else if (dbState.currentDriver === 'postgresql') {
-    const conn = tx?.conn || dbState.readPgPool || dbState.pgPool;
+  } else if (db.driver === 'postgresql') {
+    const conn = tx?.conn || db.readPgPool || db.pgPool;
     if (!conn) throw new Error('No database connection');
     // Convert ? placeholders to $1, $2 for PostgreSQL
     let idx = 0;
     const pgSql = sql.replace(/\?/g, () => `$${++idx}`);
     const result = await conn.query(pgSql, params);
     return result.rows as T[];
-  } else if (dbState.currentDriver === 'sqlite') {
-    const db = tx?.conn || dbState.sqliteDb;
-    if (!db) throw new Error('No database connection');
-    const query = db.query(sql);
+  } else if (db.driver === 'sqlite') {
+    const sqlite = tx?.conn || db.sqliteDb;
+    if (!sqlite) throw new Error('No database connection');
+    const query = sqlite.query(sql);
     return query.all(...params) as T[];
   }
   throw new Error('No database connection');
 }
 
-async function execute(sql: string, params: any[] = []): Promise<{ affectedRows: number; insertId: number }> {
+async function execute(sql: string, params: any[] = [], connection?: string): Promise<{ affectedRows: number; insertId: number }> {
+  const db = resolveConnection(connection);
   params = sanitizeParams(params);
-  if (dbState.dbConfig?.logging) console.log('[SQL]', sql, params);
 
-  const tx = activeTx();
+  const pretended = pretendStorage.getStore();
+  if (pretended) {
+    pretended.push({ sql, params, connection: db.name });
+    return { affectedRows: 0, insertId: 0 };
+  }
+
+  logQuery(db, sql, params);
 
-  if (dbState.currentDriver === 'mysql') {
-    const conn = tx?.conn || dbState.mysqlPool;
+  const tx = activeTx(db);
+
+  if (db.driver === 'mysql') {
+    const conn = tx?.conn || db.mysqlPool;
     if (!conn) throw new Error('No database connection');
     const [result] = await conn.execute(sql, params);
     return { affectedRows: result.affectedRows, insertId: result.insertId };
-  } else if (dbState.currentDriver === 'postgresql') {
-    const conn = tx?.conn || dbState.pgPool;
+  } else if (db.driver === 'postgresql') {
+    const conn = tx?.conn || db.pgPool;
     if (!conn) throw new Error('No database connection');
     let idx = 0;
     const pgSql = sql.replace(/\?/g, () => `$${++idx}`);
@@ -209,16 +337,26 @@ async function execute(sql: string, params: any[] = []): Promise<{ affectedRows:
     const finalSql = isInsert ? `${pgSql} RETURNING *` : pgSql;
     const result = await conn.query(finalSql, params);
     return { affectedRows: result.rowCount || 0, insertId: result.rows?.[0]?.id || 0 };
-  } else if (dbState.currentDriver === 'sqlite') {
-    const db = tx?.conn || dbState.sqliteDb;
-    if (!db) throw new Error('No database connection');
-    const query = db.query(sql);
+  } else if (db.driver === 'sqlite') {
+    const sqlite = tx?.conn || db.sqliteDb;
+    if (!sqlite) throw new Error('No database connection');
+    const query = sqlite.query(sql);
     const result = query.run(...params);
     return { affectedRows: result.changes, insertId: result.lastInsertRowid };
   }
   throw new Error('No database connection');
 }
 
+/**
+ * Whether `execute()` failed on a primary or unique key violation, across
+ * MySQL (ER_DUP_ENTRY), Postgres (23505) and SQLite
+ */
+export function isDuplicateKeyError(e: any): boolean {
+  return e?.code === 'ER_DUP_ENTRY' || e?.code === '23505' ||
+    String(e?.code || '').startsWith('SQLITE_CONSTRAINT') ||
+    /UNIQUE constraint failed/i.test(String(e?.message));
+}
+
 // Run a raw statement on a specific transaction connection (driver-aware).
 async function runOnConn(tx: TxContext, sql: string): Promise<void> {
   if (tx.driver === 'mysql') await tx.conn.query(sql);
@@ -226,23 +364,36 @@ async function runOnConn(tx: TxContext, sql: string): Promise<void> {
   else if (tx.driver === 'sqlite') tx.conn.run(sql);
 }
 
+// Run `cb` with `ctx` registered as the active transaction for `name`, keeping
+// any transactions already open on other connections visible.
+function runInTx<T>(name: string, ctx: TxContext, cb: () => Promise<T>): Promise<T> {
+  const store = new Map(txStorage.getStore() || []);
+  store.set(name, ctx);
+  return txStorage.run(store, cb);
+}
+
 /**
  * Run `cb` inside a database transaction. Every query/execute performed within
  * the callback (across await points) runs on a single dedicated connection and
  * is committed atomically, or rolled back if `cb` throws. Nested calls use
  * SAVEPOINTs so an inner failure only rolls back the inner block.
  *
+ * The transaction is scoped to one named connection (the default when
+ * omitted); queries against other connections inside `cb` are not part of it.
+ *
  * @example
  *   await transaction(async () => {
  *     await Account.query().where('id','=',1).update({ balance: 900 });
  *     await Account.query().where('id','=',2).update({ balance: 1100 });
  *   });
+ *   await transaction(async () => { ... }, 'analytics');
  */
-export async function transaction<T>(cb: () => Promise<T>): Promise<T> {
-  const driver = dbState.currentDriver;
+export async function transaction<T>(cb: () => Promise<T>, connection?: string): Promise<T> {
+  const db = resolveConnection(connection);
+  const driver = db.driver;
 
   // Already inside a transaction → use a SAVEPOINT for partial rollback.
-  const existing = txStorage.getStore() || dbState.manualTx;
+  const existing = activeTx(db);
   if (existing) {
     const sp = `canx_sp_${++savepointCounter}`;
     await runOnConn(existing, `SAVEPOINT ${sp}`);
@@ -257,12 +408,12 @@ export async function transaction<T>(cb: () => Promise<T>): Promise<T> {
   }
 
   if (driver === 'mysql') {
-    if (!dbState.mysqlPool) throw new Error('No database connection');
-    const conn = await dbState.mysqlPool.getConnection();
+    if (!db.mysqlPool) throw new Error('No database connection');
+    const conn = await db.mysqlPool.getConnection();
     const ctx: TxContext = { driver, conn };
     try {
       await conn.beginTransaction();
-      const result = await txStorage.run(ctx, cb);
+      const result = await runInTx(db.name, ctx, cb);
       await conn.commit();
       return result;
     } catch (e) {
@@ -272,12 +423,12 @@ export async function transaction<T>(cb: () => Promise<T>): Promise<T> {
       conn.release();
     }
   } else if (driver === 'postgresql') {
-    if (!dbState.pgPool) throw new Error('No database connection');
-    const client = await dbState.pgPool.connect();
+    if (!db.pgPool) throw new Error('No database connection');
+    const client = await db.pgPool.connect();
     const ctx: TxContext = { driver, conn: client };
     try {
       await client.query('BEGIN');
-      const result = await txStorage.run(ctx, cb);
+      const result = await runInTx(db.name, ctx, cb);
       await client.query('COMMIT');
       return result;
     } catch (e) {
@@ -287,16 +438,16 @@ export async function transaction<T>(cb: () => Promise<T>): Promise<T> {
       client.release();
     }
   } else if (driver === 'sqlite') {
-    const db = dbState.sqliteDb;
-    if (!db) throw new Error('No database connection');
-    const ctx: TxContext = { driver, conn: db };
-    db.run('BEGIN');
+    const sqlite = db.sqliteDb;
+    if (!sqlite) throw new Error('No database connection');
+    const ctx: TxContext = { driver, conn: sqlite };
+    sqlite.run('BEGIN');
     try {
-      const result = await txStorage.run(ctx, cb);
-      db.run('COMMIT');
+      const result = await runInTx(db.name, ctx, cb);
+      sqlite.run('COMMIT');
       return result;
     } catch (e) {
-      try { db.run('ROLLBACK'); } catch {}
+      try { sqlite.run('ROLLBACK'); } catch {}
       throw e;
     }
   }
@@ -309,49 +460,98 @@ export async function transaction<T>(cb: () => Promise<T>): Promise<T> {
  * requests — prefer the callback form `transaction(cb)` in server code. This
  * form exists for scripts, seeders and REPL use.
  */
-export async function beginTransaction(): Promise<void> {
-  if (dbState.manualTx) throw new Error('A manual transaction is already active');
-  const driver = dbState.currentDriver;
+export async function beginTransaction(connection?: string): Promise<void> {
+  const db = resolveConnection(connection);
+  if (db.manualTx) throw new Error('A manual transaction is already active');
+  const driver = db.driver;
   if (driver === 'mysql') {
-    const conn = await dbState.mysqlPool.getConnection();
+    const conn = await db.mysqlPool.getConnection();
     await conn.beginTransaction();
-    dbState.manualTx = { driver, conn };
+    db.manualTx = { driver, conn };
   } else if (driver === 'postgresql') {
-    const client = await dbState.pgPool.connect();
+    const client = await db.pgPool.connect();
     await client.query('BEGIN');
-    dbState.manualTx = { driver, conn: client };
+    db.manualTx = { driver, conn: client };
   } else if (driver === 'sqlite') {
-    dbState.sqliteDb.run('BEGIN');
-    dbState.manualTx = { driver, conn: dbState.sqliteDb };
+    db.sqliteDb.run('BEGIN');
+    db.manualTx = { driver, conn: db.sqliteDb };
   } else {
     throw new Error('No database connection');
   }
 }
 
-export async function commit(): Promise<void> {
-  const tx = dbState.manualTx;
+export async function commit(connection?: string): Promise<void> {
+  const db = resolveConnection(connection);
+  const tx = db.manualTx;
   if (!tx) throw new Error('No active manual transaction');
-  dbState.manualTx = null;
+  db.manualTx = null;
   if (tx.driver === 'mysql') { await tx.conn.commit(); tx.conn.release(); }
   else if (tx.driver === 'postgresql') { await tx.conn.query('COMMIT'); tx.conn.release(); }
   else if (tx.driver === 'sqlite') { tx.conn.run('COMMIT'); }
 }
 
-export async function rollBack(): Promise<void> {
-  const tx = dbState.manualTx;
+export async function rollBack(connection?: string): Promise<void> {
+  const db = resolveConnection(connection);
+  const tx = db.manualTx;
   if (!tx) throw new Error('No active manual transaction');
-  dbState.manualTx = null;
+  db.manualTx = null;
   if (tx.driver === 'mysql') { await tx.conn.rollback(); tx.conn.release(); }
   else if (tx.driver === 'postgresql') { await tx.conn.query('ROLLBACK'); tx.conn.release(); }
   else if (tx.driver === 'sqlite') { tx.conn.run('ROLLBACK'); }
 }
 
+/**
+ * Run `cb` without executing any writes and return the statements it would
+ * have run. Used by `canx migrate --pretend` to review SQL before it ships.
+ */
+export async function pretend(cb: () => Promise<unknown>): Promise<PretendedQuery[]> {
+  const statements: PretendedQuery[] = [];
+  await pretendStorage.run(statements, cb);
+  return statements;
+}
+
+/** Whether the current async context is inside `pretend(cb)`. */
+export function isPretending(): boolean {
+  return pretendStorage.getStore() !== undefined;
+}
+
+/** A handle to one named connection, returned by `DB.connection(name)`. */
+export interface DatabaseConnection {
+  name: string;
+  driver: DatabaseDriver;
+  table: <T = any>(table: string) => QueryBuilder<T>;
+  raw: <T = any>(sql: string, bindings?: any[]) => Promise<T[]>;
+  statement: (sql: string, bindings?: any[]) => Promise<{ affectedRows: number; insertId: number }>;
+  transaction: <T>(cb: () => Promise<T>) => Promise<T>;
+  beginTransaction: () => Promise<void>;
+  commit: () => Promise<void>;
+  rollBack: () => Promise<void>;
+}
+
+function connection(name?: string): DatabaseConnection {
+  const db = resolveConnection(name);
+  return {
+    name: db.name,
+    driver: db.driver,
+    table: <T = any>(table: string) => new QueryBuilderImpl<T>(table).useConnection(db.name),
+    raw: <T = any>(sql: string, bindings: any[] = []) => query<T>(sql, bindings, db.name),
+    statement: (sql: string, bindings: any[] = []) => execute(sql, bindings, db.name),
+    transaction: <T>(cb: () => Promise<T>) => transaction(cb, db.name),
+    beginTransaction: () => beginTransaction(db.name),
+    commit: () => commit(db.name),
+    rollBack: () => rollBack(db.name),
+  };
+}
+
 /** Laravel-style DB facade for transactions and raw access. */
 export const DB = {
   transaction,
   beginTransaction,
   commit,
   rollBack,
+  connection,
+  pretend,
+  table: <T = any>(table: string) => new QueryBuilderImpl<T>(table),
   raw: (sql: string, bindings: any[] = []) => query(sql, bindings),
   statement: (sql: string, bindings: any[] = []) => execute(sql, bindings),
 };
@@ -470,6 +670,9 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
   // Model mapping
   private modelClass?: any;
   private withTrashed: boolean = false;
+  // Named connection (undefined = default). Taken from the model's static
+  // `connection` or set explicitly via useConnection()/DB.connection().
+  private connectionName?: string;
   
   // Eager Loading
   private withRelations: string[] = [];
@@ -479,6 +682,18 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
   constructor(table: string, modelClass?: any) { 
     this.table = table;
     this.modelClass = modelClass;
+    this.connectionName = modelClass?.connection;
+  }
+
+  /** Run this query on a named connection instead of the model's/default one. */
+  useConnection(name: string): this { this.connectionName = name; return this; }
+
+  private runQuery<R = any>(sql: string, bindings: any[]): Promise<R[]> {
+    return query<R>(sql, bindings, this.connectionName);
+  }
+
+  private runExecute(sql: string, bindings: any[]): Promise<{ affectedRows: number; insertId: number }> {
+    return execute(sql, bindings, this.connectionName);
   }
   
   // ... existing methods ...
@@ -488,6 +703,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
   // Nested condition group: where(q => q.where(...).orWhere(...)) → (a OR b).
   private addNested(boolean: 'AND' | 'OR', cb: (q: QueryBuilderImpl<T>) => void): this {
     const sub = new QueryBuilderImpl<T>(this.table, this.modelClass);
+    sub.connectionName = this.connectionName;
     cb(sub);
     const body = sub.whereClauses
       .map((c, i) => (i === 0 ? c.sql : `${c.boolean} ${c.sql}`))
@@ -619,6 +835,8 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     const relatedTable = related?.tableName || related?.name;
     const parent = this.table;
     const sub = new QueryBuilderImpl<any>(relatedTable, related);
+    // Runs inside this query, so it uses this query's connection
+    sub.connectionName = this.connectionName;
 
     let from = relatedTable;
     let correlate = '';
@@ -787,7 +1005,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
 
     // Pessimistic locking (ignored on SQLite, which has no row-level locks).
     if (this.lockMode) {
-      const driver = getCurrentDriver();
+      const driver = getCurrentDriver(this.connectionName);
       if (driver !== 'sqlite') {
         if (this.lockMode === 'update') sql += ' FOR UPDATE';
         else sql += driver === 'postgresql' ? ' FOR SHARE' : ' LOCK IN SHARE MODE';
@@ -804,7 +1022,9 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
   async get(): Promise<T[]> {
     // Query result cache (remember): serve from cache when still fresh.
     if (this.rememberTtl !== undefined) {
-      const key = this.rememberKey || `${this.buildSelect()}::${JSON.stringify(this.bindings)}`;
+      // The same SQL on two connections reads two databases, so the derived key includes the connection.
+      const connection = this.connectionName || dbState.defaultConnection;
+      const key = this.rememberKey || `${connection}::${this.buildSelect()}::${JSON.stringify(this.bindings)}`;
       const hit = queryCache.get(key);
       if (hit && hit.expires > Date.now()) return hit.value as T[];
       const fresh = await this.runGet();
@@ -815,7 +1035,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
   }
 
   private async runGet(): Promise<T[]> {
-    const rows = await query<any>(this.buildSelect(), this.bindings);
+    const rows = await this.runQuery<any>(this.buildSelect(), this.bindings);
     let results: T[] = rows as T[];
 
     if (this.modelClass) {
@@ -951,7 +1171,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
           const pivotDefaultKeys = Object.keys(info.pivotDefaults || {});
           const pivotDefaultFilter = pivotDefaultKeys.map(k => ` AND ${k} = ?`).join('');
           const pivotSql = `SELECT * FROM ${info.pivotTable} WHERE ${info.foreignPivotKey} IN (${uniqueIds.map(() => '?').join(',')})${pivotDefaultFilter}`;
-          const pivotRows = await query<any>(pivotSql, [...uniqueIds, ...pivotDefaultKeys.map(k => info.pivotDefaults![k])]);
+          const pivotRows = await this.runQuery<any>(pivotSql, [...uniqueIds, ...pivotDefaultKeys.map(k => info.pivotDefaults![k])]);
           
           if (pivotRows.length === 0) {
              for (const parent of results) {
@@ -1017,7 +1237,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
           const sql = `SELECT ${relatedTable}.*, ${throughTable}.${firstKey} AS __through_key FROM ${relatedTable} ` +
               `INNER JOIN ${throughTable} ON ${throughTable}.id = ${relatedTable}.${secondKey} ` +
               `WHERE ${throughTable}.${firstKey} IN (${uniqueIds.map(() => '?').join(',')})`;
-          const rows = await query<any>(sql, uniqueIds);
+          const rows = await this.runQuery<any>(sql, uniqueIds);
 
           for (const parent of results) {
              const parentId = parent[localKey];
@@ -1094,7 +1314,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     this.limitVal = undefined;
     this.offsetVal = undefined;
     try {
-      const r = await query<any>(this.buildSelect(), this.bindings);
+      const r = await this.runQuery<any>(this.buildSelect(), this.bindings);
       return Number((r[0] as any)?.agg) || 0;
     } finally {
       this.selectCols = prevSel;
@@ -1136,7 +1356,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     const values = items.map(item => keys.map(k => (item as any)[k]));
     const placeholders = values.map(() => `(${keys.map(() => '?').join(',')})`).join(',');
     const sql = `INSERT INTO ${this.table} (${keys.join(',')}) VALUES ${placeholders}`;
-    const result = await execute(sql, values.flat());
+    const result = await this.runExecute(sql, values.flat());
 
     if (this.modelClass) {
        return new this.modelClass().forceFill({ ...(items[0] as any), id: result.insertId });
@@ -1151,11 +1371,11 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     const keys = Object.keys(items[0]!);
     const values = items.map(item => keys.map(k => (item as any)[k]));
     const placeholders = values.map(() => `(${keys.map(() => '?').join(',')})`).join(',');
-    const driver = getCurrentDriver();
+    const driver = getCurrentDriver(this.connectionName);
     let sql = driver === 'mysql'
       ? `INSERT IGNORE INTO ${this.table} (${keys.join(',')}) VALUES ${placeholders}`
       : `INSERT INTO ${this.table} (${keys.join(',')}) VALUES ${placeholders} ON CONFLICT DO NOTHING`;
-    const result = await execute(sql, values.flat());
+    const result = await this.runExecute(sql, values.flat());
     return result.affectedRows;
   }
 
@@ -1175,14 +1395,14 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     const placeholders = values.map(() => `(${keys.map(() => '?').join(',')})`).join(',');
     const cols = (updateCols && updateCols.length ? updateCols : keys.filter(k => !uniqueBy.includes(k)));
     cols.forEach(k => assertIdentifier(k, 'column'));
-    const driver = getCurrentDriver();
+    const driver = getCurrentDriver(this.connectionName);
     let sql = `INSERT INTO ${this.table} (${keys.join(',')}) VALUES ${placeholders}`;
     if (driver === 'mysql') {
       sql += ' ON DUPLICATE KEY UPDATE ' + cols.map(c => `${c}=VALUES(${c})`).join(', ');
     } else {
       sql += ` ON CONFLICT (${uniqueBy.join(',')}) DO UPDATE SET ` + cols.map(c => `${c}=EXCLUDED.${c}`).join(', ');
     }
-    const result = await execute(sql, values.flat());
+    const result = await this.runExecute(sql, values.flat());
     return result.affectedRows;
   }
 
@@ -1209,7 +1429,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     let sql = `UPDATE ${this.table} SET ${sets}`;
     if (this.whereClauses.length) sql += ' WHERE ' + this.buildWhere();
 
-    const result = await execute(sql, [...vals, ...this.bindings]);
+    const result = await this.runExecute(sql, [...vals, ...this.bindings]);
     return result.affectedRows;
   }
 
@@ -1221,14 +1441,14 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
 
     let sql = `DELETE FROM ${this.table}`;
     if (this.whereClauses.length) sql += ' WHERE ' + this.buildWhere();
-    const result = await execute(sql, this.bindings);
+    const result = await this.runExecute(sql, this.bindings);
     return result.affectedRows;
   }
 
   async forceDelete(): Promise<number> {
      let sql = `DELETE FROM ${this.table}`;
      if (this.whereClauses.length) sql += ' WHERE ' + this.buildWhere();
-     const result = await execute(sql, this.bindings);
+     const result = await this.runExecute(sql, this.bindings);
      return result.affectedRows;
   }
 
@@ -1267,13 +1487,13 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
 
     for (const id of list) {
       // Avoid duplicate pivot rows
-      const existing = await query(
+      const existing = await this.runQuery(
         `SELECT ${info.relatedPivotKey} FROM ${info.pivotTable} WHERE ${info.foreignPivotKey} = ? AND ${info.relatedPivotKey} = ?${defaultFilter}`,
         [info.parentId, id, ...defaultVals]
       );
       if (existing.length > 0) continue;
 
-      await execute(
+      await this.runExecute(
         `INSERT INTO ${info.pivotTable} (${cols.join(',')}) VALUES (${cols.map(() => '?').join(',')})`,
         [info.parentId, id, ...extraKeys.map(k => data[k])]
       );
@@ -1288,7 +1508,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     const defaultVals = defaultKeys.map(k => info.pivotDefaults![k]);
 
     if (ids === undefined) {
-      await execute(
+      await this.runExecute(
         `DELETE FROM ${info.pivotTable} WHERE ${info.foreignPivotKey} = ?${defaultFilter}`,
         [info.parentId, ...defaultVals]
       );
@@ -1298,7 +1518,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     const list = Array.isArray(ids) ? ids : [ids];
     if (list.length === 0) return;
 
-    await execute(
+    await this.runExecute(
       `DELETE FROM ${info.pivotTable} WHERE ${info.foreignPivotKey} = ? AND ${info.relatedPivotKey} IN (${list.map(() => '?').join(',')})${defaultFilter}`,
       [info.parentId, ...list, ...defaultVals]
     );
@@ -1310,7 +1530,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     await this.attach(ids, pivotData);
   }
 
-  async raw(sql: string, bindings: any[] = []): Promise<any> { return query(sql, bindings); }
+  async raw(sql: string, bindings: any[] = []): Promise<any> { return this.runQuery(sql, bindings); }
 
   /**
    * Paginate results
@@ -1339,7 +1559,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     this.offsetVal = prevOffset;
     this.orderClauses = prevOrder;
 
-    const countRows = await query<any>(`SELECT COUNT(*) as total FROM (${innerSql}) as __cnt`, this.bindings);
+    const countRows = await this.runQuery<any>(`SELECT COUNT(*) as total FROM (${innerSql}) as __cnt`, this.bindings);
     const total = Number(countRows[0]?.total) || 0;
 
     // Calculate pagination
@@ -1372,6 +1592,9 @@ export abstract class Model<T = any> {
   protected static softDeletes: boolean = false;
   protected static deletedAtColumn: string = 'deleted_at';
   
+  // Named database connection; undefined uses the default connection
+  protected static connection?: string;
+  
   // Mass Assignment Protection
   protected static fillable: string[] = [];
   protected static guarded: string[] = ['id', 'created_at', 'updated_at', 'deleted_at'];
@@ -1828,7 +2051,7 @@ export abstract class Model<T = any> {
       return qb;
   }
   static table<T extends Model>(this: (abstract new (...a: any[]) => T) & typeof Model): QueryBuilder<T> {
-    registerModel(this);
+    rememberModel(this);
     return new QueryBuilderImpl<T>((this as any).tableName, this);
   }
 
@@ -1839,7 +2062,7 @@ export abstract class Model<T = any> {
 
   // Chainable query builder
   static query<T extends Model>(this: (abstract new (...a: any[]) => T) & typeof Model): QueryBuilder<T> {
-    registerModel(this);
+    rememberModel(this);
     return new QueryBuilderImpl<T>((this as any).tableName, this);
   }
 
@@ -0,0 +1,101 @@
+/**
+ * CanxJS Database Notifications - Persistent notifications with read/unread state
+ */
+
+import { Model } from '../mvc/Model';
+import type { CastType, QueryBuilder } from '../types';
+import type { Notifiable } from './Notification';
+
+/**
+ * Type recorded for a notifiable: `getNotifiableType()` when defined, else its class name
+ */
+export function notifiableType(notifiable: Notifiable): string {
+  return notifiable.getNotifiableType?.() ?? notifiable.constructor.name;
+}
+
+function now(): string {
+  return new Date().toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * A notification stored by the `database` channel.
+ *
+ * NOTE: the consumer must have created the table beforehand, e.g.:
+ *
+ *   CREATE TABLE notifications (
+ *     id              INTEGER PRIMARY KEY AUTOINCREMENT,
+ *     type            VARCHAR(255) NOT NULL,
+ *     notifiable_type VARCHAR(255) NOT NULL,
+ *     notifiable_id   VARCHAR(64) NOT NULL,
+ *     data            TEXT NOT NULL,
+ *     read_at         DATETIME NULL,
+ *     created_at      DATETIME,
+ *     updated_at      DATETIME
+ *   );
+ *   CREATE INDEX notifications_notifiable ON notifications (notifiable_type, notifiable_id);
+ *
+ * @example
+ * const unread = await DatabaseNotification.unreadFor(user).get();
+ * await unread[0].markAsRead();
+ */
+export class DatabaseNotification extends Model {
+  protected static tableName = 'notifications';
+  protected casts: Record<string, CastType> = { data: 'json' };
+
+  /**
+   * Query a notifiable's notifications, newest first
+   */
+  static forNotifiable(notifiable: Notifiable): QueryBuilder<DatabaseNotification> {
+    return (this as typeof DatabaseNotification).query<DatabaseNotification>()
+      .where('notifiable_type', '=', notifiableType(notifiable))
+      .where('notifiable_id', '=', String(notifiable.id))
+      .orderBy('id', 'desc');
+  }
+
+  /**
+   * Query a notifiable's unread notifications, newest first
+   */
+  static unreadFor(notifiable: Notifiable): QueryBuilder<DatabaseNotification> {
+    return this.forNotifiable(notifiable).whereNull('read_at');
+  }
+
+  /**
+   * Query a notifiable's read notifications, newest first
+   */
+  static readFor(notifiable: Notifiable): QueryBuilder<DatabaseNotification> {
+    return this.forNotifiable(notifiable).whereNotNull('read_at');
+  }
+
+  /**
+   * Mark every unread notification of a notifiable as read. Resolves to the number updated.
+   */
+  static async markAllAsRead(notifiable: Notifiable): Promise<number> {
+    return this.unreadFor(notifiable).update({ read_at: now() } as any);
+  }
+
+  async markAsRead(): Promise<this> {
+    if (!this.read_at) {
+      this.read_at = now();
+      await this.save();
+    }
+    return this;
+  }
+
+  async markAsUnread(): Promise<this> {
+    if (this.read_at) {
+      this.read_at = null;
+      await this.save();
+    }
+    return this;
+  }
+
+  read(): boolean {
+    return this.read_at !== null && this.read_at !== undefined;
+  }
+
+  unread(): boolean {
+    return !this.read();
+  }
+}
+
+export default DatabaseNotification;
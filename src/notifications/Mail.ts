@@ -2,7 +2,7 @@
  * CanxJS Mail - Email sending with multiple transport support
  */
 
-import type { MailMessage, MailConfig, MailTransport, MailAddress, MailAttachment } from './mail/types';
+import type { MailMessage, MailConfig, MailTransport, MailAddress, MailAttachment, MailSendResult } from './mail/types';
 import { LogDriver } from './mail/drivers/LogDriver';
 import { SmtpDriver } from './mail/drivers/SmtpDriver';
 import { SendGridDriver } from './mail/drivers/SendGridDriver';
@@ -10,10 +10,18 @@ import { ResendDriver } from './mail/drivers/ResendDriver';
 import { MailgunDriver } from './mail/drivers/MailgunDriver';
 import { SesDriver } from './mail/drivers/SesDriver';
 import { ArrayDriver } from './mail/drivers/ArrayDriver';
+import { FailoverDriver, type NamedTransport } from './mail/drivers/FailoverDriver';
+import { RoundRobinDriver } from './mail/drivers/RoundRobinDriver';
+import { renderMarkdownMail, loadMarkdownView, type MarkdownMailOptions } from './mail/Markdown';
 import { view as renderView } from '../mvc/View';
+import { queue as defaultQueue, type Queue, type DispatchOptions } from '../queue/Queue';
+import { events } from '../events/EventEmitter';
 
 // Re-export types for consumers
-export type { MailMessage, MailConfig, MailTransport, MailAddress, MailAttachment };
+export type { MailMessage, MailConfig, MailTransport, MailAddress, MailAttachment, MailSendResult };
+
+/** Job that sends a queued mail message */
+export const SEND_MAIL_JOB = 'mail:send';
 
 // ============================================
 // Mailer Class
@@ -22,45 +30,60 @@ export type { MailMessage, MailConfig, MailTransport, MailAddress, MailAttachmen
 export class Mailer {
   private config: MailConfig;
   private transport: MailTransport;
+  private jobQueue: Queue | null = null;
 
   constructor(config: MailConfig) {
     this.config = config;
-    this.transport = this.createTransport();
-  }
-
-  private createTransport(): MailTransport {
-    switch (this.config.transport) {
-      case 'smtp':
-        if (!this.config.smtp) throw new Error('SMTP config requirement missing');
-        return new SmtpDriver(this.config.smtp);
-      case 'sendgrid':
-        if (!this.config.sendgrid) throw new Error('SendGrid config requirement missing');
-        return new SendGridDriver(this.config.sendgrid);
-      case 'resend':
-        if (!this.config.resend) throw new Error('Resend config requirement missing');
-        return new ResendDriver(this.config.resend);
-      case 'mailgun':
-        if (!this.config.mailgun) throw new Error('Mailgun config requirement missing');
-        return new MailgunDriver(this.config.mailgun);
-      case 'ses':
-        if (!this.config.ses) throw new Error('SES config requirement missing');
-        return new SesDriver(this.config.ses);
-      case 'array':
-        return new ArrayDriver();
-      case 'log':
-      default:
-        return new LogDriver();
-    }
+    this.transport = createMailTransport(config);
   }
 
   /**
    * Send an email
    */
-  async send(message: MailMessage): Promise<{ messageId: string; success: boolean }> {
+  async send(message: MailMessage): Promise<MailSendResult> {
     if (!message.from && this.config.from) {
       message.from = this.config.from;
     }
-    return this.transport.send(message);
+
+    events.emit('mail:sending', { message });
+    let result: MailSendResult;
+    try {
+      result = await this.transport.send(message);
+    } catch (error) {
+      events.emit('mail:failed', { message, error });
+      throw error;
+    }
+    events.emit(result.success ? 'mail:sent' : 'mail:failed', { message, ...result, transport: result.transport ?? this.config.transport });
+    return result;
+  }
+
+  /**
+   * Send from a queue worker instead of the current request. The worker sends
+   * through its own `mail()` mailer, so it must call `initMail()` too.
+   */
+  async queue(message: MailMessage, options: DispatchOptions = {}): Promise<string | null> {
+    const queue = this.jobQueue ?? defaultQueue;
+    defineMailJob(queue);
+
+    if (!message.from && this.config.from) {
+      message = { ...message, from: this.config.from };
+    }
+    return queue.dispatch(SEND_MAIL_JOB, serializeMessage(message), options);
+  }
+
+  /**
+   * Queue used by `queue()` (null: the global queue)
+   */
+  useQueue(queue: Queue | null): this {
+    this.jobQueue = queue;
+    return this;
+  }
+
+  /**
+   * Theme, header and footer options for Markdown mail
+   */
+  getMarkdownOptions(): MarkdownMailOptions {
+    return this.config.markdown ?? {};
   }
 
   /**
@@ -71,6 +94,92 @@ export class Mailer {
   }
 }
 
+/**
+ * Create the transport a mail config describes
+ */
+export function createMailTransport(config: MailConfig): MailTransport {
+  switch (config.transport) {
+    case 'smtp':
+      if (!config.smtp) throw new Error('SMTP config requirement missing');
+      return new SmtpDriver(config.smtp);
+    case 'sendgrid':
+      if (!config.sendgrid) throw new Error('SendGrid config requirement missing');
+      return new SendGridDriver(config.sendgrid);
+    case 'resend':
+      if (!config.resend) throw new Error('Resend config requirement missing');
+      return new ResendDriver(config.resend);
+    case 'mailgun':
+      if (!config.mailgun) throw new Error('Mailgun config requirement missing');
+      return new MailgunDriver(config.mailgun);
+    case 'ses':
+      if (!config.ses) throw new Error('SES config requirement missing');
+      return new SesDriver(config.ses);
+    case 'array':
+      return new ArrayDriver();
+    case 'failover':
+      if (!config.failover) throw new Error('Failover config requirement missing');
+      return new FailoverDriver(namedTransports(config.failover.transports));
+    case 'roundrobin':
+      if (!config.roundrobin) throw new Error('Round-robin config requirement missing');
+      return new RoundRobinDriver(namedTransports(config.roundrobin.transports), config.roundrobin.retryAfter);
+    case 'log':
+    default:
+      return new LogDriver();
+  }
+}
+
+// Name each transport for events: its config's transport name, or its class
+function namedTransports(transports: (MailConfig | MailTransport)[]): NamedTransport[] {
+  const seen = new Map<string, number>();
+  return transports.map(entry => {
+    const isConfig = 'transport' in entry && typeof entry.transport === 'string';
+    const base = isConfig ? (entry as MailConfig).transport : entry.constructor.name;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return {
+      name: count > 1 ? `${base}#${count}` : base,
+      transport: isConfig ? createMailTransport(entry as MailConfig) : entry as MailTransport,
+    };
+  });
+}
+
+// Jobs are JSON, so Buffer attachments travel as base64
+function serializeMessage(message: MailMessage): MailMessage {
+  if (!message.attachments) return message;
+  return {
+    ...message,
+    attachments: message.attachments.map(attachment =>
+      Buffer.isBuffer(attachment.content)
+        ? { ...attachment, content: attachment.content.toString('base64'), encoding: 'base64' }
+        : attachment
+    ),
+  };
+}
+
+function deserializeMessage(message: MailMessage): MailMessage {
+  if (!message.attachments) return message;
+  return {
+    ...message,
+    attachments: message.attachments.map(attachment =>
+      attachment.encoding === 'base64' && typeof attachment.content === 'string'
+        ? { ...attachment, content: Buffer.from(attachment.content, 'base64'), encoding: undefined }
+        : attachment
+    ),
+  };
+}
+
+const mailJobQueues = new WeakSet<Queue>();
+
+function defineMailJob(queue: Queue): void {
+  if (mailJobQueues.has(queue)) return;
+  mailJobQueues.add(queue);
+  queue.define(SEND_MAIL_JOB, async (message: MailMessage) => {
+    const result = await mail().send(deserializeMessage(message));
+    // Let the queue retry deliveries the transport reports as failed
+    if (!result.success) throw new Error(`Failed to send mail "${message.subject}"`);
+  });
+}
+
 // ============================================
 // Mail Builder (Fluent API)
 // ============================================
@@ -124,6 +233,27 @@ export class MailBuilder {
     return this;
   }
 
+  /**
+   * Render a Markdown mail view (`emails.welcome` -> views/emails/welcome.md)
+   * into the themed layout, with a plain-text alternative unless `text()` was set
+   */
+  async markdown(view: string, data: Record<string, unknown> = {}): Promise<this> {
+    return this.markdownSource(await loadMarkdownView(view), data);
+  }
+
+  /**
+   * Same as `markdown()`, from a Markdown string instead of a view file
+   */
+  markdownSource(source: string, data: Record<string, unknown> = {}): this {
+    const { html, text } = renderMarkdownMail(source, data, {
+      ...this.mailer.getMarkdownOptions(),
+      subject: this.message.subject,
+    });
+    this.message.html = html;
+    this.message.text ??= text;
+    return this;
+  }
+
   html(content: string): this {
     this.message.html = content;
     return this;
@@ -141,14 +271,32 @@ export class MailBuilder {
     return this;
   }
 
+  /**
+   * The message built so far
+   */
+  getMessage(): Partial<MailMessage> {
+    return this.message;
+  }
+
   async send(): Promise<{ messageId: string; success: boolean }> {
+    return this.mailer.send(this.validated());
+  }
+
+  /**
+   * Send from a queue worker; resolves to the job id
+   */
+  async queue(options: DispatchOptions = {}): Promise<string | null> {
+    return this.mailer.queue(this.validated(), options);
+  }
+
+  private validated(): MailMessage {
     if (!this.message.to || this.message.to.length === 0) {
       throw new Error('Email must have at least one recipient');
     }
     if (!this.message.subject) {
       throw new Error('Email must have a subject');
     }
-    return this.mailer.send(this.message as MailMessage);
+    return this.message as MailMessage;
   }
 }
 
@@ -0,0 +1,107 @@
+/**
+ * CanxJS Mailable - Reusable mail messages and a development preview route
+ */
+
+import { mail, type Mailer, MailBuilder, type MailAddress } from './Mail';
+import type { DispatchOptions } from '../queue/Queue';
+import type { CanxRequest, CanxResponse } from '../types';
+
+// ============================================
+// Mailable
+// ============================================
+
+/**
+ * A mail message defined as a class, so it can be sent, queued and previewed
+ *
+ * @example
+ * class InvoicePaidMail extends Mailable {
+ *   constructor(private invoice: Invoice) { super(); }
+ *
+ *   async build(message: MailBuilder) {
+ *     await message.subject(`Invoice ${this.invoice.number} paid`)
+ *       .markdown('emails.invoice-paid', { invoice: this.invoice });
+ *   }
+ * }
+ *
+ * await new InvoicePaidMail(invoice).queue(user.email);
+ */
+export abstract class Mailable {
+  /**
+   * Set the subject and content (and optionally sender, attachments, ...)
+   */
+  abstract build(message: MailBuilder): void | MailBuilder | Promise<void | MailBuilder>;
+
+  /**
+   * Build the message without recipients, e.g. to preview it
+   */
+  async render(mailer: Mailer = mail()): Promise<MailBuilder> {
+    const message = mailer.create();
+    await this.build(message);
+    return message;
+  }
+
+  async send(to: MailAddress | string | (MailAddress | string)[], mailer: Mailer = mail()) {
+    return (await this.render(mailer)).to(to).send();
+  }
+
+  /**
+   * Send from a queue worker; resolves to the job id
+   */
+  async queue(to: MailAddress | string | (MailAddress | string)[], options: DispatchOptions = {}, mailer: Mailer = mail()) {
+    return (await this.render(mailer)).to(to).queue(options);
+  }
+}
+
+// ============================================
+// Preview Route
+// ============================================
+
+export interface MailPreviewOptions {
+  /** Serve previews even when NODE_ENV is 'production' (default false) */
+  enabled?: boolean;
+}
+
+/**
+ * Route handler that renders mailables in the browser. Mount it on a path and
+ * a child path with a `:mailable` param; the first lists the previews, the
+ * second renders one (`?format=text` shows the plain-text alternative).
+ * Responds 404 in production.
+ *
+ * @example
+ * const preview = mailPreviewRoutes({
+ *   'invoice-paid': () => new InvoicePaidMail(fakeInvoice()),
+ * });
+ * router.get('/mail-preview', preview);
+ * router.get('/mail-preview/:mailable', preview);
+ */
+export function mailPreviewRoutes(
+  mailables: Record<string, () => Mailable | Promise<Mailable>>,
+  options: MailPreviewOptions = {}
+): (req: CanxRequest, res: CanxResponse) => Promise<Response> {
+  return async (req, res) => {
+    const enabled = options.enabled ?? process.env.NODE_ENV !== 'production';
+    if (!enabled) {
+      return res.status(404).text('Not Found');
+    }
+
+    const name = req.params.mailable;
+    if (!name) {
+      const base = req.path.replace(/\/$/, '');
+      const links = Object.keys(mailables)
+        .map(key => `<li><a href="${base}/${encodeURIComponent(key)}">${key}</a></li>`)
+        .join('');
+      return res.html(`<!DOCTYPE html><html><head><title>Mail previews</title></head><body><h1>Mail previews</h1><ul>${links}</ul></body></html>`);
+    }
+
+    const factory = mailables[name];
+    if (!factory) {
+      return res.status(404).text(`No mailable named "${name}"`);
+    }
+
+    const message = (await (await factory()).render()).getMessage();
+    if (req.query.format === 'text') {
+      return res.text(message.text ?? '');
+    }
+    return res.html(message.html ?? `<pre>${(message.text ?? '').replace(/</g, '&lt;')}</pre>`);
+  };
+}
@@ -4,12 +4,16 @@
 
 import { mail, sendMail, type MailMessage } from './Mail';
 import { events } from '../events/EventEmitter';
+import { queue as defaultQueue, type Queue } from '../queue/Queue';
+import { DatabaseNotification, notifiableType } from './DatabaseNotification';
+import type { NotificationPreferenceStore } from './NotificationPreferences';
 
 // ============================================
 // Types
 // ============================================
 
-export type NotificationChannel = 'mail' | 'database' | 'broadcast' | 'sms' | 'slack' | 'push';
+/** Built-in channels, plus any name registered with `notifications.extend()` */
+export type NotificationChannel = 'mail' | 'database' | 'broadcast' | 'sms' | 'slack' | 'push' | (string & {});
 
 export interface NotificationData {
   [key: string]: unknown;
@@ -20,8 +24,63 @@ export interface Notifiable {
   email?: string;
   phone?: string;
   routeNotificationFor(channel: NotificationChannel): string | undefined;
+  /** Type stored with database notifications and preferences (default: the class name) */
+  getNotifiableType?(): string;
 }
 
+/**
+ * Delivers notifications for one channel
+ *
+ * @example
+ * notifications.extend('teams', {
+ *   async send(notifiable, notification) {
+ *     const card = (notification as any).toTeams(notifiable);
+ *     await fetch(notifiable.routeNotificationFor('teams')!, { method: 'POST', body: JSON.stringify(card) });
+ *   },
+ * });
+ */
+export interface NotificationChannelDriver {
+  send(notifiable: Notifiable, notification: Notification): Promise<void> | void;
+}
+
+/**
+ * Notifications implementing this are sent from a queue worker, one job per
+ * channel, so a failing channel is retried without resending the others.
+ *
+ * @example
+ * class InvoicePaid extends Notification<{ invoiceId: number }> implements ShouldQueue {
+ *   queue = true as const;
+ *   tries = { mail: 5, sms: 2 };
+ *   via() { return ['mail', 'sms', 'database']; }
+ * }
+ */
+export interface ShouldQueue {
+  queue: true;
+  /** Queue to dispatch on (default 'default') */
+  onQueue?: string;
+  /** Attempts per channel (default 3), or per-channel counts such as { mail: 5 } */
+  tries?: number | Partial<Record<NotificationChannel, number>>;
+  /** Retry delay in ms, or a per-attempt schedule */
+  backoff?: number | number[];
+  /** Delay before sending in ms */
+  delay?: number;
+}
+
+/** Job that delivers one channel of a queued notification */
+export const SEND_NOTIFICATION_JOB = 'notifications:send';
+
+interface QueuedNotification {
+  channel: NotificationChannel;
+  notification: { type: string; attributes: Record<string, unknown> };
+  /** Reloaded by id in the worker, so none of its attributes are queued */
+  notifiable: { type: string; id: string | number };
+}
+
+type NotificationClass = new (...args: any[]) => Notification;
+
+/** A model notifiable, found again by id when its queued notification is sent */
+type NotifiableClass = { name: string; prototype: object; find(id: string | number): Promise<Notifiable | null> };
+
 // ============================================
 // Base Notification Class
 // ============================================
@@ -89,18 +148,46 @@ class NotificationSender {
   private slackHandler?: (webhook: string, message: Record<string, unknown>) => Promise<void>;
   private pushHandler?: (notifiable: Notifiable, notification: { title: string; body: string; data?: Record<string, unknown> }) => Promise<void>;
 
+  private channels = new Map<string, NotificationChannelDriver>();
+  private classes = new Map<string, NotificationClass>();
+  private notifiables = new Map<string, NotifiableClass>();
+  private preferences: NotificationPreferenceStore | null = null;
+  private jobQueue: Queue | null = null;
+  private jobDefinedOn: Queue | null = null;
+
+  constructor() {
+    this.registerBuiltInChannels();
+  }
+
   /**
-   * Send a notification to a notifiable
+   * Send a notification to a notifiable. Notifications implementing
+   * `ShouldQueue` are dispatched to the queue, one job per channel.
    */
   async send(notifiable: Notifiable, notification: Notification): Promise<void> {
-    const channels = notification.via(notifiable);
+    const channels = await this.channelsFor(notifiable, notification);
+
+    if (notification.queue) {
+      await this.dispatch(notifiable, notification, channels);
+      return;
+    }
 
     for (const channel of channels) {
       try {
-        await this.sendViaChannel(notifiable, notification, channel);
-        events.emit('notification:sent', { notifiable, notification, channel });
+        await this.deliver(notifiable, notification, channel);
+      } catch (error) {
+        console.error(`[Notification] Failed to send via ${channel}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Send immediately, even when the notification implements `ShouldQueue`
+   */
+  async sendNow(notifiable: Notifiable, notification: Notification): Promise<void> {
+    for (const channel of await this.channelsFor(notifiable, notification)) {
+      try {
+        await this.deliver(notifiable, notification, channel);
       } catch (error) {
-        events.emit('notification:failed', { notifiable, notification, channel, error });
         console.error(`[Notification] Failed to send via ${channel}:`, error);
       }
     }
@@ -115,66 +202,204 @@ class NotificationSender {
     }
   }
 
-  private async sendViaChannel(
-    notifiable: Notifiable,
-    notification: Notification,
-    channel: NotificationChannel
-  ): Promise<void> {
-    switch (channel) {
-      case 'mail':
-        if (notification.toMail) {
-          const mailData = await notification.toMail(notifiable);
-          const recipient = notifiable.routeNotificationFor('mail') || notifiable.email;
-          if (recipient) {
-            await sendMail({ ...mailData, to: [recipient] });
-          }
-        }
-        break;
-
-      case 'database':
-        if (notification.toDatabase && this.databaseHandler) {
-          const data = notification.toDatabase(notifiable);
-          await this.databaseHandler(notifiable, {
-            type: notification.type(),
-            data,
-            read_at: null,
-            created_at: new Date().toISOString(),
-          });
-        }
-        break;
-
-      case 'broadcast':
-        if (notification.toBroadcast && this.broadcastHandler) {
-          const broadcastData = notification.toBroadcast(notifiable);
-          this.broadcastHandler(broadcastData);
-        }
-        break;
-
-      case 'sms':
-        if (notification.toSms && this.smsHandler) {
-          const smsData = notification.toSms(notifiable);
-          await this.smsHandler(smsData.to, smsData.message);
-        }
-        break;
-
-      case 'slack':
-        if (notification.toSlack && this.slackHandler) {
-          const slackData = notification.toSlack(notifiable);
-          await this.slackHandler(slackData.webhook, slackData.message);
-        }
-        break;
-
-      case 'push':
-        if (notification.toPush && this.pushHandler) {
-          const pushData = notification.toPush(notifiable);
-          await this.pushHandler(notifiable, pushData);
-        }
-        break;
+  /**
+   * Register a custom channel, or replace a built-in one
+   */
+  extend(
+    name: NotificationChannel,
+    driver: NotificationChannelDriver | NotificationChannelDriver['send']
+  ): this {
+    this.channels.set(name, typeof driver === 'function' ? { send: driver } : driver);
+    return this;
+  }
+
+  /**
+   * Whether a channel is registered
+   */
+  hasChannel(name: NotificationChannel): boolean {
+    return this.channels.has(name);
+  }
+
+  /**
+   * Skip the channels each notifiable has opted out of
+   */
+  usePreferences(store: NotificationPreferenceStore | null): this {
+    this.preferences = store;
+    return this;
+  }
+
+  /**
+   * Queue used for `ShouldQueue` notifications (null: the global queue)
+   */
+  useQueue(queue: Queue | null): this {
+    this.jobQueue = queue;
+    return this;
+  }
+
+  /**
+   * Make notification and notifiable model classes known to this process, so
+   * a worker can rebuild queued notifications and reload their notifiables.
+   * Classes sent from the same process register themselves.
+   */
+  register(...classes: (NotificationClass | NotifiableClass)[]): this {
+    for (const cls of classes) {
+      if (cls.prototype instanceof Notification) {
+        this.classes.set((cls.prototype as Notification).type(), cls as NotificationClass);
+      } else {
+        this.notifiables.set((cls.prototype as Notifiable).getNotifiableType?.() ?? cls.name, cls as NotifiableClass);
+      }
     }
+    this.defineJob();
+    return this;
+  }
+
+  private async channelsFor(notifiable: Notifiable, notification: Notification): Promise<NotificationChannel[]> {
+    const channels = notification.via(notifiable);
+    if (!this.preferences) return channels;
+
+    const allowed: NotificationChannel[] = [];
+    for (const channel of channels) {
+      if (await this.preferences.allows(notifiable, notification.type(), channel)) allowed.push(channel);
+    }
+    return allowed;
+  }
+
+  /**
+   * Deliver through one channel; throws so queued jobs can retry
+   */
+  private async deliver(notifiable: Notifiable, notification: Notification, channel: NotificationChannel): Promise<void> {
+    const driver = this.channels.get(channel);
+    if (!driver) throw new Error(`Notification channel "${channel}" is not registered`);
+
+    try {
+      await driver.send(notifiable, notification);
+      events.emit('notification:sent', { notifiable, notification, channel });
+    } catch (error) {
+      events.emit('notification:failed', { notifiable, notification, channel, error });
+      throw error;
+    }
+  }
+
+  private async dispatch(notifiable: Notifiable, notification: Notification, channels: NotificationChannel[]): Promise<void> {
+    const queue = this.defineJob();
+    const options = notification as Notification & Partial<ShouldQueue>;
+    this.classes.set(notification.type(), notification.constructor as NotificationClass);
+
+    const type = notifiableType(notifiable);
+    const NotifiableModel = notifiable.constructor as unknown as NotifiableClass;
+    if (typeof NotifiableModel.find !== 'function') {
+      throw new Error(`Queued notifications need a model notifiable with find(); ${type} has none`);
+    }
+    this.notifiables.set(type, NotifiableModel);
+
+    for (const channel of channels) {
+      const job: QueuedNotification = {
+        channel,
+        notification: { type: notification.type(), attributes: toAttributes(notification) },
+        notifiable: { type, id: notifiable.id },
+      };
+      const tries = typeof options.tries === 'object' ? options.tries[channel] : options.tries;
+
+      await queue.dispatch(SEND_NOTIFICATION_JOB, job, {
+        queue: options.onQueue,
+        delay: options.delay,
+        backoff: options.backoff,
+        tries: tries ?? 3,
+      });
+    }
+  }
+
+  // Define the job on the queue in use the first time it is needed
+  private defineJob(): Queue {
+    const queue = this.jobQueue ?? defaultQueue;
+    if (this.jobDefinedOn !== queue) {
+      queue.define(SEND_NOTIFICATION_JOB, (job: QueuedNotification) => this.handleJob(job));
+      this.jobDefinedOn = queue;
+    }
+    return queue;
+  }
+
+  private async handleJob(job: QueuedNotification): Promise<void> {
+    const NotificationClass = this.classes.get(job.notification.type);
+    if (!NotificationClass) {
+      throw new Error(`Unknown notification ${job.notification.type}; call notifications.register(${job.notification.type})`);
+    }
+
+    const NotifiableModel = this.notifiables.get(job.notifiable.type);
+    if (!NotifiableModel) {
+      throw new Error(`Unknown notifiable ${job.notifiable.type}; call notifications.register(${job.notifiable.type})`);
+    }
+
+    const notification = Object.assign(Object.create(NotificationClass.prototype), job.notification.attributes) as Notification;
+    // A notifiable deleted since the notification was queued gets nothing
+    const notifiable = await NotifiableModel.find(job.notifiable.id);
+    if (!notifiable) return;
+
+    await this.deliver(notifiable, notification, job.channel);
+  }
+
+  private registerBuiltInChannels(): void {
+    this.extend('mail', async (notifiable, notification) => {
+      if (!notification.toMail) return;
+      const mailData = await notification.toMail(notifiable);
+      const recipient = notifiable.routeNotificationFor('mail') || notifiable.email;
+      if (recipient) {
+        await sendMail({ ...mailData, to: [recipient] });
+      }
+    });
+
+    this.extend('database', async (notifiable, notification) => {
+      if (!notification.toDatabase) return;
+      const data = notification.toDatabase(notifiable);
+
+      if (this.databaseHandler) {
+        await this.databaseHandler(notifiable, {
+          type: notification.type(),
+          data,
+          read_at: null,
+          created_at: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await DatabaseNotification.create({
+        type: notification.type(),
+        notifiable_type: notifiableType(notifiable),
+        notifiable_id: String(notifiable.id),
+        data,
+        read_at: null,
+      });
+    });
+
+    this.extend('broadcast', (notifiable, notification) => {
+      if (notification.toBroadcast && this.broadcastHandler) {
+        this.broadcastHandler(notification.toBroadcast(notifiable));
+      }
+    });
+
+    this.extend('sms', async (notifiable, notification) => {
+      if (notification.toSms && this.smsHandler) {
+        const smsData = notification.toSms(notifiable);
+        await this.smsHandler(smsData.to, smsData.message);
+      }
+    });
+
+    this.extend('slack', async (notifiable, notification) => {
+      if (notification.toSlack && this.slackHandler) {
+        const slackData = notification.toSlack(notifiable);
+        await this.slackHandler(slackData.webhook, slackData.message);
+      }
+    });
+
+    this.extend('push', async (notifiable, notification) => {
+      if (notification.toPush && this.pushHandler) {
+        await this.pushHandler(notifiable, notification.toPush(notifiable));
+      }
+    });
   }
 
   /**
-   * Register database notification handler
+   * Register database notification handler (replaces storing `DatabaseNotification` rows)
    */
   onDatabase(handler: (notifiable: Notifiable, data: Record<string, unknown>) => Promise<void>): void {
     this.databaseHandler = handler;
@@ -209,16 +434,22 @@ class NotificationSender {
   }
 }
 
+// JSON-safe copy of an object's own data, as carried in queued jobs
+function toAttributes(value: object): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(value));
+}
+
 // ============================================
 // Notifiable Trait Mixin
 // ============================================
 
 export function makeNotifiable<T extends { new(...args: any[]): {} }>(Base: T) {
   return class extends Base implements Notifiable {
-    // Properties must be provided by the base class
-    id!: string | number;
-    email?: string;
-    phone?: string;
+    // Properties must be provided by the base class; `declare` keeps the
+    // subclass from redefining them as undefined
+    declare id: string | number;
+    declare email?: string;
+    declare phone?: string;
 
     routeNotificationFor(channel: NotificationChannel): string | undefined {
       switch (channel) {
@@ -234,6 +465,20 @@ export function makeNotifiable<T extends { new(...args: any[]): {} }>(Base: T) {
     async notify(notification: Notification): Promise<void> {
       await notifications.send(this, notification);
     }
+
+    /**
+     * Stored notifications, newest first
+     */
+    notifications() {
+      return DatabaseNotification.forNotifiable(this);
+    }
+
+    /**
+     * Unread stored notifications, newest first
+     */
+    unreadNotifications() {
+      return DatabaseNotification.unreadFor(this);
+    }
   };
 }
 
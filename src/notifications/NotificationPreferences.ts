@@ -0,0 +1,147 @@
+/**
+ * CanxJS Notification Preferences - Per-notifiable channel opt-outs
+ */
+
+import { query, execute, transaction } from '../mvc/Model';
+import type { Notifiable, NotificationChannel } from './Notification';
+import { notifiableType } from './DatabaseNotification';
+
+// ============================================
+// Types
+// ============================================
+
+export interface NotificationPreference {
+  channel: NotificationChannel;
+  /** Notification type the preference applies to, or '*' for all of them */
+  notificationType: string;
+  enabled: boolean;
+}
+
+export interface NotificationPreferenceStore {
+  /**
+   * Whether `notifiable` wants `notificationType` through `channel`. A
+   * preference for the type wins over a '*' preference; without either the
+   * channel is allowed.
+   */
+  allows(notifiable: Notifiable, notificationType: string, channel: NotificationChannel): Promise<boolean>;
+  set(notifiable: Notifiable, channel: NotificationChannel, enabled: boolean, notificationType?: string): Promise<void>;
+  forget(notifiable: Notifiable, channel: NotificationChannel, notificationType?: string): Promise<void>;
+  all(notifiable: Notifiable): Promise<NotificationPreference[]>;
+}
+
+function resolve(preferences: NotificationPreference[], notificationType: string, channel: NotificationChannel): boolean {
+  const forChannel = preferences.filter(p => p.channel === channel);
+  const specific = forChannel.find(p => p.notificationType === notificationType);
+  if (specific) return specific.enabled;
+  return forChannel.find(p => p.notificationType === '*')?.enabled ?? true;
+}
+
+// ============================================
+// Preferences (SQL)
+// ============================================
+
+/**
+ * Preferences stored on the CanxJS DB layer.
+ *
+ * NOTE: the consumer must have created the table beforehand, e.g.:
+ *
+ *   CREATE TABLE notification_preferences (
+ *     notifiable_type   VARCHAR(255) NOT NULL,
+ *     notifiable_id     VARCHAR(64) NOT NULL,
+ *     notification_type VARCHAR(255) NOT NULL,
+ *     channel           VARCHAR(64) NOT NULL,
+ *     enabled           BOOLEAN NOT NULL,
+ *     PRIMARY KEY (notifiable_type, notifiable_id, notification_type, channel)
+ *   );
+ */
+export class SqlNotificationPreferences implements NotificationPreferenceStore {
+  constructor(private table: string = 'notification_preferences', private connection?: string) {}
+
+  async allows(notifiable: Notifiable, notificationType: string, channel: NotificationChannel): Promise<boolean> {
+    const rows = await query<any>(
+      `SELECT notification_type, enabled FROM ${this.table} WHERE notifiable_type = ? AND notifiable_id = ? AND channel = ? AND notification_type IN (?, '*')`,
+      [notifiableType(notifiable), String(notifiable.id), channel, notificationType],
+      this.connection
+    );
+    return resolve(rows.map(row => this.toPreference({ ...row, channel })), notificationType, channel);
+  }
+
+  async set(notifiable: Notifiable, channel: NotificationChannel, enabled: boolean, notificationType: string = '*'): Promise<void> {
+    const key = [notifiableType(notifiable), String(notifiable.id), notificationType, channel];
+    await transaction(async () => {
+      await execute(
+        `DELETE FROM ${this.table} WHERE notifiable_type = ? AND notifiable_id = ? AND notification_type = ? AND channel = ?`,
+        key,
+        this.connection
+      );
+      await execute(
+        `INSERT INTO ${this.table} (notifiable_type, notifiable_id, notification_type, channel, enabled) VALUES (?, ?, ?, ?, ?)`,
+        [...key, enabled ? 1 : 0],
+        this.connection
+      );
+    }, this.connection);
+  }
+
+  async forget(notifiable: Notifiable, channel: NotificationChannel, notificationType: string = '*'): Promise<void> {
+    await execute(
+      `DELETE FROM ${this.table} WHERE notifiable_type = ? AND notifiable_id = ? AND notification_type = ? AND channel = ?`,
+      [notifiableType(notifiable), String(notifiable.id), notificationType, channel],
+      this.connection
+    );
+  }
+
+  async all(notifiable: Notifiable): Promise<NotificationPreference[]> {
+    const rows = await query<any>(
+      `SELECT channel, notification_type, enabled FROM ${this.table} WHERE notifiable_type = ? AND notifiable_id = ? ORDER BY channel, notification_type`,
+      [notifiableType(notifiable), String(notifiable.id)],
+      this.connection
+    );
+    return rows.map(row => this.toPreference(row));
+  }
+
+  private toPreference(row: any): NotificationPreference {
+    return {
+      channel: row.channel,
+      notificationType: row.notification_type,
+      // Drivers return booleans as 0/1, '0'/'1' or true/false
+      enabled: row.enabled === true || row.enabled === 1 || row.enabled === '1' || row.enabled === 't',
+    };
+  }
+}
+
+// ============================================
+// Preferences (Memory)
+// ============================================
+
+/**
+ * In-process preferences, for tests and single-process setups
+ */
+export class MemoryNotificationPreferences implements NotificationPreferenceStore {
+  private preferences = new Map<string, NotificationPreference[]>();
+
+  async allows(notifiable: Notifiable, notificationType: string, channel: NotificationChannel): Promise<boolean> {
+    return resolve(this.preferences.get(this.key(notifiable)) ?? [], notificationType, channel);
+  }
+
+  async set(notifiable: Notifiable, channel: NotificationChannel, enabled: boolean, notificationType: string = '*'): Promise<void> {
+    await this.forget(notifiable, channel, notificationType);
+    const key = this.key(notifiable);
+    this.preferences.set(key, [...(this.preferences.get(key) ?? []), { channel, notificationType, enabled }]);
+  }
+
+  async forget(notifiable: Notifiable, channel: NotificationChannel, notificationType: string = '*'): Promise<void> {
+    const key = this.key(notifiable);
+    this.preferences.set(
+      key,
+      (this.preferences.get(key) ?? []).filter(p => p.channel !== channel || p.notificationType !== notificationType)
+    );
+  }
+
+  async all(notifiable: Notifiable): Promise<NotificationPreference[]> {
+    return [...(this.preferences.get(this.key(notifiable)) ?? [])];
+  }
+
+  private key(notifiable: Notifiable): string {
+    return `${notifiableType(notifiable)}:${notifiable.id}`;
+  }
+}
@@ -0,0 +1,427 @@
+/**
+ * CanxJS Markdown Mail - Markdown templates rendered into a themed, inlined HTML layout
+ */
+
+import { ViewNotFoundException } from '../../core/exceptions/ViewNotFoundException';
+
+// ============================================
+// Types
+// ============================================
+
+export interface MarkdownMailOptions {
+  /** Theme CSS; simple selectors are inlined, the rest (e.g. media queries) stay in <style> */
+  theme?: string;
+  /** Name shown in the header (default: APP_NAME, else 'CanxJS') */
+  appName?: string;
+  /** Header link (default: APP_URL) */
+  appUrl?: string;
+  /** Markdown shown in the footer (default: © year appName) */
+  footer?: string;
+  /** Replace the default layout; receives the rendered body HTML */
+  layout?: (body: string, context: MarkdownLayoutContext) => string;
+}
+
+export interface MarkdownLayoutContext {
+  subject: string;
+  appName: string;
+  appUrl?: string;
+  /** Footer as HTML */
+  footer: string;
+}
+
+export interface RenderedMail {
+  html: string;
+  text: string;
+}
+
+/**
+ * A component used as `<x-name attr="value">content</x-name>`. `content` is
+ * the inner Markdown already rendered to HTML.
+ */
+export type MarkdownComponent = (attributes: Record<string, string>, content: string) => string;
+
+// ============================================
+// Theme
+// ============================================
+
+export const DEFAULT_MAIL_THEME = `
+body { background-color: #f4f5f7; color: #3d4852; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; margin: 0; padding: 0; width: 100%; }
+p { font-size: 16px; line-height: 1.5em; margin-top: 0; text-align: left; }
+h1 { color: #3d4852; font-size: 18px; font-weight: bold; margin-top: 0; text-align: left; }
+h2 { font-size: 16px; font-weight: bold; margin-top: 0; text-align: left; }
+h3 { font-size: 14px; font-weight: bold; margin-top: 0; text-align: left; }
+a { color: #3869d4; }
+.wrapper { background-color: #f4f5f7; margin: 0; padding: 0; width: 100%; }
+.content { margin: 0; padding: 0; width: 100%; }
+.header { padding: 25px 0; text-align: center; }
+.header a { color: #3d4852; font-size: 19px; font-weight: bold; text-decoration: none; }
+.body-cell { background-color: #f4f5f7; border-bottom: 1px solid #f4f5f7; border-top: 1px solid #f4f5f7; margin: 0; padding: 0; width: 100%; }
+.inner-body { background-color: #ffffff; border-color: #e8e5ef; border-radius: 2px; border-width: 1px; box-shadow: 0 2px 0 rgba(0, 0, 150, 0.025), 2px 4px 0 rgba(0, 0, 150, 0.015); margin: 0 auto; padding: 0; width: 570px; }
+.content-cell { max-width: 100vw; padding: 32px; }
+.footer { margin: 0 auto; padding: 0; text-align: center; width: 570px; }
+.footer p { color: #b0adc5; font-size: 12px; text-align: center; }
+.action { margin: 30px auto; padding: 0; text-align: center; width: 100%; }
+.button { border-radius: 4px; color: #ffffff; display: inline-block; overflow: hidden; text-decoration: none; padding: 8px 18px; }
+.button-primary { background-color: #2d3748; border: 1px solid #2d3748; }
+.button-success { background-color: #48bb78; border: 1px solid #48bb78; }
+.button-error { background-color: #e53e3e; border: 1px solid #e53e3e; }
+.panel { border-left: #2d3748 solid 4px; margin: 21px 0; }
+.panel-content { background-color: #edf2f7; color: #718096; padding: 16px; }
+.panel-content p { color: #718096; }
+.table table { margin: 30px auto; width: 100%; }
+.table th { border-bottom: 1px solid #edeff2; margin: 0; padding-bottom: 8px; }
+.table td { color: #74787e; font-size: 15px; line-height: 18px; margin: 0; padding: 10px 0; }
+.subcopy { border-top: 1px solid #e8e5ef; margin-top: 25px; padding-top: 25px; }
+.subcopy p { font-size: 14px; }
+@media only screen and (max-width: 600px) {
+  .inner-body { width: 100% !important; }
+  .footer { width: 100% !important; }
+}
+`;
+
+// ============================================
+// Components
+// ============================================
+
+const components = new Map<string, MarkdownComponent>([
+  ['button', (attrs, content) =>
+    `<table class="action" align="center" width="100%" cellpadding="0" cellspacing="0" role="presentation"><tr><td align="center">` +
+    `<a href="${attrs.url ?? '#'}" class="button button-${attrs.color ?? 'primary'}" target="_blank" rel="noopener">${stripParagraph(content)}</a>` +
+    `</td></tr></table>`],
+  ['panel', (_attrs, content) =>
+    `<table class="panel" width="100%" cellpadding="0" cellspacing="0" role="presentation"><tr><td class="panel-content">${content}</td></tr></table>`],
+  ['table', (_attrs, content) => `<div class="table">${content}</div>`],
+  ['subcopy', (_attrs, content) =>
+    `<table class="subcopy" width="100%" cellpadding="0" cellspacing="0" role="presentation"><tr><td>${content}</td></tr></table>`],
+]);
+
+/**
+ * Register a component for Markdown mail, used as `<x-name ...>...</x-name>`
+ */
+export function mailComponent(name: string, component: MarkdownComponent): void {
+  components.set(name, component);
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+/**
+ * Render a Markdown mail template: `{{ path }}` placeholders are replaced with
+ * escaped values from `data`, `<x-button url="...">` style components expand
+ * to email-safe tables, and the result is wrapped in the layout with the
+ * theme's CSS inlined. A plain-text alternative is derived from the body.
+ *
+ * @example
+ * const { html, text } = renderMarkdownMail(`
+ * # Invoice {{ invoice.number }} paid
+ *
+ * <x-button url="{{ url }}" color="success">View invoice</x-button>
+ * `, { invoice, url }, { subject: 'Invoice paid' });
+ */
+export function renderMarkdownMail(
+  source: string,
+  data: Record<string, unknown> = {},
+  options: MarkdownMailOptions & { subject?: string } = {}
+): RenderedMail {
+  const values = interpolate(source, data);
+  const body = values.fill(renderMarkdown(values.source, values.fill));
+  const appName = options.appName ?? process.env.APP_NAME ?? 'CanxJS';
+  const appUrl = options.appUrl ?? process.env.APP_URL;
+  const footer = renderMarkdown(options.footer ?? `© ${new Date().getFullYear()} ${appName}. All rights reserved.`);
+  const context: MarkdownLayoutContext = { subject: options.subject ?? '', appName, appUrl, footer };
+
+  const layout = options.layout ?? defaultLayout;
+  const html = inlineCss(layout(body, context), options.theme ?? DEFAULT_MAIL_THEME);
+
+  return { html, text: htmlToText(body) };
+}
+
+/**
+ * Load a Markdown mail view (`emails.welcome` -> views/emails/welcome.md)
+ */
+export async function loadMarkdownView(name: string): Promise<string> {
+  const viewPath = name.replace(/\./g, '/');
+  const basePaths = [
+    process.cwd() + '/views',
+    process.cwd() + '/src/views',
+    process.cwd() + '/resources/views',
+  ];
+
+  const searchedPaths: string[] = [];
+  for (const base of basePaths) {
+    const fullPath = `${base}/${viewPath}.md`;
+    searchedPaths.push(fullPath);
+    const file = Bun.file(fullPath);
+    if (await file.exists()) {
+      return file.text();
+    }
+  }
+
+  throw new ViewNotFoundException(name, searchedPaths);
+}
+
+function renderMarkdown(source: string, fill: (text: string) => string = text => text): string {
+  // Components are rendered separately and swapped in afterwards, so their
+  // tables don't end the surrounding Markdown block early.
+  const rendered: string[] = [];
+  const withPlaceholders = dedent(source).replace(
+    /<x-([\w-]+)((?:\s+[\w-]+="[^"]*")*)\s*(?:\/>|>([\s\S]*?)<\/x-\1>)/g,
+    (match, name: string, attrs: string, content: string | undefined) => {
+      const component = components.get(name);
+      if (!component) return match;
+      const attributes = Object.fromEntries(
+        Object.entries(parseAttributes(attrs)).map(([key, value]) => [key, fill(value)])
+      );
+      rendered.push(component(attributes, renderMarkdown(content ?? '', fill)));
+      return `\n\n<!--x-component:${rendered.length - 1}-->\n\n`;
+    }
+  );
+
+  return Bun.markdown.html(withPlaceholders)
+    .replace(/<!--x-component:(\d+)-->/g, (_, index: string) => rendered[Number(index)]!)
+    .trim();
+}
+
+function defaultLayout(body: string, { subject, appName, appUrl, footer }: MarkdownLayoutContext): string {
+  const header = appUrl ? `<a href="${appUrl}">${escapeHtml(appName)}</a>` : `<a>${escapeHtml(appName)}</a>`;
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(subject)}</title>
+</head>
+<body>
+<table class="wrapper" width="100%" cellpadding="0" cellspacing="0" role="presentation"><tr><td align="center">
+<table class="content" width="100%" cellpadding="0" cellspacing="0" role="presentation">
+<tr><td class="header">${header}</td></tr>
+<tr><td class="body-cell" width="100%" cellpadding="0" cellspacing="0">
+<table class="inner-body" align="center" width="570" cellpadding="0" cellspacing="0" role="presentation"><tr><td class="content-cell">
+${body}
+</td></tr></table>
+</td></tr>
+<tr><td><table class="footer" align="center" width="570" cellpadding="0" cellspacing="0" role="presentation"><tr><td class="content-cell" align="center">
+${footer}
+</td></tr></table></td></tr>
+</table>
+</td></tr></table>
+</body>
+</html>`;
+}
+
+/**
+ * Swap `{{ path }}` placeholders for inert tokens; `fill` puts the escaped
+ * values back once the Markdown is rendered, so data can't add links,
+ * images or emphasis of its own.
+ */
+function interpolate(source: string, data: Record<string, unknown>): { source: string; fill: (text: string) => string } {
+  const values: string[] = [];
+  const nonce = Math.random().toString(36).slice(2, 10);
+  const replaced = source.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    let value: any = data;
+    for (const key of path.split('.')) value = value?.[key];
+    values.push(escapeHtml(value === undefined || value === null ? '' : String(value)));
+    return `x${nonce}v${values.length - 1}x`;
+  });
+
+  const token = new RegExp(`x${nonce}v(\\d+)x`, 'g');
+  return { source: replaced, fill: text => text.replace(token, (_, index: string) => values[Number(index)]!) };
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of source.matchAll(/([\w-]+)="([^"]*)"/g)) {
+    attributes[name!] = value!;
+  }
+  return attributes;
+}
+
+// Template literals are usually indented with the code around them; Markdown
+// would read that indentation as code blocks.
+function dedent(source: string): string {
+  const lines = source.replace(/^\n+/, '').split('\n');
+  const indents = lines.filter(line => line.trim()).map(line => line.match(/^ */)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(indent)).join('\n');
+}
+
+function stripParagraph(html: string): string {
+  return html.replace(/^<p>([\s\S]*)<\/p>$/, '$1');
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// ============================================
+// CSS Inlining
+// ============================================
+
+interface CssRule {
+  /** Chain of compound selectors, outermost first: `.footer p` -> [{classes: ['footer']}, {tag: 'p'}] */
+  selector: { tag?: string; classes: string[] }[];
+  specificity: number;
+  order: number;
+  declarations: string;
+}
+
+/**
+ * Copy CSS rules onto matching elements' `style` attributes, since many mail
+ * clients ignore <style>. Supports tag, class and descendant selectors; rules
+ * it can't inline (media queries, pseudo-classes, ...) are kept in a <style>
+ * element in <head>. Existing inline styles win.
+ */
+export function inlineCss(html: string, css: string): string {
+  const { rules, leftover } = parseCss(css);
+
+  const stack: { tag: string; classes: string[] }[] = [];
+  const inlined = html.replace(/<(\/?)([a-zA-Z][\w-]*)([^>]*?)(\/?)>/g, (tagSource, closing: string, rawTag: string, attrs: string, selfClosing: string) => {
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      const index = stack.map(e => e.tag).lastIndexOf(tag);
+      if (index !== -1) stack.length = index;
+      return tagSource;
+    }
+
+    const classes = (attrs.match(/\sclass="([^"]*)"/)?.[1] ?? '').split(/\s+/).filter(Boolean);
+    const element = { tag, classes };
+    const matching = rules
+      .filter(rule => matches(rule.selector, element, stack))
+      .sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+
+    if (!selfClosing && !VOID_ELEMENTS.has(tag)) stack.push(element);
+    if (matching.length === 0) return tagSource;
+
+    const declarations = matching.map(rule => rule.declarations).join(' ');
+    const existing = attrs.match(/\sstyle="([^"]*)"/);
+    const newAttrs = existing
+      ? attrs.replace(existing[0], ` style="${declarations} ${existing[1]}"`)
+      : `${attrs} style="${declarations}"`;
+    return `<${rawTag}${newAttrs}${selfClosing}>`;
+  });
+
+  if (!leftover) return inlined;
+  return inlined.includes('</head>')
+    ? inlined.replace('</head>', `<style>\n${leftover}\n</style>\n</head>`)
+    : `<style>\n${leftover}\n</style>\n${inlined}`;
+}
+
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'col', 'area', 'base', 'source', 'wbr']);
+
+function parseCss(css: string): { rules: CssRule[]; leftover: string } {
+  const rules: CssRule[] = [];
+  const leftover: string[] = [];
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let order = 0;
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf('{', index);
+    if (open === -1) break;
+    const prelude = source.slice(index, open).trim();
+
+    // At-rules such as @media contain nested blocks; keep them whole
+    let depth = 1;
+    let close = open + 1;
+    while (close < source.length && depth > 0) {
+      if (source[close] === '{') depth++;
+      else if (source[close] === '}') depth--;
+      close++;
+    }
+    const body = source.slice(open + 1, close - 1).trim();
+    index = close;
+
+    if (prelude.startsWith('@')) {
+      leftover.push(`${prelude} {${source.slice(open + 1, close - 1)}}`);
+      continue;
+    }
+
+    const declarations = body.replace(/\s+/g, ' ').replace(/;?\s*$/, ';');
+    for (const selector of prelude.split(',').map(s => s.trim())) {
+      const parsed = parseSelector(selector);
+      if (!parsed) {
+        leftover.push(`${selector} { ${declarations} }`);
+        continue;
+      }
+      const specificity = parsed.reduce((sum, part) => sum + part.classes.length * 10 + (part.tag ? 1 : 0), 0);
+      rules.push({ selector: parsed, specificity, order: order++, declarations });
+    }
+  }
+
+  return { rules, leftover: leftover.join('\n') };
+}
+
+function parseSelector(selector: string): CssRule['selector'] | null {
+  const parts = selector.split(/\s+/);
+  const parsed: CssRule['selector'] = [];
+  for (const part of parts) {
+    const match = part.match(/^([a-zA-Z][\w-]*)?((?:\.[\w-]+)*)$/);
+    if (!match || (!match[1] && !match[2])) return null;
+    parsed.push({ tag: match[1]?.toLowerCase(), classes: match[2] ? match[2].slice(1).split('.') : [] });
+  }
+  return parsed;
+}
+
+function matches(selector: CssRule['selector'], element: { tag: string; classes: string[] }, ancestors: { tag: string; classes: string[] }[]): boolean {
+  const matchesPart = (part: CssRule['selector'][number], candidate: { tag: string; classes: string[] }) =>
+    (!part.tag || part.tag === candidate.tag) && part.classes.every(c => candidate.classes.includes(c));
+
+  if (!matchesPart(selector[selector.length - 1]!, element)) return false;
+
+  // Match the remaining parts against ancestors, innermost first
+  let depth = ancestors.length - 1;
+  for (let i = selector.length - 2; i >= 0; i--) {
+    while (depth >= 0 && !matchesPart(selector[i]!, ancestors[depth]!)) depth--;
+    if (depth < 0) return false;
+    depth--;
+  }
+  return true;
+}
+
+// ============================================
+// Plain Text
+// ============================================
+
+/**
+ * Plain-text alternative of an HTML mail body: links become `label (url)`,
+ * list items get dashes and table cells are separated with pipes.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+        const text = label.replace(/<[^>]+>/g, '').trim();
+        return text && text !== href ? `${text} (${href})` : href;
+      })
+      .replace(/<\/?(thead|tbody|tfoot)>\s*/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<\/t[dh]>\s*(?=<t[dh])/gi, ' | ')
+      .replace(/<hr\s*\/?>/gi, '\n---\n')
+      .replace(/<\/(p|h[1-6]|div|table|ul|ol|blockquote|pre)>/gi, '\n\n')
+      .replace(/<\/(tr|li)>\s*/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
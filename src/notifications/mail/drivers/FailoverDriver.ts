@@ -0,0 +1,49 @@
+import type { MailTransport, MailMessage, MailSendResult } from '../types';
+import { events } from '../../../events/EventEmitter';
+
+export interface NamedTransport {
+  name: string;
+  transport: MailTransport;
+}
+
+/**
+ * FailoverDriver — tries each transport in order until one delivers.
+ *
+ * A transport that throws or reports `success: false` fires
+ * `mail:transport-failed` and the next one is tried. When every transport
+ * fails the last error is rethrown, with the others listed in its message.
+ */
+export class FailoverDriver implements MailTransport {
+  constructor(protected transports: NamedTransport[]) {
+    if (transports.length === 0) throw new Error('Failover mail transport needs at least one transport');
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    return this.attempt(message, this.transports);
+  }
+
+  protected async attempt(message: MailMessage, order: NamedTransport[]): Promise<MailSendResult> {
+    const errors: string[] = [];
+    let lastError: unknown;
+
+    for (const { name, transport } of order) {
+      try {
+        const result = await transport.send(message);
+        if (result.success) return { ...result, transport: result.transport ?? name };
+        throw new Error(`${name} reported the message as not sent`);
+      } catch (error) {
+        lastError = error;
+        errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+        this.failed(name);
+        events.emit('mail:transport-failed', { transport: name, message, error });
+      }
+    }
+
+    const error = new Error(`All mail transports failed (${errors.join('; ')})`);
+    (error as Error & { cause?: unknown }).cause = lastError;
+    throw error;
+  }
+
+  /** Called when a transport fails a send */
+  protected failed(_name: string): void {}
+}
@@ -0,0 +1,33 @@
+import type { MailMessage, MailSendResult } from '../types';
+import { FailoverDriver, type NamedTransport } from './FailoverDriver';
+
+/**
+ * RoundRobinDriver — spreads sends across transports, starting each send at
+ * the next transport in turn.
+ *
+ * A failing send moves on to the following transports like FailoverDriver,
+ * and the transport that failed is skipped for `retryAfter` ms (unless every
+ * transport is being skipped).
+ */
+export class RoundRobinDriver extends FailoverDriver {
+  private next = 0;
+  private downUntil = new Map<string, number>();
+
+  constructor(transports: NamedTransport[], private retryAfter: number = 60_000) {
+    super(transports);
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const start = this.next;
+    this.next = (this.next + 1) % this.transports.length;
+
+    const rotated = [...this.transports.slice(start), ...this.transports.slice(0, start)];
+    const now = Date.now();
+    const available = rotated.filter(({ name }) => (this.downUntil.get(name) ?? 0) <= now);
+    return this.attempt(message, available.length > 0 ? available : rotated);
+  }
+
+  protected failed(name: string): void {
+    this.downUntil.set(name, Date.now() + this.retryAfter);
+  }
+}
@@ -1,5 +1,6 @@
 import type { MailTransport, MailMessage, MailConfig } from '../types';
 import { formatAddress, parseAddress } from '../types';
+import { signDkim } from '../Dkim';
 
 type SmtpConfig = NonNullable<MailConfig['smtp']>;
 
@@ -218,7 +219,8 @@ export class SmtpDriver implements MailTransport {
 
       // 6. DATA.
       await conn.command('DATA', [354]);
-      const mime = buildMimeMessage(message, messageId);
+      let mime = buildMimeMessage(message, messageId);
+      if (this.config.dkim) mime = signDkim(mime, this.config.dkim);
       conn.writeRaw(dotStuff(mime) + '\r\n.\r\n');
       await conn.command('', [250]);
 
@@ -1,3 +1,5 @@
+import type { MarkdownMailOptions } from './Markdown';
+
 export interface MailAddress {
   email: string;
   name?: string;
@@ -24,8 +26,10 @@ export interface MailMessage {
 }
 
 export interface MailConfig {
-  transport: 'smtp' | 'sendgrid' | 'resend' | 'log' | 'mailgun' | 'ses' | 'array';
+  transport: 'smtp' | 'sendgrid' | 'resend' | 'log' | 'mailgun' | 'ses' | 'array' | 'failover' | 'roundrobin';
   from?: MailAddress | string;
+  /** Theme, header and footer of Markdown mail */
+  markdown?: MarkdownMailOptions;
   smtp?: {
     host: string;
     port: number;
@@ -34,6 +38,8 @@ export interface MailConfig {
       user: string;
       pass: string;
     };
+    /** Sign outgoing messages with DKIM */
+    dkim?: DkimOptions;
   };
   sendgrid?: {
     apiKey: string;
@@ -60,10 +66,38 @@ export interface MailConfig {
     port?: number;
     secure?: boolean;
   };
+  /** Try each transport in order until one delivers */
+  failover?: {
+    transports: (MailConfig | MailTransport)[];
+  };
+  /** Rotate sends across transports, failing over to the others */
+  roundrobin?: {
+    transports: (MailConfig | MailTransport)[];
+    /** Skip a transport for this long after it fails, in ms (default 60000) */
+    retryAfter?: number;
+  };
+}
+
+export interface DkimOptions {
+  /** Signing domain (d=), e.g. 'example.com' */
+  domainName: string;
+  /** Selector (s=); the public key is published at <selector>._domainkey.<domain> */
+  keySelector: string;
+  /** RSA private key in PEM format */
+  privateKey: string;
+  /** Headers to sign when present (default: From, To, Cc, Reply-To, Subject, Date, Message-ID, MIME-Version, Content-Type) */
+  headerFields?: string[];
+}
+
+export interface MailSendResult {
+  messageId: string;
+  success: boolean;
+  /** Transport that delivered the message, set by failover and round-robin transports */
+  transport?: string;
 }
 
 export interface MailTransport {
-  send(message: MailMessage): Promise<{ messageId: string; success: boolean }>;
+  send(message: MailMessage): Promise<MailSendResult>;
 }
 
 export function formatAddress(addr: MailAddress | string): string {
@@ -0,0 +1,177 @@
+/**
+ * CanxJS Job Middleware - Pipeline around queue job handlers
+ *
+ * Same shape as HTTP middleware: each middleware receives the job, its
+ * context and `next`. Skipping `next()` skips the handler; calling
+ * `context.release(delay)` puts the job back on the queue instead of failing it.
+ *
+ * @example
+ *   queue.define('sync-crm', handler, {
+ *     middleware: [RateLimited('crm-api', 60), WithoutOverlapping((job) => `crm:${job.data.accountId}`)],
+ *   });
+ */
+
+import type { Job } from './drivers/types';
+import type { JobContext } from './Queue';
+
+export type JobNext = () => Promise<void>;
+export type JobMiddleware = (job: Job, context: JobContext, next: JobNext) => Promise<void>;
+
+/** A middleware key: fixed, or derived from the job */
+export type JobMiddlewareKey = string | ((job: Job) => string);
+
+export class JobPipeline {
+  private middlewares: JobMiddleware[] = [];
+
+  use(...middlewares: JobMiddleware[]): this {
+    this.middlewares.push(...middlewares);
+    return this;
+  }
+
+  async execute(
+    job: Job,
+    context: JobContext,
+    jobMiddlewares: JobMiddleware[],
+    finalHandler: () => Promise<void>
+  ): Promise<void> {
+    const all = [...this.middlewares, ...jobMiddlewares];
+    let index = 0;
+
+    const next: JobNext = async () => {
+      if (index >= all.length) return finalHandler();
+      const middleware = all[index++]!;
+      return middleware(job, context, next);
+    };
+
+    await next();
+  }
+}
+
+function resolveKey(key: JobMiddlewareKey, job: Job): string {
+  return typeof key === 'function' ? key(job) : key;
+}
+
+// ============================================
+// Built-in middleware
+// ============================================
+
+/**
+ * Allow at most `perMinute` runs per key per minute across this process.
+ * Over the limit, the job is released until the window resets.
+ */
+export function RateLimited(key: JobMiddlewareKey, perMinute: number): JobMiddleware {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return async (job, context, next) => {
+    const name = resolveKey(key, job);
+    const now = Date.now();
+    const window = windows.get(name);
+
+    if (!window || now >= window.resetAt) {
+      windows.set(name, { count: 1, resetAt: now + 60_000 });
+    } else if (window.count >= perMinute) {
+      context.release(window.resetAt - now);
+      return;
+    } else {
+      window.count++;
+    }
+    return next();
+  };
+}
+
+export interface WithoutOverlappingOptions {
+  /** Delay before a blocked job is retried (ms, default 1000) */
+  releaseAfter?: number;
+  /** Drop blocked jobs instead of releasing them */
+  dontRelease?: boolean;
+  /** Lock lifetime, so a crashed worker cannot block the key forever (ms, default 1 hour) */
+  expireAfter?: number;
+}
+
+/**
+ * Never run two jobs with the same key at once. Uses the driver's unique
+ * lock when it has one (shared across workers), else a per-process lock.
+ */
+export function WithoutOverlapping(key: JobMiddlewareKey, options: WithoutOverlappingOptions = {}): JobMiddleware {
+  const { releaseAfter = 1000, dontRelease = false, expireAfter = 60 * 60 * 1000 } = options;
+  const localLocks = new Set<string>();
+
+  return async (job, context, next) => {
+    const name = `overlap:${resolveKey(key, job)}`;
+    const driver = context.driver;
+    const shared = !!(driver.acquireUniqueLock && driver.releaseUniqueLock);
+
+    const acquired = shared
+      ? await driver.acquireUniqueLock!(name, expireAfter)
+      : !localLocks.has(name) && !!localLocks.add(name);
+
+    if (!acquired) {
+      if (!dontRelease) context.release(releaseAfter);
+      return;
+    }
+
+    try {
+      await next();
+    } finally {
+      if (shared) await driver.releaseUniqueLock!(name);
+      else localLocks.delete(name);
+    }
+  };
+}
+
+export interface ThrottlesExceptionsOptions {
+  /** Key shared by the throttled jobs (default: the job name) */
+  key?: JobMiddlewareKey;
+}
+
+/**
+ * After `maxExceptions` failures for a key, stop running its jobs for
+ * `decayMinutes` and release them until then. Failures below the threshold
+ * take the normal retry path.
+ */
+export function ThrottlesExceptions(
+  maxExceptions = 10,
+  decayMinutes = 10,
+  options: ThrottlesExceptionsOptions = {}
+): JobMiddleware {
+  const state = new Map<string, { failures: number; blockedUntil: number }>();
+  const decay = decayMinutes * 60_000;
+
+  return async (job, context, next) => {
+    const name = options.key ? resolveKey(options.key, job) : job.name;
+    const entry = state.get(name) ?? { failures: 0, blockedUntil: 0 };
+    state.set(name, entry);
+
+    const now = Date.now();
+    if (entry.blockedUntil > now) {
+      context.release(entry.blockedUntil - now);
+      return;
+    }
+
+    try {
+      await next();
+      entry.failures = 0;
+    } catch (e) {
+      entry.failures++;
+      if (entry.failures < maxExceptions) throw e;
+
+      entry.failures = 0;
+      entry.blockedUntil = Date.now() + decay;
+      console.error(`[Queue] ${name} threw ${maxExceptions} times; pausing for ${decayMinutes}m:`, e);
+      context.release(decay);
+    }
+  };
+}
+
+/** Skip jobs whose batch has been cancelled (see `cancelBatch()`). */
+export function SkipIfBatchCancelled(): JobMiddleware {
+  return async (job, _context, next) => {
+    const batchId = (job.data as any)?.__batch?.id;
+    if (batchId) {
+      // Loaded lazily: JobBatch imports the queue, which imports this module.
+      const { getBatch } = await import('./JobBatch');
+      if (getBatch(batchId)?.status === 'cancelled') return;
+    }
+    return next();
+  };
+}
@@ -1,15 +1,129 @@
-import type { QueueConfig, QueueDriver, Job } from './drivers/types';
+import type { QueueConfig, QueueDriver, Job, JobPayload } from './drivers/types';
 import { MemoryDriver } from './drivers/MemoryDriver';
 import { SyncDriver } from './drivers/SyncDriver';
 import { DatabaseDriver } from './drivers/DatabaseDriver';
 import { RedisDriver } from './drivers/RedisDriver';
+import { JobPipeline, type JobMiddleware } from './JobMiddleware';
+
+/** Passed to job handlers alongside the job data */
+export interface JobContext {
+  job: Job;
+  /** Aborted when the attempt exceeds its timeout */
+  signal: AbortSignal;
+  /** The driver running the job (for locks shared across workers) */
+  driver: QueueDriver;
+  /**
+   * Put the job back on the queue after `delay` ms instead of completing or
+   * failing it. A released job does not use up an attempt.
+   */
+  release(delay?: number): void;
+}
+
+export type JobHandler = (data: any, context: JobContext) => Promise<void>;
+
+export interface DefineOptions {
+  /** Middleware run around this job's handler, after the queue-wide middleware */
+  middleware?: JobMiddleware[];
+}
+
+export interface DispatchOptions {
+  delay?: number;
+  queue?: string;
+  /** Higher runs first (default 0) */
+  priority?: number;
+  /**
+   * Hold a uniqueness lock for this long (ms or '10m'). While it is held,
+   * dispatching the same job again is a no-op. The lock is released when the
+   * job completes or fails for good.
+   */
+  uniqueFor?: number | string;
+  /** Uniqueness key; defaults to the job name plus its JSON data */
+  uniqueId?: string;
+  /** Fail the attempt when the handler runs longer than this (ms or '30s') */
+  timeout?: number | string;
+  /** Retry delay in ms, or a per-attempt schedule such as [1000, 5000, 30000] */
+  backoff?: number | number[];
+  /** Attempts before the job fails for good (default 3) */
+  tries?: number;
+}
+
+export interface WorkerOptions {
+  /** Handlers run at once (default: QueueConfig.concurrency, else 5) */
+  concurrency?: number;
+  /**
+   * Queues to consume. A list ('high,default' or ['high', 'default']) is
+   * strict priority order; weights ('high:3,default:1' or { high: 3, default: 1 })
+   * share polls proportionally, falling back to the other queues when empty.
+   */
+  queues?: string | string[] | Record<string, number>;
+  /** Stop after this many jobs */
+  maxJobs?: number;
+  /** Stop after this many seconds */
+  maxTime?: number;
+  /** Stop once the process RSS reaches this many MB */
+  memory?: number;
+  /** Idle poll interval in ms (default 1000) */
+  sleep?: number;
+}
+
+interface WeightedQueue {
+  name: string;
+  weight: number;
+  current: number;
+}
+
+function parseQueues(spec: string | string[] | Record<string, number>): WeightedQueue[] {
+  const entries: [string, number | undefined][] = typeof spec === 'string' || Array.isArray(spec)
+    ? (Array.isArray(spec) ? spec : spec.split(',')).map(part => {
+        const [name, weight] = part.trim().split(':');
+        return [name!, weight !== undefined ? Number(weight) : undefined];
+      })
+    : Object.entries(spec);
+
+  const weighted = entries.some(([, weight]) => weight !== undefined);
+  return entries
+    .filter(([name]) => name)
+    // Without weights every queue gets 0 and nextQueueOrder keeps list order.
+    .map(([name, weight]) => ({ name, weight: weighted ? Math.max(0, weight ?? 1) : 0, current: 0 }));
+}
+
+// Smooth weighted round-robin: with high:3,default:1 the first queue tried
+// is high three polls out of four. The rest follow in list order.
+function nextQueueOrder(queues: WeightedQueue[]): string[] {
+  const total = queues.reduce((sum, q) => sum + q.weight, 0);
+  if (total === 0) return queues.map(q => q.name);
+
+  let best = queues[0]!;
+  for (const q of queues) {
+    q.current += q.weight;
+    if (q.current > best.current) best = q;
+  }
+  best.current -= total;
+  return [best.name, ...queues.filter(q => q !== best).map(q => q.name)];
+}
+
+/** Thrown into the retry path when a job attempt exceeds its timeout */
+export class JobTimeoutError extends Error {
+  constructor(public readonly job: Job) {
+    super(`Job ${job.name} (${job.id}) timed out after ${job.timeout}ms`);
+    this.name = 'JobTimeoutError';
+  }
+}
 
 export class Queue {
   public driver: QueueDriver;
   private config: QueueConfig;
   private running: boolean = false;
-  private processing: boolean = false;
-  private handlers: Map<string, (data: any) => Promise<void>> = new Map();
+  private polling: PromiseWithResolvers<void> | null = null;
+  private active: Set<Promise<void>> = new Set();
+  private queues: WeightedQueue[] = [];
+  private workerOptions: WorkerOptions = {};
+  private jobsStarted = 0;
+  private maxTimeTimer: Timer | null = null;
+  private stopped: PromiseWithResolvers<void> | null = null;
+  private handlers: Map<string, JobHandler> = new Map();
+  private jobMiddleware: Map<string, JobMiddleware[]> = new Map();
+  private pipeline = new JobPipeline();
   private timer: Timer | null = null;
   private concurrency: number;
 
@@ -30,8 +144,13 @@ export class Queue {
         // jobs run inline immediately.
         this.driver = new SyncDriver(async (job) => {
           const handler = this.handlers.get(job.name);
-          if (!handler) throw new Error(`No handler for ${job.name}`);
-          await handler(job.data);
+          try {
+            if (!handler) throw new Error(`No handler for ${job.name}`);
+            // There is no queue to release into, so a released job simply ends.
+            await this.runHandler(handler, job);
+          } finally {
+            await this.releaseUnique(job);
+          }
         });
         break;
 
@@ -72,16 +191,47 @@ export class Queue {
   /**
    * Define a job handler
    */
-  define(name: string, handler: (data: any) => Promise<void>): void {
+  define(name: string, handler: JobHandler, options: DefineOptions = {}): void {
     this.handlers.set(name, handler);
+    this.jobMiddleware.set(name, options.middleware ?? []);
+  }
+
+  /**
+   * Add middleware that runs around every job's handler
+   */
+  middleware(...middlewares: JobMiddleware[]): this {
+    this.pipeline.use(...middlewares);
+    return this;
   }
 
   /**
-   * Dispatch a job immediately
+   * Dispatch a job. Resolves to the job id, or null when a unique job with the
+   * same key is already queued or running.
    */
-  async dispatch(name: string, data: unknown = {}, options: { delay?: number; queue?: string } = {}): Promise<string> {
+  async dispatch(name: string, data: unknown = {}, options: DispatchOptions = {}): Promise<string | null> {
     const delay = options.delay || 0;
-    return this.driver.push({ name, data, delay, maxAttempts: 3, scheduledAt: Date.now() + delay });
+    const payload: JobPayload = {
+      name,
+      data,
+      delay,
+      maxAttempts: Math.max(1, options.tries ?? 3),
+      scheduledAt: Date.now() + delay,
+      queue: options.queue,
+      priority: options.priority ?? 0,
+      timeout: this.toMs(options.timeout) ?? this.config.timeout,
+      backoff: options.backoff,
+    };
+
+    if (options.uniqueFor !== undefined) {
+      if (!this.driver.acquireUniqueLock) {
+        throw new Error(`[Queue] ${this.driver.constructor.name} does not support unique jobs`);
+      }
+      const key = options.uniqueId ?? `${name}:${JSON.stringify(data)}`;
+      if (!(await this.driver.acquireUniqueLock(key, this.toMs(options.uniqueFor)!))) return null;
+      payload.uniqueKey = key;
+    }
+
+    return delay > 0 ? this.driver.later(delay, payload) : this.driver.push(payload);
   }
 
   /**
@@ -89,54 +239,133 @@ export class Queue {
    */
   async schedule(name: string, data: unknown, delay: number | string): Promise<string> {
     const delayMs = typeof delay === 'string' ? this.parseDelay(delay) : delay;
-    return this.driver.push({ name, data, delay: delayMs, maxAttempts: 3, scheduledAt: Date.now() + delayMs });
+    return this.driver.later(delayMs, { name, data, delay: delayMs, maxAttempts: 3, scheduledAt: Date.now() + delayMs });
   }
 
   /**
-   * Start processing jobs
+   * Start processing jobs with a pool of up to `concurrency` handlers.
+   * Resolves once the worker has stopped (via stop() or a limit) and every
+   * in-flight job has finished.
    */
-  start(): void {
-    if (this.running) return;
+  start(options: WorkerOptions = {}): Promise<void> {
+    if (this.running) return this.stopped!.promise;
     this.running = true;
-    console.log('[Queue] Worker started');
-    this.process();
+    this.workerOptions = options;
+    this.concurrency = Math.max(1, options.concurrency ?? this.config.concurrency ?? 5);
+    this.queues = parseQueues(options.queues ?? 'default');
+    this.jobsStarted = 0;
+    this.stopped = Promise.withResolvers<void>();
+
+    if (options.maxTime) {
+      this.maxTimeTimer = setTimeout(() => this.stopForLimit(`max time of ${options.maxTime}s reached`), options.maxTime * 1000);
+    }
+
+    console.log(`[Queue] Worker started (concurrency ${this.concurrency}, queues ${this.queues.map(q => q.name).join(',')})`);
+    this.poll();
+    return this.stopped.promise;
   }
 
   /**
-   * Stop processing jobs
+   * Stop taking new jobs and wait for in-flight jobs to finish (graceful drain)
    */
-  stop(): void {
+  async stop(): Promise<void> {
+    if (!this.running) return;
     this.running = false;
     if (this.timer) clearTimeout(this.timer);
+    if (this.maxTimeTimer) clearTimeout(this.maxTimeTimer);
+    this.timer = null;
+    this.maxTimeTimer = null;
+
+    // A poll caught mid-pop hands its job back before we look at what is in flight
+    await this.polling?.promise;
+    if (this.active.size > 0) {
+      console.log(`[Queue] Waiting for ${this.active.size} in-flight job(s)...`);
+      await Promise.allSettled([...this.active]);
+    }
     console.log('[Queue] Worker stopped');
+    this.stopped?.resolve();
   }
 
-  private async process() {
+  private stopForLimit(reason: string): void {
     if (!this.running) return;
+    console.log(`[Queue] Stopping worker: ${reason}`);
+    void this.stop();
+  }
 
-    if (this.processing) {
-       this.timer = setTimeout(() => this.process(), 100);
-       return;
-    }
+  /** Number of jobs currently being handled */
+  get activeJobs(): number {
+    return this.active.size;
+  }
 
-    this.processing = true;
+  // Fill free worker slots. Only one poll loop runs at a time; finishing jobs
+  // and the idle timer both re-enter through here.
+  private async poll(): Promise<void> {
+    if (!this.running || this.polling) return;
+    const polling = (this.polling = Promise.withResolvers<void>());
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    let idle = false;
     try {
-      const job = await this.driver.pop();
-      if (job) {
-        await this.handleJob(job);
-        // If we found a job, try to get another one immediately
-        this.processing = false;
-        setImmediate(() => this.process());
-        return;
+      while (this.running && this.active.size < this.concurrency) {
+        const maxJobs = this.workerOptions.maxJobs;
+        if (maxJobs !== undefined && this.jobsStarted >= maxJobs) break;
+
+        const job = await this.popNext();
+        if (!job) {
+          idle = true;
+          break;
+        }
+        if (!this.running) {
+          // stop() ran while the job was being reserved: put it back untouched
+          job.attempts--;
+          await this.driver.release(job, 0);
+          break;
+        }
+        this.jobsStarted++;
+        const task: Promise<void> = this.handleJob(job)
+          .catch(e => console.error('[Queue] Error processing job:', e))
+          .finally(() => {
+            this.active.delete(task);
+            this.afterJob();
+          });
+        this.active.add(task);
       }
     } catch (e) {
       console.error('[Queue] Error processing job:', e);
+      idle = true;
     } finally {
-      this.processing = false;
+      this.polling = null;
+      polling.resolve();
     }
 
-    // No job found, wait a bit
-    this.timer = setTimeout(() => this.process(), 1000);
+    // Free slots but no work: check again after the sleep interval. A busy
+    // pool is refilled by afterJob() instead.
+    if (this.running && idle && !this.timer) {
+      this.timer = setTimeout(() => this.poll(), this.workerOptions.sleep ?? 1000);
+    }
+  }
+
+  private afterJob(): void {
+    const { maxJobs, memory } = this.workerOptions;
+    if (maxJobs !== undefined && this.jobsStarted >= maxJobs) {
+      if (this.active.size === 0) this.stopForLimit(`processed ${maxJobs} job(s)`);
+      return;
+    }
+    if (memory !== undefined && process.memoryUsage().rss / 1024 / 1024 >= memory) {
+      this.stopForLimit(`memory limit of ${memory}MB exceeded`);
+      return;
+    }
+    this.poll();
+  }
+
+  // Try each queue in weighted order until one yields a job.
+  private async popNext(): Promise<Job | null> {
+    for (const name of nextQueueOrder(this.queues)) {
+      const job = await this.driver.pop(name);
+      if (job) return job;
+    }
+    return null;
   }
 
   private async handleJob(job: Job) {
@@ -144,23 +373,89 @@ export class Queue {
     if (!handler) {
       console.error(`[Queue] No handler for ${job.name}`);
       await this.driver.fail(job, new Error('No handler'));
+      await this.releaseUnique(job);
       return;
     }
 
     try {
-      await handler(job.data);
+      const released = await this.runHandler(handler, job);
+      if (released !== null) {
+        // Drivers count a release as an attempt; a middleware release is not one.
+        job.attempts--;
+        await this.driver.release(job, released);
+        return;
+      }
       await this.driver.complete(job);
+      await this.releaseUnique(job);
     } catch (e) {
       console.error(`[Queue] Failed ${job.name}:`, e);
-      if (job.attempts < job.maxAttempts) {
-        // Retry logic usually depends on driver, but here we explicitly release
-        await this.driver.release(job, 5000 * (job.attempts + 1)); 
+      // `attempts` counts previous tries, so this attempt is number attempts + 1.
+      if (job.attempts + 1 < job.maxAttempts) {
+        await this.driver.release(job, this.backoffFor(job));
       } else {
         await this.driver.fail(job, e as Error);
+        await this.releaseUnique(job);
       }
     }
   }
 
+  /**
+   * Run a handler through the middleware pipeline, failing the attempt with
+   * JobTimeoutError (and aborting `context.signal`) once it exceeds the job's
+   * timeout. Resolves to the release delay when the job was released, else null.
+   */
+  private async runHandler(handler: JobHandler, job: Job): Promise<number | null> {
+    const controller = new AbortController();
+    let released: number | null = null;
+    const context: JobContext = {
+      job,
+      signal: controller.signal,
+      driver: this.driver,
+      release: (delay = 0) => { released = Math.max(0, delay); },
+    };
+    const run = () => this.pipeline.execute(job, context, this.jobMiddleware.get(job.name) ?? [], () => handler(job.data, context));
+    if (!job.timeout) {
+      await run();
+      return released;
+    }
+
+    let timer: Timer | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new JobTimeoutError(job);
+        controller.abort(error);
+        reject(error);
+      }, job.timeout);
+    });
+    try {
+      await Promise.race([run(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+    return released;
+  }
+
+  /** Delay before retrying `job` after its current attempt failed */
+  private backoffFor(job: Job): number {
+    const attempt = job.attempts + 1;
+    const backoff = job.backoff ?? this.config.backoff;
+    if (typeof backoff === 'function') return backoff(attempt, job);
+    if (Array.isArray(backoff)) return backoff[Math.min(attempt, backoff.length) - 1] ?? 0;
+    if (typeof backoff === 'number') return backoff;
+    return 5000 * attempt;
+  }
+
+  private async releaseUnique(job: Job): Promise<void> {
+    if (job.uniqueKey && this.driver.releaseUniqueLock) {
+      await this.driver.releaseUniqueLock(job.uniqueKey);
+    }
+  }
+
+  private toMs(value: number | string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    return typeof value === 'string' ? this.parseDelay(value) : value;
+  }
+
   /**
    * Stats and maintenance
    */
@@ -190,12 +485,12 @@ export class Queue {
     const match = delay.match(/^(\d+)\s*(s|sec|second|seconds|m|min|minute|minutes|h|hour|hours|d|day|days)$/i);
     if (!match) return 0;
     const value = parseInt(match[1]);
-    const unit = match[2].toLowerCase();
-    switch (unit) {
-      case 's': case 'sec': return value * 1000;
-      case 'm': case 'min': return value * 60 * 1000;
-      case 'h': case 'hour': return value * 60 * 60 * 1000;
-      case 'd': case 'day': return value * 24 * 60 * 60 * 1000;
+    // 's', 'sec', 'seconds', ... all share their first letter.
+    switch (match[2].toLowerCase()[0]) {
+      case 's': return value * 1000;
+      case 'm': return value * 60 * 1000;
+      case 'h': return value * 60 * 60 * 1000;
+      case 'd': return value * 24 * 60 * 60 * 1000;
       default: return 0;
     }
   }
@@ -203,7 +498,7 @@ export class Queue {
 
 export const queue = new Queue();
 export function createQueue(config?: QueueConfig) { return new Queue(config); }
-export { QueueConfig, QueueDriver, Job };
+export { QueueConfig, QueueDriver, Job, JobPayload };
 export { MemoryDriver } from './drivers/MemoryDriver';
 export { RedisDriver } from './drivers/RedisDriver';
 export { SyncDriver } from './drivers/SyncDriver';
@@ -1,5 +1,5 @@
-import type { QueueDriver, Job } from './types';
-import { query, execute } from '../../mvc/Model';
+import type { QueueDriver, Job, JobPayload } from './types';
+import { query, execute, isDuplicateKeyError } from '../../mvc/Model';
 
 /**
  * DatabaseDriver persists jobs to a database table (default `jobs`) via CanxJS's
@@ -13,17 +13,23 @@ import { query, execute } from '../../mvc/Model';
  *     queue        VARCHAR(255),
  *     payload      TEXT,
  *     attempts     INTEGER DEFAULT 0,
+ *     priority     INTEGER DEFAULT 0,
  *     available_at BIGINT,
  *     created_at   BIGINT
  *   );
  *
- * `payload` holds the JSON-serialized job body (name/data/delay/maxAttempts/scheduledAt).
+ *   -- only needed for unique jobs (`uniqueFor`)
+ *   CREATE TABLE jobs_unique_locks (
+ *     lock_key   VARCHAR(255) PRIMARY KEY,
+ *     expires_at BIGINT
+ *   );
+ *
+ * `payload` holds the JSON-serialized job body (name/data/delay/maxAttempts/scheduledAt
+ * plus uniqueKey/timeout/backoff).
  * A row's mere presence with `available_at <= now` means it is pending; jobs are
  * deleted on pop() (reserve-by-delete) and re-inserted by release() for retries.
  */
 export class DatabaseDriver implements QueueDriver {
-  private queueName = 'default';
-
   constructor(private table: string = 'jobs') {}
 
   private newId(): string {
@@ -37,6 +43,9 @@ export class DatabaseDriver implements QueueDriver {
       delay: job.delay,
       maxAttempts: job.maxAttempts,
       scheduledAt: job.scheduledAt,
+      uniqueKey: job.uniqueKey,
+      timeout: job.timeout,
+      backoff: job.backoff,
     });
   }
 
@@ -57,35 +66,40 @@ export class DatabaseDriver implements QueueDriver {
       scheduledAt: body.scheduledAt ?? (Number(row.available_at) || 0),
       createdAt: Number(row.created_at) || 0,
       status: 'pending',
+      queue: row.queue || 'default',
+      priority: Number(row.priority) || 0,
+      uniqueKey: body.uniqueKey,
+      timeout: body.timeout,
+      backoff: body.backoff,
     };
   }
 
   private async insert(job: Job, availableAt: number): Promise<void> {
     await execute(
-      `INSERT INTO ${this.table} (id, queue, payload, attempts, available_at, created_at) VALUES (?, ?, ?, ?, ?, ?)`,
-      [job.id, this.queueName, this.serialize(job), job.attempts, availableAt, job.createdAt]
+      `INSERT INTO ${this.table} (id, queue, payload, attempts, priority, available_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [job.id, job.queue ?? 'default', this.serialize(job), job.attempts, job.priority ?? 0, availableAt, job.createdAt]
     );
   }
 
-  async push(payload: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Promise<string> {
+  async push(payload: JobPayload): Promise<string> {
     const now = Date.now();
     const job: Job = { ...payload, id: this.newId(), status: 'pending', attempts: 0, createdAt: now };
     await this.insert(job, now);
     return job.id;
   }
 
-  async later(delay: number, payload: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Promise<string> {
+  async later(delay: number, payload: JobPayload): Promise<string> {
     const now = Date.now();
     const job: Job = { ...payload, id: this.newId(), status: 'pending', attempts: 0, createdAt: now };
     await this.insert(job, now + delay);
     return job.id;
   }
 
-  async pop(): Promise<Job | null> {
+  async pop(queue: string = 'default'): Promise<Job | null> {
     const now = Date.now();
     const rows = await query<any>(
-      `SELECT * FROM ${this.table} WHERE queue = ? AND available_at <= ? ORDER BY available_at ASC, created_at ASC LIMIT 1`,
-      [this.queueName, now]
+      `SELECT * FROM ${this.table} WHERE queue = ? AND available_at <= ? ORDER BY priority DESC, available_at ASC, created_at ASC LIMIT 1`,
+      [queue, now]
     );
     if (!rows.length) return null;
 
@@ -113,14 +127,34 @@ export class DatabaseDriver implements QueueDriver {
     await this.insert(job, Date.now() + delay);
   }
 
+  // The lock row's primary key makes the INSERT the atomic test-and-set;
+  // expired locks are swept first so a crashed worker cannot hold one forever.
+  async acquireUniqueLock(key: string, ttl: number): Promise<boolean> {
+    const now = Date.now();
+    await execute(`DELETE FROM ${this.table}_unique_locks WHERE lock_key = ? AND expires_at <= ?`, [key, now]);
+    try {
+      await execute(
+        `INSERT INTO ${this.table}_unique_locks (lock_key, expires_at) VALUES (?, ?)`,
+        [key, now + ttl]
+      );
+      return true;
+    } catch (e: any) {
+      if (isDuplicateKeyError(e)) return false;
+      throw e;
+    }
+  }
+
+  async releaseUniqueLock(key: string): Promise<void> {
+    await execute(`DELETE FROM ${this.table}_unique_locks WHERE lock_key = ?`, [key]);
+  }
+
   async clear(): Promise<void> {
-    await execute(`DELETE FROM ${this.table} WHERE queue = ?`, [this.queueName]);
+    await execute(`DELETE FROM ${this.table}`);
   }
 
   async size(): Promise<number> {
     const rows = await query<any>(
-      `SELECT COUNT(*) AS count FROM ${this.table} WHERE queue = ?`,
-      [this.queueName]
+      `SELECT COUNT(*) AS count FROM ${this.table}`
     );
     return Number(rows[0]?.count) || 0;
   }
@@ -133,8 +167,8 @@ export class DatabaseDriver implements QueueDriver {
 
   async getPending(offset: number = 0, limit: number = 20): Promise<Job[]> {
     const rows = await query<any>(
-      `SELECT * FROM ${this.table} WHERE queue = ? AND available_at <= ? ORDER BY available_at ASC, created_at ASC LIMIT ? OFFSET ?`,
-      [this.queueName, Date.now(), limit, offset]
+      `SELECT * FROM ${this.table} WHERE available_at <= ? ORDER BY priority DESC, available_at ASC, created_at ASC LIMIT ? OFFSET ?`,
+      [Date.now(), limit, offset]
     );
     return rows.map(r => this.rowToJob(r));
   }
@@ -1,11 +1,12 @@
-import type { QueueDriver, Job } from './types';
+import type { QueueDriver, Job, JobPayload } from './types';
 
 export class MemoryDriver implements QueueDriver {
   private jobs: Map<string, Job> = new Map();
   private pending: string[] = []; // Queue of IDs
   private delayed: { id: string; runAt: number }[] = [];
+  private locks: Map<string, number> = new Map(); // unique key -> expires at
 
-  async push(payload: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Promise<string> {
+  async push(payload: JobPayload): Promise<string> {
     const id = Math.random().toString(36).substring(7);
     const job: Job = {
       ...payload,
@@ -20,7 +21,7 @@ export class MemoryDriver implements QueueDriver {
     return id;
   }
 
-  async later(delay: number, payload: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Promise<string> {
+  async later(delay: number, payload: JobPayload): Promise<string> {
     const id = Math.random().toString(36).substring(7);
     const job: Job = {
       ...payload,
@@ -35,7 +36,7 @@ export class MemoryDriver implements QueueDriver {
     return id;
   }
 
-  async pop(): Promise<Job | null> {
+  async pop(queue: string = 'default'): Promise<Job | null> {
     // Check delayed jobs
     const now = Date.now();
     const ready = this.delayed.filter(d => d.runAt <= now);
@@ -45,8 +46,15 @@ export class MemoryDriver implements QueueDriver {
       this.delayed = this.delayed.filter(x => x.id !== d.id);
     }
 
-    const id = this.pending.shift();
-    if (!id) return null;
+    // Highest priority first; the earliest queued wins a tie.
+    let best = -1;
+    for (let i = 0; i < this.pending.length; i++) {
+      const job = this.jobs.get(this.pending[i]);
+      if (!job || (job.queue ?? 'default') !== queue) continue;
+      if (best === -1 || (job.priority ?? 0) > (this.jobs.get(this.pending[best])?.priority ?? 0)) best = i;
+    }
+    if (best === -1) return null;
+    const [id] = this.pending.splice(best, 1);
 
     const job = this.jobs.get(id);
     if (!job) return null;
@@ -79,8 +87,20 @@ export class MemoryDriver implements QueueDriver {
       }
   }
 
+  async acquireUniqueLock(key: string, ttl: number): Promise<boolean> {
+    const expiresAt = this.locks.get(key);
+    if (expiresAt !== undefined && expiresAt > Date.now()) return false;
+    this.locks.set(key, Date.now() + ttl);
+    return true;
+  }
+
+  async releaseUniqueLock(key: string): Promise<void> {
+    this.locks.delete(key);
+  }
+
   async clear(): Promise<void> {
     this.jobs.clear();
+    this.locks.clear();
     this.pending = [];
     this.delayed = [];
   }
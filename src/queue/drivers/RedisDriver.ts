@@ -1,4 +1,12 @@
-import type { QueueDriver, Job } from './types';
+import type { QueueDriver, Job, JobPayload } from './types';
+
+// Pending jobs live in a sorted set scored by priority, then enqueue time, so
+// ZPOPMIN yields the highest priority first and FIFO within a priority.
+// Priorities must stay within +/-900 to keep scores exact doubles.
+const PRIORITY_SPAN = 1e13;
+function readyScore(job: Job, enqueuedAt: number = Date.now()): number {
+  return -(job.priority ?? 0) * PRIORITY_SPAN + enqueuedAt;
+}
 
 // Simple Redis commands interface to avoid heavy dependency
 interface RedisClient {
@@ -6,6 +14,8 @@ interface RedisClient {
   rpop(key: string): Promise<string | null>;
   zadd(key: string, score: number, member: string): Promise<number>;
   zrangebyscore(key: string, min: number, max: number): Promise<string[]>;
+  zrange(key: string, start: number, stop: number): Promise<string[]>;
+  zpopmin(key: string, count?: number): Promise<string[]>; // [member, score, ...]
   zrem(key: string, ...members: string[]): Promise<number>;
   del(key: string): Promise<number>;
   llen(key: string): Promise<number>;
@@ -15,24 +25,34 @@ interface RedisClient {
   lrem(key: string, count: number, element: string): Promise<number>;
   incr(key: string): Promise<number>;
   get(key: string): Promise<string | null>;
+  set(key: string, value: string, ...args: (string | number)[]): Promise<string | null>;
+  sadd(key: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
 }
 
 export class RedisDriver implements QueueDriver {
   private client: RedisClient;
   private queueKey: string;
+  private legacyQueueKey: string;
   private delayedKey: string;
   private failedKey: string;
   private processedKey: string;
+  private lockPrefix: string;
+  private queuesKey: string;
 
   constructor(client: any, prefix: string = 'canx_queue') {
     this.client = client;
-    this.queueKey = `${prefix}:pending`;
+    this.queueKey = `${prefix}:ready`;
+    // Earlier versions kept the default queue in a LIST under this key
+    this.legacyQueueKey = `${prefix}:pending`;
+    this.queuesKey = `${prefix}:queues`;
     this.delayedKey = `${prefix}:delayed`;
     this.failedKey = `${prefix}:failed`;
     this.processedKey = `${prefix}:processed`;
+    this.lockPrefix = `${prefix}:unique:`;
   }
 
-  async push(payload: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Promise<string> {
+  async push(payload: JobPayload): Promise<string> {
     const id = Math.random().toString(36).substring(7);
     const job: Job = {
       ...payload,
@@ -42,12 +62,27 @@ export class RedisDriver implements QueueDriver {
       createdAt: Date.now(),
     };
     
-    // Store job in a list
-    await this.client.lpush(this.queueKey, JSON.stringify(job));
+    await this.enqueue(job, JSON.stringify(job));
     return id;
   }
 
-  async later(delay: number, payload: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Promise<string> {
+  // The default queue lives in `<prefix>:ready`; named queues get
+  // `<prefix>:ready:<name>` and are tracked in `<prefix>:queues`.
+  private pendingKey(queue: string = 'default'): string {
+    return queue === 'default' ? this.queueKey : `${this.queueKey}:${queue}`;
+  }
+
+  private async pendingKeys(): Promise<string[]> {
+    const named = (await this.client.smembers(this.queuesKey)).filter(q => q !== 'default');
+    return [this.queueKey, ...named.map(q => this.pendingKey(q))];
+  }
+
+  private async enqueue(job: Job, jobStr: string, enqueuedAt?: number): Promise<void> {
+    if (job.queue && job.queue !== 'default') await this.client.sadd(this.queuesKey, job.queue);
+    await this.client.zadd(this.pendingKey(job.queue), readyScore(job, enqueuedAt), jobStr);
+  }
+
+  async later(delay: number, payload: JobPayload): Promise<string> {
     const id = Math.random().toString(36).substring(7);
     const job: Job = {
       ...payload,
@@ -62,20 +97,30 @@ export class RedisDriver implements QueueDriver {
     return id;
   }
 
-  async pop(): Promise<Job | null> {
+  async pop(queue: string = 'default'): Promise<Job | null> {
     // 1. Move delayed jobs to pending
     const now = Date.now();
     const ready = await this.client.zrangebyscore(this.delayedKey, 0, now);
     
     if (ready.length > 0) {
       for (const jobStr of ready) {
-        await this.client.lpush(this.queueKey, jobStr);
+        await this.enqueue(JSON.parse(jobStr), jobStr);
         await this.client.zrem(this.delayedKey, jobStr);
       }
     }
 
-    // 2. Pop from pending
-    const jobStr = await this.client.rpop(this.queueKey);
+    // 2. Move jobs left in the pre-priority LIST by older versions (or by
+    // workers still running them during a rolling deploy), oldest first
+    if (queue === 'default') {
+      let legacy: string | null;
+      while ((legacy = await this.client.rpop(this.legacyQueueKey)) !== null) {
+        const job: Job = JSON.parse(legacy);
+        await this.enqueue(job, legacy, job.createdAt);
+      }
+    }
+
+    // 3. Pop the highest-priority pending job
+    const [jobStr] = await this.client.zpopmin(this.pendingKey(queue));
     if (!jobStr) return null;
 
     try {
@@ -104,15 +149,27 @@ export class RedisDriver implements QueueDriver {
     await this.client.zadd(this.delayedKey, Date.now() + delay, JSON.stringify(job));
   }
 
+  async acquireUniqueLock(key: string, ttl: number): Promise<boolean> {
+    const result = await this.client.set(this.lockPrefix + key, '1', 'PX', Math.max(1, Math.ceil(ttl)), 'NX');
+    return result === 'OK';
+  }
+
+  async releaseUniqueLock(key: string): Promise<void> {
+    await this.client.del(this.lockPrefix + key);
+  }
+
   async clear(): Promise<void> {
-    await this.client.del(this.queueKey);
+    for (const key of await this.pendingKeys()) await this.client.del(key);
+    await this.client.del(this.legacyQueueKey);
+    await this.client.del(this.queuesKey);
     await this.client.del(this.delayedKey);
     await this.client.del(this.failedKey);
     await this.client.del(this.processedKey);
   }
 
   async size(): Promise<number> {
-    const len = await this.client.llen(this.queueKey);
+    let len = await this.client.llen(this.legacyQueueKey);
+    for (const key of await this.pendingKeys()) len += await this.client.zcard(key);
     const delayed = await this.client.zcard(this.delayedKey);
     return len + delayed;
   }
@@ -124,19 +181,22 @@ export class RedisDriver implements QueueDriver {
   }
 
   async getPending(offset: number = 0, limit: number = 20): Promise<Job[]> {
-     const jobs = await this.client.lrange(this.queueKey, offset, offset + limit - 1);
-     return jobs.map(j => JSON.parse(j));
+     const jobs: string[] = [];
+     for (const key of await this.pendingKeys()) {
+       if (jobs.length >= offset + limit) break;
+       jobs.push(...await this.client.zrange(key, 0, offset + limit - jobs.length - 1));
+     }
+     return jobs.slice(offset, offset + limit).map(j => JSON.parse(j));
   }
 
   async getStats(): Promise<{ pending: number; failed: number; processed: number }> {
-     const pending = await this.client.llen(this.queueKey);
-     const delayed = await this.client.zcard(this.delayedKey);
+     const pending = await this.size();
      const failed = await this.client.llen(this.failedKey);
      
      const processedStr = await this.client.get(this.processedKey);
      const processed = processedStr ? parseInt(processedStr) : 0;
 
-     return { pending: pending + delayed, failed, processed };
+     return { pending, failed, processed };
   }
 
   async retry(jobId: string): Promise<void> {
@@ -158,7 +218,7 @@ export class RedisDriver implements QueueDriver {
              job.status = 'pending';
              job.error = undefined;
              job.createdAt = Date.now();
-             await this.client.lpush(this.queueKey, JSON.stringify(job));
+             await this.enqueue(job, JSON.stringify(job));
              break;
          }
      }
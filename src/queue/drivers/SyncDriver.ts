@@ -1,4 +1,4 @@
-import type { QueueDriver, Job } from './types';
+import type { QueueDriver, Job, JobPayload } from './types';
 
 /**
  * Executor callback that actually runs a job's work. The Queue wires this to its
@@ -18,12 +18,13 @@ export class SyncDriver implements QueueDriver {
   private completed: Job[] = [];
   private failed: Job[] = [];
   private processedCount = 0;
+  private locks: Map<string, number> = new Map(); // unique key -> expires at
 
   constructor(executor?: SyncExecutor) {
     this.executor = executor;
   }
 
-  private makeJob(payload: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Job {
+  private makeJob(payload: JobPayload): Job {
     return {
       ...payload,
       id: Math.random().toString(36).substring(7),
@@ -56,13 +57,13 @@ export class SyncDriver implements QueueDriver {
     }
   }
 
-  async push(payload: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Promise<string> {
+  async push(payload: JobPayload): Promise<string> {
     const job = this.makeJob(payload);
     await this.run(job);
     return job.id;
   }
 
-  async later(_delay: number, payload: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Promise<string> {
+  async later(_delay: number, payload: JobPayload): Promise<string> {
     // Sync execution ignores the delay and runs immediately.
     const job = this.makeJob(payload);
     await this.run(job);
@@ -88,7 +89,19 @@ export class SyncDriver implements QueueDriver {
     // No queue to release back into for a synchronous driver.
   }
 
+  async acquireUniqueLock(key: string, ttl: number): Promise<boolean> {
+    const expiresAt = this.locks.get(key);
+    if (expiresAt !== undefined && expiresAt > Date.now()) return false;
+    this.locks.set(key, Date.now() + ttl);
+    return true;
+  }
+
+  async releaseUniqueLock(key: string): Promise<void> {
+    this.locks.delete(key);
+  }
+
   async clear(): Promise<void> {
+    this.locks.clear();
     this.completed = [];
     this.failed = [];
     this.processedCount = 0;
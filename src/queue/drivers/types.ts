@@ -9,8 +9,21 @@ export interface Job {
   createdAt: number;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   error?: string;
+  /** Named queue the job belongs to (default 'default') */
+  queue?: string;
+  /** Higher priorities are popped first; FIFO within a priority (default 0) */
+  priority?: number;
+  /** Key of the uniqueness lock held while this job is queued or running */
+  uniqueKey?: string;
+  /** Per-attempt timeout in ms */
+  timeout?: number;
+  /** Retry delay in ms, or a per-attempt schedule (the last entry repeats) */
+  backoff?: number | number[];
 }
 
+/** What a driver receives from push()/later() */
+export type JobPayload = Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>;
+
 export interface QueueConfig {
   default?: string;
   connections?: {
@@ -19,18 +32,26 @@ export interface QueueConfig {
     redis?: { driver: 'redis'; host?: string; port?: number; password?: string };
   };
   concurrency?: number; // Worker concurrency
+  /** Default per-attempt timeout in ms (none by default) */
+  timeout?: number;
+  /** Default retry delay: ms, a per-attempt schedule, or a function of the attempt number */
+  backoff?: number | number[] | ((attempt: number, job: Job) => number);
 }
 
 export interface QueueDriver {
-  push(job: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Promise<string>;
-  later(delay: number, job: Omit<Job, 'id' | 'status' | 'attempts' | 'createdAt'>): Promise<string>;
+  push(job: JobPayload): Promise<string>;
+  later(delay: number, job: JobPayload): Promise<string>;
   
   // Worker methods
-  pop(): Promise<Job | null>;
+  pop(queue?: string): Promise<Job | null>; // queue defaults to 'default'
   complete(job: Job): Promise<void>;
   fail(job: Job, error: Error): Promise<void>;
   release(job: Job, delay: number): Promise<void>; // Retry
   
+  // Unique jobs. Drivers without these cannot dispatch with `uniqueFor`.
+  acquireUniqueLock?(key: string, ttl: number): Promise<boolean>;
+  releaseUniqueLock?(key: string): Promise<void>;
+
   // Maintenance & Stats
   clear(): Promise<void>;
   size(): Promise<number>;
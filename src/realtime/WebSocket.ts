@@ -13,6 +13,10 @@ export interface WebSocketData {
   userId?: string | number;
   rooms: Set<string>;
   metadata: Record<string, unknown>;
+  /** Subprotocol agreed during the upgrade */
+  protocol?: string;
+  /** Headers of the upgrade request */
+  headers?: Record<string, string>;
 }
 
 export type WebSocketHandler = (
@@ -28,6 +32,8 @@ export interface WebSocketConfig {
   idleTimeout?: number;
   backpressureLimit?: number;
   compression?: boolean;
+  /** Subprotocols this server speaks; clients offering none of them are refused */
+  protocols?: string[];
 }
 
 // ============================================
@@ -71,6 +77,7 @@ export class WebSocketServer {
       open: (ws: ServerWebSocket<WebSocketData>) => {
         const id = this.generateId();
         ws.data = {
+          ...ws.data,
           id,
           rooms: new Set(),
           metadata: {},
@@ -136,6 +143,44 @@ export class WebSocketServer {
     };
   }
 
+  /**
+   * Whether a request is a WebSocket upgrade for this server's path
+   */
+  matches(req: Request): boolean {
+    return req.headers.get('upgrade')?.toLowerCase() === 'websocket' &&
+      new URL(req.url).pathname === this.config.path;
+  }
+
+  /**
+   * Upgrade a request to a WebSocket, agreeing on one of `config.protocols`.
+   * Returns false when the client offers no supported subprotocol or Bun
+   * refuses the upgrade.
+   */
+  upgrade(req: Request, server: BunServer<WebSocketData>): boolean {
+    const headers: Record<string, string> = {};
+    const requestHeaders: Record<string, string> = {};
+    req.headers.forEach((value, key) => { requestHeaders[key] = value; });
+    let protocol: string | undefined;
+
+    if (this.config.protocols?.length) {
+      const offered = (req.headers.get('sec-websocket-protocol') ?? '').split(',').map(p => p.trim());
+      protocol = this.config.protocols.find(p => offered.includes(p));
+      if (!protocol) return false;
+      headers['Sec-WebSocket-Protocol'] = protocol;
+    }
+
+    return server.upgrade(req, {
+      headers,
+      data: {
+        id: '',
+        rooms: new Set(),
+        metadata: {},
+        protocol,
+        headers: requestHeaders,
+      },
+    });
+  }
+
   // ============================================
   // Event Handlers
   // ============================================
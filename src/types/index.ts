@@ -3,6 +3,8 @@
  * Ultra-fast async-first MVC backend framework for Bun
  */
 
+import type { WebSocketServer } from '../realtime/WebSocket';
+
 // Global JSX namespace for type compatibility
 declare global {
   namespace JSX {
@@ -64,8 +66,20 @@ export interface CanxRequest {
   timestamp: number;
   /** Request ID for tracing */
   id: string;
+  /** Aborted when the client disconnects or the server timeout elapses */
+  signal: AbortSignal;
+  /** Client address: the socket peer, or the forwarded client behind trusted proxies ('' when unknown) */
+  ip: string;
+  /** Forwarded addresses from the client to the nearest trusted proxy; empty without trusted proxies */
+  ips: string[];
+  /** 'https' or 'http', from X-Forwarded-Proto / Forwarded when the proxy is trusted */
+  protocol: 'http' | 'https';
+  /** Host name without port, from X-Forwarded-Host / Forwarded when the proxy is trusted */
+  hostname: string;
   /** Authenticated user (set by auth middleware) */
   user?: unknown;
+  /** Route params resolved by route model binding, keyed by param name */
+  models?: Record<string, any>;
 
   /** Localization: Current Locale */
   locale?: string;
@@ -162,6 +176,8 @@ export interface Route {
   handler: RouteHandler;
   middlewares?: MiddlewareHandler[];
   name?: string;
+  /** Host pattern for domain routes, e.g. '{tenant}.example.com' */
+  domain?: string;
   meta?: Record<string, unknown>;
 }
 
@@ -178,6 +194,10 @@ export interface RouterOptions {
   trailingSlash?: 'ignore' | 'require' | 'remove';
   /** Enable route caching */
   cache?: boolean;
+  /** Most static-route matches kept in the match cache (default 1000) */
+  cacheSize?: number;
+  /** Scheme of absolute URLs built for domain routes (default: from APP_URL, else https) */
+  scheme?: 'http' | 'https';
 }
 
 // ============================================
@@ -206,7 +226,7 @@ export interface ReplicaConfig {
   password?: string;
 }
 
-export interface DatabaseConfig {
+export interface DatabaseConnectionConfig {
   driver: DatabaseDriver;
   host?: string;
   port?: number;
@@ -226,6 +246,17 @@ export interface DatabaseConfig {
   ssl?: boolean | object;
 }
 
+/**
+ * Database configuration. Flat connection settings describe the default
+ * connection; `connections` adds named ones (e.g. an analytics replica).
+ */
+export interface DatabaseConfig extends Partial<DatabaseConnectionConfig> {
+  /** Name of the default connection ('default' for the flat settings) */
+  default?: string;
+  /** Additional named connections, selected via DB.connection(name) or Model.connection */
+  connections?: Record<string, DatabaseConnectionConfig>;
+}
+
 export interface ModelField {
   name: string;
   type: 'string' | 'number' | 'boolean' | 'date' | 'json' | 'text' | 'binary';
@@ -372,18 +403,53 @@ export interface ServerConfig {
   development?: boolean;
   /** Static files directory */
   static?: string | false;
-  /** Maximum request body size */
+  /** Maximum request body size in bytes (413 when exceeded) */
   maxBodySize?: number;
-  /** Request timeout in ms */
+  /** Request timeout in ms (0 disables) */
   timeout?: number;
-  /** Enable compression */
-  compression?: boolean;
+  /** Enable response compression */
+  compression?: boolean | CompressionConfig;
   /** CORS configuration */
   cors?: CorsConfig | boolean;
   /** SSL/TLS configuration */
   tls?: TlsConfig;
-  /** Trusted proxy IPs */
+  /**
+   * Proxies whose forwarded headers are trusted: `true` for any, or a list of
+   * addresses, CIDR ranges and the presets 'loopback', 'linklocal', 'uniquelocal'
+   */
+  trustProxy?: boolean | string[];
+  /**
+   * Forwarded header the trusted proxies set: 'x-forwarded-for' (default, with
+   * X-Forwarded-Proto/-Host) or the RFC 7239 'forwarded'. The other is ignored.
+   */
+  proxyHeader?: 'x-forwarded-for' | 'forwarded';
+  /** WebSocket server that takes over upgrade requests on its path */
+  websocket?: WebSocketServer;
+}
+
+export type CompressionEncoding = 'br' | 'zstd' | 'gzip';
+
+export interface CompressionConfig {
+  /** Encodings the server may use, in order of preference */
+  encodings?: CompressionEncoding[];
+  /** Minimum body size in bytes before compressing */
+  threshold?: number;
+  /** Decide whether a content type is worth compressing */
+  filter?: (contentType: string) => boolean;
+}
+
+/**
+ * Per-request data the Server hands to the application alongside the raw Request
+ */
+export interface ServerRequestMeta {
+  /** Combined client-disconnect and timeout signal */
+  signal?: AbortSignal;
+  /** Socket peer address reported by Bun */
+  remoteAddress?: string;
+  /** Proxies whose forwarded headers are trusted (ServerConfig.trustProxy) */
   trustProxy?: boolean | string[];
+  /** Forwarded header those proxies set (ServerConfig.proxyHeader) */
+  proxyHeader?: 'x-forwarded-for' | 'forwarded';
 }
 
 export interface CorsConfig {
@@ -506,6 +572,20 @@ export interface CanxApplication {
   close: () => Promise<void>;
 }
 
+/**
+ * Param constraint: a RegExp, a regex source string, or one of the named
+ * patterns 'number', 'alpha', 'alphanumeric', 'slug', 'uuid', 'ulid'
+ */
+export type RouteConstraint = RegExp | 'number' | 'alpha' | 'alphanumeric' | 'slug' | 'uuid' | 'ulid' | (string & {});
+
+/**
+ * Route model binding target: a Model class, or a resolver returning the
+ * bound value (null/undefined responds 404)
+ */
+export type RouteBindingTarget =
+  | (abstract new (...args: any[]) => unknown)
+  | ((value: string, req: CanxRequest) => unknown | Promise<unknown>);
+
 export type RouteHandlerOrTuple = MiddlewareHandler | RouteHandler | [any, string];
 
 export interface RouterInstance {
@@ -518,11 +598,21 @@ export interface RouterInstance {
   head: (path: string, ...handlers: RouteHandlerOrTuple[]) => RouterInstance;
   all: (path: string, ...handlers: RouteHandlerOrTuple[]) => RouterInstance;
   group: (prefix: string, callback: (router: RouterInstance) => void) => RouterInstance;
+  /** Register routes for a host pattern such as '{tenant}.example.com' */
+  domain: (pattern: string, callback: (router: RouterInstance) => void) => RouterInstance;
   middleware: (...handlers: MiddlewareHandler[]) => RouterInstance;
   /** Register a controller class */
   controller: (path: string, controller: any) => RouterInstance;
   /** Name the last route */
   name: (name: string) => RouterInstance;
+  /** Constrain params of the last route */
+  where: (param: string | Record<string, RouteConstraint>, pattern?: RouteConstraint) => RouterInstance;
+  /** Bind a route param to a model or resolver */
+  bind: (param: string, target: RouteBindingTarget) => RouterInstance;
+  /** Let the last route bind soft-deleted models */
+  withTrashed: () => RouterInstance;
+  /** Stop checking that the last route's bound models belong to each other */
+  withoutScopedBindings: () => RouterInstance;
   /** Generate URL */
   url: (name: string, params?: Record<string, any>) => string;
 }
@@ -0,0 +1,105 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { initDatabase, closeDatabase, query, execute, transaction, getCurrentDriver, getConnectionNames, DB, Model } from "../src/mvc/Model";
+
+class Account extends Model {
+  static tableName = "accounts";
+  static timestamps = false;
+}
+
+class PageView extends Model {
+  static tableName = "page_views";
+  static timestamps = false;
+  static connection = "analytics";
+}
+
+describe("Named database connections", () => {
+  beforeAll(async () => {
+    await initDatabase({
+      default: "primary",
+      connections: {
+        primary: { driver: "sqlite", database: ":memory:" },
+        analytics: { driver: "sqlite", database: ":memory:" },
+      },
+    });
+
+    await execute("CREATE TABLE accounts (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT)");
+    await DB.connection("analytics").statement("CREATE TABLE page_views (id INTEGER PRIMARY KEY AUTOINCREMENT, path TEXT)");
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  test("should register every named connection", () => {
+    expect(getConnectionNames().sort()).toEqual(["analytics", "primary"]);
+    expect(getCurrentDriver()).toBe("sqlite");
+    expect(getCurrentDriver("analytics")).toBe("sqlite");
+  });
+
+  test("should keep tables isolated per connection", async () => {
+    const tables = await DB.connection("analytics").raw<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table'");
+    expect(tables.map(t => t.name)).toContain("page_views");
+    expect(tables.map(t => t.name)).not.toContain("accounts");
+  });
+
+  test("should route models through their static connection", async () => {
+    await Account.create({ name: "Alice" });
+    await PageView.create({ path: "/home" });
+
+    expect(await PageView.query().count()).toBe(1);
+    const rows = await query("SELECT name FROM sqlite_master WHERE name = 'page_views'");
+    expect(rows.length).toBe(0);
+  });
+
+  test("should build queries on a named connection", async () => {
+    const views = await DB.connection("analytics").table("page_views").where("path", "/home").get();
+    expect(views.length).toBe(1);
+  });
+
+  test("should keep the connection in nested where groups", async () => {
+    let nested: any;
+    const views = await DB.connection("analytics").table("page_views")
+      .where((q: any) => { nested = q; q.where("path", "/home").orWhere("path", "/about"); })
+      .get();
+    expect(views.length).toBe(1);
+    expect(nested.connectionName).toBe("analytics");
+  });
+
+  test("should cache remembered queries per connection", async () => {
+    await execute("CREATE TABLE settings (name TEXT)");
+    await execute("INSERT INTO settings (name) VALUES ('primary')");
+    await DB.connection("analytics").statement("CREATE TABLE settings (name TEXT)");
+    await DB.connection("analytics").statement("INSERT INTO settings (name) VALUES ('analytics')");
+
+    const primary = await DB.table("settings").remember(60).get();
+    const analytics = await DB.connection("analytics").table("settings").remember(60).get();
+    expect(primary.map((r: any) => r.name)).toEqual(["primary"]);
+    expect(analytics.map((r: any) => r.name)).toEqual(["analytics"]);
+  });
+
+  test("should scope transactions to one connection", async () => {
+    await expect(
+      DB.connection("analytics").transaction(async () => {
+        await PageView.create({ path: "/rolled-back" });
+        await Account.create({ name: "Bob" });
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(await PageView.query().where("path", "/rolled-back").count()).toBe(0);
+    // The default connection was not part of the analytics transaction
+    expect(await Account.query().where("name", "Bob").count()).toBe(1);
+  });
+
+  test("should accept a connection name in transaction()", async () => {
+    await transaction(async () => {
+      await PageView.create({ path: "/committed" });
+    }, "analytics");
+
+    expect(await PageView.query().where("path", "/committed").count()).toBe(1);
+  });
+
+  test("should reject unknown connections", () => {
+    expect(() => DB.connection("missing")).toThrow("Database connection [missing] is not configured");
+  });
+});
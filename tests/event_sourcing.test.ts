@@ -0,0 +1,259 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, afterEach, spyOn } from "bun:test";
+import {
+  AggregateRoot,
+  InMemoryEventStore,
+  SqlEventStore,
+  SqlCheckpointStore,
+  EventSourcingRepository,
+  ProjectionManager,
+  ConcurrencyError,
+  findProjectionManager,
+  type DomainEvent,
+} from "../src/cqrs/EventSourcing";
+import { initDatabase, closeDatabase, execute, query } from "../src/mvc/Model";
+
+class Account extends AggregateRoot<{ balance: number }> {
+  constructor(id: string) {
+    super(id, { balance: 0 });
+  }
+
+  deposit(amount: number) {
+    this.raise("Deposited", { amount });
+  }
+
+  protected apply(event: DomainEvent): void {
+    if (event.type === "Deposited") this.state = { balance: this.state.balance + (event.payload as any).amount };
+  }
+}
+
+describe("SqlEventStore", () => {
+  let store: SqlEventStore;
+  let accounts: EventSourcingRepository<Account, { balance: number }>;
+
+  beforeAll(async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+    await execute(`CREATE TABLE events (
+      position INTEGER PRIMARY KEY AUTOINCREMENT, id VARCHAR(255), aggregate_id VARCHAR(255) NOT NULL,
+      aggregate_type VARCHAR(255), type VARCHAR(255), version INTEGER NOT NULL, payload TEXT, metadata TEXT,
+      timestamp BIGINT, UNIQUE (aggregate_id, version)
+    )`);
+    await execute("CREATE TABLE snapshots (aggregate_id VARCHAR(255) PRIMARY KEY, version INTEGER, state TEXT, timestamp BIGINT)");
+    await execute("CREATE TABLE projection_checkpoints (name VARCHAR(255) PRIMARY KEY, position BIGINT, state TEXT, updated_at BIGINT)");
+
+    store = new SqlEventStore({ snapshotThreshold: 3 });
+    accounts = new EventSourcingRepository(store, "Account", (id) => new Account(id));
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  test("should persist events and rebuild aggregates from them", async () => {
+    const account = new Account("acc-1");
+    account.deposit(10);
+    account.deposit(5);
+    await accounts.save(account, 0);
+
+    const loaded = await accounts.load("acc-1");
+    expect(loaded?.getState().balance).toBe(15);
+    expect(loaded?.version).toBe(2);
+    expect(await accounts.load("missing")).toBeNull();
+  });
+
+  test("should reject stale writers through expectedVersion and the unique key", async () => {
+    const first = (await accounts.load("acc-1"))!;
+    const second = (await accounts.load("acc-1"))!;
+    first.deposit(1);
+    second.deposit(2);
+
+    await accounts.save(first);
+    await expect(accounts.save(second, 2)).rejects.toBeInstanceOf(ConcurrencyError);
+    // Without an expected version the (aggregate_id, version) key still catches it
+    await expect(accounts.save(second)).rejects.toBeInstanceOf(ConcurrencyError);
+    expect((await accounts.load("acc-1"))?.getState().balance).toBe(16);
+  });
+
+  test("should snapshot past the threshold and load from the snapshot", async () => {
+    const snapshot = await store.getSnapshot<{ balance: number }>("acc-1");
+    expect(snapshot).toEqual({ aggregateId: "acc-1", version: 3, state: { balance: 16 }, timestamp: expect.any(Number) });
+
+    // Loading starts from the snapshot, not from the first event
+    await execute(`UPDATE snapshots SET state = '{"balance":1000}' WHERE aggregate_id = 'acc-1'`);
+    expect((await accounts.load("acc-1"))?.getState().balance).toBe(1000);
+    await execute(`UPDATE snapshots SET state = '{"balance":16}' WHERE aggregate_id = 'acc-1'`);
+
+    const account = (await accounts.load("acc-1"))!;
+    account.deposit(4);
+    await accounts.save(account, 3);
+    expect((await accounts.load("acc-1"))?.getState().balance).toBe(20);
+  });
+
+  test("should expose a global ordered position stream", async () => {
+    const other = new Account("acc-2");
+    other.deposit(100);
+    await accounts.save(other);
+
+    const all = await store.getAllEvents();
+    const positions = all.map(e => e.position!);
+    expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    expect(await store.getStreamPosition()).toBe(positions[positions.length - 1]);
+
+    const tail = await store.getAllEvents(positions[0], 1);
+    expect(tail.length).toBe(1);
+    expect(tail[0].position).toBe(positions[1]);
+  });
+
+  test("should resume projections from their persisted checkpoint", async () => {
+    let handled = 0;
+    const build = () => new ProjectionManager(store, new SqlCheckpointStore()).register("totals", { total: 0 }, {
+      Deposited: (state, event) => {
+        handled++;
+        return { total: state.total + (event.payload as any).amount };
+      },
+    });
+
+    const first = build();
+    await first.update("totals");
+    const seen = handled;
+    expect(first.getState<{ total: number }>("totals")?.total).toBe(120);
+
+    const more = (await accounts.load("acc-2"))!;
+    more.deposit(1);
+    await accounts.save(more);
+
+    // A new manager (e.g. after a restart) only processes the new event
+    const second = build();
+    await second.update("totals");
+    expect(handled).toBe(seen + 1);
+    expect(second.getState<{ total: number }>("totals")?.total).toBe(121);
+    expect(second.getPosition("totals")).toBe(await store.getStreamPosition());
+
+    await second.reset("totals");
+    expect(await query("SELECT * FROM projection_checkpoints")).toEqual([]);
+  });
+
+  test("should retry appends that lost the race for the next position", async () => {
+    const before = await store.getStreamPosition();
+    // Another writer committed position 1 after this one read the stream position
+    const position = spyOn(store, "getStreamPosition").mockResolvedValueOnce(0);
+
+    const account = new Account("acc-3");
+    account.deposit(7);
+    await accounts.save(account, 0);
+    position.mockRestore();
+
+    const [event] = await store.getEvents("acc-3");
+    expect(event.position).toBe(before + 1);
+    expect((await accounts.load("acc-3"))?.getState().balance).toBe(7);
+  });
+
+  test("should notify listeners without reading the appended events back", async () => {
+    const received: any[] = [];
+    const unsubscribe = store.subscribe(events => received.push(...events));
+    const reads = spyOn(store, "getEvents").mockRejectedValue(new Error("replica lagging"));
+
+    const before = await store.getStreamPosition();
+    await store.appendEvents("acc-4", "Account", [{ type: "Deposited", payload: { amount: 3 }, version: 1, timestamp: 1 } as DomainEvent]);
+    reads.mockRestore();
+    unsubscribe();
+
+    expect(received).toEqual([expect.objectContaining({
+      id: "acc-4-1", aggregateId: "acc-4", type: "Deposited", version: 1, payload: { amount: 3 }, position: before + 1,
+    })]);
+  });
+});
+
+describe("Projection subscriptions", () => {
+  let store: InMemoryEventStore;
+  let accounts: EventSourcingRepository<Account, { balance: number }>;
+  let manager: ProjectionManager;
+  const error = spyOn(console, "error").mockImplementation(() => {});
+
+  const deposit = async (id: string, amount: number) => {
+    const account = (await accounts.load(id)) ?? new Account(id);
+    account.deposit(amount);
+    await accounts.save(account);
+  };
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+    accounts = new EventSourcingRepository(store, "Account", (id) => new Account(id));
+    manager = new ProjectionManager(store);
+  });
+
+  afterEach(() => {
+    manager.stop();
+  });
+
+  afterAll(() => {
+    error.mockRestore();
+  });
+
+  test("should catch up on start and follow new events live", async () => {
+    manager.register("total", 0, { Deposited: (total, e) => total + (e.payload as any).amount });
+    await deposit("a", 5);
+
+    await manager.start({ pollInterval: 0 });
+    expect(manager.getState<number>("total")).toBe(5);
+
+    await deposit("a", 7);
+    await manager.idle();
+    expect(manager.getState<number>("total")).toBe(12);
+    expect(manager.getPosition("total")).toBe(2);
+  });
+
+  test("should isolate a failing projection and retry it from the failed event", async () => {
+    let broken = true;
+    const failures: string[] = [];
+    manager.register("total", 0, { Deposited: (total, e) => total + (e.payload as any).amount });
+    manager.register("large", [] as number[], {
+      Deposited: (list, e) => {
+        const amount = (e.payload as any).amount;
+        if (broken && amount > 100) throw new Error("cannot index");
+        return [...list, amount];
+      },
+    });
+
+    await manager.start({ pollInterval: 0, onError: (name) => failures.push(name) });
+    await deposit("a", 1);
+    await deposit("a", 500);
+    await deposit("a", 2);
+    await manager.idle();
+
+    expect(manager.getState<number>("total")).toBe(503);
+    expect(failures).toContain("large");
+    expect(manager.getStatus("large")).toEqual({ status: "failed", position: 1, error: "cannot index" });
+
+    broken = false;
+    await manager.updateAll();
+    expect(manager.getState<number[]>("large")).toEqual([1, 500, 2]);
+    expect(manager.getStatus("large")?.status).toBe("idle");
+  });
+
+  test("should rebuild from a checkpoint at or before the chosen position", async () => {
+    manager.register("total", 0, { Deposited: (total, e) => total + (e.payload as any).amount });
+    await deposit("a", 1);
+    await manager.updateAll();
+    await deposit("a", 10);
+    await deposit("b", 100);
+
+    await manager.rebuild("total", 2);
+    expect(manager.getState<number>("total")).toBe(111);
+    expect(manager.getPosition("total")).toBe(3);
+    expect(findProjectionManager("total")).toBe(manager);
+  });
+
+  test("should refuse to rebuild from a position its checkpoint has passed", async () => {
+    manager.register("total", 0, { Deposited: (total, e) => total + (e.payload as any).amount });
+    await deposit("a", 1);
+    await deposit("a", 10);
+    await deposit("b", 100);
+    await manager.updateAll();
+
+    await expect(manager.rebuild("total", 1)).rejects.toThrow("checkpoint is at 3");
+    expect(manager.getState<number>("total")).toBe(111);
+
+    await manager.rebuild("total");
+    expect(manager.getState<number>("total")).toBe(111);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, expect, test, beforeAll, afterAll, spyOn } from "bun:test";
+import { parse } from "graphql";
+import { Model, initDatabase, closeDatabase, execute } from "../src/mvc/Model";
+import {
+  ObjectType, Field, Resolver, GqlQuery, ResolveField, Args,
+  createCodeFirstSchema, createGraphQLAdapter, DataLoader, DataLoaderRegistry, analyzeQuery,
+} from "../src/graphql";
+
+class Author extends Model {
+  static tableName = "gql_authors";
+}
+
+class Article extends Model {
+  static tableName = "gql_articles";
+}
+
+@ObjectType()
+class AuthorType {
+  @Field({ type: "ID" }) id!: number;
+  @Field() name!: string;
+}
+
+@ObjectType()
+class ArticleType {
+  @Field({ type: "ID" }) id!: number;
+  @Field() title!: string;
+}
+
+@Resolver(() => ArticleType)
+class ArticleResolver {
+  @GqlQuery({ type: { list: ArticleType }, complexity: ({ args, childComplexity }) => (args.first ?? 10) * childComplexity })
+  articles(@Args({ name: "first", type: "Int", nullable: true }) { first }: { first?: number }) {
+    return Article.query().orderBy("id").limit(first ?? 10).get();
+  }
+
+  @ResolveField({ type: AuthorType })
+  author(article: any, _args: unknown, { loaders }: { loaders: DataLoaderRegistry }) {
+    return loaders.model(Author).load(article.author_id);
+  }
+}
+
+@Resolver(() => AuthorType)
+class AuthorResolver {
+  @ResolveField({ type: { list: ArticleType }, complexity: 5 })
+  articles(author: any, _args: unknown, { loaders }: { loaders: DataLoaderRegistry }) {
+    return loaders.modelMany(Article, "author_id").load(author.id);
+  }
+}
+
+const run = async (handler: any, query: string, variables?: Record<string, unknown>) => {
+  let status = 200;
+  const req: any = { method: "POST", json: async () => ({ query, variables }) };
+  const res: any = {
+    status(code: number) { status = code; return res; },
+    json: (body: any) => ({ status, body }),
+  };
+  return handler(req, res, async () => {});
+};
+
+describe("GraphQL DataLoader", () => {
+  test("should batch loads from the same tick and cache them", async () => {
+    const batches: number[][] = [];
+    const loader = new DataLoader<number, string>(async (keys) => {
+      batches.push([...keys]);
+      return keys.map(k => `user:${k}`);
+    });
+
+    expect(await Promise.all([loader.load(1), loader.load(2), loader.load(1)])).toEqual(["user:1", "user:2", "user:1"]);
+    expect(await loader.load(2)).toBe("user:2");
+    expect(batches).toEqual([[1, 2]]);
+  });
+
+  test("should reject only the keys the batch function failed", async () => {
+    let calls = 0;
+    const loader = new DataLoader<number, number>(async (keys) => {
+      calls++;
+      return keys.map(k => (k < 0 && calls === 1 ? new Error(`bad key ${k}`) : k * 2));
+    }, { maxBatchSize: 2 });
+
+    const results = await loader.loadMany([1, -1, 3]);
+    expect(results[0]).toBe(2);
+    expect((results[1] as Error).message).toBe("bad key -1");
+    expect(results[2]).toBe(6);
+    expect(calls).toBe(2);
+
+    // Errors aren't cached, so the key is loaded again
+    expect(await loader.load(-1)).toBe(-2);
+  });
+});
+
+describe("GraphQL query batching and limits", () => {
+  let handler: any;
+  let authorQueries: ReturnType<typeof spyOn>;
+  let articleQueries: ReturnType<typeof spyOn>;
+
+  beforeAll(async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+    await execute("CREATE TABLE gql_authors (id INTEGER PRIMARY KEY, name TEXT)");
+    await execute("CREATE TABLE gql_articles (id INTEGER PRIMARY KEY, title TEXT, author_id INTEGER)");
+    await execute("INSERT INTO gql_authors (id, name) VALUES (1, 'Ada'), (2, 'Grace')");
+    await execute("INSERT INTO gql_articles (id, title, author_id) VALUES (1, 'A', 1), (2, 'B', 2), (3, 'C', 1), (4, 'D', 2)");
+
+    const builder = createCodeFirstSchema()
+      .addTypes(AuthorType, ArticleType)
+      .addResolvers(ArticleResolver, AuthorResolver)
+      .setQueryLimits({ maxDepth: 4, maxComplexity: 100 });
+    const adapter = createGraphQLAdapter({ schema: await builder.build(), queryLimiter: builder.getQueryLimiter() });
+    await adapter.register({ post: () => {}, get: () => {} });
+    handler = adapter.getMiddleware();
+
+    authorQueries = spyOn(Author, "query");
+    articleQueries = spyOn(Article, "query");
+  });
+
+  afterAll(async () => {
+    authorQueries.mockRestore();
+    articleQueries.mockRestore();
+    await closeDatabase();
+  });
+
+  test("should resolve relations of a list with one query per relation", async () => {
+    authorQueries.mockClear();
+    articleQueries.mockClear();
+
+    const { status, body } = await run(handler, "{ articles { title author { name articles { title } } } }");
+    expect(status).toBe(200);
+    expect(body.errors).toBeUndefined();
+    expect(body.data.articles.map((a: any) => `${a.title}:${a.author.name}`)).toEqual(["A:Ada", "B:Grace", "C:Ada", "D:Grace"]);
+    expect(body.data.articles[0].author.articles).toEqual([{ title: "A" }, { title: "C" }]);
+
+    expect(authorQueries).toHaveBeenCalledTimes(1);
+    // The root list plus one batched load of every author's articles
+    expect(articleQueries).toHaveBeenCalledTimes(2);
+  });
+
+  test("should not share loader caches between requests", async () => {
+    await run(handler, "{ articles(first: 1) { author { name } } }");
+    await execute("UPDATE gql_authors SET name = 'Ada L.' WHERE id = 1");
+
+    const { body } = await run(handler, "{ articles(first: 1) { author { name } } }");
+    expect(body.data.articles[0].author.name).toBe("Ada L.");
+  });
+
+  test("should reject queries over the depth limit before resolving them", async () => {
+    articleQueries.mockClear();
+    const { status, body } = await run(handler, "{ articles { author { articles { author { name } } } } }");
+
+    expect(status).toBe(400);
+    expect(body.errors[0].extensions).toMatchObject({ code: "QUERY_TOO_DEEP", depth: 5, limit: 4 });
+    expect(articleQueries).not.toHaveBeenCalled();
+  });
+
+  test("should reject queries over the cost limit using field estimators", async () => {
+    // articles(first: 20) * (title 1 + author (1 + name 1)) = 60
+    const allowed = await run(handler, "query($n: Int) { articles(first: $n) { title author { name } } }", { n: 20 });
+    expect(allowed.status).toBe(200);
+    expect(allowed.body.errors).toBeUndefined();
+
+    // author.articles costs 5 + its children, so 20 * (1 + 1 + 5 + 1) = 160
+    const { status, body } = await run(handler, "query($n: Int) { articles(first: $n) { title author { articles { id } } } }", { n: 20 });
+    expect(status).toBe(400);
+    expect(body.errors[0].message).toBe("Query complexity 160 exceeds the maximum of 100");
+    expect(body.errors[0].extensions.code).toBe("QUERY_TOO_COMPLEX");
+  });
+});
+
+describe("analyzeQuery", () => {
+  test("should follow fragments and honour @skip/@include", () => {
+    const fields = {
+      Query: { feed: { type: "Post", complexity: 2 } },
+      Post: { title: { type: "String" }, comments: { type: "Comment", complexity: 3 } },
+      Comment: { body: { type: "String" } },
+    };
+    const document = parse(`
+      query Feed($withComments: Boolean = true) {
+        feed { ...PostFields comments @include(if: $withComments) { body } __typename }
+      }
+      fragment PostFields on Post { title }
+    `);
+
+    expect(analyzeQuery(document, fields)).toEqual({ depth: 3, complexity: 7 });
+    expect(analyzeQuery(document, fields, { variables: { withComments: false } })).toEqual({ depth: 2, complexity: 3 });
+  });
+
+  test("should measure each fragment once and stop at the limit", () => {
+    // Every fragment spreads the next one twice: 2^26 fields once expanded
+    const names = Array.from({ length: 26 }, (_, i) => String.fromCharCode(65 + i));
+    const source = `query { ...A }\n` + names.map((name, i) =>
+      `fragment ${name} on Query { ${i < 25 ? `...${names[i + 1]} ...${names[i + 1]}` : "leaf"} }`
+    ).join("\n");
+    const document = parse(source);
+
+    const started = performance.now();
+    expect(analyzeQuery(document, {})).toEqual({ depth: 1, complexity: 2 ** 25 });
+    expect(analyzeQuery(document, {}, { maxComplexity: 100 }).complexity).toBeGreaterThan(100);
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, expect, test, beforeAll, afterAll, spyOn } from "bun:test";
+import { Server } from "../src/core/Server";
+import {
+  ObjectType, Field, Resolver, GqlQuery, GqlSubscription, Args,
+  createCodeFirstSchema, createGraphQLWsServer, InMemoryPubSub, RedisPubSub, GRAPHQL_TRANSPORT_WS_PROTOCOL,
+} from "../src/graphql";
+import { sleep } from "../src/testing/TestCase";
+
+const pubSub = new InMemoryPubSub();
+
+@ObjectType()
+class ChatMessage {
+  @Field() room!: string;
+  @Field() text!: string;
+}
+
+@Resolver(() => ChatMessage)
+class ChatResolver {
+  @GqlQuery({ type: "String" })
+  me(_args: unknown, context: { user: string }) {
+    return context.user;
+  }
+
+  @GqlSubscription({
+    type: ChatMessage,
+    topics: ["MESSAGE_ADDED"],
+    filter: (payload, variables) => payload.room === variables.room,
+  })
+  messageAdded(@Args("room") _room: string) {}
+}
+
+// Client side of graphql-transport-ws, queueing every message it receives
+class Client {
+  socket: WebSocket;
+  messages: any[] = [];
+  closed: Promise<{ code: number; reason: string }>;
+  private waiting: ((message: any) => void) | null = null;
+
+  constructor(url: string) {
+    this.socket = new WebSocket(url, GRAPHQL_TRANSPORT_WS_PROTOCOL);
+    this.socket.onmessage = (event) => {
+      const message = JSON.parse(String(event.data));
+      if (this.waiting) {
+        this.waiting(message);
+        this.waiting = null;
+      } else {
+        this.messages.push(message);
+      }
+    };
+    this.closed = new Promise(resolve => {
+      this.socket.onclose = (event) => resolve({ code: event.code, reason: event.reason });
+    });
+  }
+
+  opened(): Promise<void> {
+    return new Promise(resolve => { this.socket.onopen = () => resolve(); });
+  }
+
+  send(message: object): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  next(): Promise<any> {
+    if (this.messages.length > 0) return Promise.resolve(this.messages.shift());
+    return new Promise(resolve => { this.waiting = resolve; });
+  }
+
+  async init(token = "secret"): Promise<void> {
+    await this.opened();
+    this.send({ type: "connection_init", payload: { token } });
+  }
+}
+
+describe("GraphQL subscriptions over WebSocket", () => {
+  const log = spyOn(console, "log").mockImplementation(() => {});
+  let server: Server;
+  let url: string;
+  const clients: Client[] = [];
+
+  const connect = () => {
+    const client = new Client(url);
+    clients.push(client);
+    return client;
+  };
+
+  beforeAll(async () => {
+    const schema = await createCodeFirstSchema()
+      .addTypes(ChatMessage)
+      .addResolvers(ChatResolver)
+      .setPubSub(pubSub)
+      .build();
+    const websocket = createGraphQLWsServer({
+      schema,
+      onConnect: ({ connectionParams }) => connectionParams.token === "secret" && { user: "ada" },
+      context: ({ extra, connectionParams, socket }) => {
+        if (connectionParams.brokenContext) throw new Error("session store down");
+        return { ...extra, connectionParams, socket };
+      },
+    });
+
+    server = new Server({ port: 0, hostname: "127.0.0.1", websocket }, () => new Response("http", { status: 200 }));
+    await server.listen();
+    url = `ws://127.0.0.1:${server.instance!.port}/graphql`;
+  });
+
+  afterAll(async () => {
+    for (const client of clients) client.socket.close();
+    await sleep(20);
+    await server.close();
+    log.mockRestore();
+  });
+
+  test("should authenticate connection_init and expose its result in the context", async () => {
+    const client = connect();
+    await client.init();
+    expect(await client.next()).toEqual({ type: "connection_ack" });
+
+    client.send({ id: "1", type: "subscribe", payload: { query: "{ me }" } });
+    expect(await client.next()).toEqual({ id: "1", type: "next", payload: { data: { me: "ada" } } });
+    expect(await client.next()).toEqual({ id: "1", type: "complete" });
+
+    client.send({ type: "ping" });
+    expect(await client.next()).toEqual({ type: "pong" });
+  });
+
+  test("should close connections with a rejected connection_init", async () => {
+    const client = connect();
+    await client.init("wrong");
+    expect((await client.closed).code).toBe(4403);
+  });
+
+  test("should refuse operations before connection_ack", async () => {
+    const client = connect();
+    await client.opened();
+    client.send({ id: "1", type: "subscribe", payload: { query: "{ me }" } });
+    expect(await client.closed).toEqual({ code: 4401, reason: "Unauthorized" });
+  });
+
+  test("should stream only the events the subscription's filter accepts", async () => {
+    const alice = connect();
+    const bob = connect();
+    await alice.init();
+    await bob.init();
+    await alice.next();
+    await bob.next();
+
+    const subscription = "subscription($room: String!) { messageAdded(room: $room) { room text } }";
+    alice.send({ id: "a", type: "subscribe", payload: { query: subscription, variables: { room: "general" } } });
+    bob.send({ id: "b", type: "subscribe", payload: { query: subscription, variables: { room: "random" } } });
+    await sleep(20);
+
+    await pubSub.publish("MESSAGE_ADDED", { room: "random", text: "hi bob" });
+    await pubSub.publish("MESSAGE_ADDED", { room: "general", text: "hi all" });
+
+    expect(await alice.next()).toEqual({ id: "a", type: "next", payload: { data: { messageAdded: { room: "general", text: "hi all" } } } });
+    expect(await bob.next()).toEqual({ id: "b", type: "next", payload: { data: { messageAdded: { room: "random", text: "hi bob" } } } });
+
+    // After the client completes, no more events are sent for that id
+    alice.send({ id: "a", type: "complete" });
+    await sleep(20);
+    await pubSub.publish("MESSAGE_ADDED", { room: "general", text: "anyone?" });
+    await sleep(20);
+    expect(alice.messages).toEqual([]);
+  });
+
+  test("should report invalid operations as error messages", async () => {
+    const client = connect();
+    await client.init();
+    await client.next();
+
+    client.send({ id: "1", type: "subscribe", payload: { query: "subscription { messageAdded { nope } }" } });
+    const error = await client.next();
+    expect(error.id).toBe("1");
+    expect(error.type).toBe("error");
+    expect(error.payload.map((e: any) => e.message)).toContain('Cannot query field "nope" on type "ChatMessage".');
+
+    const subscription = { id: "2", type: "subscribe", payload: { query: 'subscription { messageAdded(room: "x") { text } }' } };
+    client.send(subscription);
+    client.send(subscription);
+    expect((await client.closed).code).toBe(4409);
+  });
+
+  test("should report context failures and free the operation id", async () => {
+    const client = connect();
+    await client.opened();
+    client.send({ type: "connection_init", payload: { token: "secret", brokenContext: true } });
+    await client.next();
+
+    const operation = { id: "1", type: "subscribe", payload: { query: "{ me }" } };
+    client.send(operation);
+    expect(await client.next()).toEqual({ id: "1", type: "error", payload: [{ message: "session store down" }] });
+    client.send(operation);
+    expect(await client.next()).toMatchObject({ id: "1", type: "error" });
+  });
+
+  test("should refuse upgrades that don't offer graphql-transport-ws", async () => {
+    const res = await fetch(`http://127.0.0.1:${server.instance!.port}/graphql`, {
+      headers: { upgrade: "websocket", connection: "Upgrade", "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==", "sec-websocket-version": "13" },
+    });
+    expect(res.status).toBe(400);
+
+    // Plain HTTP on the same path still reaches the app
+    expect(await (await fetch(`http://127.0.0.1:${server.instance!.port}/graphql`)).text()).toBe("http");
+  });
+});
+
+// Shared in-memory broker standing in for Redis between two workers
+class FakeRedis {
+  constructor(private channels: Map<string, Set<(message: string) => void>> = new Map()) {}
+
+  duplicate() {
+    return new FakeRedis(this.channels);
+  }
+
+  async publish(channel: string, message: string) {
+    for (const listener of this.channels.get(channel) ?? []) listener(message);
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void) {
+    if (!this.channels.has(channel)) this.channels.set(channel, new Set());
+    this.channels.get(channel)!.add(listener);
+  }
+
+  async unsubscribe(channel: string) {
+    this.channels.delete(channel);
+  }
+
+  async quit() {}
+
+  subscribedChannels() {
+    return [...this.channels.keys()];
+  }
+}
+
+describe("RedisPubSub", () => {
+  test("should deliver events published on another worker", async () => {
+    const redis = new FakeRedis();
+    const workerA = new RedisPubSub(redis.duplicate());
+    const workerB = new RedisPubSub(redis.duplicate(), { prefix: "graphql:" });
+
+    const iterator = workerA.asyncIterator<{ text: string }>(["MESSAGE_ADDED"]);
+    const next = iterator.next();
+    await sleep(0);
+    expect(redis.subscribedChannels()).toEqual(["graphql:MESSAGE_ADDED"]);
+
+    await workerB.publish("MESSAGE_ADDED", { text: "from B" });
+    expect(await next).toEqual({ value: { text: "from B" }, done: false });
+
+    // Returning the iterator releases the channel and ends pending reads
+    const pending = iterator.next();
+    await iterator.return!();
+    expect(await pending).toEqual({ value: undefined, done: true });
+    expect(redis.subscribedChannels()).toEqual([]);
+  });
+});
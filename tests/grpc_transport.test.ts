@@ -0,0 +1,183 @@
+import { describe, expect, test, beforeAll, afterAll, spyOn } from "bun:test";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { EventEmitter } from "events";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  GrpcTransport,
+  GrpcMethod,
+  GrpcStatus,
+  toGrpcStatus,
+  fromGrpcError,
+  type GrpcContext,
+} from "../src/microservices/transports/GrpcTransport";
+import { NotFoundException } from "../src/core/exceptions/NotFoundException";
+import { ForbiddenException } from "../src/core/exceptions/ForbiddenException";
+import { RequestTimeoutException } from "../src/core/exceptions/RequestTimeoutException";
+
+const PROTO = `
+syntax = "proto3";
+package demo.calc;
+
+message Num { int32 value = 1; }
+message Info { string trace = 1; int64 deadline_in = 2; }
+
+service Calculator {
+  rpc Double (Num) returns (Num);
+  rpc Range (Num) returns (stream Num);
+  rpc Sum (stream Num) returns (Num);
+  rpc Running (stream Num) returns (stream Num);
+  rpc Inspect (Num) returns (Info);
+  rpc Lookup (Num) returns (Num);
+  rpc Relay (Num) returns (Info);
+}
+`;
+
+class CalculatorController {
+  constructor(private readonly peer: () => GrpcTransport) {}
+
+  double({ value }: { value: number }) {
+    return { value: value * 2 };
+  }
+
+  async *range({ value }: { value: number }) {
+    for (let i = 1; i <= value; i++) yield { value: i };
+  }
+
+  async sum(numbers: AsyncIterable<{ value: number }>) {
+    let value = 0;
+    for await (const n of numbers) value += n.value;
+    return { value };
+  }
+
+  @GrpcMethod("Calculator", "Running")
+  async *runningTotal(numbers: AsyncIterable<{ value: number }>) {
+    let value = 0;
+    for await (const n of numbers) yield { value: (value += n.value) };
+  }
+
+  inspect(_: unknown, ctx: GrpcContext) {
+    return { trace: ctx.headers["x-trace-id"], deadline_in: ctx.deadline ? ctx.deadline.getTime() - Date.now() : -1 };
+  }
+
+  Lookup({ value }: { value: number }) {
+    if (value < 0) throw new ForbiddenException("negative ids are reserved");
+    throw new NotFoundException("Number", value);
+  }
+
+  // Calls back into the server with a long timeout; the handler's deadline wins
+  async relay(_: unknown) {
+    return this.peer().send({ cmd: "Inspect" }, { value: 0 }, { timeout: 60_000 });
+  }
+}
+
+describe("GrpcTransport", () => {
+  const dir = mkdtempSync(join(tmpdir(), "canx-grpc-"));
+  const protoPath = join(dir, "calc.proto");
+  const port = 40000 + Math.floor(Math.random() * 10000);
+  const options = { protoPath, package: "demo.calc", service: "Calculator", host: "127.0.0.1", port, requestTimeout: 1000 };
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  let server: GrpcTransport;
+  let client: GrpcTransport;
+
+  beforeAll(async () => {
+    writeFileSync(protoPath, PROTO);
+    server = new GrpcTransport(options);
+    client = new GrpcTransport(options);
+    server.addController(new CalculatorController(() => client));
+    await server.listen();
+    await client.connect();
+  });
+
+  afterAll(async () => {
+    await client.disconnect();
+    await server.disconnect();
+    rmSync(dir, { recursive: true, force: true });
+    log.mockRestore();
+  });
+
+  test("should route unary calls to controller methods", async () => {
+    expect(await client.send({ cmd: "Double" }, { value: 21 })).toEqual({ value: 42 });
+  });
+
+  test("should stream server responses as an async iterable", async () => {
+    const values: number[] = [];
+    for await (const n of client.stream<{ value: number }, { value: number }>({ cmd: "Range" }, { value: 3 })) {
+      values.push(n.value);
+    }
+    expect(values).toEqual([1, 2, 3]);
+  });
+
+  test("should accept client streams and bidirectional streams", async () => {
+    async function* numbers() {
+      yield { value: 1 };
+      yield { value: 2 };
+      yield { value: 3 };
+    }
+    expect(await client.send({ cmd: "Sum" }, numbers())).toEqual({ value: 6 });
+
+    // Stop after the expected replies: Bun's HTTP/2 client does not surface the
+    // trailers of a bidi stream, so waiting for the server to end would time out
+    const totals: number[] = [];
+    for await (const n of client.stream<any, { value: number }>({ cmd: "Running" }, [{ value: 5 }, { value: 10 }])) {
+      totals.push(n.value);
+      if (totals.length === 2) break;
+    }
+    expect(totals).toEqual([5, 15]);
+  });
+
+  test("should propagate metadata and deadlines", async () => {
+    const info = await client.send<any, { trace: string; deadline_in: string }>(
+      { cmd: "Inspect" }, { value: 0 }, { metadata: { "x-trace-id": "req-42" }, timeout: 5000 }
+    );
+    expect(info.trace).toBe("req-42");
+    expect(Number(info.deadline_in)).toBeGreaterThan(3000);
+    expect(Number(info.deadline_in)).toBeLessThanOrEqual(5000);
+
+    // A nested call made while handling Relay inherits Relay's 2s deadline
+    const relayed = await client.send<any, { deadline_in: string }>({ cmd: "Relay" }, { value: 0 }, { timeout: 2000 });
+    expect(Number(relayed.deadline_in)).toBeLessThanOrEqual(2000);
+  });
+
+  test("should map gRPC status codes to HttpExceptions", async () => {
+    const missing = await client.send({ cmd: "Lookup" }, { value: 7 }).catch(e => e);
+    expect(missing).toBeInstanceOf(NotFoundException);
+    expect(missing.message).toBe("Number with ID 7 not found");
+    expect(missing.details).toEqual({ grpcCode: GrpcStatus.NOT_FOUND });
+
+    const forbidden = await client.send({ cmd: "Lookup" }, { value: -1 }).catch(e => e);
+    expect(forbidden).toBeInstanceOf(ForbiddenException);
+  });
+
+  test("should wait for drain before writing more stream responses", async () => {
+    const call: any = Object.assign(new EventEmitter(), { cancelled: false, written: [] as number[], end() {} });
+    call.write = (message: { value: number }) => {
+      call.written.push(message.value);
+      return false;
+    };
+    const endless = async function* () {
+      for (let value = 1; ; value++) yield { value };
+    };
+    (server as any).createServerMethod("demo.calc.Calculator", "Range", { responseStream: true }, endless)(call);
+
+    await Bun.sleep(10);
+    expect(call.written).toEqual([1]);
+    call.emit("drain");
+    await Bun.sleep(10);
+    expect(call.written).toEqual([1, 2]);
+
+    call.cancelled = true;
+    call.emit("cancelled");
+    await Bun.sleep(10);
+    expect(call.written).toEqual([1, 2]);
+    expect(call.listenerCount("drain")).toBe(0);
+  });
+
+  test("should convert between statuses and exceptions", () => {
+    expect(toGrpcStatus(new RequestTimeoutException(100)).code).toBe(GrpcStatus.DEADLINE_EXCEEDED);
+    expect(toGrpcStatus(new Error("boom"))).toEqual({ code: GrpcStatus.INTERNAL, details: "boom" });
+    expect(fromGrpcError({ code: GrpcStatus.DEADLINE_EXCEEDED, details: "late" })).toBeInstanceOf(RequestTimeoutException);
+    expect(fromGrpcError({ code: GrpcStatus.UNIMPLEMENTED, details: "nope" }).status).toBe(501);
+  });
+});
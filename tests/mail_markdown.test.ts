@@ -0,0 +1,150 @@
+import { describe, expect, test, afterAll, spyOn } from "bun:test";
+import { initMail, mail, MailBuilder } from "../src/notifications/Mail";
+import { Mailable, mailPreviewRoutes } from "../src/notifications/Mailable";
+import { renderMarkdownMail, inlineCss, mailComponent } from "../src/notifications/mail/Markdown";
+import { ArrayDriver } from "../src/notifications/mail/drivers/ArrayDriver";
+import { Queue } from "../src/queue/Queue";
+
+class InvoicePaidMail extends Mailable {
+  constructor(private invoice: { number: number; customer: string }) {
+    super();
+  }
+
+  build(message: MailBuilder) {
+    return message.subject(`Invoice ${this.invoice.number} paid`).markdownSource(`
+      # Thanks, {{ invoice.customer }}!
+
+      Invoice **#{{ invoice.number }}** is paid.
+
+      <x-button url="https://app.test/invoices/{{ invoice.number }}" color="success">View invoice</x-button>
+
+      <x-table>
+      | Item | Amount |
+      |------|-------:|
+      | Pro plan | $10 |
+      </x-table>
+    `, { invoice: this.invoice });
+  }
+}
+
+const run = (handler: any, params: Record<string, string> = {}, query: Record<string, string> = {}) => {
+  let status = 200;
+  const req: any = { path: "/mail-preview", params, query };
+  const res: any = {
+    status(code: number) { status = code; return res; },
+    html: (body: string) => ({ status, type: "html", body }),
+    text: (body: string) => ({ status, type: "text", body }),
+  };
+  return handler(req, res);
+};
+
+describe("Markdown mail", () => {
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  afterAll(() => {
+    initMail({ transport: "log" });
+    log.mockRestore();
+  });
+
+  test("should render components into a themed layout with inlined CSS", () => {
+    const { html, text } = renderMarkdownMail(`
+      Hello {{ user.name }},
+
+      <x-panel>
+      Your code is **1234**.
+      </x-panel>
+    `, { user: { name: "<Ada>" } }, { subject: "Your code", appName: "Acme", footer: "Sent by [Acme](https://acme.test)" });
+
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("<title>Your code</title>");
+    expect(html).toContain("Hello &lt;Ada&gt;,");
+    expect(html).toContain('<td class="panel-content" style="background-color: #edf2f7; color: #718096; padding: 16px;"><p');
+    expect(html).toContain("<strong>1234</strong>");
+    // Media queries can't be inlined, so they stay in <head>
+    expect(html).toMatch(/<style>\s*@media only screen/);
+
+    expect(text).toBe("Hello <Ada>,\n\nYour code is 1234.");
+  });
+
+  test("should not render Markdown from interpolated values", () => {
+    const { html } = renderMarkdownMail("Hi {{ name }}, **welcome**", { name: "[Reset your password](https://evil.example/login) *now*" });
+
+    expect(html).not.toContain("https://evil.example/login\"");
+    expect(html).toContain("Hi [Reset your password](https://evil.example/login) *now*, <strong>welcome</strong>");
+  });
+
+  test("should inline descendant selectors by specificity, keeping existing styles last", () => {
+    const css = "p { color: black; } .note p { color: gray; } a:hover { color: red; }";
+    const html = inlineCss('<div class="note"><p style="margin: 0">Hi</p></div><p>Bye</p>', css);
+
+    expect(html).toBe(
+      '<style>\na:hover { color: red; }\n</style>\n' +
+      '<div class="note"><p style="color: black; color: gray; margin: 0">Hi</p></div><p style="color: black;">Bye</p>'
+    );
+  });
+
+  test("should build mailables with a plain-text alternative and custom components", async () => {
+    mailComponent("badge", (attrs, content) => `<span class="badge badge-${attrs.tone}">${content.replace(/<\/?p>/g, "")}</span>`);
+    const message = (await new InvoicePaidMail({ number: 42, customer: "Grace" }).render()).getMessage();
+
+    expect(message.subject).toBe("Invoice 42 paid");
+    expect(message.html).toContain('href="https://app.test/invoices/42" class="button button-success"');
+    expect(message.text).toBe(
+      "Thanks, Grace!\n\nInvoice #42 is paid.\n\nView invoice (https://app.test/invoices/42)\n\nItem | Amount\nPro plan | $10"
+    );
+
+    const badge = renderMarkdownMail('<x-badge tone="new">Beta</x-badge>').html;
+    expect(badge).toContain('<span class="badge badge-new">Beta</span>');
+  });
+
+  test("should send queued mail from the worker", async () => {
+    const mailer = initMail({ transport: "array", from: "billing@app.test" });
+    const queue = new Queue({ default: "memory", connections: { memory: { driver: "memory" } } } as any);
+    mailer.useQueue(queue);
+    ArrayDriver.flush();
+
+    await new InvoicePaidMail({ number: 7, customer: "Linus" }).queue("linus@app.test");
+    await mail().queue({
+      to: ["ops@app.test"],
+      subject: "Report",
+      text: "Attached",
+      attachments: [{ filename: "report.csv", content: Buffer.from("a,b\n1,2") }],
+    });
+    expect(ArrayDriver.store).toEqual([]);
+
+    await queue.start({ maxJobs: 2, sleep: 5 });
+
+    expect(ArrayDriver.store.map(m => [m.to, m.subject, m.from])).toEqual([
+      [["linus@app.test"], "Invoice 7 paid", "billing@app.test"],
+      [["ops@app.test"], "Report", "billing@app.test"],
+    ]);
+    const attachment = ArrayDriver.store[1]!.attachments![0]!;
+    expect(Buffer.isBuffer(attachment.content)).toBe(true);
+    expect(attachment.content.toString()).toBe("a,b\n1,2");
+  });
+
+  test("should preview mailables in development only", async () => {
+    const preview = mailPreviewRoutes({ "invoice-paid": () => new InvoicePaidMail({ number: 1, customer: "Ada" }) });
+
+    const index = await run(preview);
+    expect(index.body).toContain('<a href="/mail-preview/invoice-paid">invoice-paid</a>');
+
+    const html = await run(preview, { mailable: "invoice-paid" });
+    expect(html.type).toBe("html");
+    expect(html.body).toContain("Thanks, Ada!");
+
+    const text = await run(preview, { mailable: "invoice-paid" }, { format: "text" });
+    expect(text.body).toStartWith("Thanks, Ada!\n\nInvoice #1 is paid.");
+
+    expect((await run(preview, { mailable: "missing" })).status).toBe(404);
+
+    const env = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      expect((await run(preview, { mailable: "invoice-paid" })).status).toBe(404);
+    } finally {
+      if (env === undefined) delete process.env.NODE_ENV;
+      else process.env.NODE_ENV = env;
+    }
+  });
+});
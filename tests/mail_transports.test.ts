@@ -0,0 +1,185 @@
+import { describe, expect, test, beforeAll, afterAll, afterEach, spyOn } from "bun:test";
+import { createHash, createVerify, generateKeyPairSync } from "node:crypto";
+import { Mailer } from "../src/notifications/Mail";
+import { ArrayDriver } from "../src/notifications/mail/drivers/ArrayDriver";
+import { events } from "../src/events/EventEmitter";
+import type { MailMessage, MailTransport } from "../src/notifications/mail/types";
+
+// Local SMTP stand-in: accepts everything and records each message's DATA
+class FakeSmtpServer {
+  messages: { from: string; to: string[]; data: string }[] = [];
+  private server: ReturnType<typeof Bun.listen> | null = null;
+
+  get port(): number {
+    return this.server!.port;
+  }
+
+  start(): this {
+    const messages = this.messages;
+    this.server = Bun.listen<{ buffer: string; inData: boolean; from: string; to: string[] }>({
+      hostname: "127.0.0.1",
+      port: 0,
+      socket: {
+        open(socket) {
+          socket.data = { buffer: "", inData: false, from: "", to: [] };
+          socket.write("220 fake.smtp ESMTP\r\n");
+        },
+        data(socket, chunk) {
+          const state = socket.data;
+          state.buffer += Buffer.from(chunk).toString("utf8");
+
+          if (state.inData) {
+            const end = state.buffer.indexOf("\r\n.\r\n");
+            if (end === -1) return;
+            messages.push({ from: state.from, to: state.to, data: state.buffer.slice(0, end).replace(/\r\n\.\./g, "\r\n.") });
+            state.buffer = state.buffer.slice(end + 5);
+            state.inData = false;
+            state.to = [];
+            socket.write("250 queued\r\n");
+          }
+
+          let index: number;
+          while (!state.inData && (index = state.buffer.indexOf("\r\n")) !== -1) {
+            const line = state.buffer.slice(0, index);
+            state.buffer = state.buffer.slice(index + 2);
+            const command = line.slice(0, 4).toUpperCase();
+            if (command === "EHLO") socket.write("250-fake.smtp\r\n250 8BITMIME\r\n");
+            else if (command === "MAIL") { state.from = line.match(/<(.*)>/)![1]!; socket.write("250 ok\r\n"); }
+            else if (command === "RCPT") { state.to.push(line.match(/<(.*)>/)![1]!); socket.write("250 ok\r\n"); }
+            else if (command === "DATA") { state.inData = true; socket.write("354 go ahead\r\n"); }
+            else if (command === "QUIT") { socket.write("221 bye\r\n"); socket.end(); }
+            else socket.write("500 unknown\r\n");
+          }
+        },
+      },
+    });
+    return this;
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+  }
+}
+
+class BrokenTransport implements MailTransport {
+  calls = 0;
+  async send(): Promise<{ messageId: string; success: boolean }> {
+    this.calls++;
+    throw new Error("connection reset");
+  }
+}
+
+const message = (subject = "Hello"): MailMessage => ({ from: "app@example.com", to: ["ada@example.com"], subject, text: "Hi there" });
+
+describe("Mail transports", () => {
+  const log = spyOn(console, "log").mockImplementation(() => {});
+  const smtp = new FakeSmtpServer();
+  const fired: [string, any][] = [];
+  const unsubscribe = ["mail:sending", "mail:sent", "mail:failed", "mail:transport-failed"].map(name =>
+    events.on(name, payload => { fired.push([name, payload]); })
+  );
+  let closedPort: number;
+
+  beforeAll(() => {
+    smtp.start();
+    // A port with nothing listening on it
+    const probe = Bun.listen({ hostname: "127.0.0.1", port: 0, socket: { data() {} } });
+    closedPort = probe.port;
+    probe.stop(true);
+  });
+
+  afterEach(() => {
+    fired.length = 0;
+    smtp.messages.length = 0;
+  });
+
+  afterAll(() => {
+    smtp.stop();
+    unsubscribe.forEach(off => off());
+    log.mockRestore();
+  });
+
+  test("should fail over to the next SMTP server and report each step", async () => {
+    const mailer = new Mailer({
+      transport: "failover",
+      failover: {
+        transports: [
+          { transport: "smtp", smtp: { host: "127.0.0.1", port: closedPort } },
+          { transport: "smtp", smtp: { host: "127.0.0.1", port: smtp.port } },
+        ],
+      },
+    });
+
+    const result = await mailer.send(message());
+    expect(result).toMatchObject({ success: true, transport: "smtp#2" });
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0]).toMatchObject({ from: "app@example.com", to: ["ada@example.com"] });
+    expect(smtp.messages[0]!.data).toContain("Subject: Hello");
+
+    expect(fired.map(([name, payload]) => [name, payload.transport])).toEqual([
+      ["mail:sending", undefined],
+      ["mail:transport-failed", "smtp"],
+      ["mail:sent", "smtp#2"],
+    ]);
+  });
+
+  test("should throw and fire mail:failed when every transport fails", async () => {
+    const mailer = new Mailer({ transport: "failover", failover: { transports: [new BrokenTransport(), new BrokenTransport()] } });
+
+    await expect(mailer.send(message())).rejects.toThrow(
+      "All mail transports failed (BrokenTransport: connection reset; BrokenTransport#2: connection reset)"
+    );
+    expect(fired.map(([name]) => name)).toEqual(["mail:sending", "mail:transport-failed", "mail:transport-failed", "mail:failed"]);
+  });
+
+  test("should rotate round-robin sends and skip a transport that failed", async () => {
+    const first = new ArrayDriver();
+    const broken = new BrokenTransport();
+    const third = new ArrayDriver();
+    const mailer = new Mailer({ transport: "roundrobin", roundrobin: { transports: [first, broken, third], retryAfter: 60_000 } });
+
+    for (const subject of ["1", "2", "3", "4", "5"]) await mailer.send(message(subject));
+
+    // 2 fails over from the broken transport to the third; after that the broken one is skipped
+    expect(first.sent.map(m => m.subject)).toEqual(["1", "4"]);
+    expect(third.sent.map(m => m.subject)).toEqual(["2", "3", "5"]);
+    expect(broken.calls).toBe(1);
+  });
+
+  test("should DKIM-sign messages sent over SMTP", async () => {
+    const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 1024 });
+    const mailer = new Mailer({
+      transport: "smtp",
+      smtp: {
+        host: "127.0.0.1",
+        port: smtp.port,
+        dkim: { domainName: "example.com", keySelector: "mail", privateKey: privateKey.export({ type: "pkcs8", format: "pem" }) as string },
+      },
+    });
+    await mailer.send({ ...message("Signed  mail"), text: "Line one  \nLine two\n\n\n" });
+
+    const data = smtp.messages[0]!.data;
+    const [headerBlock, body] = [data.slice(0, data.indexOf("\r\n\r\n")), data.slice(data.indexOf("\r\n\r\n") + 4)];
+    const headers = headerBlock.replace(/\r\n[ \t]/g, " ").split("\r\n");
+    const signature = headers.find(h => h.startsWith("DKIM-Signature:"))!;
+    const tags = Object.fromEntries(signature.slice(15).split(";").map(t => t.trim().split(/=(.*)/s).slice(0, 2)));
+
+    expect(tags).toMatchObject({ v: "1", a: "rsa-sha256", c: "relaxed/relaxed", d: "example.com", s: "mail" });
+    expect(tags.h).toBe("from:to:subject:date:message-id:mime-version:content-type");
+
+    // Verify independently: relaxed body hash, then the signature over the signed headers
+    const canonicalBody = body.split("\r\n").map(l => l.replace(/[ \t]+/g, " ").replace(/ $/, "")).join("\r\n").replace(/(\r\n)*$/, "") + "\r\n";
+    expect(tags.bh).toBe(createHash("sha256").update(canonicalBody).digest("base64"));
+
+    const relaxed = (header: string) => {
+      const colon = header.indexOf(":");
+      return `${header.slice(0, colon).toLowerCase()}:${header.slice(colon + 1).replace(/[ \t]+/g, " ").trim()}`;
+    };
+    const signedHeaders = tags.h.split(":").map((name: string) => relaxed(headers.find(h => h.toLowerCase().startsWith(name + ":"))!));
+    const unsigned = relaxed(signature.replace(/b=[^;]*$/, "b="));
+    const verified = createVerify("RSA-SHA256")
+      .update(signedHeaders.map((h: string) => h + "\r\n").join("") + unsigned)
+      .verify(publicKey, tags.b.replace(/\s+/g, ""), "base64");
+    expect(verified).toBe(true);
+  });
+});
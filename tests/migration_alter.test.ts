@@ -0,0 +1,127 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { initDatabase, closeDatabase, query, execute } from "../src/mvc/Model";
+import { Schema, TableBuilder } from "../src/database/Migration";
+
+const columnsOf = async (table: string) =>
+  (await query<{ name: string; notnull: number }>(`PRAGMA table_info(${table})`));
+
+describe("Schema.table (sqlite)", () => {
+  beforeAll(async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+    await execute("PRAGMA foreign_keys = ON");
+
+    await Schema.create("teams", (t) => {
+      t.id();
+      t.string("name");
+    });
+    await Schema.create("members", (t) => {
+      t.id();
+      t.string("name");
+      t.string("email").unique();
+      t.integer("team_id").nullable();
+      t.boolean("legacy").default(false);
+    });
+    await execute("INSERT INTO teams (name) VALUES ('Core')");
+    await execute("INSERT INTO members (name, email, team_id) VALUES ('Alice', 'alice@example.com', 1)");
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  test("should add nullable columns natively", async () => {
+    const builder = new TableBuilder("members");
+    builder.string("nickname", 50).nullable();
+    expect(await builder.toAlterSQL()).toEqual([
+      "ALTER TABLE `members` ADD COLUMN `nickname` VARCHAR(50) NULL",
+    ]);
+
+    await Schema.table("members", (t) => t.string("nickname", 50).nullable());
+    expect((await columnsOf("members")).map(c => c.name)).toContain("nickname");
+  });
+
+  test("should rename columns and keep data", async () => {
+    await Schema.table("members", (t) => t.renameColumn("name", "full_name"));
+    const rows = await query<any>("SELECT full_name FROM members");
+    expect(rows[0].full_name).toBe("Alice");
+  });
+
+  test("should rebuild the table to drop columns", async () => {
+    await Schema.table("members", (t) => t.dropColumn("legacy"));
+
+    const names = (await columnsOf("members")).map(c => c.name);
+    expect(names).not.toContain("legacy");
+    expect(names).toContain("email");
+    const rows = await query<any>("SELECT * FROM members");
+    expect(rows[0].email).toBe("alice@example.com");
+  });
+
+  test("should preserve unique constraints and autoincrement across a rebuild", async () => {
+    await expect(
+      execute("INSERT INTO members (full_name, email) VALUES ('Dup', 'alice@example.com')")
+    ).rejects.toThrow();
+
+    const master = await query<{ sql: string }>("SELECT sql FROM sqlite_master WHERE name = 'members'");
+    expect(master[0].sql).toContain("AUTOINCREMENT");
+  });
+
+  test("should modify columns with change()", async () => {
+    await execute("UPDATE members SET nickname = 'ali'");
+    await Schema.table("members", (t) => t.string("nickname", 50).default("none").change());
+    const nickname = (await columnsOf("members")).find(c => c.name === "nickname") as any;
+    expect(nickname.notnull).toBe(1);
+    expect(nickname.dflt_value).toBe("'none'");
+  });
+
+  test("should add and drop foreign keys", async () => {
+    await Schema.table("members", (t) => t.foreign("team_id").references("teams").onDelete("CASCADE"));
+    let fks = await query<any>("PRAGMA foreign_key_list(members)");
+    expect(fks.length).toBe(1);
+    expect(fks[0].table).toBe("teams");
+    expect(fks[0].on_delete).toBe("CASCADE");
+
+    // foreign_keys pragma is restored after the rebuild
+    const pragma = await query<any>("PRAGMA foreign_keys");
+    expect(pragma[0].foreign_keys).toBe(1);
+
+    await Schema.table("members", (t) => t.dropForeign(["team_id"]));
+    fks = await query<any>("PRAGMA foreign_key_list(members)");
+    expect(fks.length).toBe(0);
+  });
+
+  test("should add and drop composite indexes", async () => {
+    await Schema.table("members", (t) => t.index(["team_id", "full_name"]));
+    let indexes = await query<any>("PRAGMA index_list(members)");
+    expect(indexes.map((i: any) => i.name)).toContain("idx_members_team_id_full_name");
+
+    await Schema.table("members", (t) => t.dropIndex(["team_id", "full_name"]));
+    indexes = await query<any>("PRAGMA index_list(members)");
+    expect(indexes.map((i: any) => i.name)).not.toContain("idx_members_team_id_full_name");
+  });
+
+  test("should leave the table untouched when a rebuild fails", async () => {
+    await expect(
+      Schema.table("members", (t) => t.string("required_col").change())
+    ).rejects.toThrow("Column required_col does not exist");
+
+    await expect(
+      // NOT NULL without a default cannot be filled for the existing row
+      Schema.table("members", (t) => {
+        t.dropColumn("nickname");
+        t.string("required_col");
+      })
+    ).rejects.toThrow();
+
+    const names = (await columnsOf("members")).map(c => c.name);
+    expect(names).toContain("nickname");
+    expect(names).not.toContain("required_col");
+    const tables = await query<any>("SELECT name FROM sqlite_master WHERE name LIKE '__canx_tmp_%'");
+    expect(tables.length).toBe(0);
+  });
+
+  test("should rename the table", async () => {
+    await Schema.table("members", (t) => t.rename("people"));
+    expect(await Schema.hasTable("people")).toBe(true);
+    expect(await Schema.hasTable("members")).toBe(false);
+  });
+});
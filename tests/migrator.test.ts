@@ -0,0 +1,140 @@
+import { describe, expect, test, beforeAll, afterAll, spyOn } from "bun:test";
+import { initDatabase, closeDatabase, query, pretend, execute } from "../src/mvc/Model";
+import { Schema, migrator, defineMigration } from "../src/database/Migration";
+
+const log = spyOn(console, "log");
+
+const ran = async () => (await query<{ name: string; batch: number }>("SELECT name, batch FROM migrations ORDER BY id")).map(r => `${r.name}:${r.batch}`);
+
+describe("Migrator", () => {
+  beforeAll(async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+
+    defineMigration("001_create_authors", async () => {
+      await Schema.create("authors", (t) => { t.id(); t.string("name"); });
+    }, async () => {
+      await Schema.drop("authors");
+    });
+    defineMigration("002_create_books", async () => {
+      await Schema.create("books", (t) => { t.id(); t.string("title"); });
+    }, async () => {
+      await Schema.drop("books");
+    });
+  });
+
+  afterAll(async () => {
+    log.mockRestore();
+    await closeDatabase();
+  });
+
+  test("should not create the migrations table when pretending", async () => {
+    log.mockClear();
+    await migrator.run({ pretend: true });
+    await migrator.rollback({ pretend: true });
+    await migrator.refresh({ pretend: true });
+
+    const output = log.mock.calls.map(c => c.join(" ")).join("\n");
+    expect(output).toContain("CREATE TABLE `authors`");
+    expect(output).not.toContain("CREATE TABLE `migrations`");
+    expect(await Schema.hasTable("migrations")).toBe(false);
+  });
+
+  test("should report pending migrations in status", async () => {
+    const status = await migrator.status();
+    expect(status).toEqual([
+      { name: "001_create_authors", ran: false, batch: null },
+      { name: "002_create_books", ran: false, batch: null },
+    ]);
+  });
+
+  test("should print SQL without executing it when pretending", async () => {
+    log.mockClear();
+    await migrator.run({ pretend: true });
+
+    const output = log.mock.calls.map(c => c.join(" ")).join("\n");
+    expect(output).toContain("001_create_authors (up):");
+    expect(output).toContain("CREATE TABLE `authors`");
+    expect(await Schema.hasTable("authors")).toBe(false);
+    expect(await ran()).toEqual([]);
+  });
+
+  test("should record batches and report them in status", async () => {
+    await migrator.run();
+    defineMigration("003_create_reviews", async () => {
+      await Schema.create("reviews", (t) => { t.id(); t.integer("book_id"); });
+    }, async () => {
+      await Schema.drop("reviews");
+    });
+    await migrator.run();
+
+    expect(await ran()).toEqual(["001_create_authors:1", "002_create_books:1", "003_create_reviews:2"]);
+    const status = await migrator.status();
+    expect(status.find(s => s.name === "003_create_reviews")).toEqual({ name: "003_create_reviews", ran: true, batch: 2 });
+  });
+
+  test("should roll back a number of steps across batches", async () => {
+    await migrator.rollback({ step: 2 });
+    expect(await ran()).toEqual(["001_create_authors:1"]);
+    expect(await Schema.hasTable("books")).toBe(false);
+    expect(await Schema.hasTable("reviews")).toBe(false);
+
+    await migrator.run();
+    expect(await ran()).toEqual(["001_create_authors:1", "002_create_books:2", "003_create_reviews:2"]);
+  });
+
+  test("should roll back a specific batch", async () => {
+    await migrator.rollback({ batch: 1 });
+    expect(await ran()).toEqual(["002_create_books:2", "003_create_reviews:2"]);
+    expect(await Schema.hasTable("authors")).toBe(false);
+    await migrator.run();
+  });
+
+  test("should pretend rollbacks without touching the database", async () => {
+    log.mockClear();
+    await migrator.rollback({ pretend: true });
+
+    const output = log.mock.calls.map(c => c.join(" ")).join("\n");
+    expect(output).toContain("001_create_authors (down):");
+    expect(output).toContain("DROP TABLE IF EXISTS `authors`");
+    expect(await Schema.hasTable("authors")).toBe(true);
+  });
+
+  test("should pretend refreshes by printing the down() and then the up() SQL", async () => {
+    log.mockClear();
+    await migrator.refresh({ step: 1, pretend: true });
+
+    const output = log.mock.calls.map(c => c.join(" ")).join("\n");
+    // 001 was re-run last, by the batch test above
+    expect(output).toContain("001_create_authors (down):");
+    expect(output).toContain("001_create_authors (up):");
+    expect(output).toContain("CREATE TABLE `authors`");
+    expect(output).not.toContain("002_create_books");
+    expect(output).not.toContain("Nothing to migrate");
+    expect(await Schema.hasTable("authors")).toBe(true);
+  });
+
+  test("should refresh by rolling back and re-running everything", async () => {
+    await execute("INSERT INTO authors (name) VALUES ('Ann')");
+    await migrator.refresh();
+
+    expect(await ran()).toEqual(["001_create_authors:1", "002_create_books:1", "003_create_reviews:1"]);
+    expect((await query("SELECT * FROM authors")).length).toBe(0);
+  });
+
+  test("should drop every table on fresh, even ones without migrations", async () => {
+    await execute("CREATE TABLE stray (id INTEGER)");
+    await migrator.fresh();
+
+    expect(await Schema.hasTable("stray")).toBe(false);
+    expect(await Schema.hasTable("reviews")).toBe(true);
+    expect(await ran()).toEqual(["001_create_authors:1", "002_create_books:1", "003_create_reviews:1"]);
+  });
+
+  test("should collect writes with pretend() while reads still run", async () => {
+    const statements = await pretend(async () => {
+      expect(await Schema.hasTable("authors")).toBe(true);
+      await execute("DELETE FROM authors WHERE id = ?", [1]);
+    });
+    expect(statements).toEqual([{ sql: "DELETE FROM authors WHERE id = ?", params: [1], connection: "default" }]);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, spyOn } from "bun:test";
+import { Model, initDatabase, closeDatabase, execute } from "../src/mvc/Model";
+import { Queue } from "../src/queue/Queue";
+import { Notification, notifications, makeNotifiable, type Notifiable, type ShouldQueue } from "../src/notifications/Notification";
+import { DatabaseNotification } from "../src/notifications/DatabaseNotification";
+import { SqlNotificationPreferences, MemoryNotificationPreferences } from "../src/notifications/NotificationPreferences";
+
+class User {
+  constructor(public id: number, public email: string, public phone?: string) {}
+}
+
+class Member extends makeNotifiable(User) {}
+
+class Account extends Model {
+  static tableName = "accounts";
+}
+
+class Customer extends makeNotifiable(Account) {}
+
+class InvoicePaid extends Notification<{ invoice: number }> {
+  via() {
+    return ["database", "sms"];
+  }
+
+  toDatabase() {
+    return { invoice: this.data.invoice };
+  }
+
+  toSms(notifiable: Notifiable) {
+    return { to: notifiable.routeNotificationFor("sms")!, message: `Invoice ${this.data.invoice} paid` };
+  }
+}
+
+class ShipmentSent extends Notification<{ tracking: string }> implements ShouldQueue {
+  queue = true as const;
+  tries = { teams: 2, sms: 1 };
+  backoff = 0;
+
+  via() {
+    return ["teams", "sms", "database"];
+  }
+
+  toDatabase() {
+    return { tracking: this.data.tracking };
+  }
+
+  toSms(notifiable: Notifiable) {
+    return { to: notifiable.routeNotificationFor("sms")!, message: `Shipped: ${this.data.tracking}` };
+  }
+}
+
+describe("Notification channels", () => {
+  const log = spyOn(console, "log").mockImplementation(() => {});
+  const error = spyOn(console, "error").mockImplementation(() => {});
+  let texts: string[] = [];
+
+  beforeAll(async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+    await execute(`CREATE TABLE notifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, type TEXT, notifiable_type TEXT, notifiable_id TEXT,
+      data TEXT, read_at DATETIME NULL, created_at DATETIME, updated_at DATETIME
+    )`);
+    await execute(`CREATE TABLE notification_preferences (
+      notifiable_type TEXT, notifiable_id TEXT, notification_type TEXT, channel TEXT, enabled BOOLEAN,
+      PRIMARY KEY (notifiable_type, notifiable_id, notification_type, channel)
+    )`);
+    await execute("CREATE TABLE accounts (id INTEGER PRIMARY KEY, email TEXT, phone TEXT, password TEXT)");
+    notifications.onSms(async (to, message) => {
+      texts.push(`${to}: ${message}`);
+    });
+  });
+
+  beforeEach(async () => {
+    texts = [];
+    notifications.usePreferences(null);
+    await execute("DELETE FROM notifications");
+  });
+
+  afterAll(async () => {
+    notifications.usePreferences(null).useQueue(null);
+    await closeDatabase();
+    log.mockRestore();
+    error.mockRestore();
+  });
+
+  test("should store database notifications with read state", async () => {
+    const member = new Member(7, "ada@example.com", "+100");
+    await member.notify(new InvoicePaid({ invoice: 1 }));
+    await member.notify(new InvoicePaid({ invoice: 2 }));
+
+    const stored = await member.notifications().get();
+    expect(stored.map((n: any) => n.data)).toEqual([{ invoice: 2 }, { invoice: 1 }]);
+    expect(stored[0]).toMatchObject({ type: "InvoicePaid", notifiable_type: "Member", notifiable_id: "7" });
+
+    await stored[0]!.markAsRead();
+    expect(stored[0]!.read()).toBe(true);
+    expect((await member.unreadNotifications().get()).map((n: any) => n.data.invoice)).toEqual([1]);
+
+    expect(await DatabaseNotification.markAllAsRead(member)).toBe(1);
+    expect(await member.unreadNotifications().get()).toEqual([]);
+    expect(await DatabaseNotification.readFor(member).count()).toBe(2);
+  });
+
+  test("should skip channels the notifiable opted out of", async () => {
+    const preferences = new SqlNotificationPreferences();
+    const member = new Member(8, "grace@example.com", "+200");
+    notifications.usePreferences(preferences);
+
+    // Opt out of SMS for everything, but back in for invoices; database off for invoices only
+    await preferences.set(member, "sms", false);
+    await preferences.set(member, "sms", true, "InvoicePaid");
+    await preferences.set(member, "database", false, "InvoicePaid");
+
+    await member.notify(new InvoicePaid({ invoice: 3 }));
+    expect(texts).toEqual(["+200: Invoice 3 paid"]);
+    expect(await member.notifications().count()).toBe(0);
+
+    await preferences.forget(member, "sms", "InvoicePaid");
+    expect(await preferences.allows(member, "InvoicePaid", "sms")).toBe(false);
+    expect(await preferences.all(member)).toEqual([
+      { channel: "database", notificationType: "InvoicePaid", enabled: false },
+      { channel: "sms", notificationType: "*", enabled: false },
+    ]);
+  });
+
+  test("should queue one job per channel and retry only the failing one", async () => {
+    const queue = new Queue({ default: "memory", connections: { memory: { driver: "memory" } } } as any);
+    await execute("INSERT INTO accounts (id, email, phone, password) VALUES (9, 'linus@example.com', '+300', 'secret-hash')");
+    const member = (await Customer.find(9))!;
+    const preferences = new MemoryNotificationPreferences();
+    await preferences.set(member, "database", false);
+    notifications.useQueue(queue).usePreferences(preferences);
+
+    let teamsAttempts = 0;
+    const delivered: string[] = [];
+    notifications.extend("teams", async (notifiable, notification) => {
+      teamsAttempts++;
+      if (teamsAttempts === 1) throw new Error("Teams is down");
+      delivered.push(`${notifiable.email}:${(notification as ShipmentSent).data.tracking}`);
+    });
+    notifications.onSms(async () => {
+      throw new Error("SMS gateway refused");
+    });
+    const sent = spyOn(notifications as any, "deliver");
+
+    await member.notify(new ShipmentSent({ tracking: "TRK1" }));
+    expect(sent).not.toHaveBeenCalled();
+    const pending = await queue.getPending();
+    expect(pending.map((job: any) => [job.data.channel, job.maxAttempts])).toEqual([["teams", 2], ["sms", 1]]);
+    // Only the notifiable's type and id are queued; the worker reloads it
+    expect(pending[0]!.data.notifiable).toEqual({ type: "Customer", id: 9 });
+    await execute("UPDATE accounts SET email = 'torvalds@example.com' WHERE id = 9");
+
+    // teams fails, sms fails for good, teams succeeds on its second attempt
+    await queue.start({ maxJobs: 3, sleep: 5 });
+    sent.mockRestore();
+
+    expect(teamsAttempts).toBe(2);
+    expect(delivered).toEqual(["torvalds@example.com:TRK1"]);
+    expect(await queue.getStats()).toMatchObject({ pending: 0, failed: 1 });
+    expect((await queue.getFailed())[0]!.data.channel).toBe("sms");
+  });
+});
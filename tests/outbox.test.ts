@@ -0,0 +1,166 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, spyOn } from "bun:test";
+import { EventBus, MemoryEventBusDriver, type EventMessage } from "../src/microservices/EventBus";
+import { SqlOutbox, SqlInbox, MemoryInbox, OutboxRelay } from "../src/microservices/Outbox";
+import { initDatabase, closeDatabase, execute, query, transaction } from "../src/mvc/Model";
+import { sleep } from "../src/testing/TestCase";
+
+const error = spyOn(console, "error").mockImplementation(() => {});
+
+afterAll(() => {
+  error.mockRestore();
+});
+
+describe("Transactional outbox", () => {
+  let driver: MemoryEventBusDriver;
+  let bus: EventBus;
+  let received: string[];
+
+  beforeAll(async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+    await execute(`CREATE TABLE event_outbox (
+      id VARCHAR(64) PRIMARY KEY, channel VARCHAR(255) NOT NULL, event TEXT NOT NULL, attempts INTEGER DEFAULT 0,
+      available_at BIGINT NOT NULL, failed_at BIGINT, last_error TEXT, created_at BIGINT NOT NULL
+    )`);
+    await execute("CREATE TABLE event_inbox (message_id VARCHAR(64) NOT NULL, consumer VARCHAR(255) NOT NULL, processed_at BIGINT, PRIMARY KEY (message_id, consumer))");
+    await execute("CREATE TABLE orders (id INTEGER PRIMARY KEY, total INTEGER)");
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    await execute("DELETE FROM event_outbox");
+    await execute("DELETE FROM event_inbox");
+    driver = new MemoryEventBusDriver();
+    bus = new EventBus(driver, { serviceName: "orders", outbox: new SqlOutbox(), retryDelay: 5 });
+    received = [];
+    await driver.subscribe<{ id: number }>("events.order.placed", (event) => {
+      received.push(`${event.payload.id}`);
+    });
+  });
+
+  test("should only relay events whose transaction committed", async () => {
+    await transaction(async () => {
+      await execute("INSERT INTO orders (id, total) VALUES (1, 100)");
+      await bus.publish("order.placed", { id: 1 });
+    });
+    await transaction(async () => {
+      await execute("INSERT INTO orders (id, total) VALUES (2, 200)");
+      await bus.publish("order.placed", { id: 2 });
+      throw new Error("payment declined");
+    }).catch(() => {});
+
+    // Nothing is sent before the relay runs
+    expect(received).toEqual([]);
+    expect(await bus.relay().relay()).toBe(1);
+    expect(received).toEqual(["1"]);
+    expect(await query("SELECT * FROM event_outbox")).toEqual([]);
+  });
+
+  test("should retry failed deliveries with backoff and give up after maxRetries", async () => {
+    const outbox = new SqlOutbox();
+    let failures = 2;
+    const flaky = new MemoryEventBusDriver();
+    const publish = flaky.publish.bind(flaky);
+    flaky.publish = async (channel, event) => {
+      if (failures-- > 0) throw new Error("broker down");
+      return publish(channel, event);
+    };
+    await flaky.subscribe("events.order.placed", (event) => { received.push(`${(event.payload as any).id}`); });
+
+    await bus.publish("order.placed", { id: 3 });
+    const relay = new OutboxRelay(outbox, flaky, { maxRetries: 3, retryDelay: 50 });
+    expect(await relay.relay()).toBe(0);
+    // Still backing off
+    expect(await relay.relay()).toBe(0);
+    await sleep(60);
+    expect(await relay.relay()).toBe(0);
+    await sleep(110);
+    expect(await relay.relay()).toBe(1);
+    expect(received).toEqual(["3"]);
+
+    failures = Infinity;
+    await bus.publish("order.placed", { id: 4 });
+    const impatient = new OutboxRelay(outbox, flaky, { maxRetries: 0 });
+    await impatient.relay();
+    const [dead] = await outbox.failed();
+    expect(dead.event.payload).toEqual({ id: 4 });
+    expect(dead.error).toBe("broker down");
+    expect(await outbox.pending()).toBe(0);
+
+    failures = 0;
+    expect(await outbox.retryFailed()).toBe(1);
+    expect(await impatient.relay()).toBe(1);
+    expect(received).toEqual(["3", "4"]);
+  });
+
+  test("should deliver each message once across competing relays", async () => {
+    for (let id = 10; id < 15; id++) await bus.publish("order.placed", { id });
+
+    const counts = await Promise.all([bus.relay().relay(), bus.relay().relay(), bus.relay().relay()]);
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(5);
+    expect(received.sort()).toEqual(["10", "11", "12", "13", "14"]);
+  });
+
+  test("should run the relay in the background until stopped", async () => {
+    const relay = bus.relay({ pollInterval: 5 });
+    relay.start();
+    await bus.publish("order.placed", { id: 20 });
+    await sleep(30);
+    await relay.stop();
+    expect(received).toEqual(["20"]);
+  });
+});
+
+describe("Inbox", () => {
+  beforeAll(async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+    await execute("CREATE TABLE event_inbox (message_id VARCHAR(64) NOT NULL, consumer VARCHAR(255) NOT NULL, processed_at BIGINT, PRIMARY KEY (message_id, consumer))");
+    await execute("CREATE TABLE shipments (order_id INTEGER)");
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  test("should skip redelivered messages and retry ones whose handler failed", async () => {
+    const driver = new MemoryEventBusDriver();
+    const bus = new EventBus(driver, { serviceName: "shipping", inbox: new SqlInbox(), deadLetterQueue: false });
+    let fail = true;
+    await bus.subscribe<{ id: number }>("order.placed", async ({ id }) => {
+      await execute("INSERT INTO shipments (order_id) VALUES (?)", [id]);
+      if (fail && id === 2) throw new Error("warehouse offline");
+    }, { consumer: "create-shipment" });
+
+    const event = (id: number): EventMessage<{ id: number }> => ({
+      id: `msg-${id}`, type: "order.placed", payload: { id }, timestamp: new Date(),
+    });
+
+    await driver.publish("events.order.placed", event(1));
+    await driver.publish("events.order.placed", event(1));
+    await driver.publish("events.order.placed", event(2));
+    expect(await query("SELECT order_id FROM shipments")).toEqual([{ order_id: 1 }]);
+
+    // The failed attempt rolled back its inbox row, so redelivery processes it
+    fail = false;
+    await driver.publish("events.order.placed", event(2));
+    await driver.publish("events.order.placed", event(2));
+    expect(await query("SELECT order_id FROM shipments ORDER BY order_id")).toEqual([{ order_id: 1 }, { order_id: 2 }]);
+    expect((await query("SELECT consumer FROM event_inbox"))[0]).toEqual({ consumer: "shipping:create-shipment" });
+  });
+
+  test("should deduplicate each handler of an event on its own", async () => {
+    const driver = new MemoryEventBusDriver();
+    const bus = new EventBus(driver, { serviceName: "crm", inbox: new MemoryInbox(), deadLetterQueue: false });
+    const handled: string[] = [];
+    await bus.subscribe("user.created", () => { handled.push("welcome-mail"); }, { consumer: "welcome-mail" });
+    await bus.subscribe("user.created", () => { handled.push("crm-sync"); }, { consumer: "crm-sync" });
+    await expect(bus.subscribe("user.created", () => {})).rejects.toThrow("needs a consumer name");
+
+    const event: EventMessage = { id: "msg-1", type: "user.created", payload: {}, timestamp: new Date() };
+    await driver.publish("events.user.created", event);
+    await driver.publish("events.user.created", event);
+    expect(handled).toEqual(["welcome-mail", "crm-sync"]);
+  });
+});
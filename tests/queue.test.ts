@@ -1,6 +1,10 @@
-import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { describe, expect, test, beforeEach, afterEach, afterAll } from "bun:test";
 import { Queue } from "../src/queue/Queue";
+import type { QueueDriver } from "../src/queue/Queue";
 import { MemoryDriver } from "../src/queue/drivers/MemoryDriver";
+import { RedisDriver } from "../src/queue/drivers/RedisDriver";
+import { DatabaseDriver } from "../src/queue/drivers/DatabaseDriver";
+import { initDatabase, closeDatabase, execute } from "../src/mvc/Model";
 import { sleep } from "../src/testing/TestCase";
 
 describe("Queue System", () => {
@@ -100,3 +104,349 @@ describe("Queue System", () => {
       expect(true).toBe(true); 
   });
 });
+
+// Minimal in-memory stand-in for the redis commands RedisDriver uses
+class FakeRedis {
+  private lists = new Map<string, string[]>();
+  private zsets = new Map<string, Map<string, number>>();
+  private strings = new Map<string, { value: string; expires: number }>();
+  private sets = new Map<string, Set<string>>();
+
+  private zset(key: string) {
+    if (!this.zsets.has(key)) this.zsets.set(key, new Map());
+    return this.zsets.get(key)!;
+  }
+  private sorted(key: string) {
+    return [...this.zset(key).entries()].sort((a, b) => a[1] - b[1]);
+  }
+  private list(key: string) {
+    if (!this.lists.has(key)) this.lists.set(key, []);
+    return this.lists.get(key)!;
+  }
+
+  async lpush(key: string, ...values: string[]) { this.list(key).unshift(...values); return this.list(key).length; }
+  async rpop(key: string) { return this.list(key).pop() ?? null; }
+  async llen(key: string) { return this.list(key).length; }
+  async lrange(key: string, start: number, stop: number) { return this.list(key).slice(start, stop === -1 ? undefined : stop + 1); }
+  async lrem(key: string, _count: number, value: string) { const l = this.list(key); const i = l.indexOf(value); if (i !== -1) l.splice(i, 1); return i === -1 ? 0 : 1; }
+  async zadd(key: string, score: number, member: string) { this.zset(key).set(member, score); return 1; }
+  async zrem(key: string, ...members: string[]) { members.forEach(m => this.zset(key).delete(m)); return members.length; }
+  async zcard(key: string) { return this.zset(key).size; }
+  async zrangebyscore(key: string, min: number, max: number) { return this.sorted(key).filter(([, s]) => s >= min && s <= max).map(([m]) => m); }
+  async zrange(key: string, start: number, stop: number) { return this.sorted(key).slice(start, stop + 1).map(([m]) => m); }
+  async zpopmin(key: string) {
+    const [first] = this.sorted(key);
+    if (!first) return [];
+    this.zset(key).delete(first[0]);
+    return [first[0], String(first[1])];
+  }
+  async incr(key: string) { const v = Number(this.strings.get(key)?.value ?? 0) + 1; this.strings.set(key, { value: String(v), expires: Infinity }); return v; }
+  async get(key: string) { const e = this.strings.get(key); return e && e.expires > Date.now() ? e.value : null; }
+  async set(key: string, value: string, _px: string, ttl: number, _nx: string) {
+    if (await this.get(key) !== null) return null;
+    this.strings.set(key, { value, expires: Date.now() + ttl });
+    return 'OK';
+  }
+  async sadd(key: string, ...members: string[]) {
+    if (!this.sets.has(key)) this.sets.set(key, new Set());
+    members.forEach(m => this.sets.get(key)!.add(m));
+    return members.length;
+  }
+  async smembers(key: string) { return [...(this.sets.get(key) ?? [])]; }
+  async del(key: string) { this.lists.delete(key); this.zsets.delete(key); this.strings.delete(key); this.sets.delete(key); return 1; }
+}
+
+const drivers: [string, () => Promise<QueueDriver>][] = [
+  ["memory", async () => new MemoryDriver()],
+  ["redis", async () => new RedisDriver(new FakeRedis())],
+  ["database", async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+    await execute("CREATE TABLE jobs (id VARCHAR(64) PRIMARY KEY, queue VARCHAR(255), payload TEXT, attempts INTEGER DEFAULT 0, priority INTEGER DEFAULT 0, available_at BIGINT, created_at BIGINT)");
+    await execute("CREATE TABLE jobs_unique_locks (lock_key VARCHAR(255) PRIMARY KEY, expires_at BIGINT)");
+    return new DatabaseDriver();
+  }],
+];
+
+for (const [name, makeDriver] of drivers) {
+  describe(`Queue dispatch options (${name} driver)`, () => {
+    let queue: Queue;
+
+    beforeEach(async () => {
+      queue = new Queue({ driverInstance: await makeDriver() } as any);
+    });
+
+    afterAll(async () => {
+      if (name === "database") await closeDatabase();
+    });
+
+    test("should pop higher priorities first, FIFO within a priority", async () => {
+      await queue.dispatch("low", {}, { priority: -1 });
+      await queue.dispatch("normal-1", {});
+      await queue.dispatch("high", {}, { priority: 10 });
+      await queue.dispatch("normal-2", {});
+
+      const order: string[] = [];
+      let job;
+      while ((job = await queue.driver.pop())) order.push(job.name);
+      expect(order).toEqual(["high", "normal-1", "normal-2", "low"]);
+    });
+
+    test("should drop duplicate unique jobs while the lock is held", async () => {
+      const first = await queue.dispatch("sync-user", { id: 1 }, { uniqueFor: "1m" });
+      const duplicate = await queue.dispatch("sync-user", { id: 1 }, { uniqueFor: "1m" });
+      const other = await queue.dispatch("sync-user", { id: 2 }, { uniqueFor: "1m" });
+
+      expect(first).toBeString();
+      expect(duplicate).toBeNull();
+      expect(other).toBeString();
+      expect(await queue.driver.size()).toBe(2);
+    });
+
+    test("should release the unique lock once the job completes", async () => {
+      queue.define("sync-user", async () => {});
+      await queue.dispatch("sync-user", { id: 1 }, { uniqueFor: 60_000, uniqueId: "user-1" });
+
+      queue.start();
+      await sleep(50);
+      queue.stop();
+
+      expect(await queue.dispatch("sync-user", { id: 1 }, { uniqueFor: 60_000, uniqueId: "user-1" })).toBeString();
+    });
+
+    test("should keep named queues separate", async () => {
+      await queue.dispatch("welcome", {}, { queue: "emails" });
+      await queue.dispatch("report", {});
+
+      expect((await queue.driver.pop("emails"))?.name).toBe("welcome");
+      expect(await queue.driver.pop("emails")).toBeNull();
+      expect((await queue.driver.pop())?.name).toBe("report");
+    });
+
+    test("should keep job options across a retry", async () => {
+      const originalError = console.error;
+      console.error = () => {};
+      const popped: any[] = [];
+      const pop = queue.driver.pop.bind(queue.driver);
+      queue.driver.pop = async () => {
+        const job = await pop();
+        if (job) popped.push({ ...job });
+        return job;
+      };
+      queue.define("flaky", async () => { throw new Error("nope"); });
+      await queue.dispatch("flaky", {}, { priority: 5, timeout: 1000, backoff: 0 });
+
+      queue.start();
+      await sleep(50);
+      queue.stop();
+      console.error = originalError;
+
+      // The second attempt was read back from the driver's storage
+      expect(popped.length).toBe(3);
+      expect(popped[1]).toMatchObject({ attempts: 1, priority: 5, timeout: 1000, backoff: 0 });
+    });
+  });
+}
+
+describe("Queue timeouts and backoff", () => {
+  let queue: Queue;
+  let originalError: typeof console.error;
+
+  beforeEach(() => {
+    originalError = console.error;
+    console.error = () => {};
+    queue = new Queue({ default: "memory", backoff: 0 });
+  });
+
+  afterEach(() => {
+    queue.stop();
+    console.error = originalError;
+  });
+
+  test("should fail timed-out attempts through the retry path", async () => {
+    let attempts = 0;
+    let aborted = 0;
+    queue.define("slow", async (_data, { signal }) => {
+      attempts++;
+      signal.addEventListener("abort", () => aborted++);
+      await sleep(200);
+    });
+    await queue.dispatch("slow", {}, { timeout: 20 });
+
+    queue.start();
+    await sleep(350);
+
+    expect(attempts).toBe(3);
+    expect(aborted).toBe(3);
+    const [failed] = await queue.getFailed();
+    expect(failed.error).toContain("timed out after 20ms");
+  });
+
+  test("should follow a per-attempt backoff schedule", async () => {
+    const released: number[] = [];
+    const release = queue.driver.release.bind(queue.driver);
+    queue.driver.release = async (job, delay) => {
+      released.push(delay);
+      return release(job, 0);
+    };
+    queue.define("flaky", async () => { throw new Error("nope"); });
+    await queue.dispatch("flaky", {}, { backoff: [10, 20] });
+
+    queue.start();
+    await sleep(100);
+
+    expect(released).toEqual([10, 20]);
+    expect((await queue.getStats()).failed).toBe(1);
+  });
+
+  test("should use the configured default backoff", async () => {
+    const released: number[] = [];
+    queue = new Queue({ default: "memory", backoff: (attempt) => attempt * 7 });
+    const release = queue.driver.release.bind(queue.driver);
+    queue.driver.release = async (job, delay) => {
+      released.push(delay);
+      return release(job, 0);
+    };
+    queue.define("flaky", async () => { throw new Error("nope"); });
+    await queue.dispatch("flaky");
+
+    queue.start();
+    await sleep(100);
+
+    expect(released).toEqual([7, 14]);
+  });
+});
+
+describe("Queue worker pool", () => {
+  let queue: Queue;
+
+  beforeEach(() => {
+    queue = new Queue({ default: "memory" });
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+  });
+
+  test("should run up to `concurrency` handlers at once", async () => {
+    let running = 0;
+    let peak = 0;
+    queue.define("work", async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(30);
+      running--;
+    });
+    for (let i = 0; i < 6; i++) await queue.dispatch("work");
+
+    const started = Date.now();
+    await queue.start({ concurrency: 3, maxJobs: 6 });
+
+    expect(peak).toBe(3);
+    expect(Date.now() - started).toBeLessThan(150);
+    expect((await queue.getStats()).processed).toBe(6);
+  });
+
+  test("should honor QueueConfig.concurrency", async () => {
+    queue = new Queue({ default: "memory", concurrency: 1 });
+    let running = 0;
+    let peak = 0;
+    queue.define("work", async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(5);
+      running--;
+    });
+    for (let i = 0; i < 3; i++) await queue.dispatch("work");
+
+    await queue.start({ maxJobs: 3 });
+    expect(peak).toBe(1);
+  });
+
+  test("should drain in-flight jobs on stop()", async () => {
+    let finished = 0;
+    queue.define("slow", async () => {
+      await sleep(50);
+      finished++;
+    });
+    await queue.dispatch("slow");
+    await queue.dispatch("slow");
+
+    const done = queue.start({ concurrency: 2 });
+    await sleep(10);
+    expect(queue.activeJobs).toBe(2);
+
+    await queue.stop();
+    expect(finished).toBe(2);
+    await done;
+  });
+
+  test("should hand back a job reserved while stop() runs", async () => {
+    let ran = 0;
+    queue.define("work", async () => { ran++; });
+    await queue.dispatch("work");
+
+    const pop = queue.driver.pop.bind(queue.driver);
+    queue.driver.pop = async (name) => {
+      await sleep(30);
+      return pop(name);
+    };
+
+    const done = queue.start();
+    await sleep(5);
+    await queue.stop();
+    await done;
+    await sleep(50);
+
+    expect(ran).toBe(0);
+    const job = await pop("default");
+    expect(job?.name).toBe("work");
+    expect(job?.attempts).toBe(0);
+  });
+
+  test("should consume queues in strict order without weights", async () => {
+    const order: string[] = [];
+    queue.define("job", async (data) => { order.push(data.queue); });
+    await queue.dispatch("job", { queue: "default" });
+    await queue.dispatch("job", { queue: "high" }, { queue: "high" });
+    await queue.dispatch("job", { queue: "high" }, { queue: "high" });
+
+    await queue.start({ concurrency: 1, queues: "high,default", maxJobs: 3 });
+    expect(order).toEqual(["high", "high", "default"]);
+  });
+
+  test("should share polls between weighted queues", async () => {
+    const order: string[] = [];
+    queue.define("job", async (data) => { order.push(data.queue); });
+    for (let i = 0; i < 4; i++) {
+      await queue.dispatch("job", { queue: "high" }, { queue: "high" });
+      await queue.dispatch("job", { queue: "low" }, { queue: "low" });
+    }
+
+    await queue.start({ concurrency: 1, queues: { high: 3, low: 1 }, maxJobs: 8 });
+    expect(order.slice(0, 4)).toEqual(["high", "high", "low", "high"]);
+    expect(order.filter(q => q === "low").length).toBe(4);
+  });
+
+  test("should stop after max time", async () => {
+    const started = Date.now();
+    await queue.start({ maxTime: 0.05, sleep: 10 });
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+});
+
+describe("RedisDriver upgrades", () => {
+  test("should move jobs from the old pending list into the ready set", async () => {
+    const redis = new FakeRedis();
+    const old = (name: string) => JSON.stringify({ id: name, name, data: {}, status: "pending", attempts: 0, createdAt: 0 });
+    await redis.lpush("canx_queue:pending", old("first"));
+    await redis.lpush("canx_queue:pending", old("second"));
+    const driver = new RedisDriver(redis);
+
+    expect(await driver.size()).toBe(2);
+    await driver.push({ name: "new", data: {} } as any);
+    expect((await driver.pop())?.name).toBe("first");
+    expect((await driver.pop())?.name).toBe("second");
+    expect((await driver.pop())?.name).toBe("new");
+    expect(await redis.llen("canx_queue:pending")).toBe(0);
+  });
+});
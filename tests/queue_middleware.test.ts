@@ -0,0 +1,138 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { Queue, queue as globalQueue } from "../src/queue/Queue";
+import { MemoryDriver } from "../src/queue/drivers/MemoryDriver";
+import { RateLimited, WithoutOverlapping, ThrottlesExceptions, SkipIfBatchCancelled } from "../src/queue/JobMiddleware";
+import { batch, cancelBatch } from "../src/queue/JobBatch";
+import { sleep } from "../src/testing/TestCase";
+
+describe("Queue job middleware", () => {
+  let queue: Queue;
+  let released: number[];
+  let originalError: typeof console.error;
+
+  beforeEach(() => {
+    originalError = console.error;
+    console.error = () => {};
+    queue = new Queue({ default: "memory", backoff: 0 });
+    released = [];
+    const release = queue.driver.release.bind(queue.driver);
+    queue.driver.release = async (job, delay) => {
+      released.push(delay);
+      return release(job, 0);
+    };
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+    console.error = originalError;
+  });
+
+  test("should run queue-wide middleware before per-job middleware", async () => {
+    const order: string[] = [];
+    queue.middleware(async (_job, _ctx, next) => { order.push("global"); await next(); });
+    queue.define("job", async () => { order.push("handler"); }, {
+      middleware: [async (job, _ctx, next) => { order.push(`job:${job.name}`); await next(); }],
+    });
+    await queue.dispatch("job");
+
+    await queue.start({ maxJobs: 1 });
+    expect(order).toEqual(["global", "job:job", "handler"]);
+  });
+
+  test("should release a job without using up an attempt", async () => {
+    let runs = 0;
+    queue.define("job", async (_data, { job }) => {
+      runs++;
+      expect(job.attempts).toBe(0);
+    }, {
+      middleware: [async (_job, ctx, next) => (runs === 0 && released.length === 0 ? ctx.release(25) : next())],
+    });
+    await queue.dispatch("job");
+
+    await queue.start({ maxJobs: 2, sleep: 5 });
+    expect(released).toEqual([25]);
+    expect(runs).toBe(1);
+    expect((await queue.getStats()).failed).toBe(0);
+  });
+
+  test("should release jobs over the rate limit until the window resets", async () => {
+    let runs = 0;
+    queue.define("call-api", async () => { runs++; }, { middleware: [RateLimited("api", 2)] });
+    for (let i = 0; i < 3; i++) await queue.dispatch("call-api");
+
+    await queue.start({ maxJobs: 3 });
+    expect(runs).toBe(2);
+    expect(released.length).toBe(1);
+    expect(released[0]).toBeGreaterThan(59_000);
+    expect(released[0]).toBeLessThanOrEqual(60_000);
+  });
+
+  test("should not overlap jobs with the same key", async () => {
+    let running = 0;
+    let peak = 0;
+    queue.define("sync", async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(20);
+      running--;
+    }, { middleware: [WithoutOverlapping((job) => `account:${job.data.account}`, { releaseAfter: 5 })] });
+    // Keep the real delay so the blocked job waits instead of spinning
+    const release = MemoryDriver.prototype.release.bind(queue.driver);
+    queue.driver.release = async (job, delay) => {
+      released.push(delay);
+      return release(job, delay);
+    };
+    await queue.dispatch("sync", { account: 1 });
+    await queue.dispatch("sync", { account: 1 });
+
+    const done = queue.start({ concurrency: 2, sleep: 5 });
+    await sleep(80);
+    await queue.stop();
+    await done;
+
+    expect(peak).toBe(1);
+    expect(released.length).toBeGreaterThan(0);
+    expect(released.every(delay => delay === 5)).toBe(true);
+    expect((await queue.getStats()).processed).toBe(2);
+  });
+
+  test("should drop overlapping jobs with dontRelease", async () => {
+    let runs = 0;
+    queue.define("sync", async () => { runs++; await sleep(20); }, {
+      middleware: [WithoutOverlapping("report", { dontRelease: true })],
+    });
+    await queue.dispatch("sync");
+    await queue.dispatch("sync");
+
+    await queue.start({ concurrency: 2, maxJobs: 2 });
+    expect(runs).toBe(1);
+    expect(released).toEqual([]);
+  });
+
+  test("should retry below the exception threshold and release once throttled", async () => {
+    let runs = 0;
+    queue.define("flaky", async () => { runs++; throw new Error("down"); }, {
+      middleware: [ThrottlesExceptions(2, 1)],
+    });
+    await queue.dispatch("flaky");
+
+    await queue.start({ maxJobs: 3, sleep: 5 });
+    // 1st failure retries with backoff 0, the 2nd trips the throttle, the 3rd run is held back
+    expect(runs).toBe(2);
+    expect(released[0]).toBe(0);
+    expect(released[1]).toBe(60_000);
+    expect(released[2]).toBeGreaterThan(59_000);
+    expect((await queue.getStats()).failed).toBe(0);
+  });
+
+  test("should skip jobs of a cancelled batch", async () => {
+    const runs: number[] = [];
+    globalQueue.define("batched", async (data) => { runs.push(data.n); }, { middleware: [SkipIfBatchCancelled()] });
+    const id = await batch().add([{ name: "batched", data: { n: 1 } }, { name: "batched", data: { n: 2 } }]).dispatch();
+    cancelBatch(id);
+    await globalQueue.dispatch("batched", { n: 3 });
+
+    await globalQueue.start({ maxJobs: 3 });
+    expect(runs).toEqual([3]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, test, beforeAll, afterAll, spyOn } from "bun:test";
+import { Model, initDatabase, registerModel } from "../src/mvc/Model";
+import { Schema } from "../src/database/Migration";
+import { createApp } from "../src/Application";
+
+class Author extends Model {
+  static tableName = "binding_authors";
+  static softDeletes = true;
+
+  articles() { return this.hasMany(Article, "author_id"); }
+}
+
+class Article extends Model {
+  static tableName = "binding_articles";
+}
+
+// Queried below but never registered, so `:tag` stays a plain param
+class Tag extends Model {
+  static tableName = "binding_tags";
+}
+
+describe("Route model binding", () => {
+  const error = spyOn(console, "error").mockImplementation(() => {});
+  const app = createApp();
+  const show = (req: any) => ({ params: req.params, models: req.models });
+
+  app.routes(router => {
+    router.get("/authors/:author", show);
+    router.get("/by-handle/:author:handle", show);
+    router.get("/trashed/:author", show).withTrashed();
+    router.get("/authors/:author/articles/:article", show);
+    router.get("/loose/:author/articles/:article", show).withoutScopedBindings();
+    router.get("/codes/:code", show);
+    router.get("/tags/:tag", show);
+    router.bind("code", value => (value === "ok" ? { code: value.toUpperCase() } : null));
+  });
+
+  const get = async (path: string) => {
+    try {
+      const response = await app.handle(new Request(`http://localhost${path}`));
+      return { status: response.status, body: await response.json() as any };
+    } catch (e: any) {
+      return { status: e.status, body: { message: e.message } };
+    }
+  };
+
+  beforeAll(async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" } as any);
+    await Schema.create("binding_authors", t => {
+      t.id();
+      t.string("handle");
+      t.timestamps();
+      t.softDeletes();
+    });
+    await Schema.create("binding_articles", t => {
+      t.id();
+      t.integer("author_id");
+      t.string("title");
+      t.timestamps();
+    });
+    registerModel(Author, Article);
+
+    const [ada, grace] = [await Author.create({ handle: "ada" }), await Author.create({ handle: "grace" })];
+    await Article.create({ author_id: ada.id, title: "Engines" });
+    await Article.create({ author_id: grace.id, title: "Compilers" });
+    const gone = await Author.create({ handle: "gone" });
+    await gone.delete();
+  });
+
+  afterAll(async () => {
+    await Schema.drop("binding_articles");
+    await Schema.drop("binding_authors");
+    error.mockRestore();
+  });
+
+  test("should bind models implicitly by primary key or a custom key", async () => {
+    const byId = await get("/authors/1");
+    expect(byId.body.params).toEqual({ author: "1" });
+    expect(byId.body.models.author).toMatchObject({ id: 1, handle: "ada" });
+
+    expect((await get("/by-handle/grace")).body.models.author).toMatchObject({ id: 2, handle: "grace" });
+    expect(await get("/authors/99")).toEqual({ status: 404, body: { message: "Author with ID 99 not found" } });
+  });
+
+  test("should skip soft-deleted models unless the route allows them", async () => {
+    expect((await get("/authors/3")).status).toBe(404);
+    expect((await get("/trashed/3")).body.models.author).toMatchObject({ handle: "gone" });
+  });
+
+  test("should scope child bindings to their parent", async () => {
+    const own = await get("/authors/1/articles/1");
+    expect(own.body.models.article).toMatchObject({ title: "Engines", author_id: 1 });
+
+    // Article 2 exists but was written by another author
+    expect((await get("/authors/1/articles/2")).status).toBe(404);
+    expect((await get("/loose/1/articles/2")).body.models.article).toMatchObject({ title: "Compilers" });
+  });
+
+  test("should only bind models registered explicitly", async () => {
+    Tag.query();
+    expect(await get("/tags/news")).toEqual({ status: 200, body: { params: { tag: "news" }, models: {} } });
+  });
+
+  test("should bind params through custom resolvers", async () => {
+    expect((await get("/codes/ok")).body.models).toEqual({ code: { code: "OK" } });
+    expect(await get("/codes/nope")).toEqual({ status: 404, body: { message: "code not found" } });
+  });
+});
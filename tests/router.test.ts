@@ -1,8 +1,16 @@
 /**
  * CanxJS Router Unit Tests
  */
-import { describe, test, expect } from 'bun:test';
+import { describe, test, expect, spyOn } from 'bun:test';
 import { createRouter, Router } from '../src/core/Router';
+import { createApp } from '../src/Application';
+import { ErrorHandler } from '../src/core/ErrorHandler';
+import * as controllerDecorators from '../src/mvc/Controller';
+import { Controller, Get, Middleware } from '../src/mvc/Controller';
+import { ConfigManager } from '../src/config/ConfigManager';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 describe('Router', () => {
   test('should create a router instance', () => {
@@ -114,3 +122,240 @@ describe('Router', () => {
     expect(router.match('DELETE', '/posts/1')).not.toBeNull();
   });
 });
+
+describe('Router constraints', () => {
+  test('should match inline and where() constraints, falling back to other routes', () => {
+    const router = createRouter();
+    const byId = () => new Response('id');
+    const bySlug = () => new Response('slug');
+    router.get('/posts/:slug', bySlug);
+    router.get('/posts/:id(\\d+)', byId);
+    router.get('/files/:key', () => new Response('file')).where('key', 'uuid');
+    router.get('/tags/:Tag', () => new Response('tag')).where({ Tag: /[A-Z][a-z]+/ });
+
+    expect(router.match('GET', '/posts/42')).toMatchObject({ handler: byId, params: { id: '42' } });
+    expect(router.match('GET', '/posts/hello-world')).toMatchObject({ handler: bySlug, params: { slug: 'hello-world' } });
+    expect(router.match('GET', '/files/0b7c5a4e-2f7d-4c8a-9d3e-5f1a2b3c4d5e')?.params).toEqual({ key: '0b7c5a4e-2f7d-4c8a-9d3e-5f1a2b3c4d5e' });
+    expect(router.match('GET', '/files/nope')).toBeNull();
+    // Constraints see the value's original casing
+    expect(router.match('GET', '/tags/News')?.params).toEqual({ Tag: 'News' });
+    expect(router.match('GET', '/tags/news')).toBeNull();
+  });
+
+  test('should keep earlier routes as fallbacks when where() constrains a later one', () => {
+    const router = createRouter();
+    const byName = () => new Response('name');
+    const byId = () => new Response('id');
+    router.get('/users/:name', byName);
+    router.get('/users/:id', byId).where('id', 'number');
+
+    expect(router.match('GET', '/users/7')).toMatchObject({ handler: byId, params: { id: '7' } });
+    expect(router.match('GET', '/users/bob')).toMatchObject({ handler: byName, params: { name: 'bob' } });
+
+    // Without constraints the later route still replaces the earlier one
+    router.get('/teams/:name', byName);
+    router.get('/teams/:id', byId);
+    expect(router.match('GET', '/teams/bob')?.handler).toBe(byId);
+  });
+
+  test('should match trailing optional segments', () => {
+    const router = createRouter();
+    router.get('/archive/:year(\\d{4})?/:month?', () => new Response('archive'));
+
+    expect(router.match('GET', '/archive')?.params).toEqual({});
+    expect(router.match('GET', '/archive/2024')?.params).toEqual({ year: '2024' });
+    expect(router.match('GET', '/archive/2024/05')?.params).toEqual({ year: '2024', month: '05' });
+    expect(router.match('GET', '/archive/latest')).toBeNull();
+    expect(router.getRoutes().map(r => r.path)).toEqual(['/archive/:year(\\d{4})?/:month?']);
+    expect(() => router.get('/:lang?/docs', () => new Response(''))).toThrow('optional parameters must come last');
+  });
+
+  test('should build URLs from constrained and optional params', () => {
+    const router = createRouter();
+    router.get('/users/:id/posts/:slug?', () => new Response('')).where('id', 'number').name('users.posts');
+
+    expect(router.url('users.posts', { id: 5 })).toBe('/users/5/posts');
+    expect(router.url('users.posts', { id: 5, slug: 'hello world', page: 2 })).toBe('/users/5/posts/hello%20world?page=2');
+    expect(() => router.url('users.posts', { id: 'abc' })).toThrow('Parameter "id" of route "users.posts" must match');
+    expect(() => router.url('users.posts', {})).toThrow('Missing parameter "id"');
+  });
+
+  test('should answer 405 with an Allow header when only the method is wrong', async () => {
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const app = createApp();
+      app.get('/posts/:id(\\d+)', () => new Response('show'));
+      app.put('/posts/:id(\\d+)', () => new Response('update'));
+
+      expect(app.router.allowedMethods('/posts/1')).toEqual(['GET', 'HEAD', 'PUT']);
+      expect(app.router.allowedMethods('/posts/abc')).toEqual([]);
+
+      const request = new Request('http://localhost/posts/1', { method: 'DELETE' });
+      const thrown = await app.handle(request).catch(e => e);
+      expect(thrown.status).toBe(405);
+
+      const response = await ErrorHandler.handle(thrown, request);
+      expect(response.status).toBe(405);
+      expect(response.headers.get('Allow')).toBe('GET, HEAD, PUT');
+
+      const missing = await app.handle(new Request('http://localhost/posts/abc', { method: 'DELETE' })).catch(e => e);
+      expect(missing.status).toBe(404);
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
+
+describe('Router domains', () => {
+  test('should match domain routes by host and capture host params', () => {
+    const router = createRouter();
+    const tenantHome = () => new Response('tenant');
+    const home = () => new Response('home');
+    router.get('/', home);
+    router.domain('{tenant}.example.com', r => {
+      r.get('/', tenantHome);
+      r.get('/projects/:id', () => new Response('project'));
+    });
+
+    expect(router.match('GET', '/', 'Acme.example.com:8080')).toMatchObject({ handler: tenantHome, params: { tenant: 'acme' } });
+    expect(router.match('GET', '/projects/7', 'acme.example.com')?.params).toEqual({ tenant: 'acme', id: '7' });
+    expect(router.match('GET', '/', 'example.com')?.handler).toBe(home);
+    expect(router.match('GET', '/', 'a.b.example.com')?.handler).toBe(home);
+    expect(router.match('GET', '/projects/7', 'example.com')).toBeNull();
+    expect(router.getRoutes().map(r => r.domain)).toContain('{tenant}.example.com');
+  });
+
+  test('should constrain host params and build absolute URLs', () => {
+    const router = createRouter({ scheme: 'https' });
+    router.domain('{tenant}.example.com', r => {
+      r.get('/invoices/:id', () => new Response('')).where('tenant', 'alpha').name('tenant.invoices');
+    });
+    router.get('/about', () => new Response('')).name('about');
+
+    expect(router.match('GET', '/invoices/1', 'acme.example.com')).not.toBeNull();
+    expect(router.match('GET', '/invoices/1', 'acme2.example.com')).toBeNull();
+    expect(router.url('tenant.invoices', { tenant: 'acme', id: 3 })).toBe('https://acme.example.com/invoices/3');
+    expect(router.url('about')).toBe('/about');
+    expect(() => router.url('tenant.invoices', { id: 3 })).toThrow('Missing parameter "tenant"');
+  });
+
+  test('should route application requests by their Host header', async () => {
+    const app = createApp();
+    app.routes(router => {
+      router.domain('{subdomain}.app.test', r => r.get('/whoami', (req: any) => req.params));
+    });
+
+    const response = await app.handle(new Request('http://localhost/whoami', { headers: { host: 'globex.app.test' } }));
+    expect(await response.json()).toEqual({ subdomain: 'globex' });
+    expect((await app.handle(new Request('http://globex.app.test/whoami'))).status).toBe(200);
+    expect(await app.handle(new Request('http://localhost/whoami')).catch(e => e.status)).toBe(404);
+  });
+});
+
+const audit = async (req: any, _res: any, next: () => Promise<Response>) => { req.context.set('audited', true); return next(); };
+
+@Controller('/reports')
+class ReportsController {
+  @Get('/:year(\\d{4})')
+  @Middleware(audit)
+  show(req: any) {
+    return { year: req.params.year, audited: req.context.get('audited') };
+  }
+}
+
+describe('Router caches', () => {
+  test('should keep only static route matches in a bounded LRU', () => {
+    const router = createRouter({ cacheSize: 2 });
+    const cache = (router as any).routeCache;
+    router.get('/a', () => new Response('a'));
+    router.get('/b', () => new Response('b'));
+    router.get('/c', () => new Response('c'));
+    router.get('/users/:id', () => new Response('user'));
+
+    router.match('GET', '/users/1');
+    router.match('GET', '/nope');
+    expect(cache.size).toBe(0);
+
+    router.match('GET', '/a');
+    router.match('GET', '/b');
+    router.match('GET', '/a');
+    router.match('GET', '/c');
+    expect(cache.size).toBe(2);
+    // /b was least recently used
+    expect(cache.get('GET:/b')).toBeUndefined();
+    expect(cache.get('GET:/a')).toBeDefined();
+  });
+
+  test('should register controller routes with their middleware and constraints', async () => {
+    const app = createApp();
+    app.controller(ReportsController);
+
+    const response = await app.handle(new Request('http://localhost/reports/2024'));
+    expect(await response.json()).toEqual({ year: '2024', audited: true });
+    expect(app.router.match('GET', '/reports/abc')).toBeNull();
+  });
+
+  test('should restore controller routes from the route table without scanning decorators', async () => {
+    const source = createRouter().aliasMiddleware('audit', audit);
+    source.group('/admin', r => {
+      (r as any).registerController(ReportsController);
+      r.name('reports.show');
+    });
+    const table = JSON.parse(JSON.stringify(source.compile()));
+    expect(table.routes).toEqual([{
+      controller: 'ReportsController', action: 'show', base: '', method: 'GET',
+      prefix: '/reports', path: '/:year(\\d{4})', middleware: ['audit'], name: 'reports.show',
+    }]);
+
+    const scans = spyOn(controllerDecorators, 'getControllerMeta');
+    const app = createApp();
+    app.router.aliasMiddleware('audit', audit).useCompiled(table);
+    app.router.group('/admin', r => { (r as any).registerController(ReportsController); });
+    expect(scans).not.toHaveBeenCalled();
+    scans.mockRestore();
+
+    expect(app.router.url('reports.show', { year: 2024 })).toBe('/admin/reports/2024');
+    const response = await app.handle(new Request('http://localhost/admin/reports/2024'));
+    expect(await response.json()).toEqual({ year: '2024', audited: true });
+    expect(app.router.match('GET', '/admin/reports/abc')).toBeNull();
+  });
+
+  test('should leave controllers it cannot restore exactly out of the route table', () => {
+    // Unaliased middleware
+    const unaliased = createRouter();
+    (unaliased as any).registerController(ReportsController);
+    expect(unaliased.compile().routes).toEqual([]);
+
+    // Two controller classes sharing a name
+    const Other = { ReportsController: class { show() {} } }.ReportsController;
+    Get('/other')(Other.prototype, 'show', {} as PropertyDescriptor);
+    const shared = createRouter().aliasMiddleware('audit', audit);
+    (shared as any).registerController(ReportsController);
+    (shared as any).registerController(Other, '/v2');
+    expect(shared.compile().routes).toEqual([]);
+  });
+
+  test('should load the merged config from its cache file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'canx-config-'));
+    try {
+      const file = join(dir, 'bootstrap/cache/config.json');
+      const manager = new ConfigManager();
+      manager.load({ app: { name: 'Acme', debug: false } });
+      manager.set('mail.from', 'ops@acme.test');
+      manager.writeCache(file);
+
+      const cached = new ConfigManager();
+      expect(cached.loadCache(join(dir, 'missing.json'))).toBe(false);
+      expect(cached.loadCache(file)).toBe(true);
+      expect(cached.isCached()).toBe(true);
+      expect(cached.get('app.name')).toBe('Acme');
+      expect(cached.get('mail.from')).toBe('ops@acme.test');
+
+      // Config files are not read again once the cache is loaded
+      await cached.loadDirectory(join(dir, 'config'));
+      expect(cached.all()).toEqual({ app: { name: 'Acme', debug: false }, mail: { from: 'ops@acme.test' } });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
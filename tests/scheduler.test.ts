@@ -1,5 +1,6 @@
 import { describe, expect, test, afterAll } from "bun:test";
-import { scheduler, Scheduler } from "../src/features/Scheduler";
+import { scheduler, Scheduler, MemoryLockStore, DatabaseLockStore } from "../src/features/Scheduler";
+import { initDatabase, closeDatabase, execute } from "../src/mvc/Model";
 
 describe("Scheduler", () => {
     
@@ -13,7 +14,7 @@ describe("Scheduler", () => {
     // Access private members for testing using 'any'
     const getTask = (s: Scheduler) => (s as any).tasks[0];
     const parseInterval = (s: Scheduler, i: string) => (s as any).parseInterval(i);
-    const matchesCron = (s: Scheduler, c: string, d: Date) => (s as any).matchesCron(c, d);
+    const matchesCron = (s: Scheduler, c: string, d: Date, tz?: string) => (s as any).matchesCron(c, d, tz);
 
     describe("Task Registration", () => {
         test("should register a callback task", () => {
@@ -73,6 +74,148 @@ describe("Scheduler", () => {
         });
     });
 
-    // We can't easily test accurate execution timing without complex mocking,
-    // so we trust the logic verification above.
+    describe("Timezones", () => {
+        test("should match cron in the task timezone", () => {
+            const date = new Date("2023-01-01T12:30:00Z");
+            expect(matchesCron(testScheduler, "30 7 * * *", date, "America/New_York")).toBe(true);
+            expect(matchesCron(testScheduler, "30 21 * * 0", date, "Asia/Tokyo")).toBe(true);
+            expect(matchesCron(testScheduler, "30 12 * * *", date, "Asia/Tokyo")).toBe(false);
+        });
+
+        test("should match stepped ranges and Sunday as 7", () => {
+            const sunday = new Date("2023-01-01T12:20:00Z");
+            expect(matchesCron(testScheduler, "10-30/10 * * * 7", sunday, "UTC")).toBe(true);
+            expect(matchesCron(testScheduler, "5-30/10 * * * *", sunday, "UTC")).toBe(false);
+        });
+
+        test("should list the next run time in the task timezone", () => {
+            const s = new Scheduler();
+            s.call(() => {}).name("report").timezone("Asia/Tokyo").dailyAt("09:00");
+            s.command("echo hi").every("10m");
+            s.stop();
+
+            const [report, echo] = s.list(new Date("2024-03-01T00:30:00Z"));
+            expect(report.name).toBe("report");
+            expect(report.timezone).toBe("Asia/Tokyo");
+            expect(report.nextRun?.toISOString()).toBe("2024-03-02T00:00:00.000Z");
+            expect(echo.name).toBe("echo hi");
+            expect(echo.nextRun?.toISOString()).toBe("2024-03-01T00:30:00.000Z");
+        });
+    });
+
+    describe("Distributed runs", () => {
+        const minute = new Date("2024-05-01T10:00:07Z");
+
+        test("should run a due cron task once per minute from run()", async () => {
+            const s = new Scheduler();
+            let runs = 0;
+            s.call(() => { runs++; }).everyMinute();
+            s.stop();
+
+            await s.run(minute);
+            await s.run(new Date(minute.getTime() + 20000));
+            expect(runs).toBe(1);
+        });
+
+        test("should run onOneServer tasks on a single replica", async () => {
+            const locks = new MemoryLockStore();
+            let runs = 0;
+            const replicas = [new Scheduler({ lockStore: locks }), new Scheduler({ lockStore: locks })];
+            for (const s of replicas) {
+                s.call(() => { runs++; }).name("prune").onOneServer().everyMinute();
+                s.stop();
+            }
+
+            await Promise.all(replicas.map(s => s.run(minute)));
+            expect(runs).toBe(1);
+        });
+
+        test("should not overlap across replicas sharing a lock store", async () => {
+            const locks = new MemoryLockStore();
+            let running = 0;
+            let peak = 0;
+            const replicas = [new Scheduler({ lockStore: locks }), new Scheduler({ lockStore: locks })];
+            for (const s of replicas) {
+                s.call(async () => {
+                    running++;
+                    peak = Math.max(peak, running);
+                    await Bun.sleep(10);
+                    running--;
+                }).name("sync").withoutOverlapping().everyMinute();
+                s.stop();
+            }
+
+            await Promise.all(replicas.map(s => s.run(minute)));
+            expect(peak).toBe(1);
+            // The lock is released afterwards
+            expect(await locks.acquire(`overlap:${(replicas[0] as any).mutexName((replicas[0] as any).tasks[0])}`, 1000)).toBe(true);
+        });
+
+        test("should skip runs instead of rejecting when the lock store fails", async () => {
+            const originalError = console.error;
+            console.error = () => {};
+            const broken = {
+                acquire: async () => { throw new Error("redis down"); },
+                release: async () => { throw new Error("redis down"); },
+            };
+            const s = new Scheduler({ lockStore: broken });
+            let runs = 0;
+            s.call(() => { runs++; }).name("prune").onOneServer().everyMinute();
+            s.call(() => { runs++; }).name("sync").withoutOverlapping().runOnStartup().everyMinute();
+            s.stop();
+
+            await s.run(minute);
+            await Bun.sleep(0);
+            console.error = originalError;
+            expect(runs).toBe(0);
+        });
+
+        test("should share locks through the database", async () => {
+            await initDatabase({ driver: "sqlite", database: ":memory:" });
+            await execute("CREATE TABLE scheduler_locks (lock_key VARCHAR(255) PRIMARY KEY, owner VARCHAR(255), expires_at BIGINT)");
+            const store = new DatabaseLockStore();
+
+            expect(await store.acquire("run:a", 60000)).toBe(true);
+            expect(await store.acquire("run:a", 60000)).toBe(false);
+            expect((await store.held()).map(l => l.lock_key)).toEqual(["run:a"]);
+            await store.release("run:a");
+            expect(await store.acquire("run:a", 60000)).toBe(true);
+            // Expired locks are taken over
+            expect(await store.acquire("run:b", -1)).toBe(true);
+            expect(await store.acquire("run:b", 60000)).toBe(true);
+            await closeDatabase();
+        });
+    });
+
+    describe("Hooks and history", () => {
+        test("should run hooks and record successful and failed runs", async () => {
+            const s = new Scheduler({ historySize: 2 });
+            const calls: string[] = [];
+            const originalError = console.error;
+            console.error = () => {};
+
+            s.call(() => { calls.push("task"); }).name("ok")
+                .before(() => { calls.push("before"); })
+                .after((run) => { calls.push(`after:${run.status}`); })
+                .everyMinute();
+            s.call(() => { throw new Error("boom"); }).name("broken")
+                .onFailure((error) => { calls.push(`failed:${error.message}`); })
+                .after((run) => { calls.push(`after:${run.status}`); })
+                .everyMinute();
+            s.stop();
+
+            await s.run(new Date("2024-05-01T10:00:00Z"));
+            console.error = originalError;
+
+            // Due tasks run side by side, so only each task's own order is fixed
+            expect(calls.filter(c => !c.includes("boom") && c !== "after:failed")).toEqual(["before", "task", "after:success"]);
+            expect(calls.filter(c => c.includes("boom") || c === "after:failed")).toEqual(["failed:boom", "after:failed"]);
+            const history = s.history();
+            expect(history.length).toBe(2);
+            expect(history.map(r => r.status).sort()).toEqual(["failed", "success"]);
+            const broken = history.find(r => r.task === "broken")!;
+            expect(broken.error).toBe("boom");
+            expect(broken.duration).toBeGreaterThanOrEqual(0);
+        });
+    });
 });
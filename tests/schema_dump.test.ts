@@ -0,0 +1,82 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { initDatabase, closeDatabase, query, execute } from "../src/mvc/Model";
+import { Schema, migrator, defineMigration } from "../src/database/Migration";
+import { dumpSchema, writeSchemaDump, splitStatements } from "../src/database/SchemaDump";
+
+describe("Schema dump", () => {
+  const dir = mkdtempSync(join(tmpdir(), "canx-schema-"));
+  const path = join(dir, "sqlite-schema.sql");
+
+  beforeAll(async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+    defineMigration("2024_01_01_create_orders", async () => {
+      await Schema.create("orders", (t) => {
+        t.id();
+        t.string("reference").unique();
+        t.integer("customer_id").index();
+      });
+    }, async () => {
+      await Schema.drop("orders");
+    });
+    await migrator.run();
+    await execute(`CREATE TRIGGER orders_touch AFTER INSERT ON orders BEGIN UPDATE orders SET customer_id = customer_id; END`);
+  });
+
+  afterAll(async () => {
+    migrator.useSchemaDump(undefined);
+    await closeDatabase();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should dump tables, indexes, triggers and migration records", async () => {
+    const sql = await dumpSchema();
+    expect(sql).toContain("CREATE TABLE `orders`");
+    expect(sql).toContain("CREATE INDEX `idx_orders_customer_id`");
+    expect(sql).toContain("CREATE TRIGGER orders_touch");
+    expect(sql).toContain("VALUES ('2024_01_01_create_orders'");
+    expect(sql).not.toContain("sqlite_sequence");
+  });
+
+  test("should split statements without breaking quotes or trigger bodies", () => {
+    expect(splitStatements("-- header\nSELECT 'a;b';\n\nCREATE TRIGGER t AFTER INSERT ON x BEGIN DELETE FROM y; END;\nSELECT 1;")).toEqual([
+      "SELECT 'a;b'",
+      "CREATE TRIGGER t AFTER INSERT ON x BEGIN DELETE FROM y; END",
+      "SELECT 1",
+    ]);
+  });
+
+  test("should load the dump into an empty database and run only newer migrations", async () => {
+    await writeSchemaDump(path);
+    expect(readFileSync(path, "utf8")).toStartWith("-- CanxJS schema dump (sqlite)");
+
+    await closeDatabase();
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+
+    let replayed = false;
+    defineMigration("2024_06_01_add_orders_notes", async () => {
+      replayed = true;
+      await Schema.table("orders", (t) => t.text("notes").nullable());
+    }, async () => {
+      await Schema.table("orders", (t) => t.dropColumn("notes"));
+    });
+
+    migrator.useSchemaDump(path);
+    await migrator.run();
+
+    expect(replayed).toBe(true);
+    expect(await Schema.hasColumn("orders", "notes")).toBe(true);
+    const records = await query<{ name: string }>("SELECT name FROM migrations WHERE name LIKE '2024_%' ORDER BY id");
+    expect(records.map(r => r.name)).toEqual(["2024_01_01_create_orders", "2024_06_01_add_orders_notes"]);
+    const triggers = await query("SELECT name FROM sqlite_master WHERE type = 'trigger'");
+    expect(triggers.length).toBe(1);
+  });
+
+  test("should ignore the dump once the database has a migrations table", async () => {
+    await migrator.run();
+    const records = await query("SELECT name FROM migrations WHERE name = '2024_01_01_create_orders'");
+    expect(records.length).toBe(1);
+  });
+});
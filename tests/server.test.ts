@@ -0,0 +1,151 @@
+/**
+ * CanxJS Server Unit Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { Server } from '../src/core/Server';
+import { negotiateEncoding } from '../src/core/Compression';
+
+const large = JSON.stringify({ items: Array.from({ length: 200 }, (_, i) => ({ id: i, name: `item-${i}` })) });
+
+describe('Server limits', () => {
+  test('should reject bodies over maxBodySize with 413', async () => {
+    let called = false;
+    const server = new Server({ maxBodySize: 10, development: false }, () => {
+      called = true;
+      return new Response('ok');
+    });
+
+    const res = await server.handle(new Request('http://localhost/upload', {
+      method: 'POST',
+      headers: { 'content-length': '100' },
+      body: 'x'.repeat(100),
+    }));
+
+    expect(res.status).toBe(413);
+    expect(called).toBe(false);
+  });
+
+  test('should reject chunked bodies once they pass maxBodySize', async () => {
+    const server = new Server({ maxBodySize: 10, development: false }, async (req) => new Response(await req.text()));
+    const chunks = ['x'.repeat(8), 'x'.repeat(8)];
+    const body = new ReadableStream({
+      pull(controller) {
+        const chunk = chunks.shift();
+        if (chunk) controller.enqueue(new TextEncoder().encode(chunk));
+        else controller.close();
+      },
+    });
+
+    const res = await server.handle(new Request('http://localhost/upload', { method: 'POST', body, duplex: 'half' } as RequestInit));
+    expect(res.status).toBe(413);
+  });
+
+  test('should accept bodies within maxBodySize', async () => {
+    const server = new Server({ maxBodySize: 1024 }, async (req) => new Response(await req.text()));
+
+    const res = await server.handle(new Request('http://localhost/upload', { method: 'POST', body: 'hello' }));
+    expect(await res.text()).toBe('hello');
+  });
+
+  test('should abort handlers that exceed the timeout', async () => {
+    let signal: AbortSignal | undefined;
+    const server = new Server({ timeout: 20, development: false }, (req, meta) => {
+      signal = meta.signal;
+      return new Promise<Response>(resolve => setTimeout(() => resolve(new Response('late')), 200));
+    });
+
+    const res = await server.handle(new Request('http://localhost/slow'));
+    expect(res.status).toBe(503);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  test('should not time out when timeout is 0', async () => {
+    const server = new Server({ timeout: 0 }, async () => {
+      await Bun.sleep(10);
+      return new Response('done');
+    });
+
+    const res = await server.handle(new Request('http://localhost/'));
+    expect(await res.text()).toBe('done');
+  });
+});
+
+describe('Server compression', () => {
+  const handler = () => new Response(large, { headers: { 'Content-Type': 'application/json' } });
+
+  test('should gzip large JSON when the client accepts gzip', async () => {
+    const server = new Server({ compression: true }, handler);
+    const res = await server.handle(new Request('http://localhost/', { headers: { 'accept-encoding': 'gzip' } }));
+
+    expect(res.headers.get('content-encoding')).toBe('gzip');
+    expect(res.headers.get('vary')).toContain('Accept-Encoding');
+    const body = Bun.gunzipSync(new Uint8Array(await res.arrayBuffer()));
+    expect(new TextDecoder().decode(body)).toBe(large);
+  });
+
+  test('should prefer brotli when accepted equally', async () => {
+    const server = new Server({ compression: true }, handler);
+    const res = await server.handle(new Request('http://localhost/', { headers: { 'accept-encoding': 'gzip, br' } }));
+    expect(res.headers.get('content-encoding')).toBe('br');
+  });
+
+  test('should skip bodies below the threshold', async () => {
+    const server = new Server({ compression: true }, () => new Response('{"ok":true}', { headers: { 'Content-Type': 'application/json' } }));
+    const res = await server.handle(new Request('http://localhost/', { headers: { 'accept-encoding': 'gzip' } }));
+
+    expect(res.headers.get('content-encoding')).toBeNull();
+    expect(await res.text()).toBe('{"ok":true}');
+  });
+
+  test('should skip non-compressible content types', async () => {
+    const server = new Server({ compression: true }, () => new Response(new Uint8Array(4096), { headers: { 'Content-Type': 'image/png' } }));
+    const res = await server.handle(new Request('http://localhost/', { headers: { 'accept-encoding': 'gzip' } }));
+    expect(res.headers.get('content-encoding')).toBeNull();
+  });
+
+  test('should leave responses alone when compression is disabled', async () => {
+    const server = new Server({ compression: false }, handler);
+    const res = await server.handle(new Request('http://localhost/', { headers: { 'accept-encoding': 'gzip' } }));
+    expect(res.headers.get('content-encoding')).toBeNull();
+  });
+
+  test('should compress streams of unknown length without waiting for their end', async () => {
+    const line = 'x'.repeat(600) + '\n';
+    const server = new Server({ compression: true }, () => new Response(new ReadableStream({
+      // Never closes, like a long-lived text feed
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode(line));
+      },
+    }), { headers: { 'Content-Type': 'text/plain' } }));
+
+    const res = await server.handle(new Request('http://localhost/', { headers: { 'accept-encoding': 'gzip' } }));
+    expect(res.headers.get('content-encoding')).toBe('gzip');
+    expect(res.headers.get('content-length')).toBeNull();
+
+    const reader = res.body!.pipeThrough(new DecompressionStream('gzip')).getReader();
+    const { value } = await reader.read();
+    expect(new TextDecoder().decode(value).startsWith(line)).toBe(true);
+    await reader.cancel();
+  });
+
+  test('should buffer short streams and apply the threshold', async () => {
+    const server = new Server({ compression: true }, () => new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"ok":'));
+        controller.enqueue(new TextEncoder().encode('true}'));
+        controller.close();
+      },
+    }), { headers: { 'Content-Type': 'application/json' } }));
+
+    const res = await server.handle(new Request('http://localhost/', { headers: { 'accept-encoding': 'gzip' } }));
+    expect(res.headers.get('content-encoding')).toBeNull();
+    expect(await res.text()).toBe('{"ok":true}');
+  });
+
+  test('should negotiate using q-values', () => {
+    expect(negotiateEncoding('gzip;q=1, br;q=0.5', ['br', 'gzip'])).toBe('gzip');
+    expect(negotiateEncoding('br;q=0, *;q=0.1', ['br', 'gzip'])).toBe('gzip');
+    expect(negotiateEncoding('identity', ['br', 'gzip'])).toBeNull();
+    expect(negotiateEncoding(null)).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, test, beforeAll, afterAll, spyOn } from "bun:test";
+import { ServiceRegistry, MemoryServiceRegistryDriver, LoadBalancer } from "../src/microservices/ServiceRegistry";
+import { ServiceClient } from "../src/microservices/ServiceClient";
+import { ServiceUnavailableException } from "../src/core/exceptions/ServiceUnavailableException";
+import { sleep } from "../src/testing/TestCase";
+
+type Instance = { name: string; server: ReturnType<typeof Bun.serve>; hits: number; status: number };
+
+describe("ServiceClient", () => {
+  const log = spyOn(console, "log").mockImplementation(() => {});
+  const instances: Instance[] = [];
+  let registry: ServiceRegistry;
+  let driver: MemoryServiceRegistryDriver;
+
+  const start = (name: string) => {
+    const instance = { name, hits: 0, status: 200 } as Instance;
+    instance.server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        instance.hits++;
+        const url = new URL(req.url);
+        if (url.pathname === "/slow") await sleep(50);
+        const body = req.method === "POST" ? await req.json() : null;
+        return Response.json({ instance: name, method: req.method, query: url.searchParams.get("q"), body }, { status: instance.status });
+      },
+    });
+    instances.push(instance);
+    return instance;
+  };
+
+  const register = (service: string, instance: Instance) =>
+    driver.register({ id: instance.name, name: service, host: "127.0.0.1", port: instance.server.port!, health: "healthy", registeredAt: new Date() });
+
+  beforeAll(async () => {
+    driver = new MemoryServiceRegistryDriver();
+    registry = new ServiceRegistry(driver);
+    await register("orders", start("a"));
+    await register("orders", start("b"));
+  });
+
+  afterAll(async () => {
+    for (const instance of instances) instance.server.stop(true);
+    await driver.close();
+    log.mockRestore();
+  });
+
+  test("should balance requests across registered instances", async () => {
+    const client = new ServiceClient("orders", { registry });
+    const seen: string[] = [];
+    for (let i = 0; i < 4; i++) seen.push((await (await client.get("/orders", { query: { q: i } })).json()).instance);
+    expect(seen.sort()).toEqual(["a", "a", "b", "b"]);
+
+    const res = await client.post("/orders", { sku: "x" });
+    expect(await res.json()).toMatchObject({ method: "POST", body: { sku: "x" } });
+  });
+
+  test("should retry idempotent calls on another instance but not POSTs", async () => {
+    const [a, b] = instances;
+    const client = new ServiceClient("orders", { registry, circuitBreaker: false });
+    a.status = 503;
+    a.hits = b.hits = 0;
+
+    for (let i = 0; i < 4; i++) {
+      const res = await client.get("/orders");
+      expect(res.status).toBe(200);
+      expect((await res.json()).instance).toBe("b");
+    }
+    expect(b.hits).toBe(4);
+
+    // A POST that lands on the failing instance returns its response as is
+    const statuses = new Set<number>();
+    for (let i = 0; i < 4; i++) statuses.add((await client.post("/orders", {})).status);
+    expect(statuses).toEqual(new Set([200, 503]));
+
+    // ...unless the caller marks it idempotent
+    for (let i = 0; i < 4; i++) expect((await client.post("/orders", {}, { idempotent: true })).status).toBe(200);
+    a.status = 200;
+  });
+
+  test("should open a per-instance circuit and stop sending to that instance", async () => {
+    const down = start("down");
+    await register("billing", down);
+    await register("billing", start("up"));
+    const client = new ServiceClient("billing", { registry, circuitBreaker: { failureThreshold: 2, timeout: 60_000 } });
+    down.status = 502;
+
+    for (let i = 0; i < 6; i++) expect((await client.get("/invoices")).status).toBe(200);
+    expect(down.hits).toBe(2);
+    expect(client.getCircuitStates()).toEqual({ down: "OPEN", up: "CLOSED" });
+  });
+
+  test("should track in-flight requests for least-connections", async () => {
+    const leastRegistry = new ServiceRegistry(driver, { loadBalancer: "least-connections" });
+    const client = new ServiceClient("orders", { registry: leastRegistry });
+    const balancer = leastRegistry.getLoadBalancer();
+
+    const slow = client.get("/slow");
+    await sleep(10);
+    const busy = instances.find(i => balancer.getConnections(i.name) === 1)!;
+    expect(busy).toBeDefined();
+
+    // While one request is in flight, the other instance gets the next ones
+    const next = await (await client.get("/orders")).json();
+    expect(next.instance).not.toBe(busy.name);
+
+    await slow;
+    expect(balancer.getConnections(busy.name)).toBe(0);
+  });
+
+  test("should fail when no instance is available", async () => {
+    const client = new ServiceClient("missing", { registry });
+    const error = await client.get("/").catch(e => e);
+    expect(error).toBeInstanceOf(ServiceUnavailableException);
+    expect(error.message).toBe("missing: no instances available");
+  });
+});
+
+describe("LoadBalancer", () => {
+  test("should prefer the instance with the fewest connections", () => {
+    const balancer = new LoadBalancer("least-connections");
+    const services = ["a", "b", "c"].map(id => ({ id, name: "svc", host: "h", port: 1, registeredAt: new Date() }));
+    balancer.acquire(services[0]);
+    balancer.acquire(services[0]);
+    balancer.acquire(services[1]);
+
+    expect(balancer.select(services)?.id).toBe("c");
+    balancer.acquire(services[2]);
+    balancer.acquire(services[2]);
+    expect(balancer.select(services)?.id).toBe("b");
+
+    balancer.release(services[0]);
+    balancer.release(services[0]);
+    expect(balancer.getConnections("a")).toBe(0);
+    expect(balancer.select(services)?.id).toBe("a");
+  });
+});
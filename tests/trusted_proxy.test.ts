@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { compileTrust, resolveClient } from "../src/core/TrustedProxy";
+import { createApp } from "../src/Application";
+import { Server } from "../src/core/Server";
+import { rateLimit } from "../src/middlewares/RateLimiter";
+
+const request = (headers: Record<string, string> = {}, url = "http://app.test/") => new Request(url, { headers });
+
+describe("Trusted proxies", () => {
+  test("should match addresses against CIDR ranges and presets", () => {
+    const trusted = compileTrust(["10.0.0.0/8", "2001:db8::/32", "loopback", "203.0.113.7"]);
+
+    expect(["10.1.2.3", "2001:db8::1", "127.0.0.1", "::1", "203.0.113.7"].map(trusted)).toEqual([true, true, true, true, true]);
+    expect(["11.0.0.1", "2001:db9::1", "203.0.113.8", "unknown", ""].map(trusted)).toEqual([false, false, false, false, false]);
+    expect(() => compileTrust(["10.0.0.0/33"])).toThrow('Invalid trustProxy entry: "10.0.0.0/33"');
+  });
+
+  test("should only follow forwarded headers through trusted hops", () => {
+    const headers = { "x-forwarded-for": "6.6.6.6, 198.51.100.4, 10.0.0.2", "x-forwarded-proto": "https", "x-forwarded-host": "shop.example.com:443", host: "internal:3000" };
+
+    // Not trusted: the socket peer is the client, headers are ignored
+    expect(resolveClient(request(headers), "10.0.0.1", false)).toEqual({ ip: "10.0.0.1", ips: [], protocol: "http", hostname: "internal" });
+
+    // The walk stops at the first untrusted hop, so a spoofed leftmost entry is never used
+    expect(resolveClient(request(headers), "10.0.0.1", ["10.0.0.0/8"])).toEqual({
+      ip: "198.51.100.4",
+      ips: ["198.51.100.4", "10.0.0.2"],
+      protocol: "https",
+      hostname: "shop.example.com",
+    });
+
+    expect(resolveClient(request(headers), "::ffff:10.0.0.1", true).ip).toBe("6.6.6.6");
+    expect(resolveClient(request(headers), "198.51.100.9", ["10.0.0.0/8"]).ip).toBe("198.51.100.9");
+  });
+
+  test("should read the RFC 7239 Forwarded header only when configured", () => {
+    const headers = {
+      forwarded: 'for="[2001:db8:cafe::17]:4711";proto=https;host=api.example.com, for=10.0.0.2',
+      "x-forwarded-for": "6.6.6.6",
+    };
+
+    expect(resolveClient(request(headers), "10.0.0.1", ["uniquelocal"], "forwarded")).toEqual({
+      ip: "2001:db8:cafe::17",
+      ips: ["2001:db8:cafe::17", "10.0.0.2"],
+      protocol: "https",
+      hostname: "api.example.com",
+    });
+    expect(resolveClient(request(headers), "10.0.0.1", ["uniquelocal"]).ip).toBe("6.6.6.6");
+  });
+
+  test("should ignore a client-sent header the proxies don't set", () => {
+    // nginx appends X-Forwarded-For and passes Forwarded through untouched
+    const spoofed = { forwarded: "for=6.6.6.6;proto=https;host=evil.test", "x-forwarded-for": "9.9.9.9" };
+    expect(resolveClient(request(spoofed), "10.0.0.2", ["10.0.0.0/8"])).toEqual({ ip: "9.9.9.9", ips: ["9.9.9.9"], protocol: "http", hostname: "app.test" });
+
+    // Likewise X-Forwarded-For is ignored when the proxies speak Forwarded
+    const appended = { forwarded: "for=9.9.9.9", "x-forwarded-for": "6.6.6.6" };
+    expect(resolveClient(request(appended), "10.0.0.2", ["10.0.0.0/8"], "forwarded").ip).toBe("9.9.9.9");
+  });
+
+  test("should take protocol and host from the outermost trusted proxy's entry", () => {
+    const headers = {
+      "x-forwarded-for": "6.6.6.6, 198.51.100.4",
+      "x-forwarded-proto": "https, http",
+      "x-forwarded-host": "evil.test, shop.example.com",
+    };
+    expect(resolveClient(request(headers), "10.0.0.1", ["10.0.0.0/8"])).toMatchObject({ ip: "198.51.100.4", protocol: "http", hostname: "shop.example.com" });
+
+    const forwarded = { forwarded: "for=6.6.6.6;proto=https;host=evil.test, for=198.51.100.4;proto=http;host=shop.example.com" };
+    expect(resolveClient(request(forwarded), "10.0.0.1", ["10.0.0.0/8"], "forwarded")).toMatchObject({ ip: "198.51.100.4", protocol: "http", hostname: "shop.example.com" });
+  });
+
+  test("should expose the client on requests and key rate limits by it", async () => {
+    const app = createApp({ trustProxy: ["10.0.0.0/8"] });
+    app.get("/whoami", req => ({ ip: req.ip, ips: req.ips, protocol: req.protocol, hostname: req.hostname }));
+    app.get("/limited", rateLimit({ max: 1, windowMs: 60_000 }), () => ({ ok: true }));
+    const server = new Server({ compression: false, development: false }, (req, meta) => app.handle(req, meta));
+
+    const whoami = await server.handle(request({ "x-forwarded-for": "198.51.100.4" }, "http://app.test/whoami"), "10.0.0.1");
+    expect(await whoami.json()).toEqual({ ip: "198.51.100.4", ips: ["198.51.100.4"], protocol: "http", hostname: "app.test" });
+
+    // A direct client can't rotate X-Forwarded-For to get a fresh limit
+    const statuses: number[] = [];
+    for (const spoofed of ["1.1.1.1", "2.2.2.2"]) {
+      const response = await server.handle(request({ "x-forwarded-for": spoofed }, "http://app.test/limited"), "203.0.113.50");
+      statuses.push(response.status);
+    }
+    expect(statuses).toEqual([200, 429]);
+
+    // Behind the trusted proxy, distinct clients get their own limits
+    const viaProxy = await server.handle(request({ "x-forwarded-for": "198.51.100.5" }, "http://app.test/limited"), "10.0.0.1");
+    expect(viaProxy.status).toBe(200);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, test, beforeEach, afterEach, afterAll, spyOn } from "bun:test";
+import { WorkflowEngine, SqlWorkflowStorage } from "../src/flow/Workflow";
+import { initDatabase, closeDatabase, execute } from "../src/mvc/Model";
+import { sleep } from "../src/testing/TestCase";
+
+const log = spyOn(console, "log").mockImplementation(() => {});
+const error = spyOn(console, "error").mockImplementation(() => {});
+
+async function until(check: () => Promise<boolean>, timeout = 1000) {
+  const started = Date.now();
+  while (!(await check())) {
+    if (Date.now() - started > timeout) throw new Error("Timed out waiting for workflow");
+    await sleep(5);
+  }
+}
+
+describe("Workflow engine", () => {
+  let engine: WorkflowEngine;
+  const statusOf = async (id: string) => (await engine.getState(id))?.status;
+
+  beforeEach(() => {
+    engine = new WorkflowEngine();
+  });
+
+  afterEach(() => {
+    engine.stop();
+  });
+
+  afterAll(() => {
+    log.mockRestore();
+    error.mockRestore();
+  });
+
+  test("should suspend on waitForSignal and resume with the payload", async () => {
+    engine.define("approval", async (ctx) => {
+      const decision = await ctx.waitForSignal<{ approved: boolean }>("decision");
+      return decision?.approved ? "shipped" : "cancelled";
+    });
+    const id = await engine.start("approval");
+    await until(async () => (await statusOf(id)) === "waiting");
+
+    await engine.signal(id, "decision", { approved: true });
+
+    const state = await engine.getState(id);
+    expect(state?.status).toBe("completed");
+    expect(state?.variables.result).toBe("shipped");
+  });
+
+  test("should buffer signals sent before the wait", async () => {
+    engine.define("buffered", async (ctx) => {
+      await ctx.sleep("pause", 10);
+      return ctx.waitForSignal("go");
+    });
+    const id = await engine.start("buffered");
+    await until(async () => (await statusOf(id)) === "sleeping");
+    await engine.signal(id, "go", 42);
+
+    await sleep(15);
+    await engine.wakeDue();
+    await until(async () => (await statusOf(id)) === "completed");
+    expect((await engine.getState(id))?.variables.result).toBe(42);
+  });
+
+  test("should return null when the signal wait times out", async () => {
+    engine.define("timeout", async (ctx) => (await ctx.waitForSignal("never", 10)) ?? "timed out");
+    const id = await engine.start("timeout");
+    await until(async () => (await statusOf(id)) === "waiting");
+
+    await sleep(15);
+    await engine.wakeDue();
+    await until(async () => (await statusOf(id)) === "completed");
+    expect((await engine.getState(id))?.variables.result).toBe("timed out");
+  });
+
+  test("should run child workflows and resume the parent with their result", async () => {
+    engine.define("charge", async (ctx, amount: number) => ctx.step("charge", async () => `charged ${amount}`));
+    engine.define("order", async (ctx, amount: number) => {
+      const receipt = await ctx.child<string>("charge", amount);
+      return `order: ${receipt}`;
+    });
+
+    const id = await engine.start("order", 30);
+    await until(async () => (await statusOf(id)) === "completed");
+
+    const state = await engine.getState(id);
+    expect(state?.variables.result).toBe("order: charged 30");
+    const childId = state?.history.find(e => e.type === "child_start")?.result.childId;
+    expect((await engine.getState(childId))?.parentId).toBe(id);
+  });
+
+  test("should fail the parent when a child fails", async () => {
+    engine.define("broken", async () => { throw new Error("card declined"); });
+    engine.define("order", async (ctx) => ctx.child("broken"));
+
+    const id = await engine.start("order");
+    await until(async () => (await statusOf(id)) === "failed");
+    expect((await engine.getState(id))?.variables.error).toContain("card declined");
+  });
+
+  test("should run compensations in reverse when a later step fails", async () => {
+    const undone: string[] = [];
+    engine.define("saga", async (ctx) => {
+      await ctx.step("reserve", async () => "R1", { compensate: async (r) => { undone.push(`release ${r}`); } });
+      await ctx.step("charge", async () => "C1", { compensate: async (c) => { undone.push(`refund ${c}`); } });
+      await ctx.step("ship", async () => { throw new Error("no courier"); });
+    });
+
+    const id = await engine.start("saga");
+    await until(async () => (await statusOf(id)) === "failed");
+
+    expect(undone).toEqual(["refund C1", "release R1"]);
+    const compensated = (await engine.getState(id))!.history.filter(e => e.type === "compensation_complete");
+    expect(compensated.map(e => e.stepId)).toEqual(["charge", "reserve"]);
+  });
+});
+
+describe("SqlWorkflowStorage", () => {
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  test("should resume a persisted workflow in a new engine", async () => {
+    await initDatabase({ driver: "sqlite", database: ":memory:" });
+    await execute(`CREATE TABLE workflows (
+      id VARCHAR(64) PRIMARY KEY, name VARCHAR(255), status VARCHAR(20), parent_id VARCHAR(64),
+      wake_up_at BIGINT, state TEXT, created_at BIGINT, updated_at BIGINT
+    )`);
+
+    let reserved = 0;
+    const define = (engine: WorkflowEngine) => engine.define("order", async (ctx, sku: string) => {
+      await ctx.step("reserve", async () => { reserved++; return sku; });
+      const payment = await ctx.waitForSignal<string>("paid", 60_000);
+      return `${sku} paid by ${payment}`;
+    });
+
+    const first = new WorkflowEngine(new SqlWorkflowStorage());
+    define(first);
+    const id = await first.start("order", "sku-1");
+    await until(async () => (await new SqlWorkflowStorage().load(id))?.status === "waiting");
+    first.stop();
+
+    // A fresh engine only knows what is in the table
+    const second = new WorkflowEngine(new SqlWorkflowStorage());
+    define(second);
+    const stored = await second.getState(id);
+    expect(stored?.wakeUpAt).toBeInstanceOf(Date);
+
+    await second.signal(id, "paid", "card");
+    const state = await second.getState(id);
+    expect(state?.status).toBe("completed");
+    expect(state?.variables.result).toBe("sku-1 paid by card");
+    expect(reserved).toBe(1);
+    second.stop();
+  });
+
+  test("should resume workflows a crashed process left running, in one process only", async () => {
+    let charged = 0;
+    const define = (engine: WorkflowEngine, charge: () => Promise<string>) => {
+      engine.define("charge", async (ctx) => ctx.step("charge", charge));
+      engine.define("checkout", async (ctx) => `checkout: ${await ctx.child<string>("charge")}`);
+    };
+
+    // The child is mid-step when its process dies
+    const crashed = new WorkflowEngine(new SqlWorkflowStorage());
+    define(crashed, () => new Promise<string>(() => {}));
+    const id = await crashed.start("checkout");
+    await until(async () => (await new SqlWorkflowStorage().load(id))?.status === "waiting");
+    crashed.stop();
+    await execute("UPDATE workflows SET updated_at = updated_at - 120000 WHERE status = 'running'");
+
+    const survivors = [new WorkflowEngine(new SqlWorkflowStorage()), new WorkflowEngine(new SqlWorkflowStorage())];
+    for (const engine of survivors) define(engine, async () => `charged ${++charged}`);
+    await Promise.all(survivors.map(engine => engine.wakeDue()));
+
+    await until(async () => (await new SqlWorkflowStorage().load(id))?.status === "completed");
+    expect((await new SqlWorkflowStorage().load(id))?.variables.result).toBe("checkout: charged 1");
+    expect(charged).toBe(1);
+    survivors.forEach(engine => engine.stop());
+  });
+});